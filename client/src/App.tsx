@@ -12,8 +12,10 @@ import Goals from "@/pages/goals";
 import Tasks from "@/pages/tasks";
 import Calendar from "@/pages/calendar";
 import Financials from "@/pages/financials";
+import Reports from "@/pages/reports";
 import Insights from "@/pages/insights";
 import BusinessContext from "@/pages/business-context";
+import Inbox from "@/pages/inbox";
 import Header from "@/components/header";
 
 function Router() {
@@ -40,8 +42,10 @@ function Router() {
           <Route path="/tasks" component={Tasks} />
           <Route path="/calendar" component={Calendar} />
           <Route path="/financials" component={Financials} />
+          <Route path="/reports" component={Reports} />
           <Route path="/insights" component={Insights} />
           <Route path="/business-context" component={BusinessContext} />
+          <Route path="/inbox" component={Inbox} />
         </>
       )}
       <Route component={NotFound} />
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, ChevronDown, ChevronRight, Edit, Landmark, Plus, Scale, Trash2 } from "lucide-react";
+import { AccountRegisterEntry, AccountSummary, FinancialRecord } from "@shared/schema";
+import { ACCOUNT_TYPES } from "@shared/constants";
+import { formatMoney } from "@shared/currency";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import AccountModal from "@/components/modals/account-modal";
+import ReconcileAccountModal from "@/components/modals/reconcile-account-modal";
+
+// Register lines shown before the list is expanded
+const REGISTER_SHOWN = 10;
+
+export default function AccountBalances() {
+  const [showAccountModal, setShowAccountModal] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<AccountSummary | undefined>(undefined);
+  const [reconcilingAccount, setReconcilingAccount] = useState<AccountSummary | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Balances are recomputed whenever the records are refetched
+  const { dataUpdatedAt: recordsUpdatedAt } = useQuery<FinancialRecord[]>({
+    queryKey: ['/api/financial-records'],
+  });
+
+  const { data: accounts } = useQuery<AccountSummary[]>({
+    queryKey: ['/api/accounts', recordsUpdatedAt],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/accounts/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Account deleted",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openModal = (account?: AccountSummary) => {
+    setEditingAccount(account);
+    setShowAccountModal(true);
+  };
+
+  const archivedCount = accounts?.filter(account => account.archived).length || 0;
+  const visibleAccounts = accounts?.filter(account => showArchived || !account.archived) || [];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Landmark className="h-5 w-5 mr-2 text-blue-600" />
+            Accounts
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            {archivedCount > 0 && (
+              <Button size="sm" variant="ghost" onClick={() => setShowArchived(!showArchived)}>
+                {showArchived ? "Hide archived" : `Show ${archivedCount} archived`}
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => openModal()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Account
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {visibleAccounts.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No accounts yet. Add your bank accounts, cards and cash to see running balances and reconcile them against statements.
+          </p>
+        ) : (
+          visibleAccounts.map(account => (
+            <div key={account.id} className={cn("border border-gray-200 rounded-lg p-3", account.archived && "opacity-60")}>
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  className="flex items-center space-x-2 text-left"
+                  onClick={() => setExpandedId(expandedId === account.id ? null : account.id)}
+                >
+                  {expandedId === account.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  <span className="font-medium">{account.name}</span>
+                  <Badge variant="outline">{ACCOUNT_TYPES.find(type => type.value === account.type)?.label || account.type}</Badge>
+                  {account.archived && <Badge variant="secondary">Archived</Badge>}
+                </button>
+                <div className="flex items-center space-x-2">
+                  <div className="text-right">
+                    <p className={cn("font-bold", account.balance < 0 && "text-red-600")}>{formatMoney(account.balance, account.currency)}</p>
+                    <p className="text-xs text-gray-500">
+                      Cleared {formatMoney(account.clearedBalance, account.currency)}
+                      {account.unclearedCount > 0 && ` · ${account.unclearedCount} uncleared`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setReconcilingAccount(account)}
+                    disabled={account.unclearedCount === 0}
+                    title="Reconcile against a statement"
+                  >
+                    <Scale className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => openModal(account)}
+                    className="text-primary hover:text-blue-700"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(account.id)}
+                    disabled={deleteMutation.isPending}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {(account.reconciledAt || account.unconverted > 0) && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {account.reconciledAt && `Reconciled through ${format(new Date(account.reconciledAt), 'MMM d, yyyy')}`}
+                  {account.reconciledAt && account.unconverted > 0 && ' · '}
+                  {account.unconverted > 0 && (
+                    <span className="text-amber-700">
+                      {account.unconverted} record{account.unconverted === 1 ? '' : 's'} left out: no {account.currency} exchange rate
+                    </span>
+                  )}
+                </p>
+              )}
+              {expandedId === account.id && <AccountRegister account={account} recordsUpdatedAt={recordsUpdatedAt} />}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <AccountModal
+        account={editingAccount}
+        isOpen={showAccountModal}
+        onClose={() => setShowAccountModal(false)}
+      />
+
+      {reconcilingAccount && (
+        <ReconcileAccountModal
+          account={reconcilingAccount}
+          isOpen={!!reconcilingAccount}
+          onClose={() => setReconcilingAccount(null)}
+        />
+      )}
+    </Card>
+  );
+}
+
+// Newest records first with the balance after each
+function AccountRegister({ account, recordsUpdatedAt }: { account: AccountSummary; recordsUpdatedAt: number }) {
+  const [showAll, setShowAll] = useState(false);
+
+  const { data: register, isLoading } = useQuery<AccountRegisterEntry[]>({
+    queryKey: [`/api/accounts/${account.id}/register`, recordsUpdatedAt],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 mt-3">Loading register...</p>;
+  }
+  if (!register || register.length === 0) {
+    return <p className="text-sm text-gray-500 mt-3">No records in this account since {format(new Date(account.openingDate), 'MMM d, yyyy')}.</p>;
+  }
+
+  const newestFirst = register.slice().reverse();
+  const visible = showAll ? newestFirst : newestFirst.slice(0, REGISTER_SHOWN);
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-2">
+      <div className="grid grid-cols-12 gap-2 text-xs text-gray-500 pb-1">
+        <span className="col-span-2">Date</span>
+        <span className="col-span-5">Record</span>
+        <span className="col-span-2 text-right">Amount</span>
+        <span className="col-span-2 text-right">Balance</span>
+        <span className="col-span-1 text-center">Cleared</span>
+      </div>
+      {visible.map(entry => (
+        <div key={entry.record.id} className="grid grid-cols-12 gap-2 text-sm py-1 border-b border-gray-50">
+          <span className="col-span-2 text-gray-500">{format(new Date(entry.record.date), 'MMM d, yyyy')}</span>
+          <span className="col-span-5 truncate">
+            {entry.record.description || entry.record.category}
+            {entry.record.type === 'transfer' && <Badge variant="outline" className="ml-2">Transfer</Badge>}
+          </span>
+          <span className={cn("col-span-2 text-right", entry.amount === null ? "text-amber-700" : entry.amount >= 0 ? "text-green-600" : "text-red-600")}>
+            {entry.amount === null ? 'No rate' : `${entry.amount >= 0 ? '+' : ''}${formatMoney(entry.amount, account.currency)}`}
+          </span>
+          <span className="col-span-2 text-right font-medium">{formatMoney(entry.balance, account.currency)}</span>
+          <span className="col-span-1 flex justify-center">
+            {entry.cleared && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+          </span>
+        </div>
+      ))}
+      <div className="flex items-center justify-between text-xs text-gray-500 pt-1">
+        <span>Opening balance {formatMoney(account.openingBalance, account.currency)} on {format(new Date(account.openingDate), 'MMM d, yyyy')}</span>
+        {register.length > REGISTER_SHOWN && (
+          <Button variant="link" size="sm" className="px-0" onClick={() => setShowAll(!showAll)}>
+            {showAll ? "Show fewer" : `Show all ${register.length} records`}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Brain, TrendingUp, Target, Lightbulb, AlertCircle } from 'lucide-react';
+import { formatMoney } from '@shared/currency';
 
 interface BusinessInsights {
   insights: string[];
@@ -20,6 +21,7 @@ interface FinancialRecord {
   type: 'income' | 'expense' | 'investment';
   category: string;
   amount: number;
+  currency: string;
   description?: string;
   date: string;
 }
@@ -56,13 +58,6 @@ export default function AIInsightsDashboard() {
     enabled: !!selectedRecord,
   });
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount / 100);
-  };
-
   const getTypeColor = (type: string) => {
     switch (type) {
       case 'income': return 'bg-green-500';
@@ -191,7 +186,7 @@ export default function AIInsightsDashboard() {
                     >
                       <div className={`w-3 h-3 rounded-full ${getTypeColor(record.type)} mr-2`}></div>
                       <span className="flex-1 text-left">
-                        {record.description || record.category} - {formatCurrency(record.amount)}
+                        {record.description || record.category} - {formatMoney(record.amount, record.currency)}
                       </span>
                     </Button>
                   ))}
@@ -0,0 +1,184 @@
+import { useQuery, useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Undo2, History } from "lucide-react";
+import { AuditLogEntry } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
+import { apiRequest } from "@/lib/queryClient";
+import { ENTITY_QUERY_KEYS, formatDiffValue } from "./pending-changes-list";
+
+interface AuditHistoryListProps {
+  entityType?: string;
+  entityId?: number;
+  limit?: number;
+  showEntity?: boolean; // name the changed entity on each entry, for lists spanning several entities
+}
+
+const ACTOR_LABELS: Record<string, string> = {
+  user: "You",
+  chat: "Chat assistant",
+  correlation: "Correlation engine",
+  system: "Automatic",
+};
+
+const ACTOR_BADGES: Record<string, string> = {
+  user: "bg-gray-100 text-gray-700",
+  chat: "bg-purple-100 text-purple-800",
+  correlation: "bg-blue-100 text-blue-800",
+  system: "bg-green-100 text-green-800",
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+const HIDDEN_FIELDS = new Set(['id', 'userId', 'createdAt', 'updatedAt', 'baseAmount']);
+
+// Audit lists are keyed by URL with query parameters, so match on the path prefix
+export function invalidateAuditLog(queryClient: QueryClient) {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith('/api/audit-log'),
+  });
+}
+
+function getChangedFields(entry: AuditLogEntry) {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  return Object.keys({ ...before, ...after })
+    .filter(field => !HIDDEN_FIELDS.has(field))
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+function describeEntity(entry: AuditLogEntry): string {
+  const snapshot = entry.after || entry.before || {};
+  const label = entry.entityType.replace('_', ' ');
+  if (snapshot.title) return `${label} "${snapshot.title}"`;
+  if (entry.entityType === 'financial_record') {
+    return `${label} ${formatDiffValue('amount', snapshot.amount, snapshot.currency)} (${snapshot.category})`;
+  }
+  return `${label} #${entry.entityId}`;
+}
+
+export default function AuditHistoryList({ entityType, entityId, limit, showEntity }: AuditHistoryListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const baseCurrency = useBaseCurrency();
+  const params = new URLSearchParams();
+  if (entityType) params.set('entityType', entityType);
+  if (entityId !== undefined) params.set('entityId', String(entityId));
+  if (limit) params.set('limit', String(limit));
+  const url = `/api/audit-log${params.toString() ? `?${params}` : ''}`;
+
+  const { data: entries, isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: [url],
+    staleTime: 0, // history changes with every edit elsewhere in the app
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (entry: AuditLogEntry) => {
+      const response = await apiRequest('POST', `/api/audit-log/${entry.id}/revert`);
+      return response.json();
+    },
+    onSuccess: (_result, entry) => {
+      toast({
+        title: "Change reverted",
+        description: `${ACTION_LABELS[entry.action] || entry.action} ${describeEntity(entry)} was undone`,
+      });
+      const entityKey = ENTITY_QUERY_KEYS[entry.entityType];
+      if (entityKey) {
+        queryClient.invalidateQueries({ queryKey: [entityKey] });
+      }
+      if (entry.entityType === 'financial_record') {
+        queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/ai/financial-analysis'] });
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      invalidateAuditLog(queryClient);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not revert change",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (!entries || entries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-500">No changes recorded yet</p>
+      </div>
+    );
+  }
+
+  const revertedIds = new Set(entries.map(entry => entry.revertOfId).filter(id => id !== null));
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => {
+        const changes = entry.action === 'update' ? getChangedFields(entry) : [];
+        // Financial records keep their own currency; goal targets are in the base currency
+        const currency = (entry.after || entry.before)?.currency || baseCurrency;
+        return (
+          <div key={entry.id} className="border border-gray-200 rounded-lg p-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm">
+                    {entry.revertOfId ? 'Reverted' : ACTION_LABELS[entry.action] || entry.action}
+                    {showEntity && ` ${describeEntity(entry)}`}
+                  </span>
+                  <Badge variant="secondary" className={`text-xs ${ACTOR_BADGES[entry.actor] || ''}`}>
+                    {ACTOR_LABELS[entry.actor] || entry.actor}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                </p>
+              </div>
+              {revertedIds.has(entry.id) ? (
+                <Badge variant="outline" className="text-xs shrink-0">Reverted</Badge>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="shrink-0"
+                  onClick={() => revertMutation.mutate(entry)}
+                  disabled={revertMutation.isPending}
+                >
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Revert
+                </Button>
+              )}
+            </div>
+
+            {changes.length > 0 && (
+              <table className="w-full text-xs mt-3">
+                <tbody>
+                  {changes.map((change) => (
+                    <tr key={change.field} className="border-t border-gray-100">
+                      <td className="py-1 pr-2 font-medium text-gray-700">{change.field}</td>
+                      <td className="py-1 pr-2 text-gray-500 line-through">{formatDiffValue(change.field, change.before, currency)}</td>
+                      <td className="py-1 text-gray-900">{formatDiffValue(change.field, change.after, currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Edit, PiggyBank, Plus, Trash2, X } from "lucide-react";
+import { Budget, BudgetAlert, BudgetStatus, FinancialRecord } from "@shared/schema";
+import { formatMoney } from "@shared/currency";
+import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
+import { apiRequest } from "@/lib/queryClient";
+import BudgetModal from "@/components/modals/budget-modal";
+
+const STATUS_STYLES: Record<BudgetStatus["status"], { bar: string; text: string }> = {
+  under: { bar: "bg-green-500", text: "text-green-600" },
+  warning: { bar: "bg-amber-500", text: "text-amber-600" },
+  over: { bar: "bg-red-500", text: "text-red-600" },
+};
+
+export default function BudgetTracker() {
+  const [showBudgetModal, setShowBudgetModal] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | undefined>(undefined);
+  const { toast } = useToast();
+  const baseCurrency = useBaseCurrency();
+  const queryClient = useQueryClient();
+
+  // Spend is recomputed whenever the records are refetched
+  const { dataUpdatedAt: recordsUpdatedAt } = useQuery<FinancialRecord[]>({
+    queryKey: ['/api/financial-records'],
+  });
+
+  const { data: budgets } = useQuery<BudgetStatus[]>({
+    queryKey: ['/api/budgets', recordsUpdatedAt],
+  });
+
+  const { data: alerts } = useQuery<BudgetAlert[]>({
+    queryKey: ['/api/budget-alerts', recordsUpdatedAt],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/budgets/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Budget deleted",
+        description: "Its alerts have been removed as well",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/budget-alerts'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('POST', `/api/budget-alerts/${id}/acknowledge`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/budget-alerts'] });
+    },
+  });
+
+  const formatAmount = (amount: number) => formatMoney(amount, baseCurrency);
+
+  const budgetCategory = (budgetId: number) => budgets?.find(budget => budget.id === budgetId)?.category || "Budget";
+
+  const openModal = (budget?: Budget) => {
+    setEditingBudget(budget);
+    setShowBudgetModal(true);
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <PiggyBank className="h-5 w-5 mr-2 text-blue-600" />
+            Budgets
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => openModal()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Budget
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {alerts && alerts.length > 0 && (
+          <div className="space-y-2">
+            {alerts.map(alert => (
+              <div key={alert.id} className="flex items-center justify-between border border-amber-300 bg-amber-50 rounded-lg p-3">
+                <div className="flex items-start space-x-2">
+                  <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium">
+                      {budgetCategory(alert.budgetId)} {alert.threshold >= 100 ? `passed ${alert.threshold}%` : `reached ${alert.threshold}%`} of its budget
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {formatAmount(alert.spent)} of {formatAmount(alert.budgetAmount)} · {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => acknowledgeMutation.mutate(alert.id)}
+                  disabled={acknowledgeMutation.isPending}
+                  title="Dismiss"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!budgets || budgets.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No budgets yet. Add a monthly or quarterly budget for an expense category to track spending against it.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {budgets.map(budget => {
+              const style = STATUS_STYLES[budget.status];
+              return (
+                <div key={budget.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">{budget.category}</span>
+                      <Badge variant="outline">{budget.periodLabel}</Badge>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm">
+                        {formatAmount(budget.spent)} of {formatAmount(budget.amount)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openModal(budget)}
+                        className="text-primary hover:text-blue-700"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(budget.id)}
+                        disabled={deleteMutation.isPending}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded-full mt-2 overflow-hidden">
+                    <div className={cn("h-full rounded-full", style.bar)} style={{ width: `${Math.min(100, budget.percentUsed)}%` }}></div>
+                  </div>
+                  <div className="flex items-center justify-between mt-1 text-xs">
+                    <span className={style.text}>{budget.percentUsed}% used</span>
+                    <span className={style.text}>
+                      {budget.variance >= 0 ? `${formatAmount(budget.variance)} left` : `${formatAmount(-budget.variance)} over`}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <BudgetModal
+        budget={editingBudget}
+        isOpen={showBudgetModal}
+        onClose={() => setShowBudgetModal(false)}
+      />
+    </Card>
+  );
+}
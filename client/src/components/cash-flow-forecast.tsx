@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { LineChart as LineChartIcon, Target } from "lucide-react";
+import { CashFlowForecast as CashFlowForecastResult, FinancialRecord, ForecastBand } from "@shared/schema";
+import { formatMoney } from "@shared/currency";
+import { cn } from "@/lib/utils";
+import { format, parseISO } from "date-fns";
+
+const HORIZONS = [3, 6, 12];
+// Months of actuals shown before the forecast starts
+const HISTORY_SHOWN = 6;
+
+const chartConfig = {
+  revenue: { label: "Revenue", color: "#16a34a" },
+  expenses: { label: "Expenses", color: "#dc2626" },
+  net: { label: "Net", color: "#2563eb" },
+  netRange: { label: "Net range", color: "#93c5fd" },
+} satisfies ChartConfig;
+
+export default function CashFlowForecast() {
+  const [months, setMonths] = useState(6);
+
+  // The forecast is refetched whenever the records are, so new or edited records show up in it
+  const { dataUpdatedAt: recordsUpdatedAt } = useQuery<FinancialRecord[]>({
+    queryKey: ['/api/financial-records'],
+  });
+
+  const { data: forecast, isLoading } = useQuery<CashFlowForecastResult>({
+    queryKey: [`/api/financial-forecast?months=${months}`, recordsUpdatedAt],
+  });
+
+  const formatAmount = (amount: number) => formatMoney(amount, forecast?.currency, { wholeUnits: true });
+
+  const formatBand = (value: ForecastBand) => `${formatAmount(value.low)} – ${formatAmount(value.high)}`;
+  const monthLabel = (month: string) => format(parseISO(`${month}-01`), 'MMM yy');
+
+  const chartData = forecast ? [
+    ...forecast.history.slice(-HISTORY_SHOWN).map(month => ({
+      month: monthLabel(month.month),
+      revenue: month.revenue / 100,
+      expenses: month.expenses / 100,
+      net: month.net / 100,
+    })),
+    ...forecast.forecast.map(month => ({
+      month: monthLabel(month.month),
+      revenue: month.revenue.expected / 100,
+      expenses: month.expenses.expected / 100,
+      net: month.net.expected / 100,
+      netRange: [month.net.low / 100, month.net.high / 100],
+    })),
+  ] : [];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <LineChartIcon className="h-5 w-5 mr-2 text-blue-600" />
+            Cash-Flow Forecast
+          </CardTitle>
+          <div className="flex space-x-1">
+            {HORIZONS.map(horizon => (
+              <Button
+                key={horizon}
+                size="sm"
+                variant={months === horizon ? "default" : "outline"}
+                onClick={() => setMonths(horizon)}
+              >
+                {horizon} months
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !forecast ? (
+          <div className="animate-pulse h-64 bg-gray-100 rounded-lg"></div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-sm text-gray-600">Projected Revenue</p>
+                <p className="text-lg font-semibold text-green-600">{formatAmount(forecast.totals.revenue.expected)}</p>
+                <p className="text-xs text-gray-500">{formatBand(forecast.totals.revenue)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Projected Expenses</p>
+                <p className="text-lg font-semibold text-red-600">{formatAmount(forecast.totals.expenses.expected)}</p>
+                <p className="text-xs text-gray-500">{formatBand(forecast.totals.expenses)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Projected Net Cash</p>
+                <p className={cn("text-lg font-semibold", forecast.totals.net.expected >= 0 ? "text-green-600" : "text-red-600")}>
+                  {formatAmount(forecast.totals.net.expected)}
+                </p>
+                <p className="text-xs text-gray-500">{formatBand(forecast.totals.net)}</p>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-72 w-full">
+              <ComposedChart data={chartData} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={70} tickFormatter={(value) => formatAmount(value * 100)} />
+                <ChartTooltip
+                  content={<ChartTooltipContent formatter={(value, name) => (
+                    <span>
+                      {chartConfig[name as keyof typeof chartConfig]?.label || name}:{" "}
+                      {Array.isArray(value)
+                        ? `${formatAmount(Number(value[0]) * 100)} – ${formatAmount(Number(value[1]) * 100)}`
+                        : formatAmount(Number(value) * 100)}
+                    </span>
+                  )} />}
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Area dataKey="netRange" type="monotone" stroke="none" fill="var(--color-netRange)" fillOpacity={0.4} />
+                <Line dataKey="revenue" type="monotone" stroke="var(--color-revenue)" strokeWidth={2} dot={false} />
+                <Line dataKey="expenses" type="monotone" stroke="var(--color-expenses)" strokeWidth={2} dot={false} />
+                <Line dataKey="net" type="monotone" stroke="var(--color-net)" strokeWidth={2} dot={false} />
+                {forecast.history.length > 0 && (
+                  <ReferenceLine x={monthLabel(forecast.forecast[0].month)} stroke="#9ca3af" strokeDasharray="4 4" label={{ value: "Forecast", position: "insideTopLeft", fontSize: 12 }} />
+                )}
+              </ComposedChart>
+            </ChartContainer>
+
+            <p className="text-xs text-gray-500">
+              {forecast.historyMonths > 0
+                ? `Based on ${forecast.historyMonths} month${forecast.historyMonths === 1 ? '' : 's'} of records`
+                : 'No history yet; only scheduled recurring records are projected'}
+              {forecast.trend && ' with trend'}
+              {forecast.seasonality && ' and seasonality'}
+              , plus scheduled recurring records. Ranges cover {Math.round(forecast.confidence * 100)}% of likely outcomes.
+            </p>
+
+            {forecast.goals.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+                  <Target className="h-4 w-4 mr-1" />
+                  Goal Outlook
+                </h4>
+                <div className="space-y-2">
+                  {forecast.goals.map(goal => (
+                    <div key={goal.goalId} className="flex items-center justify-between border border-gray-200 rounded-lg p-3">
+                      <div>
+                        <p className="font-medium">{goal.title}</p>
+                        <p className="text-xs text-gray-500">
+                          {goal.windowLabel}{goal.partial && ` · projected through ${format(parseISO(`${forecast.forecast[forecast.forecast.length - 1].month}-01`), 'MMM yyyy')}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <span className="text-sm">
+                          {formatAmount(goal.projected)} of {formatAmount(goal.targetAmount)}
+                        </span>
+                        {goal.onTrack ? (
+                          <Badge variant="secondary" className="bg-green-100 text-green-800">On track</Badge>
+                        ) : (
+                          <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+                            {goal.type === 'expense' ? 'Over budget' : 'Behind'}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
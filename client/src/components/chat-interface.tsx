@@ -6,24 +6,50 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Send, Bot, User, Upload, FileText, ChevronDown, Paperclip } from "lucide-react";
+import { Send, Bot, User, Upload, FileText, ChevronDown, Paperclip, Loader2 } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Message, Conversation, Document, AiInsight } from "@shared/schema";
+import { postEventStream } from "@/lib/eventStream";
+import { Message, Conversation, Document, AiInsight, ChatToolEvent } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 import FileUpload from "./file-upload";
-import ReactMarkdown from 'react-markdown';
+import PendingChangesList, { invalidatePendingChanges } from "./pending-changes-list";
+import ReactMarkdown, { type Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
 interface ChatInterfaceProps {
   conversationId?: number;
 }
 
+// Assistant reply while it is still being streamed
+interface StreamingReply {
+  text: string;
+  status: string | null; // e.g. "Updating goal…" while a tool call runs
+}
+
+const markdownComponents: Components = {
+  h3: ({ children }) => <h3 className="text-base font-semibold mt-4 mb-2 first:mt-0">{children}</h3>,
+  h4: ({ children }) => <h4 className="text-sm font-semibold mt-3 mb-2 first:mt-0">{children}</h4>,
+  p: ({ children }) => <p className="mb-3 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="mb-3 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="mb-3 space-y-1">{children}</ol>,
+  li: ({ children }) => <li className="ml-4">{children}</li>,
+  strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+  em: ({ children }) => <em className="italic">{children}</em>,
+  code: ({ children }) => <code className="bg-gray-200 px-1 py-0.5 rounded text-xs">{children}</code>,
+  pre: ({ children }) => <pre className="bg-gray-200 p-2 rounded mt-2 mb-2 text-xs overflow-x-auto">{children}</pre>,
+};
+
+function getToolStatus(event: ChatToolEvent): string | null {
+  return event.status === 'running' ? `${event.label}…` : null;
+}
+
 export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
   const [message, setMessage] = useState("");
   const [showFileUpload, setShowFileUpload] = useState(false);
   const [currentConversationId, setCurrentConversationId] = useState<number | null>(conversationId || null);
+  const [streamingReply, setStreamingReply] = useState<StreamingReply | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -55,17 +81,41 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
 
   const sendMessageMutation = useMutation({
     mutationFn: async (data: { content: string; conversationId: number }) => {
-      const response = await apiRequest('POST', '/api/messages', {
+      const messagesKey = [`/api/messages/${data.conversationId}`];
+      let streamError: string | null = null;
+      setStreamingReply({ text: "", status: null });
+
+      await postEventStream('/api/messages/stream', {
         content: data.content,
         conversationId: data.conversationId,
         role: 'user',
+      }, ({ event, data: payload }) => {
+        switch (event) {
+          case 'user_message':
+            setMessage("");
+            queryClient.invalidateQueries({ queryKey: messagesKey });
+            break;
+          case 'token':
+            setStreamingReply(reply => reply && { ...reply, text: reply.text + payload.text });
+            break;
+          case 'tool':
+            setStreamingReply(reply => reply && { ...reply, status: getToolStatus(payload) });
+            break;
+          case 'error':
+            streamError = payload.message;
+            break;
+        }
       });
-      return response.json();
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
     },
-    onSuccess: () => {
-      setMessage("");
-      queryClient.invalidateQueries({ queryKey: [`/api/messages/${currentConversationId}`] });
+    onSettled: async (_data, _error, variables) => {
+      await queryClient.invalidateQueries({ queryKey: [`/api/messages/${variables.conversationId}`] });
+      setStreamingReply(null);
       queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+      invalidatePendingChanges(queryClient);
     },
     onError: (error) => {
       toast({
@@ -103,7 +153,7 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingReply]);
 
   const recentInsights = insights?.slice(0, 3) || [];
 
@@ -163,18 +213,7 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
                         <div className="text-sm prose prose-sm max-w-none">
                           <ReactMarkdown 
                             remarkPlugins={[remarkGfm]}
-                            components={{
-                              h3: ({ children }) => <h3 className="text-base font-semibold mt-4 mb-2 first:mt-0">{children}</h3>,
-                              h4: ({ children }) => <h4 className="text-sm font-semibold mt-3 mb-2 first:mt-0">{children}</h4>,
-                              p: ({ children }) => <p className="mb-3 last:mb-0">{children}</p>,
-                              ul: ({ children }) => <ul className="mb-3 space-y-1">{children}</ul>,
-                              ol: ({ children }) => <ol className="mb-3 space-y-1">{children}</ol>,
-                              li: ({ children }) => <li className="ml-4">{children}</li>,
-                              strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
-                              em: ({ children }) => <em className="italic">{children}</em>,
-                              code: ({ children }) => <code className="bg-gray-200 px-1 py-0.5 rounded text-xs">{children}</code>,
-                              pre: ({ children }) => <pre className="bg-gray-200 p-2 rounded mt-2 mb-2 text-xs overflow-x-auto">{children}</pre>,
-                            }}
+                            components={markdownComponents}
                           >
                             {msg.content}
                           </ReactMarkdown>
@@ -187,6 +226,37 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
                   </div>
                 </div>
               ))}
+              {streamingReply && (
+                <div className="flex justify-start">
+                  <div className="flex space-x-2 max-w-[80%]">
+                    <Avatar className="w-8 h-8">
+                      <AvatarFallback>
+                        <Bot className="w-4 h-4" />
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="p-3 rounded-lg bg-gray-100 text-gray-900">
+                      {streamingReply.text && (
+                        <div className="text-sm prose prose-sm max-w-none">
+                          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                            {streamingReply.text}
+                          </ReactMarkdown>
+                        </div>
+                      )}
+                      {(streamingReply.status || !streamingReply.text) && (
+                        <p className="text-xs text-gray-500 flex items-center mt-1">
+                          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                          {streamingReply.status || 'Thinking…'}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+              {currentConversationId && (
+                <div className="ml-10 max-w-[80%]">
+                  <PendingChangesList conversationId={currentConversationId} />
+                </div>
+              )}
               <div ref={messagesEndRef} />
             </div>
           )}
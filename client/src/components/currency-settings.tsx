@@ -0,0 +1,280 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Coins, Plus, Trash2, Upload } from "lucide-react";
+import { ExchangeRate } from "@shared/schema";
+import { CURRENCIES } from "@shared/currency";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
+import { apiRequest } from "@/lib/queryClient";
+
+// Rates shown before the list is expanded
+const RATES_SHOWN = 8;
+
+export default function CurrencySettings() {
+  const baseCurrency = useBaseCurrency();
+  const [fromCurrency, setFromCurrency] = useState("EUR");
+  const [toCurrency, setToCurrency] = useState("");
+  const [rate, setRate] = useState("");
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [showAll, setShowAll] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rates } = useQuery<ExchangeRate[]>({
+    queryKey: ['/api/exchange-rates'],
+  });
+
+  // Base amounts, totals and goal progress all change when the base currency or a rate does
+  const refreshConvertedData = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/exchange-rates'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/financial-records'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/ai/financial-analysis'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+  };
+
+  const convertedDescription = (converted: number) =>
+    converted > 0 ? `${converted} record${converted === 1 ? '' : 's'} re-converted` : "No records needed converting";
+
+  const baseCurrencyMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const response = await apiRequest('PATCH', '/api/user/base-currency', { baseCurrency: currency });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: `Totals now in ${result.baseCurrency}`,
+        description: convertedDescription(result.converted),
+      });
+      refreshConvertedData();
+    },
+    onError: (error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addRateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/exchange-rates', {
+        fromCurrency,
+        toCurrency: toCurrency || baseCurrency,
+        rate: parseFloat(rate),
+        date,
+      });
+      return response.json();
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: "Exchange rate saved",
+        description: convertedDescription(saved.converted),
+      });
+      setRate("");
+      refreshConvertedData();
+    },
+    onError: (error) => {
+      toast({
+        title: "Save failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await apiRequest('POST', '/api/exchange-rates/import', formData);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: `Imported ${result.imported} exchange rate${result.imported === 1 ? '' : 's'}`,
+        description: result.errors.length > 0
+          ? `${result.errors.length} row${result.errors.length === 1 ? '' : 's'} skipped, e.g. ${result.errors[0]}`
+          : convertedDescription(result.converted),
+      });
+      refreshConvertedData();
+    },
+    onError: (error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/exchange-rates/${id}`);
+    },
+    onSuccess: () => {
+      refreshConvertedData();
+    },
+  });
+
+  const effectiveTo = toCurrency || baseCurrency;
+  const isRateValid = parseFloat(rate) > 0 && date !== "" && fromCurrency !== effectiveTo;
+  const visibleRates = showAll ? rates : rates?.slice(0, RATES_SHOWN);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Coins className="h-5 w-5 mr-2 text-blue-600" />
+            Currencies
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importMutation.mutate(file);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => fileInput.current?.click()}
+              disabled={importMutation.isPending}
+              title="CSV with date, currency (or from/to) and rate columns"
+            >
+              <Upload className="h-4 w-4 mr-1" />
+              {importMutation.isPending ? "Importing..." : "Import Rates"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center space-x-3">
+          <Label htmlFor="base-currency" className="whitespace-nowrap">Base currency</Label>
+          <Select
+            value={baseCurrency}
+            onValueChange={(value) => baseCurrencyMutation.mutate(value)}
+            disabled={baseCurrencyMutation.isPending}
+          >
+            <SelectTrigger id="base-currency" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map(currency => (
+                <SelectItem key={currency.code} value={currency.code}>
+                  {currency.code} - {currency.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">Totals, budgets, goal targets and forecasts use this currency</p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+          <div>
+            <Label htmlFor="rate-from">1 unit of</Label>
+            <Select value={fromCurrency} onValueChange={setFromCurrency}>
+              <SelectTrigger id="rate-from">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map(currency => (
+                  <SelectItem key={currency.code} value={currency.code}>{currency.code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="rate-value">equals</Label>
+            <Input
+              id="rate-value"
+              type="number"
+              step="0.0001"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="1.0850"
+            />
+          </div>
+          <div>
+            <Label htmlFor="rate-to">units of</Label>
+            <Select value={effectiveTo} onValueChange={setToCurrency}>
+              <SelectTrigger id="rate-to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map(currency => (
+                  <SelectItem key={currency.code} value={currency.code}>{currency.code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="rate-date">from</Label>
+            <Input
+              id="rate-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+          <Button onClick={() => addRateMutation.mutate()} disabled={!isRateValid || addRateMutation.isPending}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rate
+          </Button>
+        </div>
+
+        {!rates || rates.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No exchange rates yet. Records in currencies other than {baseCurrency} are left out of totals until a rate covers them.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {visibleRates?.map(exchangeRate => (
+              <div key={exchangeRate.id} className="flex items-center justify-between text-sm border-b border-gray-100 py-1">
+                <span>
+                  <span className="text-gray-500 mr-3">{format(new Date(exchangeRate.date), 'MMM d, yyyy')}</span>
+                  1 {exchangeRate.fromCurrency} = {exchangeRate.rate.toLocaleString('en-US', { maximumFractionDigits: 6 })} {exchangeRate.toCurrency}
+                </span>
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline">{exchangeRate.source === 'import' ? 'Imported' : 'Manual'}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteRateMutation.mutate(exchangeRate.id)}
+                    disabled={deleteRateMutation.isPending}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {rates.length > RATES_SHOWN && (
+              <Button variant="link" size="sm" className="px-0" onClick={() => setShowAll(!showAll)}>
+                {showAll ? "Show fewer" : `Show all ${rates.length} rates`}
+              </Button>
+            )}
+            <p className="text-xs text-gray-500 pt-1">
+              Each record uses the latest rate on or before its date. Rates entered the other way round, or via a third currency, are used too.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
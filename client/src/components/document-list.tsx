@@ -1,11 +1,20 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { FileText, File, FileType, ChevronRight, Trash2 } from "lucide-react";
-import { Document } from "@shared/schema";
+import { Progress } from "@/components/ui/progress";
+import { FileText, File, FileType, FileSpreadsheet, FileImage, ChevronRight, Trash2, Upload, AlertTriangle, Receipt, RotateCw, Eye } from "lucide-react";
+import { Document, DocumentPage, Job } from "@shared/schema";
 import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { formatDistanceToNow } from "date-fns";
+import ImportFinancialRecordsModal from "@/components/modals/import-financial-records-modal";
+import DocumentDetailsModal from "@/components/modals/document-details-modal";
+import DocumentPreviewModal from "@/components/modals/document-preview-modal";
+
+const PROCESSING_JOBS_KEY = '/api/jobs?type=process_document&limit=100';
 
 interface DocumentListProps {
   title?: string;
@@ -14,8 +23,49 @@ interface DocumentListProps {
 }
 
 export default function DocumentList({ title = "Recent Documents", showViewAll = true, limit }: DocumentListProps) {
+  const [importTable, setImportTable] = useState<{ documentId: number; tableIndex: number; label: string } | null>(null);
+  const [selectedDocumentId, setSelectedDocumentId] = useState<number | null>(null);
+  const [previewDocument, setPreviewDocument] = useState<Document | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Both lists are polled while any document is waiting for or going through processing
   const { data: documents, isLoading } = useQuery<Document[]>({
     queryKey: ['/api/documents'],
+    refetchInterval: (query): number | false =>
+      query.state.data?.some(doc => doc.status === 'pending' || doc.status === 'processing') || hasActiveJobs ? 2000 : false,
+  });
+  const hasActiveDocuments = !!documents?.some(doc => doc.status === 'pending' || doc.status === 'processing');
+  const { data: jobs } = useQuery<Job[]>({
+    queryKey: [PROCESSING_JOBS_KEY],
+    refetchInterval: (query): number | false =>
+      hasActiveDocuments || query.state.data?.some(job => job.status === 'queued' || job.status === 'running') ? 2000 : false,
+  });
+  const hasActiveJobs = !!jobs?.some(job => job.status === 'queued' || job.status === 'running');
+
+  const retryMutation = useMutation({
+    mutationFn: async (documentId: number) => {
+      const response = await apiRequest('POST', `/api/documents/${documentId}/retry`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: [PROCESSING_JOBS_KEY] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Retry failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Jobs come newest first, so the first one seen for a document is its latest
+  const latestJobs = new Map<number, Job>();
+  jobs?.forEach(job => {
+    if (job.documentId && !latestJobs.has(job.documentId)) {
+      latestJobs.set(job.documentId, job);
+    }
   });
 
   const getFileIcon = (mimeType: string) => {
@@ -24,6 +74,13 @@ export default function DocumentList({ title = "Recent Documents", showViewAll =
         return <File className="text-red-600" />;
       case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
         return <FileType className="text-blue-600" />;
+      case 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+      case 'application/vnd.ms-excel':
+      case 'text/csv':
+        return <FileSpreadsheet className="text-emerald-600" />;
+      case 'image/png':
+      case 'image/jpeg':
+        return <FileImage className="text-purple-600" />;
       default:
         return <FileText className="text-green-600" />;
     }
@@ -35,6 +92,8 @@ export default function DocumentList({ title = "Recent Documents", showViewAll =
         return 'bg-success';
       case 'processing':
         return 'bg-warning';
+      case 'warning':
+        return 'bg-orange-500';
       case 'error':
         return 'bg-error';
       default:
@@ -48,6 +107,8 @@ export default function DocumentList({ title = "Recent Documents", showViewAll =
         return 'Processed';
       case 'processing':
         return 'Processing';
+      case 'warning':
+        return 'Needs Review';
       case 'error':
         return 'Error';
       default:
@@ -55,6 +116,24 @@ export default function DocumentList({ title = "Recent Documents", showViewAll =
     }
   };
 
+  const describeJob = (job: Job) => {
+    if (job.status === 'running') {
+      return `${job.step || 'Processing'}...${job.attempts > 1 ? ` (attempt ${job.attempts} of ${job.maxAttempts})` : ''}`;
+    }
+    if (job.lastError) {
+      const runAt = new Date(job.runAt);
+      return `Retrying ${runAt > new Date() ? formatDistanceToNow(runAt, { addSuffix: true }) : 'shortly'} after an error: ${job.lastError}`;
+    }
+    return 'Waiting to be processed';
+  };
+
+  // Average confidence over the pages read with OCR
+  const formatOcrConfidence = (pages: DocumentPage[]) => {
+    const ocrPages = pages.filter(page => page.method === 'ocr');
+    const average = ocrPages.reduce((sum, page) => sum + (page.confidence ?? 0), 0) / ocrPages.length;
+    return `${Math.round(average)}% confidence`;
+  };
+
   if (isLoading) {
     return (
       <Card>
@@ -79,6 +158,7 @@ export default function DocumentList({ title = "Recent Documents", showViewAll =
   }
 
   const displayDocuments = limit ? documents?.slice(0, limit) : documents;
+  const selectedDocument = documents?.find(doc => doc.id === selectedDocumentId);
 
   return (
     <Card>
@@ -107,19 +187,95 @@ export default function DocumentList({ title = "Recent Documents", showViewAll =
               <div
                 key={doc.id}
                 className="flex items-center justify-between p-3 hover:bg-gray-50 rounded-lg cursor-pointer"
+                onClick={() => setSelectedDocumentId(doc.id)}
               >
                 <div className="flex items-center">
                   <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center mr-3">
                     {getFileIcon(doc.mimeType)}
                   </div>
                   <div>
-                    <h3 className="font-medium text-gray-900">{doc.originalName}</h3>
+                    <h3 className="font-medium text-gray-900">
+                      {doc.originalName}
+                      {doc.version > 1 && <Badge variant="outline" className="ml-2">v{doc.version}</Badge>}
+                    </h3>
                     <p className="text-sm text-gray-500">
                       Uploaded {formatDistanceToNow(new Date(doc.uploadedAt), { addSuffix: true })}
+                      {doc.tables && doc.tables.length > 0 && ` · ${doc.tables.length} ${doc.tables.length === 1 ? 'table' : 'tables'}`}
+                      {doc.pages?.some(page => page.method === 'ocr') && ` · OCR ${formatOcrConfidence(doc.pages)}`}
                     </p>
+                    {doc.warning && (
+                      <p className="text-xs text-orange-600 flex items-center mt-1">
+                        <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                        {doc.warning}
+                      </p>
+                    )}
+                    {(doc.status === 'pending' || doc.status === 'processing') && latestJobs.get(doc.id) && (
+                      <div className="mt-1 w-64">
+                        <Progress value={latestJobs.get(doc.id)!.progress} className="h-1.5" />
+                        <p className="text-xs text-gray-500 mt-1">{describeJob(latestJobs.get(doc.id)!)}</p>
+                      </div>
+                    )}
+                    {doc.status === 'error' && latestJobs.get(doc.id)?.lastError && (
+                      <p className="text-xs text-red-600 flex items-center mt-1">
+                        <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                        {latestJobs.get(doc.id)!.lastError}
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
+                  {doc.tables?.map((table, tableIndex) => table.financial && (
+                    <Button
+                      key={tableIndex}
+                      variant="outline"
+                      size="sm"
+                      title={`Import ${table.rowCount} rows from "${table.sheet}" as financial records`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setImportTable({
+                          documentId: doc.id,
+                          tableIndex,
+                          label: `${doc.originalName} (${table.sheet})`,
+                        });
+                      }}
+                    >
+                      <Upload className="h-4 w-4 mr-1" />
+                      Import {table.sheet}
+                    </Button>
+                  ))}
+                  {doc.status === 'error' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={retryMutation.isPending}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        retryMutation.mutate(doc.id);
+                      }}
+                    >
+                      <RotateCw className="h-4 w-4 mr-1" />
+                      Retry
+                    </Button>
+                  )}
+                  {doc.storageKey && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Preview the original file"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setPreviewDocument(doc);
+                      }}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {doc.extraction && (
+                    <Badge variant="outline" title={`Extracted ${doc.extraction.documentType}; open to review its draft record`}>
+                      <Receipt className="h-3 w-3 mr-1" />
+                      {doc.extraction.documentType.charAt(0).toUpperCase() + doc.extraction.documentType.slice(1)}
+                    </Badge>
+                  )}
                   <Badge 
                     className={cn(
                       "status-badge text-white",
@@ -137,6 +293,30 @@ export default function DocumentList({ title = "Recent Documents", showViewAll =
           </div>
         )}
       </CardContent>
+
+      {importTable && (
+        <ImportFinancialRecordsModal
+          isOpen={true}
+          onClose={() => setImportTable(null)}
+          documentTable={importTable}
+        />
+      )}
+
+      {previewDocument && (
+        <DocumentPreviewModal
+          document={previewDocument}
+          isOpen={true}
+          onClose={() => setPreviewDocument(null)}
+        />
+      )}
+
+      {selectedDocument && (
+        <DocumentDetailsModal
+          document={selectedDocument}
+          isOpen={true}
+          onClose={() => setSelectedDocumentId(null)}
+        />
+      )}
     </Card>
   );
 }
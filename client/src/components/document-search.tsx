@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Search, FileText } from "lucide-react";
+import { DocumentSearchResponse } from "@shared/schema";
+
+export default function DocumentSearch() {
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  const { data, isFetching } = useQuery<DocumentSearchResponse>({
+    queryKey: [`/api/documents/search?q=${encodeURIComponent(query)}`],
+    enabled: query.length > 0,
+    staleTime: 0,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(input.trim());
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h2 className="text-lg font-semibold flex items-center mb-4">
+          <Search className="text-primary mr-2" />
+          Search Documents
+        </h2>
+
+        <form onSubmit={handleSubmit} className="flex space-x-2">
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="e.g. payment terms in the supplier contract"
+          />
+          <Button type="submit" disabled={!input.trim() || isFetching}>
+            {isFetching ? "Searching..." : "Search"}
+          </Button>
+        </form>
+
+        {query && data && (
+          <div className="mt-4 space-y-3">
+            {data.results.length === 0 ? (
+              <p className="text-sm text-gray-500">No passages match "{query}".</p>
+            ) : (
+              data.results.map((result) => (
+                <div key={`${result.documentId}-${result.passage}`} className="border rounded-lg p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-gray-900 flex items-center">
+                      <FileText className="h-4 w-4 text-gray-500 mr-1" />
+                      {result.filename}
+                    </span>
+                    <Badge variant="outline">Passage {result.passage}</Badge>
+                  </div>
+                  <p className="text-sm text-gray-700 whitespace-pre-line line-clamp-6">{result.content}</p>
+                </div>
+              ))
+            )}
+            {data.method === 'lexical' && data.results.length > 0 && (
+              <p className="text-xs text-gray-400">Keyword matches. Configure an embedding model for semantic search.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
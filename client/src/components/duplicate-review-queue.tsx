@@ -0,0 +1,142 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Copy, Merge, X } from "lucide-react";
+import { FinancialRecord, FinancialRecordDuplicate } from "@shared/schema";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMoney } from "@shared/currency";
+
+type DuplicateWithRecords = FinancialRecordDuplicate & {
+  record: FinancialRecord;
+  duplicateOf: FinancialRecord;
+};
+
+export default function DuplicateReviewQueue() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: duplicates } = useQuery<DuplicateWithRecords[]>({
+    queryKey: ['/api/financial-records/duplicates'],
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ id, keep }: { id: number; keep: "original" | "duplicate" }) => {
+      await apiRequest('POST', `/api/financial-records/duplicates/${id}/merge`, { keep });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Records merged",
+        description: "The duplicate record has been removed",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/financial-records'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/financial-records/duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/financial-analysis'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Merge failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('POST', `/api/financial-records/duplicates/${id}/dismiss`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/financial-records/duplicates'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Dismiss failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!duplicates || duplicates.length === 0) {
+    return null;
+  }
+
+  const renderRecord = (record: FinancialRecord, label: string) => (
+    <div className="flex-1 border border-gray-200 rounded-lg p-3 bg-white">
+      <p className="text-xs text-gray-500 mb-1">{label}</p>
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{record.category}</span>
+        <span className="font-bold">{formatMoney(record.amount, record.currency)}</span>
+      </div>
+      {record.description && (
+        <p className="text-sm text-gray-600 mt-1">{record.description}</p>
+      )}
+      <p className="text-xs text-gray-500 mt-1">
+        {format(new Date(record.date), 'MMM d, yyyy')} · {record.type}
+      </p>
+    </div>
+  );
+
+  const isBusy = mergeMutation.isPending || dismissMutation.isPending;
+
+  return (
+    <Card className="mb-6 border-amber-300 bg-amber-50">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Copy className="h-5 w-5 mr-2 text-amber-600" />
+          Possible Duplicates ({duplicates.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {duplicates.map((duplicate) => (
+          <div key={duplicate.id} className="space-y-2">
+            <div className="flex flex-col md:flex-row gap-3">
+              {renderRecord(duplicate.duplicateOf, "Existing record")}
+              {renderRecord(duplicate.record, "Newer record")}
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-1">
+                <Badge variant="secondary" className="bg-amber-100 text-amber-800">{duplicate.score}% match</Badge>
+                {duplicate.reasons?.map(reason => (
+                  <Badge key={reason} variant="outline">{reason}</Badge>
+                ))}
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  size="sm"
+                  onClick={() => mergeMutation.mutate({ id: duplicate.id, keep: "original" })}
+                  disabled={isBusy}
+                >
+                  <Merge className="h-4 w-4 mr-1" />
+                  Keep existing
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => mergeMutation.mutate({ id: duplicate.id, keep: "duplicate" })}
+                  disabled={isBusy}
+                >
+                  Keep newer
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => dismissMutation.mutate(duplicate.id)}
+                  disabled={isBusy}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Not a duplicate
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
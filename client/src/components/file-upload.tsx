@@ -76,13 +76,16 @@ export default function FileUpload() {
   };
 
   const handleFileUpload = (file: File) => {
-    const allowedTypes = ['application/pdf', 'text/plain', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+    const allowedTypes = ['application/pdf', 'text/plain', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'image/png', 'image/jpeg'];
+    // Spreadsheet MIME types vary by browser and OS, so those are matched by extension
+    const spreadsheetExtensions = ['.xlsx', '.xls', '.csv'];
     const maxSize = 10 * 1024 * 1024; // 10MB
 
-    if (!allowedTypes.includes(file.type)) {
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    if (!allowedTypes.includes(file.type) && !spreadsheetExtensions.includes(extension)) {
       toast({
         title: "Invalid file type",
-        description: "Only PDF, TXT, and DOCX files are allowed",
+        description: "Only PDF, TXT, DOCX, XLSX, XLS, CSV, PNG and JPEG files are allowed",
         variant: "destructive",
       });
       return;
@@ -122,7 +125,7 @@ export default function FileUpload() {
           Drop files here or click to browse
         </p>
         <p className="text-sm text-gray-500 mb-4">
-          Supports PDF, TXT, DOCX files up to 10MB
+          Supports PDF, TXT, DOCX, XLSX, CSV and scanned PNG/JPEG files up to 10MB
         </p>
         <Button className="bg-primary hover:bg-blue-700">
           Select Files
@@ -132,7 +135,7 @@ export default function FileUpload() {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".pdf,.txt,.docx"
+        accept=".pdf,.txt,.docx,.xlsx,.xls,.csv,.png,.jpg,.jpeg"
         onChange={handleFileSelect}
         className="hidden"
       />
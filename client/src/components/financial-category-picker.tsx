@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+
+interface FinancialCategoryUsage {
+  type: string;
+  category: string;
+  count: number;
+}
+
+interface FinancialCategoryPickerProps {
+  type: string;
+  value: string[];
+  onChange: (categories: string[]) => void;
+}
+
+// Lets a goal bind to the financial record categories that exist in the user's records
+export default function FinancialCategoryPicker({ type, value, onChange }: FinancialCategoryPickerProps) {
+  const { data: categories, isLoading } = useQuery<FinancialCategoryUsage[]>({
+    queryKey: ['/api/financial-records/categories'],
+    staleTime: 0, // records change on other pages; refetch whenever a goal modal opens
+  });
+
+  const available = (categories || []).filter(entry => entry.type === type);
+  // Keep previously bound categories visible even if no records use them any more
+  const missing = value.filter(category => !available.some(entry => entry.category === category));
+
+  const toggle = (category: string, checked: boolean) => {
+    onChange(checked ? [...value, category] : value.filter(selected => selected !== category));
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading categories...</p>;
+  }
+
+  if (available.length === 0 && missing.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No {type} records yet. Progress will count all {type} records.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="border border-gray-200 rounded-md p-3 max-h-40 overflow-y-auto space-y-2">
+        {available.map(entry => (
+          <div key={entry.category} className="flex items-center space-x-2">
+            <Checkbox
+              id={`financial-category-${entry.category}`}
+              checked={value.includes(entry.category)}
+              onCheckedChange={(checked) => toggle(entry.category, checked === true)}
+            />
+            <Label htmlFor={`financial-category-${entry.category}`} className="font-normal">
+              {entry.category} <span className="text-gray-400">({entry.count})</span>
+            </Label>
+          </div>
+        ))}
+        {missing.map(category => (
+          <div key={category} className="flex items-center space-x-2">
+            <Checkbox
+              id={`financial-category-${category}`}
+              checked
+              onCheckedChange={(checked) => toggle(category, checked === true)}
+            />
+            <Label htmlFor={`financial-category-${category}`} className="font-normal">
+              {category} <span className="text-gray-400">(no records)</span>
+            </Label>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        {value.length === 0 ? `No categories selected: all ${type} records count` : `Only ${value.join(', ')} records count`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Brain, Calculator, RefreshCw } from "lucide-react";
+import { FinancialAnalysis, FinancialMetric, FinancialMetrics, FinancialRecord } from "@shared/schema";
+import { formatMoney } from "@shared/currency";
+import { cn } from "@/lib/utils";
+
+// Category averages shown before the list is expanded
+const AVERAGES_SHOWN = 6;
+
+export default function FinancialMetricsCard() {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [showAllAverages, setShowAllAverages] = useState(false);
+
+  // Metrics are recomputed whenever the records are refetched
+  const { data: records, dataUpdatedAt: recordsUpdatedAt } = useQuery<FinancialRecord[]>({
+    queryKey: ['/api/financial-records'],
+  });
+
+  const { data: metrics } = useQuery<FinancialMetrics>({
+    queryKey: ['/api/financial-metrics', recordsUpdatedAt],
+  });
+
+  // Commentary costs a model call, so it is only regenerated on request
+  const { data: analysis, isFetching: commentaryLoading, refetch: refreshCommentary } = useQuery<FinancialAnalysis>({
+    queryKey: ['/api/ai/financial-analysis'],
+    enabled: !!records && records.length > 0,
+  });
+
+  if (!metrics) return null;
+
+  const formatValue = (metric: FinancialMetric) => {
+    if (metric.value === null) return '—';
+    if (metric.unit === 'percent') return `${metric.value.toFixed(1)}%`;
+    if (metric.unit === 'months') return `${metric.value.toFixed(1)} months`;
+    return formatMoney(metric.value, metrics.currency);
+  };
+
+  const labelFor = (key: string) =>
+    metrics.metrics.find(metric => metric.key === key)?.label
+    || metrics.categoryAverages.find(average => average.key === key)?.category
+    || key;
+
+  const selected = metrics.metrics.find(metric => metric.key === selectedKey);
+  const averages = showAllAverages ? metrics.categoryAverages : metrics.categoryAverages.slice(0, AVERAGES_SHOWN);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Calculator className="h-5 w-5 mr-2 text-blue-600" />
+          Financial Metrics
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          Calculated from your records in {metrics.currency}; growth compares the last complete month. Select a metric to see its inputs.
+          {metrics.unconverted > 0 && (
+            <span className="text-amber-700"> {metrics.unconverted} record{metrics.unconverted === 1 ? '' : 's'} left out: no exchange rate.</span>
+          )}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+          {metrics.metrics.map(metric => (
+            <button
+              key={metric.key}
+              type="button"
+              onClick={() => setSelectedKey(selectedKey === metric.key ? null : metric.key)}
+              className={cn(
+                "text-left border rounded-lg p-3 hover:border-blue-300",
+                selectedKey === metric.key ? "border-blue-500 bg-blue-50" : "border-gray-200"
+              )}
+            >
+              <p className="text-xs text-gray-600">{metric.label}</p>
+              <p className={cn("text-lg font-semibold", metric.value === null && "text-gray-400")}>{formatValue(metric)}</p>
+              {metric.note && <p className="text-xs text-gray-500">{metric.note}</p>}
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="border border-blue-200 bg-blue-50 rounded-lg p-3 text-sm">
+            <p className="font-medium">{selected.label}</p>
+            <p className="text-gray-600">{selected.formula}</p>
+            <ul className="mt-1 space-y-0.5">
+              {selected.inputs.map(input => (
+                <li key={input.label} className="flex justify-between max-w-md">
+                  <span className="text-gray-600">{input.label}</span>
+                  <span className="font-medium">{input.unit === 'money' ? formatMoney(input.value, metrics.currency) : input.value}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {metrics.categoryAverages.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Average transaction size, trailing twelve months</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6">
+              {averages.map(average => (
+                <div key={average.key} className="flex items-center justify-between text-sm py-1 border-b border-gray-100">
+                  <span className="flex items-center space-x-2">
+                    <span className={cn("w-2 h-2 rounded-full", average.type === 'revenue' ? "bg-green-500" : "bg-red-500")} />
+                    <span>{average.category}</span>
+                    <span className="text-xs text-gray-500">{average.count} record{average.count === 1 ? '' : 's'}</span>
+                  </span>
+                  <span className="font-medium">{formatMoney(average.average, metrics.currency)}</span>
+                </div>
+              ))}
+            </div>
+            {metrics.categoryAverages.length > AVERAGES_SHOWN && (
+              <Button variant="link" size="sm" className="px-0" onClick={() => setShowAllAverages(!showAllAverages)}>
+                {showAllAverages ? "Show fewer" : `Show all ${metrics.categoryAverages.length} categories`}
+              </Button>
+            )}
+          </div>
+        )}
+
+        <div className="border-t pt-4">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-semibold flex items-center">
+              <Brain className="h-4 w-4 mr-2 text-blue-600" />
+              AI Commentary
+            </h4>
+            <Button variant="ghost" size="sm" onClick={() => refreshCommentary()} disabled={commentaryLoading}>
+              <RefreshCw className={cn("h-4 w-4 mr-1", commentaryLoading && "animate-spin")} />
+              Refresh
+            </Button>
+          </div>
+          {commentaryLoading && !analysis ? (
+            <p className="text-sm text-gray-500">Writing commentary...</p>
+          ) : analysis?.commentaryError ? (
+            <p className="text-sm text-gray-500">{analysis.commentaryError}</p>
+          ) : !analysis || analysis.commentary.length === 0 ? (
+            <p className="text-sm text-gray-500">No commentary yet. Add revenue and expense records to get started.</p>
+          ) : (
+            <div className="space-y-2">
+              {analysis.commentary.map((statement, index) => (
+                <div key={index} className="flex items-start space-x-2">
+                  <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0"></div>
+                  <div>
+                    <p className="text-sm text-gray-700">{statement.text}</p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {statement.citations.map(key => (
+                        <Badge
+                          key={key}
+                          variant="outline"
+                          className="text-xs cursor-pointer font-normal"
+                          onClick={() => setSelectedKey(key)}
+                        >
+                          {labelFor(key)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
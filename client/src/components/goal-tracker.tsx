@@ -4,14 +4,18 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Target, Plus, Edit, Trash2 } from "lucide-react";
+import { Target, Plus, Edit, Trash2, CalendarRange, History } from "lucide-react";
 import { Goal } from "@shared/schema";
+import { formatMoney } from "@shared/currency";
 import { cn } from "@/lib/utils";
 import { formatDistanceToNow } from "date-fns";
+import { getGoalWindow } from "@shared/goalWindow";
 import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
 import { apiRequest } from "@/lib/queryClient";
 import NewGoalModal from "./modals/new-goal-modal";
 import EditGoalModal from "./modals/edit-goal-modal";
+import HistoryModal from "./modals/history-modal";
 
 interface GoalTrackerProps {
   title?: string;
@@ -22,7 +26,9 @@ interface GoalTrackerProps {
 export default function GoalTracker({ title = "Goal Tracking", showAddButton = true, limit }: GoalTrackerProps) {
   const [showNewGoalModal, setShowNewGoalModal] = useState(false);
   const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [historyGoal, setHistoryGoal] = useState<Goal | null>(null);
   const { toast } = useToast();
+  const baseCurrency = useBaseCurrency();
   const queryClient = useQueryClient();
 
   const { data: goals, isLoading } = useQuery<Goal[]>({
@@ -56,6 +62,8 @@ export default function GoalTracker({ title = "Goal Tracking", showAddButton = t
     return "bg-gray-400";
   };
 
+  const formatTarget = (amount: number) => formatMoney(amount, baseCurrency, { wholeUnits: true });
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'completed':
@@ -137,6 +145,14 @@ export default function GoalTracker({ title = "Goal Tracking", showAddButton = t
                   {goal.description && (
                     <p className="text-sm text-gray-600 mb-2">{goal.description}</p>
                   )}
+                  {(goal.type === 'revenue' || goal.type === 'expense') && (
+                    <p className="text-xs text-gray-500 mb-2 flex items-center">
+                      <CalendarRange className="h-3 w-3 mr-1" />
+                      {getGoalWindow(goal).label}
+                      {goal.targetAmount ? ` · Target ${formatTarget(goal.targetAmount)}` : ''}
+                      {goal.financialCategories?.length ? ` · ${goal.financialCategories.join(', ')}` : ''}
+                    </p>
+                  )}
                   <div className="flex items-center justify-between">
                     <span className="text-xs text-gray-500">
                       Updated {formatDistanceToNow(new Date(goal.updatedAt), { addSuffix: true })}
@@ -151,6 +167,15 @@ export default function GoalTracker({ title = "Goal Tracking", showAddButton = t
                         <Edit className="h-3 w-3 mr-1" />
                         Edit
                       </Button>
+                      <Button 
+                        variant="ghost" 
+                        size="sm" 
+                        className="text-gray-600 hover:text-gray-800"
+                        onClick={() => setHistoryGoal(goal)}
+                        title="View history"
+                      >
+                        <History className="h-3 w-3" />
+                      </Button>
                       <Button 
                         variant="ghost" 
                         size="sm" 
@@ -180,6 +205,16 @@ export default function GoalTracker({ title = "Goal Tracking", showAddButton = t
           onClose={() => setEditingGoal(null)}
         />
       )}
+
+      {historyGoal && (
+        <HistoryModal
+          entityType="goal"
+          entityId={historyGoal.id}
+          title={historyGoal.title}
+          isOpen={!!historyGoal}
+          onClose={() => setHistoryGoal(null)}
+        />
+      )}
     </>
   );
 }
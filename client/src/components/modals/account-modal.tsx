@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
+import { apiRequest } from "@/lib/queryClient";
+import { Account } from "@shared/schema";
+import { ACCOUNT_TYPES } from "@shared/constants";
+import { CURRENCIES } from "@shared/currency";
+
+interface AccountModalProps {
+  account?: Account; // edits this account; creates a new one when omitted
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function AccountModal({ account, isOpen, onClose }: AccountModalProps) {
+  const { toast } = useToast();
+  const baseCurrency = useBaseCurrency();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [type, setType] = useState("bank");
+  const [currency, setCurrency] = useState("");
+  const [openingBalance, setOpeningBalance] = useState("");
+  const [openingDate, setOpeningDate] = useState("");
+  const [archived, setArchived] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(account?.name || "");
+    setType(account?.type || "bank");
+    setCurrency(account?.currency || baseCurrency);
+    setOpeningBalance(account ? (account.openingBalance / 100).toFixed(2) : "0.00");
+    setOpeningDate(new Date(account?.openingDate || Date.now()).toISOString().split('T')[0]);
+    setArchived(account?.archived || false);
+  }, [account, isOpen]);
+
+  const isValid = name.trim() !== "" && openingDate !== "" && !isNaN(parseFloat(openingBalance));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: name.trim(),
+        type,
+        currency,
+        openingBalance: Math.round(parseFloat(openingBalance) * 100),
+        openingDate,
+        ...(account ? { archived } : {}),
+      };
+      const response = account
+        ? await apiRequest('PATCH', `/api/accounts/${account.id}`, payload)
+        : await apiRequest('POST', '/api/accounts', payload);
+      return response.json();
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: account ? "Account updated" : "Account created",
+        description: account ? `${saved.name} has been saved` : `Add records to ${saved.name} to track its balance`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Save failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{account ? "Edit Account" : "Add Account"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="account-name">Name</Label>
+            <Input
+              id="account-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Business checking"
+              className="mt-1"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="account-type">Type</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger id="account-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACCOUNT_TYPES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="account-currency">Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger id="account-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(option => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="account-opening-balance">Opening balance</Label>
+              <Input
+                id="account-opening-balance"
+                type="number"
+                step="0.01"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="account-opening-date">As of</Label>
+              <Input
+                id="account-opening-date"
+                type="date"
+                value={openingDate}
+                onChange={(e) => setOpeningDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 -mt-2">
+            Records dated before this are treated as part of the opening balance. Use a negative balance for money owed on a card.
+          </p>
+
+          {account && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="account-archived"
+                checked={archived}
+                onCheckedChange={(checked) => setArchived(checked === true)}
+              />
+              <Label htmlFor="account-archived" className="font-normal">
+                Archived (kept for its history, no longer offered for new records)
+              </Label>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!isValid || saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : account ? "Save" : "Create"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
+import { apiRequest } from "@/lib/queryClient";
+import { Budget } from "@shared/schema";
+import { FINANCIAL_CATEGORIES } from "@shared/constants";
+
+const BUDGET_PERIODS = [
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+];
+
+interface BudgetModalProps {
+  budget?: Budget; // edits this budget; creates a new one when omitted
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function BudgetModal({ budget, isOpen, onClose }: BudgetModalProps) {
+  const { toast } = useToast();
+  const baseCurrency = useBaseCurrency();
+  const queryClient = useQueryClient();
+  const [category, setCategory] = useState("");
+  const [showCustomCategory, setShowCustomCategory] = useState(false);
+  const [period, setPeriod] = useState("monthly");
+  const [amount, setAmount] = useState("");
+  const [thresholds, setThresholds] = useState("80, 100");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const knownCategory = !budget || (FINANCIAL_CATEGORIES.expense as readonly string[]).includes(budget.category);
+    setCategory(budget?.category || "");
+    setShowCustomCategory(!knownCategory);
+    setPeriod(budget?.period || "monthly");
+    setAmount(budget ? (budget.amount / 100).toFixed(2) : "");
+    setThresholds((budget?.alertThresholds || [80, 100]).join(", "));
+  }, [budget, isOpen]);
+
+  const parsedThresholds = thresholds
+    .split(",")
+    .map(value => parseInt(value.trim()))
+    .filter(value => !isNaN(value));
+  const isValid = category.trim() !== "" && category !== "Other" && parseFloat(amount) >= 0.01
+    && parsedThresholds.every(value => value >= 1 && value <= 500) && parsedThresholds.length <= 5;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        category: category.trim(),
+        period,
+        amount: Math.round(parseFloat(amount) * 100),
+        alertThresholds: Array.from(new Set(parsedThresholds)).sort((a, b) => a - b),
+      };
+      const response = budget
+        ? await apiRequest('PATCH', `/api/budgets/${budget.id}`, payload)
+        : await apiRequest('POST', '/api/budgets', payload);
+      return response.json();
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: budget ? "Budget updated" : "Budget created",
+        description: saved.budgetAlerts?.length > 0
+          ? `Spending this period has already passed ${saved.budgetAlerts.map((alert: { threshold: number }) => `${alert.threshold}%`).join(" and ")}`
+          : `${saved.category} spending will be tracked against it`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/budget-alerts'] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Save failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{budget ? "Edit Budget" : "Add Budget"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="budget-category">Expense Category</Label>
+            {!showCustomCategory ? (
+              <Select
+                value={category}
+                onValueChange={(value) => {
+                  if (value === "Other") {
+                    setShowCustomCategory(true);
+                    setCategory("");
+                  } else {
+                    setCategory(value);
+                  }
+                }}
+              >
+                <SelectTrigger id="budget-category">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {FINANCIAL_CATEGORIES.expense.map(option => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <div className="space-y-2">
+                <Input
+                  id="budget-category"
+                  placeholder="Enter custom category"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setShowCustomCategory(false);
+                    setCategory("");
+                  }}
+                >
+                  Choose from list
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="budget-period">Period</Label>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger id="budget-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUDGET_PERIODS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="budget-amount">Amount per period ({baseCurrency})</Label>
+            <Input
+              id="budget-amount"
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="budget-thresholds">Alert at (% of budget)</Label>
+            <Input
+              id="budget-thresholds"
+              value={thresholds}
+              onChange={(e) => setThresholds(e.target.value)}
+              placeholder="80, 100"
+              className="mt-1"
+            />
+            <p className="text-xs text-gray-500 mt-1">Comma-separated, up to five; each alert fires once per period</p>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!isValid || saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : budget ? "Save" : "Create"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
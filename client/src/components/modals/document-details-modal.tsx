@@ -0,0 +1,343 @@
+import { useState, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, Check, Edit, Receipt, X, Upload, History, Plus, Minus, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { Document, FinancialRecord, InsightSnapshot } from "@shared/schema";
+import EditFinancialRecordModal from "@/components/modals/edit-financial-record-modal";
+
+interface DocumentDetailsModalProps {
+  document: Document;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function DocumentDetailsModal({ document, isOpen, onClose }: DocumentDetailsModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingRecord, setEditingRecord] = useState<FinancialRecord | null>(null);
+  const recordsKey = `/api/documents/${document.id}/financial-records`;
+  const extraction = document.extraction;
+  const diff = document.insightsDiff;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: versions } = useQuery<Document[]>({
+    queryKey: [`/api/documents/${document.id}/versions`],
+    enabled: isOpen && document.version > 1,
+  });
+
+  const { data: records } = useQuery<FinancialRecord[]>({
+    queryKey: [recordsKey],
+    enabled: isOpen && !!extraction,
+    staleTime: 0,
+  });
+
+  const invalidateRecords = () => {
+    queryClient.invalidateQueries({ queryKey: [recordsKey] });
+    queryClient.invalidateQueries({ queryKey: ['/api/financial-records'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+  };
+
+  const confirmMutation = useMutation({
+    mutationFn: async (record: FinancialRecord) => {
+      const response = await apiRequest('POST', `/api/financial-records/${record.id}/confirm`, {});
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Record confirmed",
+        description: result.warnings?.length > 0 ? result.warnings.join(' ') : "The record now counts towards your financials",
+      });
+      invalidateRecords();
+    },
+    onError: (error) => {
+      toast({
+        title: "Confirm failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async (record: FinancialRecord) => {
+      await apiRequest('DELETE', `/api/financial-records/${record.id}`);
+    },
+    onSuccess: () => {
+      invalidateRecords();
+    },
+    onError: (error) => {
+      toast({
+        title: "Discard failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const versionMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await apiRequest('POST', `/api/documents/${document.id}/versions`, formData);
+      return response.json();
+    },
+    onSuccess: (created: Document) => {
+      toast({
+        title: "New version uploaded",
+        description: `Version ${created.version} is being analyzed and will be compared with this one`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleVersionSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      versionMutation.mutate(file);
+    }
+    e.target.value = '';
+  };
+
+  const renderInsight = (insight: InsightSnapshot) => (
+    <>
+      <span className="font-medium">{insight.title}</span>
+      <span className="text-gray-500"> ({insight.type})</span>
+    </>
+  );
+
+  const formatAmount = (cents: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: extraction?.currency && /^[A-Z]{3}$/.test(extraction.currency) ? extraction.currency : 'USD',
+    }).format(cents / 100);
+  };
+
+  const isBusy = confirmMutation.isPending || discardMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {document.originalName}
+            {document.version > 1 && <Badge variant="outline">v{document.version}</Badge>}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={versionMutation.isPending || !!document.supersededAt}
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            {versionMutation.isPending ? "Uploading..." : "Replace with new version"}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pdf,.txt,.docx,.xlsx,.xls,.csv,.png,.jpg,.jpeg"
+            onChange={handleVersionSelect}
+            className="hidden"
+          />
+        </div>
+
+        <div className="space-y-4">
+          {document.warning && (
+            <div className="flex items-start text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-lg p-3">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              {document.warning}
+            </div>
+          )}
+
+          {document.summary && (
+            <div>
+              <h3 className="text-sm font-semibold mb-1">Summary</h3>
+              <p className="text-sm text-gray-700">{document.summary}</p>
+            </div>
+          )}
+
+          {document.insights && document.insights.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold mb-1">Key Points</h3>
+              <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+                {document.insights.map((point, index) => (
+                  <li key={index}>{point}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff && (
+            <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <h3 className="text-sm font-semibold flex items-center">
+                <History className="h-4 w-4 mr-2 text-primary" />
+                Changes since version {diff.previousVersion}
+              </h3>
+              {diff.added.length === 0 && diff.resolved.length === 0 && diff.changed.length === 0 ? (
+                <p className="text-sm text-gray-500">The insights are the same as in the previous version.</p>
+              ) : (
+                <ul className="text-sm space-y-2">
+                  {diff.added.map((insight, index) => (
+                    <li key={`added-${index}`} className="flex items-start">
+                      <Plus className="h-4 w-4 mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+                      <span>New: {renderInsight(insight)}</span>
+                    </li>
+                  ))}
+                  {diff.changed.map((item, index) => (
+                    <li key={`changed-${index}`} className="flex items-start">
+                      <RefreshCw className="h-4 w-4 mr-2 mt-0.5 text-blue-600 flex-shrink-0" />
+                      <span>Changed: {renderInsight(item.after)} <span className="text-gray-600">{item.change}</span></span>
+                    </li>
+                  ))}
+                  {diff.resolved.map((insight, index) => (
+                    <li key={`resolved-${index}`} className="flex items-start">
+                      <Minus className="h-4 w-4 mr-2 mt-0.5 text-gray-500 flex-shrink-0" />
+                      <span className="text-gray-600">No longer raised: {renderInsight(insight)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {diff.unchanged.length > 0 && (
+                <p className="text-xs text-gray-500">{diff.unchanged.length} insight{diff.unchanged.length === 1 ? '' : 's'} carried over unchanged.</p>
+              )}
+            </div>
+          )}
+
+          {versions && versions.length > 1 && (
+            <div>
+              <h3 className="text-sm font-semibold mb-1">Versions</h3>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {versions.map((version) => (
+                  <li key={version.id} className="flex items-center justify-between">
+                    <span>
+                      v{version.version} · {version.originalName}
+                      {version.id === document.id && <span className="text-gray-500"> (this version)</span>}
+                    </span>
+                    <span className="text-xs text-gray-500">{format(new Date(version.uploadedAt), "MMM d, yyyy")}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {extraction && (
+            <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold flex items-center">
+                  <Receipt className="h-4 w-4 mr-2 text-primary" />
+                  Extracted {extraction.documentType}
+                </h3>
+                <Badge variant="secondary">{extraction.direction}</Badge>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div><span className="text-gray-500">{extraction.direction === 'revenue' ? 'Customer' : 'Vendor'}:</span> {extraction.vendor || "—"}</div>
+                <div><span className="text-gray-500">Date:</span> {extraction.date || "—"}</div>
+                {extraction.documentNumber && (
+                  <div><span className="text-gray-500">Number:</span> {extraction.documentNumber}</div>
+                )}
+                <div><span className="text-gray-500">Category:</span> {extraction.category}</div>
+              </div>
+
+              {extraction.lineItems.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {extraction.lineItems.map((item, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{item.description}</TableCell>
+                        <TableCell className="text-right">{item.quantity ?? ""}</TableCell>
+                        <TableCell className="text-right">{formatAmount(item.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="text-sm text-right space-y-1">
+                {extraction.subtotal !== null && <p>Subtotal: {formatAmount(extraction.subtotal)}</p>}
+                {extraction.tax !== null && <p>Tax: {formatAmount(extraction.tax)}</p>}
+                <p className="font-semibold">Total: {formatAmount(extraction.total)}</p>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Financial Records</h4>
+                {!records || records.length === 0 ? (
+                  <p className="text-sm text-gray-500">No records linked to this document.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {records.map((record) => (
+                      <div key={record.id} className="flex items-center justify-between border rounded-lg p-3">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-sm">{formatAmount(record.amount)}</span>
+                            <Badge variant={record.status === 'draft' ? "outline" : "secondary"}>
+                              {record.status === 'draft' ? "Draft" : "Confirmed"}
+                            </Badge>
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            {record.type} · {record.category} · {format(new Date(record.date), "MMM d, yyyy")}
+                          </p>
+                          {record.description && <p className="text-xs text-gray-500">{record.description}</p>}
+                        </div>
+                        {record.status === 'draft' && (
+                          <div className="flex space-x-2 shrink-0">
+                            <Button size="sm" onClick={() => confirmMutation.mutate(record)} disabled={isBusy}>
+                              <Check className="h-4 w-4 mr-1" />
+                              Confirm
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setEditingRecord(record)} disabled={isBusy}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => discardMutation.mutate(record)} disabled={isBusy}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {editingRecord && (
+          <EditFinancialRecordModal
+            record={editingRecord}
+            isOpen={true}
+            onClose={() => {
+              setEditingRecord(null);
+              queryClient.invalidateQueries({ queryKey: [recordsKey] });
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
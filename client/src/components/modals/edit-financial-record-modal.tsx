@@ -1,6 +1,6 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,17 +9,25 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { FinancialRecord } from "@shared/schema";
+import { Account, FinancialRecord } from "@shared/schema";
 import { z } from "zod";
-import { FINANCIAL_CATEGORIES, FINANCIAL_TYPES } from "@shared/constants";
+import { FINANCIAL_CATEGORIES, FINANCIAL_TYPES, TRANSFER_TYPE } from "@shared/constants";
+import { CURRENCIES } from "@shared/currency";
 import { useState } from "react";
 
 const editFinancialRecordSchema = z.object({
-  type: z.enum(["revenue", "expense", "other"]),
+  type: z.enum(["revenue", "expense", "other", "transfer"]),
   category: z.string().optional(), // Make optional to handle custom categories
   amount: z.number().min(0.01, "Amount must be greater than 0"),
+  currency: z.string().length(3),
+  taxAmount: z.number().min(0, "Tax cannot be negative"), // sales tax or VAT included in the amount
+  accountId: z.string(), // "none" = no account
+  transferAccountId: z.string(), // transfers only
   description: z.string().optional(),
   date: z.string().min(1, "Date is required"),
+}).refine((data) => data.type === 'other' || data.type === 'transfer' || data.taxAmount <= data.amount, {
+  message: "Tax cannot be more than the amount",
+  path: ["taxAmount"],
 });
 
 type EditFinancialRecordForm = z.infer<typeof editFinancialRecordSchema>;
@@ -36,12 +44,23 @@ export default function EditFinancialRecordModal({ record, isOpen, onClose }: Ed
   const [customCategory, setCustomCategory] = useState("");
   const [showCustomCategory, setShowCustomCategory] = useState(false);
 
+  // Archived accounts stay selectable here so records already in them keep their account
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ['/api/accounts'],
+  });
+  const selectableAccounts = accounts?.filter(account =>
+    !account.archived || account.id === record.accountId || account.id === record.transferAccountId) || [];
+
   const form = useForm<EditFinancialRecordForm>({
     resolver: zodResolver(editFinancialRecordSchema),
     defaultValues: {
-      type: record.type as "revenue" | "expense" | "other",
+      type: record.type as EditFinancialRecordForm["type"],
       category: record.category,
       amount: record.amount / 100, // Convert from cents
+      currency: record.currency,
+      taxAmount: record.taxAmount / 100,
+      accountId: record.accountId ? String(record.accountId) : "none",
+      transferAccountId: record.transferAccountId ? String(record.transferAccountId) : "none",
       description: record.description || "",
       date: new Date(record.date).toISOString().split('T')[0],
     },
@@ -49,11 +68,14 @@ export default function EditFinancialRecordModal({ record, isOpen, onClose }: Ed
 
   const editRecordMutation = useMutation({
     mutationFn: async (data: EditFinancialRecordForm) => {
-      const finalCategory = showCustomCategory ? customCategory : data.category;
+      const finalCategory = data.type === 'transfer' ? TRANSFER_TYPE.category : showCustomCategory ? customCategory : data.category;
       const payload = {
         ...data,
         category: finalCategory,
+        accountId: data.accountId !== 'none' ? parseInt(data.accountId) : null,
+        transferAccountId: data.type === 'transfer' && data.transferAccountId !== 'none' ? parseInt(data.transferAccountId) : null,
         amount: Math.round(data.amount * 100), // Convert to cents
+        taxAmount: data.type === 'revenue' || data.type === 'expense' ? Math.round(data.taxAmount * 100) : 0,
         date: data.date, // Keep as string for backend to transform
       };
       await apiRequest('PATCH', `/api/financial-records/${record.id}`, payload);
@@ -77,6 +99,15 @@ export default function EditFinancialRecordModal({ record, isOpen, onClose }: Ed
   });
 
   const onSubmit = (data: EditFinancialRecordForm) => {
+    if (data.type === 'transfer') {
+      if (data.accountId === 'none' || data.transferAccountId === 'none' || data.accountId === data.transferAccountId) {
+        form.setError("transferAccountId", { message: "Choose two different accounts" });
+        return;
+      }
+      editRecordMutation.mutate(data);
+      return;
+    }
+
     const finalCategory = showCustomCategory ? customCategory : data.category;
     
     // Validate custom category if needed
@@ -108,7 +139,8 @@ export default function EditFinancialRecordModal({ record, isOpen, onClose }: Ed
   };
 
   const selectedType = form.watch('type');
-  const availableCategories = FINANCIAL_CATEGORIES[selectedType] || [];
+  const availableCategories = selectedType !== 'transfer' ? FINANCIAL_CATEGORIES[selectedType] : [];
+  const isTransfer = selectedType === 'transfer';
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -122,7 +154,7 @@ export default function EditFinancialRecordModal({ record, isOpen, onClose }: Ed
             <Select 
               value={form.watch("type")} 
               onValueChange={(value) => {
-                form.setValue("type", value as "revenue" | "expense" | "other");
+                form.setValue("type", value as EditFinancialRecordForm["type"]);
                 form.setValue("category", ""); // Reset category when type changes
                 setShowCustomCategory(false);
                 setCustomCategory("");
@@ -137,6 +169,9 @@ export default function EditFinancialRecordModal({ record, isOpen, onClose }: Ed
                     {type.label}
                   </SelectItem>
                 ))}
+                {(isTransfer || selectableAccounts.length >= 2) && (
+                  <SelectItem value={TRANSFER_TYPE.value}>{TRANSFER_TYPE.label}</SelectItem>
+                )}
               </SelectContent>
             </Select>
             {form.formState.errors.type && (
@@ -144,71 +179,154 @@ export default function EditFinancialRecordModal({ record, isOpen, onClose }: Ed
             )}
           </div>
 
+          {selectableAccounts.length > 0 && (
+            <div className={isTransfer ? "grid grid-cols-2 gap-2" : undefined}>
+              <div>
+                <Label htmlFor="accountId">{isTransfer ? "From account" : "Account"}</Label>
+                <Select value={form.watch("accountId")} onValueChange={(value) => form.setValue("accountId", value)}>
+                  <SelectTrigger id="accountId">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {!isTransfer && <SelectItem value="none">No account</SelectItem>}
+                    {selectableAccounts.map(account => (
+                      <SelectItem key={account.id} value={String(account.id)}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isTransfer && (
+                <div>
+                  <Label htmlFor="transferAccountId">To account</Label>
+                  <Select
+                    value={form.watch("transferAccountId")}
+                    onValueChange={(value) => {
+                      form.setValue("transferAccountId", value);
+                      form.clearErrors("transferAccountId");
+                    }}
+                  >
+                    <SelectTrigger id="transferAccountId">
+                      <SelectValue placeholder="Select account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {selectableAccounts.map(account => (
+                        <SelectItem key={account.id} value={String(account.id)}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {form.formState.errors.transferAccountId && (
+                <p className="text-sm text-red-600 col-span-2">{form.formState.errors.transferAccountId.message}</p>
+              )}
+            </div>
+          )}
+
+          {!isTransfer && (
+            <div>
+              <Label htmlFor="category">Category</Label>
+              {!showCustomCategory ? (
+                <Select 
+                  value={form.watch("category")} 
+                  onValueChange={handleCategoryChange}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableCategories.map(category => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <div className="space-y-2">
+                  <Input
+                    placeholder="Enter custom category"
+                    value={customCategory}
+                    onChange={(e) => {
+                      setCustomCategory(e.target.value);
+                      if (e.target.value.trim()) {
+                        form.clearErrors("category");
+                      }
+                    }}
+                  />
+                  <Button 
+                    type="button" 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => {
+                      setShowCustomCategory(false);
+                      setCustomCategory("");
+                    }}
+                  >
+                    Choose from list
+                  </Button>
+                </div>
+              )}
+              {(form.formState.errors.category || (showCustomCategory && !customCategory.trim())) && (
+                <p className="text-sm text-red-600">
+                  {form.formState.errors.category?.message || "Category is required"}
+                </p>
+              )}
+            </div>
+          )}
+
           <div>
-            <Label htmlFor="category">Category</Label>
-            {!showCustomCategory ? (
-              <Select 
-                value={form.watch("category")} 
-                onValueChange={handleCategoryChange}
+            <Label htmlFor="amount">Amount</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="amount"
+                type="number"
+                step="0.01"
+                min="0"
+                {...form.register("amount", { valueAsNumber: true })}
+                placeholder="0.00"
+              />
+              <Select
+                value={form.watch("currency")}
+                onValueChange={(value) => form.setValue("currency", value)}
               >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select category" />
+                <SelectTrigger className="w-28">
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {availableCategories.map(category => (
-                    <SelectItem key={category} value={category}>
-                      {category}
+                  {CURRENCIES.map(currency => (
+                    <SelectItem key={currency.code} value={currency.code}>
+                      {currency.code}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
-            ) : (
-              <div className="space-y-2">
-                <Input
-                  placeholder="Enter custom category"
-                  value={customCategory}
-                  onChange={(e) => {
-                    setCustomCategory(e.target.value);
-                    if (e.target.value.trim()) {
-                      form.clearErrors("category");
-                    }
-                  }}
-                />
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => {
-                    setShowCustomCategory(false);
-                    setCustomCategory("");
-                  }}
-                >
-                  Choose from list
-                </Button>
-              </div>
-            )}
-            {(form.formState.errors.category || (showCustomCategory && !customCategory.trim())) && (
-              <p className="text-sm text-red-600">
-                {form.formState.errors.category?.message || "Category is required"}
-              </p>
-            )}
-          </div>
-
-          <div>
-            <Label htmlFor="amount">Amount ($)</Label>
-            <Input
-              id="amount"
-              type="number"
-              step="0.01"
-              min="0"
-              {...form.register("amount", { valueAsNumber: true })}
-              placeholder="0.00"
-            />
+            </div>
             {form.formState.errors.amount && (
               <p className="text-sm text-red-600">{form.formState.errors.amount.message}</p>
             )}
           </div>
 
+          {(selectedType === 'revenue' || selectedType === 'expense') && (
+            <div>
+              <Label htmlFor="taxAmount">Sales tax / VAT (included in amount)</Label>
+              <Input
+                id="taxAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                {...form.register("taxAmount", { setValueAs: (value) => value === '' ? 0 : parseFloat(value) })}
+                placeholder="0.00"
+              />
+              {form.formState.errors.taxAmount && (
+                <p className="text-sm text-red-600">{form.formState.errors.taxAmount.message}</p>
+              )}
+            </div>
+          )}
+
           <div>
             <Label htmlFor="date">Date</Label>
             <Input
@@ -10,14 +10,21 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
 import { apiRequest } from "@/lib/queryClient";
 import { Goal } from "@shared/schema";
 import { z } from "zod";
 import { FINANCIAL_CATEGORIES, FINANCIAL_TYPES } from "@shared/constants";
+import { GOAL_PERIODS, type GoalPeriod } from "@shared/goalWindow";
+import FinancialCategoryPicker from "@/components/financial-category-picker";
 
 const editGoalSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().optional(),
+  targetAmount: z.string().optional(), // dollars, converted to cents on submit
+  financialCategories: z.array(z.string()),
+  period: z.enum(["none", "monthly", "quarterly", "yearly"]),
+  startDate: z.string().optional(),
   targetDate: z.string().optional(),
   progress: z.number().min(0).max(100),
   status: z.enum(['active', 'completed', 'paused']),
@@ -26,6 +33,11 @@ const editGoalSchema = z.object({
 });
 
 type EditGoalForm = z.infer<typeof editGoalSchema>;
+type EditGoalPayload = Omit<EditGoalForm, "targetAmount" | "startDate" | "targetDate"> & {
+  targetAmount: number | null;
+  startDate: string | null;
+  targetDate: string | null;
+};
 
 interface EditGoalModalProps {
   goal: Goal;
@@ -35,6 +47,7 @@ interface EditGoalModalProps {
 
 export default function EditGoalModal({ goal, isOpen, onClose }: EditGoalModalProps) {
   const { toast } = useToast();
+  const baseCurrency = useBaseCurrency();
   const queryClient = useQueryClient();
   const [progress, setProgress] = useState(goal.progress);
   const [customCategory, setCustomCategory] = useState("");
@@ -45,6 +58,10 @@ export default function EditGoalModal({ goal, isOpen, onClose }: EditGoalModalPr
     defaultValues: {
       title: goal.title,
       description: goal.description || "",
+      targetAmount: goal.targetAmount ? (goal.targetAmount / 100).toString() : "",
+      financialCategories: goal.financialCategories || [],
+      period: (goal.period || "none") as GoalPeriod,
+      startDate: goal.startDate ? new Date(goal.startDate).toISOString().split('T')[0] : "",
       targetDate: goal.targetDate ? new Date(goal.targetDate).toISOString().split('T')[0] : "",
       progress: goal.progress,
       status: goal.status,
@@ -54,7 +71,7 @@ export default function EditGoalModal({ goal, isOpen, onClose }: EditGoalModalPr
   });
 
   const editGoalMutation = useMutation({
-    mutationFn: async (data: EditGoalForm) => {
+    mutationFn: async (data: EditGoalPayload) => {
       const finalCategory = showCustomCategory ? customCategory : data.category;
       const payload = {
         ...data,
@@ -89,14 +106,17 @@ export default function EditGoalModal({ goal, isOpen, onClose }: EditGoalModalPr
       ...data,
       progress,
       category: finalCategory,
-      targetDate: data.targetDate || undefined,
+      targetAmount: data.targetAmount ? Math.round(parseFloat(data.targetAmount) * 100) : null,
+      // Recurring goals have no fixed start; empty dates clear the stored value
+      startDate: data.period === "none" && data.startDate ? data.startDate : null,
+      targetDate: data.targetDate || null,
     };
     editGoalMutation.mutate(formData);
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Goal</DialogTitle>
         </DialogHeader>
@@ -130,6 +150,7 @@ export default function EditGoalModal({ goal, isOpen, onClose }: EditGoalModalPr
               onValueChange={(value) => {
                 form.setValue("type", value as "revenue" | "expense" | "other");
                 form.setValue("category", "");
+                form.setValue("financialCategories", []);
                 setShowCustomCategory(false);
                 setCustomCategory("");
               }}
@@ -194,13 +215,69 @@ export default function EditGoalModal({ goal, isOpen, onClose }: EditGoalModalPr
             )}
           </div>
 
+          {form.watch("type") !== "other" && (
+            <div>
+              <Label htmlFor="targetAmount">Target Amount ({baseCurrency})</Label>
+              <Input
+                id="targetAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                {...form.register("targetAmount")}
+                placeholder={form.watch("type") === "expense" ? "Spending limit" : "Revenue target"}
+              />
+            </div>
+          )}
+
+          {form.watch("type") !== "other" && (
+            <div>
+              <Label>Counts Records In</Label>
+              <FinancialCategoryPicker
+                type={form.watch("type") || "revenue"}
+                value={form.watch("financialCategories")}
+                onChange={(financialCategories) => form.setValue("financialCategories", financialCategories)}
+              />
+            </div>
+          )}
+
           <div>
-            <Label htmlFor="targetDate">Target Date</Label>
-            <Input
-              id="targetDate"
-              type="date"
-              {...form.register("targetDate")}
-            />
+            <Label htmlFor="period">Measurement Window</Label>
+            <Select 
+              value={form.watch("period")} 
+              onValueChange={(value) => form.setValue("period", value as GoalPeriod)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GOAL_PERIODS.map(period => (
+                  <SelectItem key={period.value} value={period.value}>
+                    {period.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {form.watch("period") === "none" && (
+              <div>
+                <Label htmlFor="startDate">Start Date</Label>
+                <Input
+                  id="startDate"
+                  type="date"
+                  {...form.register("startDate")}
+                />
+              </div>
+            )}
+            <div className={form.watch("period") === "none" ? "" : "col-span-2"}>
+              <Label htmlFor="targetDate">Target Date</Label>
+              <Input
+                id="targetDate"
+                type="date"
+                {...form.register("targetDate")}
+              />
+            </div>
           </div>
 
           <div>
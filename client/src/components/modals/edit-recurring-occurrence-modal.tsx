@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { UpcomingRecurringOccurrence } from "@shared/schema";
+import { format, parseISO } from "date-fns";
+
+interface EditRecurringOccurrenceModalProps {
+  occurrence: UpcomingRecurringOccurrence;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Changes a single upcoming occurrence; the template and its other occurrences stay as they are
+export default function EditRecurringOccurrenceModal({ occurrence, isOpen, onClose }: EditRecurringOccurrenceModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState("");
+  const [description, setDescription] = useState("");
+
+  useEffect(() => {
+    setAmount((occurrence.amount / 100).toFixed(2));
+    setDate(occurrence.date);
+    setDescription(occurrence.description || "");
+  }, [occurrence]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('PUT', `/api/recurring-records/${occurrence.recurringRecordId}/occurrences/${occurrence.occurrenceDate}`, {
+        amount: Math.round(parseFloat(amount) * 100),
+        date,
+        description,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Occurrence updated",
+        description: `Only the ${format(parseISO(occurrence.occurrenceDate), 'MMM d')} occurrence will use these details`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/recurring-records'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recurring-records/upcoming'] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isValid = parseFloat(amount) >= 0.01 && /^\d{4}-\d{2}-\d{2}$/.test(date);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit {occurrence.category} on {format(parseISO(occurrence.occurrenceDate), 'MMM d, yyyy')}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="occurrence-amount">Amount ({occurrence.currency})</Label>
+            <Input
+              id="occurrence-amount"
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="occurrence-date">Record on</Label>
+            <Input
+              id="occurrence-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="occurrence-description">Description (Optional)</Label>
+            <Textarea
+              id="occurrence-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!isValid || saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
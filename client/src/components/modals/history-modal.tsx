@@ -0,0 +1,23 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import AuditHistoryList from "@/components/audit-history-list";
+
+interface HistoryModalProps {
+  entityType: string;
+  entityId: number;
+  title: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function HistoryModal({ entityType, entityId, title, isOpen, onClose }: HistoryModalProps) {
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>History: {title}</DialogTitle>
+        </DialogHeader>
+        {isOpen && <AuditHistoryList entityType={entityType} entityId={entityId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,373 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Upload } from "lucide-react";
+import type { Account, ImportPreviewRow, StatementColumnMapping } from "@shared/schema";
+import { CURRENCIES, formatMoney } from "@shared/currency";
+
+interface ImportPreview {
+  format: "csv" | "ofx";
+  columns: string[];
+  mapping: StatementColumnMapping;
+  rows: ImportPreviewRow[];
+}
+
+interface ImportFinancialRecordsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documentTable?: { documentId: number; tableIndex: number; label: string }; // import a table of an uploaded spreadsheet instead of a statement file
+}
+
+const NONE = "__none__";
+
+const COLUMN_FIELDS: { key: keyof StatementColumnMapping; label: string; required?: boolean }[] = [
+  { key: "date", label: "Date", required: true },
+  { key: "amount", label: "Amount" },
+  { key: "debit", label: "Debit (money out)" },
+  { key: "credit", label: "Credit (money in)" },
+  { key: "type", label: "Type" },
+  { key: "category", label: "Category" },
+  { key: "description", label: "Description" },
+];
+
+export default function ImportFinancialRecordsModal({ isOpen, onClose, documentTable }: ImportFinancialRecordsModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const baseCurrency = useBaseCurrency();
+  const [currency, setCurrency] = useState(""); // empty = the account's currency, or the base currency
+  const [accountId, setAccountId] = useState(NONE);
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ['/api/accounts'],
+  });
+  const openAccounts = accounts?.filter(account => !account.archived) || [];
+  const selectedAccount = openAccounts.find(account => String(account.id) === accountId);
+  const effectiveCurrency = currency || selectedAccount?.currency || baseCurrency;
+
+  const previewMutation = useMutation({
+    mutationFn: async ({ file, mapping }: { file: File | null; mapping?: StatementColumnMapping }) => {
+      if (documentTable) {
+        const response = await apiRequest(
+          "POST",
+          `/api/documents/${documentTable.documentId}/tables/${documentTable.tableIndex}/import/preview`,
+          { mapping },
+        );
+        return response.json() as Promise<ImportPreview>;
+      }
+      if (!file) {
+        throw new Error("Choose a statement file");
+      }
+      const formData = new FormData();
+      formData.append("file", file);
+      if (mapping) {
+        formData.append("mapping", JSON.stringify(mapping));
+      }
+      const response = await apiRequest("POST", "/api/financial-records/import/preview", formData);
+      return response.json() as Promise<ImportPreview>;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setExcludedRows(new Set());
+    },
+    onError: (error) => {
+      toast({
+        title: documentTable ? "Could not read table" : "Could not read statement",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (rows: ImportPreviewRow[]) => {
+      const response = await apiRequest("POST", "/api/financial-records/import", {
+        rows: rows.map(row => ({
+          type: row.type,
+          category: row.category,
+          amount: row.amount,
+          currency: currency || undefined,
+          accountId: selectedAccount?.id ?? null,
+          date: row.date,
+          description: row.description || undefined,
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Import complete",
+        description: result.duplicates > 0
+          ? `${result.imported} financial records imported, ${result.duplicates} flagged as possible duplicates`
+          : `${result.imported} financial records imported`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/financial-records'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/financial-records/duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/financial-analysis'] });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Spreadsheet tables need no file, so preview them as soon as the modal opens
+  useEffect(() => {
+    if (isOpen && documentTable && !preview && !previewMutation.isPending) {
+      previewMutation.mutate({ file: null });
+    }
+  }, [isOpen, documentTable?.documentId, documentTable?.tableIndex]);
+
+  const handleClose = () => {
+    setFile(null);
+    setPreview(null);
+    setExcludedRows(new Set());
+    setCurrency("");
+    setAccountId(NONE);
+    onClose();
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (selected) {
+      setFile(selected);
+      previewMutation.mutate({ file: selected });
+    }
+  };
+
+  const updateMapping = (changes: Partial<StatementColumnMapping>) => {
+    if ((!file && !documentTable) || !preview) return;
+    previewMutation.mutate({ file, mapping: { ...preview.mapping, ...changes } });
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    const next = new Set(excludedRows);
+    if (next.has(rowNumber)) {
+      next.delete(rowNumber);
+    } else {
+      next.add(rowNumber);
+    }
+    setExcludedRows(next);
+  };
+
+  const formatAmount = (amount: number) => formatMoney(amount, effectiveCurrency);
+
+  const validRows = preview?.rows.filter(row => row.errors.length === 0) || [];
+  const selectedRows = validRows.filter(row => !excludedRows.has(row.rowNumber));
+  const invalidCount = (preview?.rows.length || 0) - validRows.length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{documentTable ? `Import Records: ${documentTable.label}` : "Import Bank Statement"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!documentTable && (
+            <div>
+              <Label htmlFor="statement">Statement file (CSV, OFX or QFX)</Label>
+              <Input
+                id="statement"
+                type="file"
+                accept=".csv,.ofx,.qfx"
+                onChange={handleFileSelect}
+                className="mt-1"
+              />
+            </div>
+          )}
+
+          {previewMutation.isPending && !preview && (
+            <p className="text-sm text-gray-500">{documentTable ? "Reading table..." : "Reading statement..."}</p>
+          )}
+
+          {preview && (
+            <>
+              {preview.format === "csv" && (
+                <div className="border border-gray-200 rounded-lg p-4">
+                  <h3 className="text-sm font-semibold mb-3">Column Mapping</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {COLUMN_FIELDS.map(field => (
+                      <div key={field.key}>
+                        <Label className="text-xs">{field.label}</Label>
+                        <Select
+                          value={(preview.mapping[field.key] as string | undefined) || NONE}
+                          onValueChange={(value) => updateMapping({ [field.key]: value === NONE ? undefined : value })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {!field.required && <SelectItem value={NONE}>Not mapped</SelectItem>}
+                            {preview.columns.map(column => (
+                              <SelectItem key={column} value={column}>{column}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                    <div>
+                      <Label className="text-xs">Date format</Label>
+                      <Select
+                        value={preview.mapping.dateFormat}
+                        onValueChange={(value) => updateMapping({ dateFormat: value as StatementColumnMapping["dateFormat"] })}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">Detect</SelectItem>
+                          <SelectItem value="YMD">YYYY-MM-DD</SelectItem>
+                          <SelectItem value="MDY">MM/DD/YYYY</SelectItem>
+                          <SelectItem value="DMY">DD/MM/YYYY</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div>
+                  <Label className="text-xs">Account</Label>
+                  <Select value={accountId} onValueChange={setAccountId}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>No account</SelectItem>
+                      {openAccounts.map(account => (
+                        <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">Currency</Label>
+                  <Select value={effectiveCurrency} onValueChange={setCurrency}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCIES.map(option => (
+                        <SelectItem key={option.code} value={option.code}>{option.code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">Type when not mapped</Label>
+                  <Select
+                    value={preview.mapping.defaultType}
+                    onValueChange={(value) => updateMapping({ defaultType: value as StatementColumnMapping["defaultType"] })}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">From sign (+ revenue, - expense)</SelectItem>
+                      <SelectItem value="revenue">Revenue</SelectItem>
+                      <SelectItem value="expense">Expense</SelectItem>
+                      <SelectItem value="other">Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">Category when not mapped</Label>
+                  <Input
+                    className="h-8"
+                    defaultValue={preview.mapping.defaultCategory}
+                    onBlur={(e) => {
+                      if (e.target.value.trim() && e.target.value !== preview.mapping.defaultCategory) {
+                        updateMapping({ defaultCategory: e.target.value.trim() });
+                      }
+                    }}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">
+                  {preview.rows.length} rows found, {selectedRows.length} selected
+                  {invalidCount > 0 && <span className="text-red-600"> ({invalidCount} with errors will be skipped)</span>}
+                </p>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10"></TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map(row => (
+                      <TableRow key={row.rowNumber} className={cn(row.errors.length > 0 && "bg-red-50")}>
+                        <TableCell>
+                          <Checkbox
+                            checked={row.errors.length === 0 && !excludedRows.has(row.rowNumber)}
+                            disabled={row.errors.length > 0}
+                            onCheckedChange={() => toggleRow(row.rowNumber)}
+                          />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{row.date || "—"}</TableCell>
+                        <TableCell>
+                          {row.description}
+                          {row.errors.length > 0 && (
+                            <p className="text-xs text-red-600">{row.errors.join(", ")}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>{row.category}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{row.type}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(row.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate(selectedRows)}
+              disabled={selectedRows.length === 0 || importMutation.isPending || previewMutation.isPending}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {importMutation.isPending ? "Importing..." : `Import ${selectedRows.length} Records`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,18 +9,41 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
 import { apiRequest } from "@/lib/queryClient";
 import { z } from "zod";
-import { FINANCIAL_CATEGORIES, FINANCIAL_TYPES } from "@shared/constants";
+import { FINANCIAL_CATEGORIES, FINANCIAL_TYPES, TRANSFER_TYPE } from "@shared/constants";
+import { CURRENCIES } from "@shared/currency";
+import type { Account } from "@shared/schema";
 
 const newFinancialRecordSchema = z.object({
-  type: z.enum(["revenue", "expense", "other"]),
+  type: z.enum(["revenue", "expense", "other", "transfer"]),
   category: z.string().optional(), // Make optional to handle custom categories
   amount: z.number().min(0.01, "Amount must be greater than 0"),
+  currency: z.string().optional(), // empty = the account's currency, or the base currency
+  taxAmount: z.number().min(0, "Tax cannot be negative"), // sales tax or VAT included in the amount
+  accountId: z.string(), // "none" = no account
+  transferAccountId: z.string(), // transfers only
   description: z.string().optional(),
   date: z.string().min(1, "Date is required"),
+  repeat: z.enum(["none", "daily", "weekly", "biweekly", "monthly", "quarterly", "yearly"]),
+  endDate: z.string().optional(),
+}).refine((data) => data.repeat !== 'none' || data.type === 'other' || data.type === 'transfer' || data.taxAmount <= data.amount, {
+  message: "Tax cannot be more than the amount",
+  path: ["taxAmount"],
 });
 
+// Schedules offered when a record repeats; weekly and monthly ones fall on the weekday or day of the chosen date
+const REPEAT_OPTIONS = [
+  { value: "none", label: "Does not repeat", rule: null },
+  { value: "daily", label: "Daily", rule: { freq: "daily", interval: 1 } },
+  { value: "weekly", label: "Weekly", rule: { freq: "weekly", interval: 1 } },
+  { value: "biweekly", label: "Every two weeks", rule: { freq: "weekly", interval: 2 } },
+  { value: "monthly", label: "Monthly", rule: { freq: "monthly", interval: 1 } },
+  { value: "quarterly", label: "Every three months", rule: { freq: "monthly", interval: 3 } },
+  { value: "yearly", label: "Yearly", rule: { freq: "yearly", interval: 1 } },
+] as const;
+
 type NewFinancialRecordForm = z.infer<typeof newFinancialRecordSchema>;
 
 interface NewFinancialRecordModalProps {
@@ -33,6 +56,12 @@ export default function NewFinancialRecordModal({ isOpen, onClose }: NewFinancia
   const queryClient = useQueryClient();
   const [customCategory, setCustomCategory] = useState("");
   const [showCustomCategory, setShowCustomCategory] = useState(false);
+  const baseCurrency = useBaseCurrency();
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ['/api/accounts'],
+  });
+  const openAccounts = accounts?.filter(account => !account.archived) || [];
 
   const form = useForm<NewFinancialRecordForm>({
     resolver: zodResolver(newFinancialRecordSchema),
@@ -40,27 +69,76 @@ export default function NewFinancialRecordModal({ isOpen, onClose }: NewFinancia
       type: 'expense',
       category: '',
       amount: 0,
+      currency: '',
+      taxAmount: 0,
+      accountId: 'none',
+      transferAccountId: 'none',
       description: '',
       date: new Date().toISOString().split('T')[0],
+      repeat: 'none',
+      endDate: '',
     },
     mode: 'onChange',
   });
 
   const createRecordMutation = useMutation({
-    mutationFn: async (data: NewFinancialRecordForm) => {
+    mutationFn: async ({ repeat, endDate, ...data }: NewFinancialRecordForm) => {
       // Convert amount to cents for storage
       const recordData = {
         ...data,
         amount: Math.round(data.amount * 100),
+        currency: data.currency || undefined,
+        taxAmount: data.type === 'revenue' || data.type === 'expense' ? Math.round(data.taxAmount * 100) : 0,
+        accountId: data.accountId !== 'none' ? parseInt(data.accountId) : null,
+        transferAccountId: data.type === 'transfer' && data.transferAccountId !== 'none' ? parseInt(data.transferAccountId) : null,
       };
+      const rule = REPEAT_OPTIONS.find(option => option.value === repeat)?.rule;
+      if (rule) {
+        // The schedule records this and every later occurrence itself
+        const response = await apiRequest('POST', '/api/recurring-records', {
+          type: recordData.type,
+          category: recordData.category,
+          amount: recordData.amount,
+          currency: recordData.currency,
+          accountId: recordData.accountId,
+          description: recordData.description,
+          rule,
+          startDate: recordData.date,
+          endDate: endDate || null,
+        });
+        return response.json();
+      }
       const response = await apiRequest('POST', '/api/financial-records', recordData);
       return response.json();
     },
-    onSuccess: () => {
-      toast({
-        title: "Financial record created",
-        description: "Your financial record has been successfully created",
-      });
+    onSuccess: (record) => {
+      if (record.rule) {
+        toast({
+          title: "Recurring record created",
+          description: record.recordsCreated > 0
+            ? `${record.recordsCreated} occurrence${record.recordsCreated === 1 ? '' : 's'} recorded so far; the rest will be added on schedule`
+            : "Occurrences will be added on schedule",
+        });
+        queryClient.invalidateQueries({ queryKey: ['/api/recurring-records'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/recurring-records/upcoming'] });
+      } else if (record.warnings?.length > 0) {
+        toast({
+          title: "Possible duplicate",
+          description: `${record.warnings[0].message}. Review it in the duplicate queue on this page.`,
+        });
+        queryClient.invalidateQueries({ queryKey: ['/api/financial-records/duplicates'] });
+      } else if (record.budgetAlerts?.length > 0) {
+        const threshold = Math.max(...record.budgetAlerts.map((alert: { threshold: number }) => alert.threshold));
+        toast({
+          title: threshold >= 100 ? `${record.category} budget exceeded` : `${record.category} budget ${threshold}% used`,
+          description: "The record was saved. See Budgets on this page for details.",
+        });
+      } else {
+        toast({
+          title: "Financial record created",
+          description: "Your financial record has been successfully created",
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/financial-records'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       handleClose();
@@ -74,8 +152,11 @@ export default function NewFinancialRecordModal({ isOpen, onClose }: NewFinancia
     },
   });
 
+  const isTransfer = form.watch('type') === 'transfer';
+  const selectedAccount = openAccounts.find(account => String(account.id) === form.watch('accountId'));
+
   const onSubmit = (data: NewFinancialRecordForm) => {
-    const finalCategory = showCustomCategory ? customCategory : data.category;
+    const finalCategory = data.type === 'transfer' ? TRANSFER_TYPE.category : showCustomCategory ? customCategory : data.category;
     
     // Validate custom category if needed
     if (showCustomCategory && !customCategory.trim()) {
@@ -88,6 +169,11 @@ export default function NewFinancialRecordModal({ isOpen, onClose }: NewFinancia
       form.setError("category", { message: "Category is required" });
       return;
     }
+
+    if (data.type === 'transfer' && (data.accountId === 'none' || data.transferAccountId === 'none' || data.accountId === data.transferAccountId)) {
+      form.setError("transferAccountId", { message: "Choose two different accounts" });
+      return;
+    }
     
     // Clear any previous errors
     form.clearErrors("category");
@@ -107,7 +193,7 @@ export default function NewFinancialRecordModal({ isOpen, onClose }: NewFinancia
   };
 
   const selectedType = form.watch('type');
-  const availableCategories = FINANCIAL_CATEGORIES[selectedType] || [];
+  const availableCategories = selectedType !== 'transfer' ? FINANCIAL_CATEGORIES[selectedType] : [];
 
   const handleCategoryChange = (value: string) => {
     if (value === "Other") {
@@ -133,9 +219,12 @@ export default function NewFinancialRecordModal({ isOpen, onClose }: NewFinancia
             <Select 
               value={form.watch("type")} 
               onValueChange={(value) => {
-                form.setValue("type", value as "revenue" | "expense" | "other");
+                form.setValue("type", value as NewFinancialRecordForm["type"]);
                 form.setValue("category", ""); // Reset category when type changes
                 setShowCustomCategory(false);
+                if (value === 'transfer') {
+                  form.setValue("repeat", "none"); // recurring transfers aren't supported
+                }
               }}
             >
               <SelectTrigger>
@@ -147,6 +236,9 @@ export default function NewFinancialRecordModal({ isOpen, onClose }: NewFinancia
                     {type.label}
                   </SelectItem>
                 ))}
+                {openAccounts.length >= 2 && (
+                  <SelectItem value={TRANSFER_TYPE.value}>{TRANSFER_TYPE.label}</SelectItem>
+                )}
               </SelectContent>
             </Select>
             {form.formState.errors.type && (
@@ -154,69 +246,152 @@ export default function NewFinancialRecordModal({ isOpen, onClose }: NewFinancia
             )}
           </div>
 
+          {openAccounts.length > 0 && (
+            <div className={isTransfer ? "grid grid-cols-2 gap-2" : undefined}>
+              <div>
+                <Label htmlFor="accountId">{isTransfer ? "From account" : "Account"}</Label>
+                <Select value={form.watch("accountId")} onValueChange={(value) => form.setValue("accountId", value)}>
+                  <SelectTrigger id="accountId">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {!isTransfer && <SelectItem value="none">No account</SelectItem>}
+                    {openAccounts.map(account => (
+                      <SelectItem key={account.id} value={String(account.id)}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isTransfer && (
+                <div>
+                  <Label htmlFor="transferAccountId">To account</Label>
+                  <Select
+                    value={form.watch("transferAccountId")}
+                    onValueChange={(value) => {
+                      form.setValue("transferAccountId", value);
+                      form.clearErrors("transferAccountId");
+                    }}
+                  >
+                    <SelectTrigger id="transferAccountId">
+                      <SelectValue placeholder="Select account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {openAccounts.map(account => (
+                        <SelectItem key={account.id} value={String(account.id)}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {form.formState.errors.transferAccountId && (
+                <p className="text-sm text-red-600 col-span-2">{form.formState.errors.transferAccountId.message}</p>
+              )}
+            </div>
+          )}
+
+          {!isTransfer && (
+            <div>
+              <Label htmlFor="category">Category</Label>
+              {!showCustomCategory ? (
+                <Select 
+                  value={form.watch("category")} 
+                  onValueChange={handleCategoryChange}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableCategories.map(category => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <div className="space-y-2">
+                  <Input
+                    placeholder="Enter custom category"
+                    value={customCategory}
+                    onChange={(e) => {
+                      setCustomCategory(e.target.value);
+                      if (e.target.value.trim()) {
+                        form.clearErrors("category");
+                      }
+                    }}
+                  />
+                  <Button 
+                    type="button" 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => {
+                      setShowCustomCategory(false);
+                      setCustomCategory("");
+                    }}
+                  >
+                    Choose from list
+                  </Button>
+                </div>
+              )}
+              {(form.formState.errors.category || (showCustomCategory && !customCategory.trim())) && (
+                <p className="text-sm text-red-600">
+                  {form.formState.errors.category?.message || "Category is required"}
+                </p>
+              )}
+            </div>
+          )}
+
           <div>
-            <Label htmlFor="category">Category</Label>
-            {!showCustomCategory ? (
-              <Select 
-                value={form.watch("category")} 
-                onValueChange={handleCategoryChange}
+            <Label htmlFor="amount">Amount</Label>
+            <div className="flex space-x-2 mt-1">
+              <Input
+                type="number"
+                step="0.01"
+                {...form.register("amount", { valueAsNumber: true })}
+              />
+              <Select
+                value={form.watch("currency") || selectedAccount?.currency || baseCurrency}
+                onValueChange={(value) => form.setValue("currency", value)}
               >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select category" />
+                <SelectTrigger className="w-28">
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {availableCategories.map(category => (
-                    <SelectItem key={category} value={category}>
-                      {category}
+                  {CURRENCIES.map(currency => (
+                    <SelectItem key={currency.code} value={currency.code}>
+                      {currency.code}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
-            ) : (
-              <div className="space-y-2">
-                <Input
-                  placeholder="Enter custom category"
-                  value={customCategory}
-                  onChange={(e) => {
-                    setCustomCategory(e.target.value);
-                    if (e.target.value.trim()) {
-                      form.clearErrors("category");
-                    }
-                  }}
-                />
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => {
-                    setShowCustomCategory(false);
-                    setCustomCategory("");
-                  }}
-                >
-                  Choose from list
-                </Button>
-              </div>
-            )}
-            {(form.formState.errors.category || (showCustomCategory && !customCategory.trim())) && (
-              <p className="text-sm text-red-600">
-                {form.formState.errors.category?.message || "Category is required"}
-              </p>
-            )}
-          </div>
-
-          <div>
-            <Label htmlFor="amount">Amount ($)</Label>
-            <Input
-              type="number"
-              step="0.01"
-              {...form.register("amount", { valueAsNumber: true })}
-              className="mt-1"
-            />
+            </div>
             {form.formState.errors.amount && (
               <p className="text-sm text-red-600">{form.formState.errors.amount.message}</p>
             )}
           </div>
 
+          {(selectedType === 'revenue' || selectedType === 'expense') && form.watch("repeat") === "none" && (
+            <div>
+              <Label htmlFor="taxAmount">Sales tax / VAT (included in amount)</Label>
+              <Input
+                id="taxAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                {...form.register("taxAmount", { setValueAs: (value) => value === '' ? 0 : parseFloat(value) })}
+                className="mt-1"
+                placeholder="0.00"
+              />
+              {form.formState.errors.taxAmount && (
+                <p className="text-sm text-red-600">{form.formState.errors.taxAmount.message}</p>
+              )}
+            </div>
+          )}
+
           <div>
             <Label htmlFor="description">Description (Optional)</Label>
             <Textarea
@@ -238,6 +413,41 @@ export default function NewFinancialRecordModal({ isOpen, onClose }: NewFinancia
             )}
           </div>
 
+          {!isTransfer && (
+            <div>
+              <Label htmlFor="repeat">Repeat</Label>
+              <Select
+                value={form.watch("repeat")}
+                onValueChange={(value) => form.setValue("repeat", value as NewFinancialRecordForm["repeat"])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPEAT_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {form.watch("repeat") !== "none" && (
+            <div>
+              <Label htmlFor="endDate">Ends (Optional)</Label>
+              <Input
+                type="date"
+                {...form.register("endDate")}
+                className="mt-1"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Occurrences from the date above up to today are recorded right away
+              </p>
+            </div>
+          )}
+
           <div className="flex justify-end space-x-2">
             <Button type="button" variant="outline" onClick={handleClose}>
               Cancel
@@ -6,10 +6,13 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { insertGoalSchema } from "@shared/schema";
 import { FINANCIAL_CATEGORIES, FINANCIAL_TYPES } from "@shared/constants";
+import { GOAL_PERIODS, type GoalPeriod } from "@shared/goalWindow";
+import FinancialCategoryPicker from "@/components/financial-category-picker";
 import { z } from "zod";
 
 interface NewGoalModalProps {
@@ -18,6 +21,7 @@ interface NewGoalModalProps {
 }
 
 const goalFormSchema = insertGoalSchema.extend({
+  startDate: z.string().optional(),
   targetDate: z.string().optional(),
 });
 
@@ -27,6 +31,10 @@ export default function NewGoalModal({ isOpen, onClose }: NewGoalModalProps) {
     description: "",
     type: "revenue" as "revenue" | "expense" | "other",
     category: "",
+    targetAmount: "",
+    financialCategories: [] as string[],
+    period: "none" as GoalPeriod,
+    startDate: "",
     targetDate: "",
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -34,12 +42,14 @@ export default function NewGoalModal({ isOpen, onClose }: NewGoalModalProps) {
   const [showCustomCategory, setShowCustomCategory] = useState(false);
   
   const { toast } = useToast();
+  const baseCurrency = useBaseCurrency();
   const queryClient = useQueryClient();
 
   const createGoalMutation = useMutation({
     mutationFn: async (data: z.infer<typeof goalFormSchema>) => {
       const goalData = {
         ...data,
+        startDate: data.startDate ? new Date(data.startDate) : undefined,
         targetDate: data.targetDate ? new Date(data.targetDate) : undefined,
       };
       const response = await apiRequest('POST', '/api/goals', goalData);
@@ -85,6 +95,9 @@ export default function NewGoalModal({ isOpen, onClose }: NewGoalModalProps) {
       const finalData = {
         ...formData,
         category: finalCategory,
+        // Convert dollars to cents; recurring goals ignore the fixed start date
+        targetAmount: formData.targetAmount ? Math.round(parseFloat(formData.targetAmount) * 100) : null,
+        startDate: formData.period === "none" ? formData.startDate : "",
       };
       const validatedData = goalFormSchema.parse(finalData);
       createGoalMutation.mutate(validatedData);
@@ -102,7 +115,7 @@ export default function NewGoalModal({ isOpen, onClose }: NewGoalModalProps) {
   };
 
   const handleClose = () => {
-    setFormData({ title: "", description: "", type: "revenue", category: "", targetDate: "" });
+    setFormData({ title: "", description: "", type: "revenue", category: "", targetAmount: "", financialCategories: [], period: "none", startDate: "", targetDate: "" });
     setErrors({});
     setCustomCategory("");
     setShowCustomCategory(false);
@@ -125,7 +138,7 @@ export default function NewGoalModal({ isOpen, onClose }: NewGoalModalProps) {
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Goal</DialogTitle>
         </DialogHeader>
@@ -161,7 +174,7 @@ export default function NewGoalModal({ isOpen, onClose }: NewGoalModalProps) {
             <Select 
               value={formData.type} 
               onValueChange={(value) => {
-                setFormData({ ...formData, type: value as "revenue" | "expense" | "other", category: "" });
+                setFormData({ ...formData, type: value as "revenue" | "expense" | "other", category: "", financialCategories: [] });
                 setShowCustomCategory(false);
               }}
             >
@@ -229,16 +242,83 @@ export default function NewGoalModal({ isOpen, onClose }: NewGoalModalProps) {
             )}
           </div>
           
+          {formData.type !== "other" && (
+            <div>
+              <Label htmlFor="targetAmount">Target Amount ({baseCurrency})</Label>
+              <Input
+                id="targetAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.targetAmount}
+                onChange={(e) => setFormData({ ...formData, targetAmount: e.target.value })}
+                placeholder={formData.type === "expense" ? "Spending limit" : "Revenue target"}
+                className={errors.targetAmount ? "border-red-500" : ""}
+              />
+              {errors.targetAmount && <p className="text-sm text-red-500 mt-1">{errors.targetAmount}</p>}
+            </div>
+          )}
+
+          {formData.type !== "other" && (
+            <div>
+              <Label>Counts Records In</Label>
+              <FinancialCategoryPicker
+                type={formData.type}
+                value={formData.financialCategories}
+                onChange={(financialCategories) => setFormData({ ...formData, financialCategories })}
+              />
+            </div>
+          )}
+
           <div>
-            <Label htmlFor="targetDate">Target Date</Label>
-            <Input
-              id="targetDate"
-              type="date"
-              value={formData.targetDate}
-              onChange={(e) => setFormData({ ...formData, targetDate: e.target.value })}
-              className={errors.targetDate ? "border-red-500" : ""}
-            />
-            {errors.targetDate && <p className="text-sm text-red-500 mt-1">{errors.targetDate}</p>}
+            <Label htmlFor="period">Measurement Window</Label>
+            <Select
+              value={formData.period}
+              onValueChange={(value) => setFormData({ ...formData, period: value as GoalPeriod })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GOAL_PERIODS.map(period => (
+                  <SelectItem key={period.value} value={period.value}>
+                    {period.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">
+              {formData.period === "none"
+                ? "Progress counts records between the start and target dates"
+                : "Progress counts records in the current period and resets each period"}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {formData.period === "none" && (
+              <div>
+                <Label htmlFor="startDate">Start Date</Label>
+                <Input
+                  id="startDate"
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                  className={errors.startDate ? "border-red-500" : ""}
+                />
+                {errors.startDate && <p className="text-sm text-red-500 mt-1">{errors.startDate}</p>}
+              </div>
+            )}
+            <div className={formData.period === "none" ? "" : "col-span-2"}>
+              <Label htmlFor="targetDate">Target Date</Label>
+              <Input
+                id="targetDate"
+                type="date"
+                value={formData.targetDate}
+                onChange={(e) => setFormData({ ...formData, targetDate: e.target.value })}
+                className={errors.targetDate ? "border-red-500" : ""}
+              />
+              {errors.targetDate && <p className="text-sm text-red-500 mt-1">{errors.targetDate}</p>}
+            </div>
           </div>
           
           <div className="flex space-x-3 pt-4">
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { AccountRegisterEntry, AccountSummary } from "@shared/schema";
+import { formatMoney } from "@shared/currency";
+import { format } from "date-fns";
+
+interface ReconcileAccountModalProps {
+  account: AccountSummary;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Tick the records that appear on the bank or card statement until the cleared balance matches the statement's
+export default function ReconcileAccountModal({ account, isOpen, onClose }: ReconcileAccountModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statementDate, setStatementDate] = useState("");
+  const [statementBalance, setStatementBalance] = useState("");
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const { data: register } = useQuery<AccountRegisterEntry[]>({
+    queryKey: [`/api/accounts/${account.id}/register`],
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStatementDate(new Date().toISOString().split('T')[0]);
+    setStatementBalance("");
+    setSelected(new Set());
+  }, [account.id, isOpen]);
+
+  const formatAmount = (amount: number) => formatMoney(amount, account.currency);
+
+  // Uncleared records up to the end of the statement date
+  const statementEnd = new Date(`${statementDate}T23:59:59.999Z`);
+  const candidates = register?.filter(entry => !entry.cleared && entry.amount !== null && new Date(entry.record.date) <= statementEnd) || [];
+  const ticked = candidates.filter(entry => selected.has(entry.record.id));
+  const clearedBalance = account.clearedBalance + ticked.reduce((sum, entry) => sum + entry.amount!, 0);
+  const target = Math.round(parseFloat(statementBalance) * 100);
+  const difference = isNaN(target) ? null : target - clearedBalance;
+
+  const toggle = (id: number) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const reconcileMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/accounts/${account.id}/reconcile`, {
+        statementDate,
+        statementBalance: target,
+        recordIds: ticked.map(entry => entry.record.id),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: `${account.name} reconciled`,
+        description: `${ticked.length} record${ticked.length === 1 ? '' : 's'} marked as cleared`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/accounts/${account.id}/register`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/financial-records'] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Reconciliation failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reconcile {account.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="statement-date">Statement date</Label>
+              <Input
+                id="statement-date"
+                type="date"
+                value={statementDate}
+                onChange={(e) => setStatementDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="statement-balance">Statement ending balance ({account.currency})</Label>
+              <Input
+                id="statement-balance"
+                type="number"
+                step="0.01"
+                value={statementBalance}
+                onChange={(e) => setStatementBalance(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {account.reconciledAt && account.reconciledBalance !== null && (
+            <p className="text-xs text-gray-500">
+              Last reconciled to {formatAmount(account.reconciledBalance)} on {format(new Date(account.reconciledAt), 'MMM d, yyyy')}
+            </p>
+          )}
+
+          {candidates.length === 0 ? (
+            <p className="text-sm text-gray-500">No uncleared records on or before the statement date.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg max-h-80 overflow-y-auto divide-y">
+              <div className="flex items-center space-x-3 px-3 py-2 bg-gray-50 text-xs text-gray-600">
+                <Checkbox
+                  checked={ticked.length === candidates.length}
+                  onCheckedChange={(checked) => setSelected(checked === true ? new Set(candidates.map(entry => entry.record.id)) : new Set())}
+                />
+                <span>Select all {candidates.length}</span>
+              </div>
+              {candidates.map(entry => (
+                <label key={entry.record.id} className="flex items-center space-x-3 px-3 py-2 text-sm cursor-pointer">
+                  <Checkbox checked={selected.has(entry.record.id)} onCheckedChange={() => toggle(entry.record.id)} />
+                  <span className="text-gray-500 w-24">{format(new Date(entry.record.date), 'MMM d, yyyy')}</span>
+                  <span className="flex-1 truncate">{entry.record.description || entry.record.category}</span>
+                  <span className={cn("font-medium", entry.amount! >= 0 ? "text-green-600" : "text-red-600")}>
+                    {entry.amount! >= 0 ? '+' : ''}{formatAmount(entry.amount!)}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2 text-sm border-t pt-3">
+            <div>
+              <p className="text-gray-600">Cleared balance</p>
+              <p className="font-semibold">{formatAmount(clearedBalance)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Statement balance</p>
+              <p className="font-semibold">{isNaN(target) ? '—' : formatAmount(target)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Difference</p>
+              <p className={cn("font-semibold", difference === 0 ? "text-green-600" : "text-red-600")}>
+                {difference === null ? '—' : formatAmount(difference)}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => reconcileMutation.mutate()}
+              disabled={difference !== 0 || statementDate === "" || reconcileMutation.isPending}
+              title={difference !== 0 ? "The cleared balance must match the statement balance" : undefined}
+            >
+              {reconcileMutation.isPending ? "Finishing..." : "Finish Reconciliation"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,8 +16,10 @@ const defaultNavigationItems: NavigationItem[] = [
   { id: "tasks", href: "/tasks", label: "Tasks" },
   { id: "calendar", href: "/calendar", label: "Calendar" },
   { id: "financials", href: "/financials", label: "Financials" },
+  { id: "reports", href: "/reports", label: "Reports" },
   { id: "business-context", href: "/business-context", label: "Business Context" },
   { id: "insights", href: "/insights", label: "AI Insights" },
+  { id: "inbox", href: "/inbox", label: "Inbox" },
 ];
 
 export default function Navigation() {
@@ -35,7 +37,9 @@ export default function Navigation() {
         const reorderedItems = orderIds.map((id: string) => 
           defaultNavigationItems.find(item => item.id === id)
         ).filter(Boolean);
-        setNavigationItems(reorderedItems);
+        // Tabs added after the order was saved go at the end
+        const newItems = defaultNavigationItems.filter(item => !orderIds.includes(item.id));
+        setNavigationItems([...reorderedItems, ...newItems]);
       } catch (error) {
         console.error('Failed to load navigation order:', error);
       }
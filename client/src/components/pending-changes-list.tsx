@@ -0,0 +1,167 @@
+import { useQuery, useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, X, Inbox } from "lucide-react";
+import { PendingChange } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
+import { apiRequest } from "@/lib/queryClient";
+import { DEFAULT_CURRENCY, formatMoney } from "@shared/currency";
+
+interface PendingChangesListProps {
+  conversationId?: number;
+  emptyMessage?: string;
+}
+
+export const ENTITY_QUERY_KEYS: Record<string, string> = {
+  task: '/api/tasks',
+  goal: '/api/goals',
+  calendar_event: '/api/calendar-events',
+  financial_record: '/api/financial-records',
+  business_context: '/api/business-context',
+};
+
+// Pending change lists are keyed by URL with query parameters, so match on the path prefix
+export function invalidatePendingChanges(queryClient: QueryClient) {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith('/api/pending-changes'),
+  });
+}
+
+export function formatDiffValue(field: string, value: unknown, currency: string = DEFAULT_CURRENCY): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number' && (field === 'amount' || field === 'targetAmount')) {
+    return formatMoney(value, currency);
+  }
+  if (field === 'progress') return `${value}%`;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleDateString();
+  }
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export default function PendingChangesList({ conversationId, emptyMessage }: PendingChangesListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const baseCurrency = useBaseCurrency();
+  // Goal targets are in the base currency; records carry their own, which the change may set
+  const diffCurrency = (change: PendingChange) =>
+    String(change.diff?.find(entry => entry.field === 'currency')?.after || baseCurrency);
+  const url = `/api/pending-changes?status=pending${conversationId ? `&conversationId=${conversationId}` : ''}`;
+
+  const { data: changes } = useQuery<PendingChange[]>({
+    queryKey: [url],
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (change: PendingChange) => {
+      const response = await apiRequest('POST', `/api/pending-changes/${change.id}/approve`);
+      return response.json();
+    },
+    onSuccess: (result, change) => {
+      toast({
+        title: "Change applied",
+        description: result.notes?.length > 0 ? result.notes.join(' ') : change.summary,
+      });
+      const entityKey = ENTITY_QUERY_KEYS[change.entityType];
+      if (entityKey) {
+        queryClient.invalidateQueries({ queryKey: [entityKey] });
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      invalidatePendingChanges(queryClient);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not apply change",
+        description: error.message,
+        variant: "destructive",
+      });
+      invalidatePendingChanges(queryClient);
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async (change: PendingChange) => {
+      await apiRequest('POST', `/api/pending-changes/${change.id}/reject`);
+    },
+    onSuccess: () => {
+      invalidatePendingChanges(queryClient);
+    },
+    onError: (error) => {
+      toast({
+        title: "Reject failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!changes || changes.length === 0) {
+    if (!emptyMessage) return null;
+    return (
+      <div className="text-center py-8">
+        <Inbox className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-500">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  const isBusy = approveMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="space-y-3">
+      {changes.map((change) => (
+        <div key={change.id} className="border border-amber-200 bg-amber-50 rounded-lg p-3">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">{change.summary}</span>
+                <Badge variant="outline" className="text-xs">
+                  {change.source === 'chat' ? 'Chat' : 'Correlation'}
+                </Badge>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Proposed {formatDistanceToNow(new Date(change.createdAt), { addSuffix: true })}
+              </p>
+            </div>
+            <div className="flex space-x-2 shrink-0">
+              <Button size="sm" onClick={() => approveMutation.mutate(change)} disabled={isBusy}>
+                <Check className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => rejectMutation.mutate(change)} disabled={isBusy}>
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+            </div>
+          </div>
+
+          {change.diff && change.diff.length > 0 && (
+            <table className="w-full text-xs mt-3">
+              <tbody>
+                {change.diff.map((entry) => (
+                  <tr key={entry.field} className="border-t border-amber-100">
+                    <td className="py-1 pr-2 font-medium text-gray-700">{entry.field}</td>
+                    {change.entityId !== null && (
+                      <td className="py-1 pr-2 text-gray-500 line-through">{formatDiffValue(entry.field, entry.before, diffCurrency(change))}</td>
+                    )}
+                    <td className="py-1 text-gray-900">{formatDiffValue(entry.field, entry.after, diffCurrency(change))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {change.reasoning && (
+            <p className="text-xs text-gray-600 mt-2 line-clamp-3">
+              <span className="font-medium">Why: </span>{change.reasoning}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, Edit, Pause, Play, Repeat, RotateCcw, SkipForward, Trash2 } from "lucide-react";
+import { ExchangeRate, RecurrenceRule, RecurringRecord, UpcomingRecurringOccurrence } from "@shared/schema";
+import { convertAmount, formatMoney } from "@shared/currency";
+import { cn } from "@/lib/utils";
+import { format, parseISO } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
+import { apiRequest } from "@/lib/queryClient";
+import EditRecurringOccurrenceModal from "@/components/modals/edit-recurring-occurrence-modal";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const FREQUENCY_UNITS = { daily: "day", weekly: "week", monthly: "month", yearly: "year" };
+
+const ordinal = (day: number) => {
+  if (day === -1) return "last day";
+  const suffix = day % 10 === 1 && day !== 11 ? "st" : day % 10 === 2 && day !== 12 ? "nd" : day % 10 === 3 && day !== 13 ? "rd" : "th";
+  return `${day}${suffix}`;
+};
+
+// e.g. "Monthly on the 1st", "Every 2 weeks on Fri"
+export function describeRule(rule: RecurrenceRule, startDate: string | Date): string {
+  const start = new Date(startDate);
+  const unit = FREQUENCY_UNITS[rule.freq];
+  const every = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : rule.freq.charAt(0).toUpperCase() + rule.freq.slice(1);
+  switch (rule.freq) {
+    case "weekly": {
+      const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [start.getUTCDay()];
+      return `${every} on ${weekdays.map(day => WEEKDAYS[day]).join(", ")}`;
+    }
+    case "monthly":
+      return `${every} on the ${ordinal(rule.byMonthDay ?? start.getUTCDate())}`;
+    case "yearly":
+      return `${every} on ${format(parseISO(start.toISOString().slice(0, 10)), "MMM d")}`;
+    default:
+      return every;
+  }
+}
+
+export default function RecurringRecords() {
+  const [editingOccurrence, setEditingOccurrence] = useState<UpcomingRecurringOccurrence | null>(null);
+  const { toast } = useToast();
+  const baseCurrency = useBaseCurrency();
+  const queryClient = useQueryClient();
+
+  const { data: templates } = useQuery<RecurringRecord[]>({
+    queryKey: ['/api/recurring-records'],
+  });
+
+  const { data: upcoming } = useQuery<UpcomingRecurringOccurrence[]>({
+    queryKey: ['/api/recurring-records/upcoming'],
+  });
+
+  // Used to total occurrences in other currencies
+  const { data: rates } = useQuery<ExchangeRate[]>({
+    queryKey: ['/api/exchange-rates'],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/recurring-records'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/recurring-records/upcoming'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/financial-records'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Update failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setActiveMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number; active: boolean }) => {
+      await apiRequest('PATCH', `/api/recurring-records/${id}`, { active });
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/recurring-records/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Recurring record deleted",
+        description: "Records it already created have been kept",
+      });
+      invalidate();
+    },
+    onError,
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: async ({ occurrence, skip }: { occurrence: UpcomingRecurringOccurrence; skip: boolean }) => {
+      const url = `/api/recurring-records/${occurrence.recurringRecordId}/occurrences/${occurrence.occurrenceDate}`;
+      if (skip) {
+        await apiRequest('PUT', url, { skip: true });
+      } else {
+        await apiRequest('DELETE', url);
+      }
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  if (!templates || templates.length === 0) {
+    return null;
+  }
+
+  const formatAmount = (amount: number, currency: string = baseCurrency) => formatMoney(amount, currency);
+
+  // Occurrences without a rate into the base currency are left out of the totals
+  const inBase = (occurrence: UpcomingRecurringOccurrence) =>
+    convertAmount(occurrence.amount, occurrence.currency, baseCurrency, occurrence.date, rates || []) ?? 0;
+
+  const scheduled = upcoming?.filter(occurrence => !occurrence.skipped) || [];
+  const inflow = scheduled.filter(o => o.type === 'revenue').reduce((sum, o) => sum + inBase(o), 0);
+  const outflow = scheduled.filter(o => o.type === 'expense').reduce((sum, o) => sum + inBase(o), 0);
+  const isBusy = setActiveMutation.isPending || deleteMutation.isPending || skipMutation.isPending;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarClock className="h-5 w-5 mr-2 text-blue-600" />
+          Upcoming Cash Flow (next 30 days)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <p className="text-sm text-gray-600">Scheduled In</p>
+            <p className="text-lg font-semibold text-green-600">{formatAmount(inflow)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Scheduled Out</p>
+            <p className="text-lg font-semibold text-red-600">{formatAmount(outflow)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Net</p>
+            <p className={cn("text-lg font-semibold", inflow - outflow >= 0 ? "text-green-600" : "text-red-600")}>
+              {formatAmount(inflow - outflow)}
+            </p>
+          </div>
+        </div>
+
+        {upcoming && upcoming.length > 0 ? (
+          <div className="space-y-2">
+            {upcoming.map((occurrence) => (
+              <div
+                key={`${occurrence.recurringRecordId}-${occurrence.occurrenceDate}`}
+                className={cn("flex items-center justify-between border border-gray-200 rounded-lg p-3", occurrence.skipped && "opacity-60")}
+              >
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className={cn("font-medium", occurrence.skipped && "line-through")}>{occurrence.category}</span>
+                    {occurrence.skipped && <Badge variant="outline">Skipped</Badge>}
+                    {occurrence.edited && <Badge variant="secondary">Edited</Badge>}
+                  </div>
+                  {occurrence.description && (
+                    <p className="text-sm text-gray-600">{occurrence.description}</p>
+                  )}
+                  <p className="text-xs text-gray-500">{format(parseISO(occurrence.date), 'EEE, MMM d, yyyy')}</p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className={cn("font-bold", occurrence.type === 'revenue' ? "text-green-600" : occurrence.type === 'expense' ? "text-red-600" : "text-blue-600")}>
+                    {occurrence.type === 'revenue' ? '+' : '-'}{formatAmount(occurrence.amount, occurrence.currency)}
+                  </span>
+                  {occurrence.skipped ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => skipMutation.mutate({ occurrence, skip: false })}
+                      disabled={isBusy}
+                      title="Restore this occurrence"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingOccurrence(occurrence)}
+                        className="text-primary hover:text-blue-700"
+                        title="Edit this occurrence only"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => skipMutation.mutate({ occurrence, skip: true })}
+                        disabled={isBusy}
+                        title="Skip this occurrence"
+                      >
+                        <SkipForward className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Nothing is scheduled in the next 30 days</p>
+        )}
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+            <Repeat className="h-4 w-4 mr-1" />
+            Recurring Records ({templates.length})
+          </h4>
+          <div className="space-y-2">
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between border border-gray-200 rounded-lg p-3">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{template.description || template.category}</span>
+                    {!template.active && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {describeRule(template.rule, template.startDate)} · {template.category}
+                    {template.active && template.nextRunAt
+                      ? ` · next ${format(parseISO(new Date(template.nextRunAt).toISOString().slice(0, 10)), 'MMM d, yyyy')}`
+                      : !template.nextRunAt ? ' · ended' : ''}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className="font-bold">{formatAmount(template.amount, template.currency)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setActiveMutation.mutate({ id: template.id, active: !template.active })}
+                    disabled={isBusy || !template.nextRunAt}
+                    title={template.active ? "Pause" : "Resume from today"}
+                  >
+                    {template.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(template.id)}
+                    disabled={isBusy}
+                    className="text-red-600 hover:text-red-700"
+                    title="Delete schedule"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+
+      {editingOccurrence && (
+        <EditRecurringOccurrenceModal
+          occurrence={editingOccurrence}
+          isOpen={!!editingOccurrence}
+          onClose={() => setEditingOccurrence(null)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Landmark, Plus, Trash2 } from "lucide-react";
+import { TaxCategory, TaxRate } from "@shared/schema";
+import { TAX_LINES } from "@shared/constants";
+import { formatMoney } from "@shared/currency";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
+import { apiRequest } from "@/lib/queryClient";
+
+// Categories shown before the list is expanded
+const CATEGORIES_SHOWN = 10;
+
+const taxLineLabel = (value: string) => {
+  const line = TAX_LINES.find(entry => entry.value === value);
+  if (!line) return value;
+  return `${line.line ? `Line ${line.line}: ` : ''}${line.label}${line.share > 0 && line.share < 100 ? ` (${line.share}%)` : ''}`;
+};
+
+// Category tax lines and the income tax rate table behind the quarterly tax estimate report
+export default function TaxSettings() {
+  const baseCurrency = useBaseCurrency();
+  const [name, setName] = useState("Income tax");
+  const [threshold, setThreshold] = useState("0");
+  const [rate, setRate] = useState("");
+  const [showAll, setShowAll] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: categories } = useQuery<TaxCategory[]>({
+    queryKey: ['/api/tax-categories'],
+  });
+
+  const { data: rates } = useQuery<TaxRate[]>({
+    queryKey: ['/api/tax-rates'],
+  });
+
+  const refreshReports = () => {
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/reports/') });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Choosing the category's default line removes the user's own mapping
+  const mappingMutation = useMutation({
+    mutationFn: async ({ category, taxLine }: { category: TaxCategory; taxLine: string }) => {
+      const response = await apiRequest('PUT', '/api/tax-categories', {
+        type: category.type,
+        category: category.category,
+        taxLine: taxLine === category.defaultTaxLine ? null : taxLine,
+      });
+      return response.json();
+    },
+    onSuccess: (updated: TaxCategory[]) => {
+      queryClient.setQueryData(['/api/tax-categories'], updated);
+      refreshReports();
+    },
+    onError: showError("Update failed"),
+  });
+
+  const addRateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/tax-rates', {
+        name: name.trim(),
+        threshold: Math.round(parseFloat(threshold || "0") * 100),
+        rate: parseFloat(rate),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Tax rate saved",
+        description: "The quarterly tax estimate now uses it",
+      });
+      setRate("");
+      queryClient.invalidateQueries({ queryKey: ['/api/tax-rates'] });
+      refreshReports();
+    },
+    onError: showError("Save failed"),
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/tax-rates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tax-rates'] });
+      refreshReports();
+    },
+  });
+
+  const parsedRate = parseFloat(rate);
+  const isRateValid = name.trim() !== "" && parsedRate >= 0 && parsedRate <= 100 && !(parseFloat(threshold) < 0);
+
+  // Categories with records first, so the ones that affect the estimate are on top
+  const sortedCategories = [...(categories || [])].sort((a, b) => b.count - a.count || a.category.localeCompare(b.category));
+  const visibleCategories = showAll ? sortedCategories : sortedCategories.slice(0, CATEGORIES_SHOWN);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Landmark className="h-5 w-5 mr-2 text-blue-600" />
+          Tax Settings
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          Map each category to the tax line it is reported on and enter the income tax rates for your estimate.
+          Unmapped income is taxed as gross receipts; unmapped expenses are not deducted.
+        </p>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Category tax lines</h4>
+          <div className="space-y-1">
+            {visibleCategories.map(category => (
+              <div key={`${category.type}:${category.category}`} className="flex items-center justify-between text-sm border-b border-gray-100 py-1 gap-2">
+                <span className="flex items-center space-x-2 min-w-0">
+                  <span className={cn("w-2 h-2 rounded-full flex-shrink-0", category.type === 'revenue' ? "bg-green-500" : "bg-red-500")} />
+                  <span className="truncate">{category.category}</span>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">{category.count} record{category.count === 1 ? '' : 's'}</span>
+                </span>
+                <Select
+                  value={category.taxLine ?? ""}
+                  onValueChange={(value) => mappingMutation.mutate({ category, taxLine: value })}
+                  disabled={mappingMutation.isPending}
+                >
+                  <SelectTrigger className={cn("w-64 h-8", !category.taxLine && "text-amber-700")}>
+                    <SelectValue placeholder="Not mapped" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TAX_LINES.filter(line => line.type === category.type).map(line => (
+                      <SelectItem key={line.value} value={line.value}>
+                        {taxLineLabel(line.value)}{line.value === category.defaultTaxLine ? ' (default)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          {sortedCategories.length > CATEGORIES_SHOWN && (
+            <Button variant="link" size="sm" className="px-0" onClick={() => setShowAll(!showAll)}>
+              {showAll ? "Show fewer" : `Show all ${sortedCategories.length} categories`}
+            </Button>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Income tax rates</h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+            <div className="col-span-2 md:col-span-1">
+              <Label htmlFor="tax-rate-name">Tax</Label>
+              <Input id="tax-rate-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Income tax" />
+            </div>
+            <div>
+              <Label htmlFor="tax-rate-threshold">Above ({baseCurrency}/yr)</Label>
+              <Input
+                id="tax-rate-threshold"
+                type="number"
+                step="0.01"
+                min="0"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="tax-rate-rate">Rate (%)</Label>
+              <Input
+                id="tax-rate-rate"
+                type="number"
+                step="0.1"
+                min="0"
+                max="100"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                placeholder="25"
+              />
+            </div>
+            <Button onClick={() => addRateMutation.mutate()} disabled={!isRateValid || addRateMutation.isPending}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Rate
+            </Button>
+          </div>
+
+          {!rates || rates.length === 0 ? (
+            <p className="text-sm text-gray-500 mt-3">
+              No tax rates yet. Add one to estimate income tax; the report still shows taxable profit and sales tax.
+            </p>
+          ) : (
+            <div className="space-y-1 mt-3">
+              {rates.map(taxRate => (
+                <div key={taxRate.id} className="flex items-center justify-between text-sm border-b border-gray-100 py-1">
+                  <span>
+                    <span className="font-medium mr-2">{taxRate.name}</span>
+                    {taxRate.rate}% of profit above {formatMoney(taxRate.threshold, baseCurrency, { wholeUnits: true })}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteRateMutation.mutate(taxRate.id)}
+                    disabled={deleteRateMutation.isPending}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500 pt-1">
+                Rates with the same name are brackets of one tax: each applies to the year's profit between its threshold and the next.
+              </p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,9 @@
+import { useAuth } from "./useAuth";
+import { DEFAULT_CURRENCY } from "@shared/currency";
+import type { User } from "@shared/schema";
+
+// Currency the server reports totals, budgets, goal targets and forecasts in
+export function useBaseCurrency(): string {
+  const { user } = useAuth();
+  return (user as User | undefined)?.baseCurrency || DEFAULT_CURRENCY;
+}
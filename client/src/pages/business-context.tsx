@@ -6,7 +6,8 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { NewBusinessContextModal } from "@/components/modals/new-business-context-modal";
 import { EditBusinessContextModal } from "@/components/modals/edit-business-context-modal";
-import { Building2, AlertTriangle, Target, TrendingUp, Shield, Zap, Users, Lightbulb, Trash2, Edit, AlertCircle } from "lucide-react";
+import HistoryModal from "@/components/modals/history-modal";
+import { Building2, AlertTriangle, Target, TrendingUp, Shield, Zap, Users, Lightbulb, Trash2, Edit, AlertCircle, History } from "lucide-react";
 import type { BusinessContext } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import Navigation from "@/components/navigation";
@@ -41,6 +42,7 @@ const PRIORITY_COLORS = {
 
 function BusinessContextCard({ context }: { context: BusinessContext }) {
   const [editModalOpen, setEditModalOpen] = useState(false);
+  const [historyModalOpen, setHistoryModalOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const Icon = SECTION_ICONS[context.section as keyof typeof SECTION_ICONS] || Lightbulb;
@@ -92,6 +94,14 @@ function BusinessContextCard({ context }: { context: BusinessContext }) {
             >
               <Edit className="h-4 w-4" />
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setHistoryModalOpen(true)}
+              title="View history"
+            >
+              <History className="h-4 w-4" />
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -118,6 +128,14 @@ function BusinessContextCard({ context }: { context: BusinessContext }) {
         open={editModalOpen}
         onOpenChange={setEditModalOpen}
       />
+
+      <HistoryModal
+        entityType="business_context"
+        entityId={context.id}
+        title={context.title}
+        isOpen={historyModalOpen}
+        onClose={() => setHistoryModalOpen(false)}
+      />
     </Card>
   );
 }
@@ -1,9 +1,10 @@
 import Navigation from "@/components/navigation";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Calendar as CalendarIcon, Plus, ChevronLeft, ChevronRight, Clock, MapPin, Edit, Trash2, Check, X } from "lucide-react";
+import { Calendar as CalendarIcon, Plus, ChevronLeft, ChevronRight, Clock, MapPin, Edit, Trash2, Check, X, History } from "lucide-react";
 import NewEventModal from "@/components/modals/new-event-modal";
 import EditEventModal from "@/components/modals/edit-event-modal";
+import HistoryModal from "@/components/modals/history-modal";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { CalendarEvent } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
@@ -20,6 +21,7 @@ export default function Calendar() {
   const [calendarView, setCalendarView] = useState<CalendarView>('month');
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
   const [editModalOpen, setEditModalOpen] = useState(false);
+  const [historyEvent, setHistoryEvent] = useState<CalendarEvent | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -331,6 +333,15 @@ export default function Calendar() {
                           >
                             <Edit className="h-3 w-3" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            onClick={() => setHistoryEvent(event)}
+                            title="View history"
+                          >
+                            <History className="h-3 w-3" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -383,6 +394,16 @@ export default function Calendar() {
           onOpenChange={setEditModalOpen}
         />
       )}
+
+      {historyEvent && (
+        <HistoryModal
+          entityType="calendar_event"
+          entityId={historyEvent.id}
+          title={historyEvent.title}
+          isOpen={!!historyEvent}
+          onClose={() => setHistoryEvent(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
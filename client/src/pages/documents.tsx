@@ -1,6 +1,7 @@
 import Navigation from "@/components/navigation";
 import FileUpload from "@/components/file-upload";
 import DocumentList from "@/components/document-list";
+import DocumentSearch from "@/components/document-search";
 
 export default function Documents() {
   return (
@@ -9,6 +10,7 @@ export default function Documents() {
       
       <div className="space-y-6">
         <FileUpload />
+        <DocumentSearch />
         <DocumentList 
           title="All Documents" 
           showViewAll={false}
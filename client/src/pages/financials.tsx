@@ -5,35 +5,49 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, DollarSign, TrendingUp, TrendingDown, Edit, Trash2, Search, Filter, Brain } from "lucide-react";
-import { FinancialRecord } from "@shared/schema";
+import { Plus, DollarSign, TrendingUp, TrendingDown, Edit, Trash2, Search, Filter, Upload, History, Repeat, ArrowLeftRight, CheckCircle2 } from "lucide-react";
+import { Account, FinancialRecord } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/useBaseCurrency";
+import { formatMoney } from "@shared/currency";
+import { FINANCIAL_CATEGORIES } from "@shared/constants";
 import { apiRequest } from "@/lib/queryClient";
 import NewFinancialRecordModal from "@/components/modals/new-financial-record-modal";
 import EditFinancialRecordModal from "@/components/modals/edit-financial-record-modal";
+import ImportFinancialRecordsModal from "@/components/modals/import-financial-records-modal";
+import HistoryModal from "@/components/modals/history-modal";
+import DuplicateReviewQueue from "@/components/duplicate-review-queue";
+import RecurringRecords from "@/components/recurring-records";
+import CashFlowForecast from "@/components/cash-flow-forecast";
+import BudgetTracker from "@/components/budget-tracker";
+import FinancialMetricsCard from "@/components/financial-metrics";
+import AccountBalances from "@/components/account-balances";
+import CurrencySettings from "@/components/currency-settings";
 import Navigation from "@/components/navigation";
 
-const FINANCIAL_CATEGORIES = {
-  income: ["Sales", "Services", "Consulting", "Investments", "Other Income"],
-  expense: ["Office Supplies", "Marketing", "Travel", "Software & Tools", "Utilities", "Rent", "Salaries", "Other Expenses"],
-  investment: ["Equipment", "Software", "Real Estate", "Stocks", "Other Investments"]
-};
-
 export default function Financials() {
   const [showNewRecordModal, setShowNewRecordModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [editingRecord, setEditingRecord] = useState<FinancialRecord | null>(null);
+  const [historyRecord, setHistoryRecord] = useState<FinancialRecord | null>(null);
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState<string>("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const baseCurrency = useBaseCurrency();
 
   const { data: records, isLoading } = useQuery<FinancialRecord[]>({
     queryKey: ['/api/financial-records'],
   });
 
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ['/api/accounts'],
+  });
+  const accountName = (id: number | null) => accounts?.find(account => account.id === id)?.name;
+
   const deleteRecordMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest('DELETE', `/api/financial-records/${id}`);
@@ -44,6 +58,7 @@ export default function Financials() {
         description: "Financial record has been successfully deleted",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/financial-records'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/financial-records/duplicates'] });
     },
     onError: (error) => {
       toast({
@@ -54,12 +69,8 @@ export default function Financials() {
     },
   });
 
-  const formatAmount = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount / 100);
-  };
+  // Records show their own currency; totals are in the base currency
+  const formatAmount = (amount: number, currency: string = baseCurrency) => formatMoney(amount, currency);
 
   const getTypeIcon = (type: string) => {
     switch (type) {
@@ -69,6 +80,8 @@ export default function Financials() {
         return <TrendingDown className="h-4 w-4 text-red-600" />;
       case 'investment':
         return <DollarSign className="h-4 w-4 text-blue-600" />;
+      case 'transfer':
+        return <ArrowLeftRight className="h-4 w-4 text-gray-600" />;
       default:
         return <DollarSign className="h-4 w-4 text-gray-600" />;
     }
@@ -82,11 +95,19 @@ export default function Financials() {
         return <Badge variant="secondary" className="bg-red-100 text-red-800">Expense</Badge>;
       case 'investment':
         return <Badge variant="secondary" className="bg-blue-100 text-blue-800">Investment</Badge>;
+      case 'transfer':
+        return <Badge variant="secondary">Transfer</Badge>;
       default:
         return <Badge variant="secondary">{type}</Badge>;
     }
   };
 
+  // The built-in categories plus any custom ones the records use
+  const categoryOptions = Array.from(new Set<string>([
+    ...Object.values(FINANCIAL_CATEGORIES).flat(),
+    ...(records || []).map(record => record.category),
+  ])).sort((a, b) => a.localeCompare(b));
+
   const filteredRecords = records?.filter(record => {
     const matchesType = typeFilter === "all" || record.type === typeFilter;
     const matchesCategory = categoryFilter === "all" || record.category === categoryFilter;
@@ -97,34 +118,20 @@ export default function Financials() {
     return matchesType && matchesCategory && matchesSearch;
   });
 
-  // AI Financial Analysis
-  const { data: aiAnalysis, isLoading: aiLoading } = useQuery({
-    queryKey: ['/api/ai/financial-analysis'],
-    enabled: !!records && records.length > 0,
-  });
-
   const calculateTotals = () => {
     if (!filteredRecords) return { revenue: 0, expenses: 0, investments: 0, net: 0 };
     
-    // Use AI analysis if available, otherwise calculate normally
-    if (aiAnalysis) {
-      return {
-        revenue: aiAnalysis.adjustedRevenue,
-        expenses: aiAnalysis.adjustedExpenses,
-        investments: aiAnalysis.adjustedInvestments,
-        net: aiAnalysis.adjustedNetProfit
-      };
-    }
-    
-    const revenue = filteredRecords.filter(r => r.type === 'revenue').reduce((sum, r) => sum + r.amount, 0);
-    const expenses = filteredRecords.filter(r => r.type === 'expense').reduce((sum, r) => sum + r.amount, 0);
-    const investments = filteredRecords.filter(r => r.type === 'other').reduce((sum, r) => sum + r.amount, 0);
+    const revenue = filteredRecords.filter(r => r.type === 'revenue').reduce((sum, r) => sum + (r.baseAmount ?? 0), 0);
+    const expenses = filteredRecords.filter(r => r.type === 'expense').reduce((sum, r) => sum + (r.baseAmount ?? 0), 0);
+    const investments = filteredRecords.filter(r => r.type === 'other').reduce((sum, r) => sum + (r.baseAmount ?? 0), 0);
     const net = revenue - expenses; // Net profit = revenue - expenses only
     
     return { revenue, expenses, investments, net };
   };
 
   const totals = calculateTotals();
+  // Records in a currency no exchange rate covers yet are left out of every total
+  const unconvertedCount = records?.filter(record => record.baseAmount === null).length || 0;
 
   if (isLoading) {
     return (
@@ -160,56 +167,25 @@ export default function Financials() {
       <Navigation />
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Financial Records</h1>
-        <Button
-          onClick={() => setShowNewRecordModal(true)}
-          className="bg-primary hover:bg-blue-700 text-white"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Record
-        </Button>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => setShowImportModal(true)}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import Statement
+          </Button>
+          <Button
+            onClick={() => setShowNewRecordModal(true)}
+            className="bg-primary hover:bg-blue-700 text-white"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Record
+          </Button>
+        </div>
       </div>
 
-      {/* AI Insights */}
-      {aiAnalysis && aiAnalysis.insights && aiAnalysis.insights.length > 0 && (
-        <Card className="mb-6">
-          <CardContent className="p-4">
-            <h3 className="text-lg font-semibold mb-3 flex items-center">
-              <Brain className="h-5 w-5 mr-2 text-blue-600" />
-              AI Financial Analysis
-            </h3>
-            <div className="space-y-2">
-              {aiAnalysis.insights.map((insight, index) => (
-                <div key={index} className="flex items-start space-x-2">
-                  <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0"></div>
-                  <p className="text-sm text-gray-700">{insight}</p>
-                </div>
-              ))}
-            </div>
-            {aiAnalysis.performanceMetrics && (
-              <div className="mt-4 grid grid-cols-3 gap-4 pt-4 border-t">
-                <div className="text-center">
-                  <p className="text-sm text-gray-600">Revenue Growth</p>
-                  <p className="text-lg font-semibold text-green-600">
-                    {aiAnalysis.performanceMetrics.revenueGrowth.toFixed(1)}%
-                  </p>
-                </div>
-                <div className="text-center">
-                  <p className="text-sm text-gray-600">Expense Efficiency</p>
-                  <p className="text-lg font-semibold text-blue-600">
-                    {aiAnalysis.performanceMetrics.expenseEfficiency.toFixed(1)}%
-                  </p>
-                </div>
-                <div className="text-center">
-                  <p className="text-sm text-gray-600">Profit Margin</p>
-                  <p className="text-lg font-semibold text-purple-600">
-                    {aiAnalysis.performanceMetrics.profitMargin.toFixed(1)}%
-                  </p>
-                </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-      )}
+      <FinancialMetricsCard />
 
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
@@ -217,7 +193,7 @@ export default function Financials() {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-gray-600">Total Revenue {aiAnalysis ? '(AI Adjusted)' : ''}</p>
+                <p className="text-sm text-gray-600">Total Revenue</p>
                 <p className="text-2xl font-bold text-green-600">{formatAmount(totals.revenue)}</p>
               </div>
               <TrendingUp className="h-8 w-8 text-green-600" />
@@ -228,7 +204,7 @@ export default function Financials() {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-gray-600">Total Expenses {aiAnalysis ? '(AI Adjusted)' : ''}</p>
+                <p className="text-sm text-gray-600">Total Expenses</p>
                 <p className="text-2xl font-bold text-red-600">{formatAmount(totals.expenses)}</p>
               </div>
               <TrendingDown className="h-8 w-8 text-red-600" />
@@ -239,7 +215,7 @@ export default function Financials() {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-gray-600">Other {aiAnalysis ? '(AI Adjusted)' : ''}</p>
+                <p className="text-sm text-gray-600">Other</p>
                 <p className="text-2xl font-bold text-blue-600">{formatAmount(totals.investments)}</p>
               </div>
               <DollarSign className="h-8 w-8 text-blue-600" />
@@ -250,7 +226,7 @@ export default function Financials() {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-gray-600">Net Profit {aiAnalysis ? '(AI Adjusted)' : ''}</p>
+                <p className="text-sm text-gray-600">Net Profit</p>
                 <p className={cn("text-2xl font-bold", totals.net >= 0 ? "text-green-600" : "text-red-600")}>
                   {formatAmount(totals.net)}
                 </p>
@@ -263,6 +239,24 @@ export default function Financials() {
         </Card>
       </div>
 
+      {unconvertedCount > 0 && (
+        <p className="text-sm text-amber-700 -mt-4 mb-6">
+          {unconvertedCount} record{unconvertedCount === 1 ? '' : 's'} in other currencies {unconvertedCount === 1 ? 'is' : 'are'} left out of the {baseCurrency} totals until an exchange rate for {unconvertedCount === 1 ? 'it' : 'them'} is added below.
+        </p>
+      )}
+
+      {records && records.length > 0 && <CashFlowForecast />}
+
+      <DuplicateReviewQueue />
+
+      <AccountBalances />
+
+      <RecurringRecords />
+
+      <BudgetTracker />
+
+      <CurrencySettings />
+
       {/* Filters */}
       <Card className="mb-6">
         <CardContent className="p-4">
@@ -285,6 +279,7 @@ export default function Financials() {
                 <SelectItem value="income">Income</SelectItem>
                 <SelectItem value="expense">Expense</SelectItem>
                 <SelectItem value="investment">Investment</SelectItem>
+                <SelectItem value="transfer">Transfer</SelectItem>
               </SelectContent>
             </Select>
             <Select value={categoryFilter} onValueChange={setCategoryFilter}>
@@ -293,7 +288,7 @@ export default function Financials() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Categories</SelectItem>
-                {Object.values(FINANCIAL_CATEGORIES).flat().map(category => (
+                {categoryOptions.map(category => (
                   <SelectItem key={category} value={category}>{category}</SelectItem>
                 ))}
               </SelectContent>
@@ -336,22 +331,45 @@ export default function Financials() {
                         <div className="flex items-center space-x-2">
                           <span className="font-medium">{record.category}</span>
                           {getTypeBadge(record.type)}
+                          {record.recurringRecordId && (
+                            <Badge variant="outline" title="Created by a recurring schedule">
+                              <Repeat className="h-3 w-3 mr-1" />
+                              Recurring
+                            </Badge>
+                          )}
                         </div>
                         {record.description && (
                           <p className="text-sm text-gray-600 mt-1">{record.description}</p>
                         )}
-                        <p className="text-xs text-gray-500 mt-1">
+                        <p className="text-xs text-gray-500 mt-1 flex items-center">
                           {format(new Date(record.date), 'MMM d, yyyy')}
+                          {record.type === 'transfer'
+                            ? ` · ${accountName(record.accountId) || 'Unknown account'} → ${accountName(record.transferAccountId) || 'Unknown account'}`
+                            : record.accountId ? ` · ${accountName(record.accountId) || 'Unknown account'}` : ''}
+                          {record.clearedAt && (
+                            <CheckCircle2 className="h-3 w-3 ml-1 text-green-600" aria-label="Cleared" />
+                          )}
                         </p>
                       </div>
                     </div>
                     <div className="flex items-center space-x-3">
-                      <span className={cn("text-lg font-bold", 
-                        record.type === 'income' ? "text-green-600" : 
-                        record.type === 'expense' ? "text-red-600" : "text-blue-600"
-                      )}>
-                        {record.type === 'income' ? '+' : '-'}{formatAmount(record.amount)}
-                      </span>
+                      <div className="text-right">
+                        <span className={cn("text-lg font-bold", 
+                          record.type === 'income' ? "text-green-600" : 
+                          record.type === 'expense' ? "text-red-600" :
+                          record.type === 'transfer' ? "text-gray-600" : "text-blue-600"
+                        )}>
+                          {record.type === 'income' ? '+' : record.type === 'transfer' ? '' : '-'}{formatAmount(record.amount, record.currency)}
+                        </span>
+                        {record.currency !== baseCurrency && (
+                          <p className="text-xs text-gray-500">
+                            {record.baseAmount !== null ? `≈ ${formatAmount(record.baseAmount)}` : `No ${baseCurrency} rate`}
+                          </p>
+                        )}
+                        {record.taxAmount > 0 && (
+                          <p className="text-xs text-gray-500">incl. {formatAmount(record.taxAmount, record.currency)} tax</p>
+                        )}
+                      </div>
                       <div className="flex space-x-2">
                         <Button
                           variant="ghost"
@@ -361,6 +379,15 @@ export default function Financials() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setHistoryRecord(record)}
+                          className="text-gray-600 hover:text-gray-800"
+                          title="View history"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -383,6 +410,11 @@ export default function Financials() {
         isOpen={showNewRecordModal}
         onClose={() => setShowNewRecordModal(false)}
       />
+
+      <ImportFinancialRecordsModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+      />
       
       {editingRecord && (
         <EditFinancialRecordModal
@@ -391,6 +423,16 @@ export default function Financials() {
           onClose={() => setEditingRecord(null)}
         />
       )}
+
+      {historyRecord && (
+        <HistoryModal
+          entityType="financial_record"
+          entityId={historyRecord.id}
+          title={historyRecord.description || historyRecord.category}
+          isOpen={!!historyRecord}
+          onClose={() => setHistoryRecord(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
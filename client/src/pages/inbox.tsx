@@ -0,0 +1,157 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Inbox as InboxIcon, Zap, History, Activity } from "lucide-react";
+import type { PendingChange, User } from "@shared/schema";
+import { AI_ACTION_TYPES } from "@shared/constants";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import Navigation from "@/components/navigation";
+import PendingChangesList from "@/components/pending-changes-list";
+import AuditHistoryList from "@/components/audit-history-list";
+
+const STATUS_BADGES: Record<string, string> = {
+  applied: "bg-green-100 text-green-800",
+  rejected: "bg-gray-100 text-gray-700",
+  failed: "bg-red-100 text-red-800",
+};
+
+export default function Inbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  // Settings saved before an action type was renamed or removed would fail validation, so only known types are kept
+  const autoApplyActions = ((user as User | undefined)?.autoApplyActions || [])
+    .filter(type => AI_ACTION_TYPES.some(action => action.value === type));
+
+  const { data: allChanges } = useQuery<PendingChange[]>({
+    queryKey: ['/api/pending-changes'],
+  });
+
+  const recentChanges = (allChanges || []).filter(change => change.status !== 'pending').slice(0, 20);
+
+  const updateAutoApplyMutation = useMutation({
+    mutationFn: async (actions: string[]) => {
+      await apiRequest('PATCH', '/api/user/auto-apply-actions', { autoApplyActions: actions });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save setting",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleAutoApply = (actionType: string, enabled: boolean) => {
+    const next = enabled
+      ? [...autoApplyActions, actionType]
+      : autoApplyActions.filter(type => type !== actionType);
+    updateAutoApplyMutation.mutate(next);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Navigation />
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+            <InboxIcon className="h-8 w-8" />
+            Inbox
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Review changes the AI assistant and correlation engine want to make to your data, and undo anything already applied
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Pending Changes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PendingChangesList emptyMessage="Nothing waiting for approval" />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <History className="h-5 w-5 mr-2" />
+                  Recent Decisions
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {recentChanges.length === 0 ? (
+                  <p className="text-sm text-gray-500">No changes have been applied or rejected yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {recentChanges.map(change => (
+                      <div key={change.id} className="flex items-center justify-between border-b border-gray-100 pb-2 last:border-0">
+                        <div>
+                          <p className="text-sm">{change.summary}</p>
+                          {change.error && <p className="text-xs text-red-600">{change.error}</p>}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <span className="text-xs text-gray-500">
+                            {formatDistanceToNow(new Date(change.resolvedAt || change.createdAt), { addSuffix: true })}
+                          </span>
+                          <Badge variant="secondary" className={STATUS_BADGES[change.status]}>{change.status}</Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Activity className="h-5 w-5 mr-2" />
+                  Recent Activity
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AuditHistoryList limit={25} showEntity />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Zap className="h-5 w-5 mr-2" />
+                Auto-apply
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Action types switched on here are applied immediately instead of waiting for approval.
+              </p>
+              {AI_ACTION_TYPES.map(action => (
+                <div key={action.value} className="flex items-center justify-between">
+                  <Label htmlFor={`auto-apply-${action.value}`} className="font-normal">{action.label}</Label>
+                  <Switch
+                    id={`auto-apply-${action.value}`}
+                    checked={autoApplyActions.includes(action.value)}
+                    onCheckedChange={(checked) => toggleAutoApply(action.value, checked)}
+                    disabled={updateAutoApplyMutation.isPending}
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
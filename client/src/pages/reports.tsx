@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileSpreadsheet } from "lucide-react";
+import { FinancialRecord, FinancialReport, ReportChange, ReportLine, ReportSection } from "@shared/schema";
+import { formatMoney } from "@shared/currency";
+import { cn } from "@/lib/utils";
+import Navigation from "@/components/navigation";
+import TaxSettings from "@/components/tax-settings";
+
+const REPORT_KINDS: { value: FinancialReport['kind']; label: string }[] = [
+  { value: "profit-and-loss", label: "Profit and Loss" },
+  { value: "cash-flow", label: "Cash Flow Statement" },
+  { value: "balance-sheet", label: "Balance Sheet" },
+  { value: "tax-estimate", label: "Quarterly Tax Estimate" },
+];
+
+const PERIOD_COUNTS = {
+  month: [3, 6, 12, 24],
+  quarter: [4, 8, 12],
+};
+
+export default function Reports() {
+  const [kind, setKind] = useState<FinancialReport['kind']>("profit-and-loss");
+  const [period, setPeriod] = useState<'month' | 'quarter'>("month");
+  const [periods, setPeriods] = useState(12);
+  const [end, setEnd] = useState(new Date().toISOString().split('T')[0]);
+
+  // Reports are rebuilt whenever the records are refetched
+  const { dataUpdatedAt: recordsUpdatedAt } = useQuery<FinancialRecord[]>({
+    queryKey: ['/api/financial-records'],
+  });
+
+  const reportUrl = `/api/reports/${kind}?period=${period}&periods=${periods}${end ? `&end=${end}` : ''}`;
+  const { data: report, isLoading } = useQuery<FinancialReport>({
+    queryKey: [reportUrl, recordsUpdatedAt],
+  });
+
+  // The tax estimate always covers the quarters of the tax year up to the end date
+  const isTaxEstimate = kind === 'tax-estimate';
+
+  const changePeriod = (value: 'month' | 'quarter') => {
+    setPeriod(value);
+    setPeriods(value === 'quarter' ? 4 : 12);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Navigation />
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+            <FileSpreadsheet className="h-8 w-8" />
+            Reports
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Financial statements calculated directly from your confirmed records, ready to share with your accountant
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <Label htmlFor="report-kind">Report</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as FinancialReport['kind'])}>
+                  <SelectTrigger id="report-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_KINDS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {!isTaxEstimate && (
+                <>
+                  <div>
+                    <Label htmlFor="report-period">Columns</Label>
+                    <Select value={period} onValueChange={(value) => changePeriod(value as 'month' | 'quarter')}>
+                      <SelectTrigger id="report-period">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="month">Monthly</SelectItem>
+                        <SelectItem value="quarter">Quarterly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="report-periods">Periods</Label>
+                    <Select value={String(periods)} onValueChange={(value) => setPeriods(parseInt(value))}>
+                      <SelectTrigger id="report-periods">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PERIOD_COUNTS[period].map(count => (
+                          <SelectItem key={count} value={String(count)}>
+                            {count} {period === 'quarter' ? 'quarters' : 'months'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+              <div>
+                <Label htmlFor="report-end">Through</Label>
+                <Input id="report-end" type="date" value={end} onChange={(e) => setEnd(e.target.value)} />
+              </div>
+              {isTaxEstimate && (
+                <p className="text-sm text-gray-500 md:col-span-2 self-end">
+                  Quarter by quarter for the tax year containing this date. Income and expenses are counted net of sales tax / VAT.
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>{report?.title || REPORT_KINDS.find(option => option.value === kind)?.label}</CardTitle>
+              <div className="flex items-center space-x-2">
+                <Button size="sm" variant="outline" asChild>
+                  <a href={`${reportUrl}&format=csv`}>
+                    <Download className="h-4 w-4 mr-1" />
+                    CSV
+                  </a>
+                </Button>
+                <Button size="sm" variant="outline" asChild>
+                  <a href={`${reportUrl}&format=pdf`}>
+                    <Download className="h-4 w-4 mr-1" />
+                    PDF
+                  </a>
+                </Button>
+              </div>
+            </div>
+            {report && (
+              <p className="text-sm text-gray-500">
+                Amounts in {report.currency}. Changes compare each {report.kind === 'balance-sheet' ? 'date' : 'period'} with the one before.
+                {report.unconverted > 0 && (
+                  <span className="text-amber-700">
+                    {' '}{report.unconverted} {report.kind === 'balance-sheet' ? 'account' : 'record'}{report.unconverted === 1 ? '' : 's'} left out: no exchange rate into {report.currency}.
+                  </span>
+                )}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoading || !report ? (
+              <p className="text-sm text-gray-500">Loading report...</p>
+            ) : (
+              <ReportTable report={report} />
+            )}
+          </CardContent>
+        </Card>
+
+        {isTaxEstimate && <TaxSettings />}
+      </div>
+    </div>
+  );
+}
+
+function ReportTable({ report }: { report: FinancialReport }) {
+  const showTotal = report.kind !== 'balance-sheet';
+  const columnCount = report.columns.length + (showTotal ? 2 : 1);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="min-w-48" />
+          {report.columns.map(column => (
+            <TableHead key={column.key} className="text-right whitespace-nowrap">{column.label}</TableHead>
+          ))}
+          {showTotal && <TableHead className="text-right">Total</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {report.sections.map(section => (
+          <SectionRows key={section.title} report={report} section={section} columnCount={columnCount} />
+        ))}
+        <LineRow report={report} line={report.result} increaseIsGood emphasis="result" />
+      </TableBody>
+    </Table>
+  );
+}
+
+function SectionRows({ report, section, columnCount }: { report: FinancialReport; section: ReportSection; columnCount: number }) {
+  return (
+    <>
+      <TableRow>
+        <TableCell colSpan={columnCount} className="font-semibold bg-gray-50">{section.title}</TableCell>
+      </TableRow>
+      {section.lines.length === 0 ? (
+        <TableRow>
+          <TableCell colSpan={columnCount} className="pl-6 text-gray-500">Nothing recorded</TableCell>
+        </TableRow>
+      ) : (
+        section.lines.map(line => <LineRow key={line.label} report={report} line={line} increaseIsGood={section.increaseIsGood} />)
+      )}
+      <LineRow report={report} line={section.total} increaseIsGood={section.increaseIsGood} emphasis="total" />
+    </>
+  );
+}
+
+function LineRow({ report, line, increaseIsGood, emphasis }: {
+  report: FinancialReport;
+  line: ReportLine;
+  increaseIsGood: boolean;
+  emphasis?: 'total' | 'result';
+}) {
+  return (
+    <TableRow className={cn(emphasis === 'result' && "border-t-2 border-gray-400")}>
+      <TableCell className={cn(emphasis ? "font-semibold" : "pl-6")}>{line.label}</TableCell>
+      {line.amounts.map((amount, i) => (
+        <TableCell key={report.columns[i].key} className={cn("text-right whitespace-nowrap", emphasis && "font-semibold")}>
+          <div className={cn(amount < 0 && "text-red-600")}>{formatMoney(amount, report.currency)}</div>
+          <ChangeLabel change={line.changes[i]} increaseIsGood={increaseIsGood} />
+        </TableCell>
+      ))}
+      {line.total !== null && (
+        <TableCell className={cn("text-right whitespace-nowrap font-semibold", line.total < 0 && "text-red-600")}>
+          {formatMoney(line.total, report.currency)}
+        </TableCell>
+      )}
+    </TableRow>
+  );
+}
+
+function ChangeLabel({ change, increaseIsGood }: { change: ReportChange; increaseIsGood: boolean }) {
+  if (change.amount === 0) {
+    return <div className="text-xs text-gray-400">no change</div>;
+  }
+  const good = (change.amount > 0) === increaseIsGood;
+  return (
+    <div className={cn("text-xs font-normal", good ? "text-green-600" : "text-red-600")}>
+      {change.amount > 0 ? '▲' : '▼'} {change.percent === null ? 'new' : `${Math.abs(change.percent).toFixed(1)}%`}
+    </div>
+  );
+}
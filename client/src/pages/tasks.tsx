@@ -3,13 +3,14 @@ import Navigation from "@/components/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Plus, CheckCircle, Clock, AlertCircle, Calendar, Trash2, Edit, Play, Square, RotateCcw } from "lucide-react";
+import { Plus, CheckCircle, Clock, AlertCircle, Calendar, Trash2, Edit, Play, Square, RotateCcw, History } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Task } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import NewTaskModal from "@/components/modals/new-task-modal";
 import { EditTaskModal } from "@/components/modals/edit-task-modal";
+import HistoryModal from "@/components/modals/history-modal";
 import { format } from "date-fns";
 
 export default function Tasks() {
@@ -249,6 +250,7 @@ interface TaskCardProps {
 
 function TaskCard({ task, onMarkCompleted, onMarkInProgress, onMarkPending, onDelete, getPriorityColor, isUpdating }: TaskCardProps) {
   const [editModalOpen, setEditModalOpen] = useState(false);
+  const [historyModalOpen, setHistoryModalOpen] = useState(false);
 
   const getStatusButtons = () => {
     const buttons = [];
@@ -319,6 +321,15 @@ function TaskCard({ task, onMarkCompleted, onMarkInProgress, onMarkPending, onDe
           >
             <Edit className="h-4 w-4" />
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setHistoryModalOpen(true)}
+            className="p-1 h-8 w-8 text-gray-600 hover:text-gray-700"
+            title="View history"
+          >
+            <History className="h-4 w-4" />
+          </Button>
           {getStatusButtons()}
           <Button
             variant="ghost"
@@ -359,6 +370,14 @@ function TaskCard({ task, onMarkCompleted, onMarkInProgress, onMarkPending, onDe
         open={editModalOpen}
         onOpenChange={setEditModalOpen}
       />
+
+      <HistoryModal
+        entityType="task"
+        entityId={task.id}
+        title={task.title}
+        isOpen={historyModalOpen}
+        onClose={() => setHistoryModalOpen(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
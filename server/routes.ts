@@ -4,23 +4,70 @@ import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { setupSimpleAuth, isAuthenticatedSimple } from "./simpleAuth";
 import { getSimpleSession } from "./sessionStore";
-import { insertDocumentSchema, insertGoalSchema, insertAiInsightSchema, insertConversationSchema, insertMessageSchema, insertTaskSchema, insertCalendarEventSchema, insertFinancialRecordSchema, insertBusinessContextSchema } from "@shared/schema";
-import { upload, extractTextFromFile, cleanupFile } from "./services/fileProcessor";
-import { summarizeDocument, generateChatResponse } from "./services/openai";
-import { analyzeDataCorrelations, executeCorrelationActions, generateBusinessInsights } from "./services/correlationEngine";
-import { updateRevenueBasedGoals } from "./services/revenueCalculator";
+import { type AuditContext, type Document, type Job, insertDocumentSchema, insertGoalSchema, insertAiInsightSchema, insertConversationSchema, insertMessageSchema, insertTaskSchema, insertCalendarEventSchema, insertFinancialRecordSchema, insertBusinessContextSchema, statementColumnMappingSchema, financialRecordImportSchema, mergeFinancialRecordDuplicateSchema, updateAutoApplyActionsSchema, confirmFinancialRecordSchema, insertRecurringRecordSchema, updateRecurringRecordSchema, recurringOccurrenceExceptionSchema, insertBudgetSchema, updateBudgetSchema, updateBaseCurrencySchema, insertExchangeRateSchema, insertAccountSchema, updateAccountSchema, reconcileAccountSchema, reportQuerySchema, updateCategoryTaxLineSchema, insertTaxRateSchema, type FinancialReport, type RecurringRecord, type BudgetAlert } from "@shared/schema";
+import { upload, extractTextFromFile, getExtractionWarning, cleanupFile } from "./services/fileProcessor";
+import { getFileStorage, getDocumentStorageKey, downloadToTempFile } from "./services/fileStorage";
+import { statementUpload, parseStatement, suggestMapping, applyMapping } from "./services/statementImporter";
+import { isSpreadsheet, parseSpreadsheet, formatTablesAsText, tableToStatement } from "./services/spreadsheetParser";
+import { summarizeDocument } from "./services/openai";
+import { generateAssistantReply } from "./services/chatResponder";
+import { analyzeDataCorrelations, generateBusinessInsights, processFinancialCorrelation, queueFinancialCorrelation } from "./services/correlationEngine";
 import { analyzeFinancialRecords } from "./services/financialAnalyzer";
+import { getFinancialMetrics } from "./services/financialMetrics";
+import { getGoalsWithProgress, updateRevenueBasedGoals } from "./services/goalProgress";
+import { detectDuplicates, formatDuplicateWarnings } from "./services/duplicateDetector";
+import { approvePendingChange, rejectPendingChange } from "./services/pendingChanges";
+import { revertAuditEntry } from "./services/auditTrail";
+import { indexDocument, searchDocuments } from "./services/documentSearch";
+import { extractFinancialDocument, createDraftRecords } from "./services/receiptExtractor";
+import { enqueueJob, retryJob, startJobWorker, type JobContext } from "./services/jobQueue";
+import { compareInsights } from "./services/insightDiff";
+import { forecastCashFlow, FORECAST_HORIZONS } from "./services/cashFlowForecast";
+import { checkBudgetAlerts, getBudgetStatuses } from "./services/budgetTracker";
+import { backfillBaseAmounts, parseExchangeRateFile } from "./services/currencyConversion";
+import { REPORT_BUILDERS } from "./services/financialReports";
+import { getTaxCategories } from "./services/taxCategories";
+import { reportFilename, reportToCsv, reportToPdf } from "./services/reportExport";
+import { checkRecordAccounts, getAccountRegister, getAccountSummaries, reconcileAccount } from "./services/accountBalances";
+import { checkBackfill, getNextRunAt, getUpcomingOccurrences, recordDueOccurrences, startRecurringRecordScheduler, toDateKey } from "./services/recurringRecords";
 import { z } from "zod";
 import path from "path";
 
 const updateGoalSchema = z.object({
   title: z.string().optional(),
   description: z.string().optional(),
-  targetDate: z.string().optional(),
+  type: z.enum(['revenue', 'expense', 'other']).optional(),
+  category: z.string().min(1).optional(),
+  financialCategories: z.array(z.string().min(1)).optional(),
+  targetAmount: z.number().int().min(0).nullable().optional(),
+  startDate: z.string().nullable().optional(),
+  targetDate: z.string().nullable().optional(),
+  period: z.enum(['none', 'monthly', 'quarterly', 'yearly']).optional(),
   progress: z.number().min(0).max(100).optional(),
   status: z.enum(['active', 'completed', 'paused']).optional(),
 });
 
+function sendEvent(res: Response, event: string, data: unknown) {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Empty strings and null clear a date; undefined leaves it untouched
+function parseOptionalDate(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) return undefined;
+  return value ? new Date(value) : null;
+}
+
+// Uploaded originals the browser may display in place
+const INLINE_DOCUMENT_TYPES = new Set(['application/pdf', 'image/png', 'image/jpeg', 'text/plain']);
+
+// Sales tax or VAT is part of the record's amount, so it can't be more than the amount
+function checkTaxAmount(record: { amount?: number; taxAmount?: number | null }): string | null {
+  const taxAmount = record.taxAmount ?? 0;
+  if (!Number.isInteger(taxAmount) || taxAmount < 0) return 'Tax amount must be a whole number of cents, zero or more';
+  return record.amount !== undefined && taxAmount > record.amount ? 'Tax amount cannot be more than the amount' : null;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup session store
   app.use(getSimpleSession());
@@ -55,6 +102,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/documents/search', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const query = req.query.q ? String(req.query.q).trim() : '';
+      if (!query) {
+        return res.status(400).json({ message: 'Search query is required' });
+      }
+      const results = await searchDocuments(userId, query, {
+        limit: req.query.limit ? Math.min(parseInt(req.query.limit) || 10, 50) : 10,
+        documentId: req.query.documentId ? parseInt(req.query.documentId) : undefined
+      });
+      res.json(results);
+    } catch (error) {
+      console.error('Error searching documents:', error);
+      res.status(500).json({ message: 'Failed to search documents' });
+    }
+  });
+
   app.get('/api/documents/:id', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
@@ -77,34 +142,226 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'No file uploaded' });
       }
 
+      const storageKey = await storeUpload(userId, req.file);
       const document = await storage.createDocument(userId, {
         filename: req.file.filename,
         originalName: req.file.originalname,
         mimeType: req.file.mimetype,
         size: req.file.size,
+        storageKey,
         content: null,
         summary: null,
         status: 'pending'
       });
 
-      res.json(document);
+      // Processing runs in the job queue, which retries failures and survives restarts
+      await enqueueJob(userId, 'process_document', {}, { documentId: document.id });
 
-      // Process the document asynchronously
-      processDocumentAsync(userId, document.id, req.file.path, req.file.mimetype);
+      res.json(document);
     } catch (error) {
       console.error('Error uploading document:', error);
       res.status(500).json({ message: 'Failed to upload document' });
     }
   });
 
+  // Uploads a new revision of a document; the previous version is superseded and compared with it once processed
+  app.post('/api/documents/:id/versions', authMiddleware, upload.single('file'), async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      if (!req.file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+
+      const previous = await storage.getDocument(userId, id);
+      if (!previous) {
+        await cleanupFile(req.file.path);
+        return res.status(404).json({ message: 'Document not found' });
+      }
+      if (previous.supersededAt) {
+        await cleanupFile(req.file.path);
+        return res.status(409).json({ message: 'Only the latest version of a document can be replaced' });
+      }
+
+      const storageKey = await storeUpload(userId, req.file);
+      const document = await storage.createDocument(userId, {
+        filename: req.file.filename,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        size: req.file.size,
+        storageKey,
+        content: null,
+        summary: null,
+        status: 'pending',
+        previousVersionId: previous.id,
+        version: previous.version + 1,
+      });
+      // The previous version keeps its passages; search skips them while it is superseded and they are
+      // searchable again if the new version is deleted
+      await storage.updateDocument(userId, previous.id, { supersededAt: new Date() });
+
+      await enqueueJob(userId, 'process_document', {}, { documentId: document.id });
+
+      res.json(document);
+    } catch (error) {
+      console.error('Error uploading document version:', error);
+      res.status(500).json({ message: 'Failed to upload document version' });
+    }
+  });
+
+  app.get('/api/documents/:id/versions', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const versions = await storage.getDocumentVersions(userId, id);
+      if (versions.length === 0) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+      res.json(versions);
+    } catch (error) {
+      console.error('Error fetching document versions:', error);
+      res.status(500).json({ message: 'Failed to fetch document versions' });
+    }
+  });
+
+  // Streams the original upload; inline for in-app previews, as an attachment with ?download=1
+  app.get('/api/documents/:id/file', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const document = await storage.getDocument(userId, id);
+      if (!document) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+      if (!document.storageKey || !await getFileStorage().exists(document.storageKey)) {
+        return res.status(404).json({ message: 'The original file is not available for this document' });
+      }
+
+      // The stored MIME type comes from the browser, so only known-safe types are shown inline; anything
+      // else is downloaded as opaque bytes, and the sandbox keeps the file from running as part of the app
+      const stream = await getFileStorage().get(document.storageKey);
+      const inline = !req.query.download && INLINE_DOCUMENT_TYPES.has(document.mimeType);
+      res.setHeader('Content-Type', inline ? document.mimeType : 'application/octet-stream');
+      res.setHeader('Content-Length', document.size);
+      res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(document.originalName)}`);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Content-Security-Policy', 'sandbox');
+      stream.on('error', (error) => {
+        console.error('Error streaming document file:', error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error('Error fetching document file:', error);
+      res.status(500).json({ message: 'Failed to fetch document file' });
+    }
+  });
+
+  // Processes a failed document again
+  app.post('/api/documents/:id/retry', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const document = await storage.getDocument(userId, id);
+      if (!document) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+      if (document.status !== 'error') {
+        return res.status(409).json({ message: 'Only documents that failed processing can be retried' });
+      }
+      if (!document.storageKey || !await getFileStorage().exists(document.storageKey)) {
+        return res.status(409).json({ message: 'The uploaded file is no longer available. Please upload the document again.' });
+      }
+
+      await enqueueJob(userId, 'process_document', {}, { documentId: id });
+      const updated = await storage.updateDocument(userId, id, { status: 'pending' });
+      res.json(updated);
+    } catch (error) {
+      console.error('Error retrying document processing:', error);
+      res.status(500).json({ message: 'Failed to retry document processing' });
+    }
+  });
+
+  // Preview a spreadsheet table as financial records, using the same mapping and preview rows as statement imports
+  app.post('/api/documents/:id/tables/:index/import/preview', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const document = await storage.getDocument(userId, id);
+      const table = document?.tables?.[parseInt(req.params.index)];
+      if (!table) {
+        return res.status(404).json({ message: 'Table not found' });
+      }
+
+      const statement = tableToStatement(table);
+      if (statement.rows.length === 0) {
+        return res.status(400).json({ message: 'No rows found in table' });
+      }
+
+      const mapping = req.body.mapping
+        ? statementColumnMappingSchema.parse(req.body.mapping)
+        : suggestMapping(statement);
+
+      res.json({
+        format: statement.format,
+        columns: statement.columns,
+        mapping,
+        rows: applyMapping(statement, mapping)
+      });
+    } catch (error) {
+      console.error('Error previewing table import:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid column mapping', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to read table' });
+      }
+    }
+  });
+
+  // Records extracted from a receipt or invoice, drafts included
+  app.get('/api/documents/:id/financial-records', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const records = await storage.getFinancialRecordsByDocument(userId, id);
+      res.json(records);
+    } catch (error) {
+      console.error('Error fetching document financial records:', error);
+      res.status(500).json({ message: 'Failed to fetch document financial records' });
+    }
+  });
+
   app.delete('/api/documents/:id', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
+
+      // Unconfirmed drafts only make sense next to their document; confirmed records are kept
+      const records = await storage.getFinancialRecordsByDocument(userId, id);
+      for (const record of records.filter(record => record.status === 'draft')) {
+        await storage.deleteFinancialRecord(userId, record.id);
+      }
+      for (const insight of await storage.getAiInsightsByDocument(userId, id)) {
+        await storage.deleteAiInsight(userId, insight.id);
+      }
+
+      const document = await storage.getDocument(userId, id);
       const success = await storage.deleteDocument(userId, id);
-      if (!success) {
+      if (!document || !success) {
         return res.status(404).json({ message: 'Document not found' });
       }
+      // Deleting the latest version makes the one before it current again
+      if (!document.supersededAt && document.previousVersionId) {
+        await storage.updateDocument(userId, document.previousVersionId, { supersededAt: null });
+      }
+
+      if (document.storageKey) {
+        try {
+          await getFileStorage().delete(document.storageKey);
+        } catch (error) {
+          console.error('Error deleting stored document file:', error);
+        }
+      }
       res.json({ message: 'Document deleted successfully' });
     } catch (error) {
       console.error('Error deleting document:', error);
@@ -116,7 +373,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/goals', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
-      const goals = await storage.getGoals(userId);
+      const goals = await getGoalsWithProgress(userId);
       res.json(goals);
     } catch (error) {
       console.error('Error fetching goals:', error);
@@ -131,10 +388,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Convert targetDate string to Date object if provided
       const goalData = {
         ...validatedData,
+        startDate: validatedData.startDate ? new Date(validatedData.startDate) : null,
         targetDate: validatedData.targetDate ? new Date(validatedData.targetDate) : null
       };
       const goal = await storage.createGoal(userId, goalData);
-      res.json(goal);
+      await updateRevenueBasedGoals(userId);
+      res.json(await storage.getGoal(userId, goal.id) || goal);
     } catch (error) {
       console.error('Error creating goal:', error);
       if (error instanceof z.ZodError) {
@@ -151,10 +410,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const id = parseInt(req.params.id);
       const validatedData = updateGoalSchema.parse(req.body);
       
-      // Convert string targetDate to Date if provided
+      // Convert date strings to Date objects if provided
       const updateData = {
         ...validatedData,
-        targetDate: validatedData.targetDate ? new Date(validatedData.targetDate) : undefined
+        startDate: parseOptionalDate(validatedData.startDate),
+        targetDate: parseOptionalDate(validatedData.targetDate)
       };
       
       const updatedGoal = await storage.updateGoal(userId, id, updateData);
@@ -162,7 +422,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Goal not found' });
       }
       
-      res.json(updatedGoal);
+      // A changed window or target recalculates progress immediately
+      await updateRevenueBasedGoals(userId);
+      res.json(await storage.getGoal(userId, id) || updatedGoal);
     } catch (error) {
       console.error('Error updating goal:', error);
       if (error instanceof z.ZodError) {
@@ -217,11 +479,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const documents = await storage.getDocuments(userId);
-      const goals = await storage.getGoals(userId);
+      const goals = await getGoalsWithProgress(userId);
       const insights = await storage.getAiInsights(userId);
 
       const stats = {
-        documentsProcessed: documents.filter(doc => doc.status === 'completed').length,
+        documentsProcessed: documents.filter(doc => doc.status === 'completed' || doc.status === 'warning').length,
         activeGoals: goals.filter(goal => goal.status === 'active').length,
         insightsGenerated: insights.length,
         totalDocuments: documents.length,
@@ -321,133 +583,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // If it's a user message, generate an AI response
       if (validatedData.role === 'user' && validatedData.conversationId) {
-        // Get conversation history
-        const conversationMessages = await storage.getMessagesByConversation(userId, validatedData.conversationId);
-        
-        // Convert to format expected by OpenAI
-        const chatHistory = conversationMessages.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        }));
-        
         try {
-          // Fetch context data for AI
-          const [tasks, goals, documents, insights, calendarEvents, financialRecords, businessContexts] = await Promise.all([
-            storage.getTasks(userId),
-            storage.getGoals(userId),
-            storage.getDocuments(userId),
-            storage.getAiInsights(userId),
-            storage.getCalendarEvents(userId),
-            storage.getFinancialRecords(userId),
-            storage.getBusinessContexts(userId)
-          ]);
-          
-          const contextData = {
-            tasks,
-            goals,
-            documents,
-            insights,
-            calendarEvents,
-            financialRecords,
-            businessContexts
-          };
-          
-          // Debug: log financial records data
-          console.log('Financial records in context:', financialRecords?.length || 0);
-          
-          // Generate AI response with context
-          const aiResult = await generateChatResponse(chatHistory, contextData);
-          
-          // Execute any actions the AI requested
-          if (aiResult.actions && aiResult.actions.length > 0) {
-            for (const action of aiResult.actions) {
-              try {
-                if (action.type === 'update_task_status') {
-                  await storage.updateTask(userId, action.parameters.taskId, { status: action.parameters.status });
-                } else if (action.type === 'create_task') {
-                  const taskData = {
-                    ...action.parameters,
-                    dueDate: action.parameters.dueDate ? new Date(action.parameters.dueDate) : null
-                  };
-                  await storage.createTask(userId, taskData);
-                } else if (action.type === 'update_goal_progress') {
-                  await storage.updateGoal(userId, action.parameters.goalId, { progress: action.parameters.progress });
-                } else if (action.type === 'create_goal') {
-                  const goalData = {
-                    ...action.parameters,
-                    targetDate: action.parameters.targetDate ? new Date(action.parameters.targetDate) : null,
-                    targetAmount: action.parameters.targetAmount ? action.parameters.targetAmount * 100 : null, // Convert to cents
-                    status: 'active',
-                    progress: 0
-                  };
-                  await storage.createGoal(userId, goalData);
-                } else if (action.type === 'create_calendar_event') {
-                  const eventData = {
-                    ...action.parameters,
-                    startDate: new Date(action.parameters.startDate),
-                    endDate: new Date(action.parameters.endDate),
-                    allDay: action.parameters.allDay || false,
-                    completed: false
-                  };
-                  await storage.createCalendarEvent(userId, eventData);
-                } else if (action.type === 'update_calendar_event') {
-                  const { eventId, ...updateData } = action.parameters;
-                  const updates: any = {};
-                  if (updateData.title) updates.title = updateData.title;
-                  if (updateData.description) updates.description = updateData.description;
-                  if (updateData.completed !== undefined) updates.completed = updateData.completed;
-                  if (updateData.startDate) updates.startDate = new Date(updateData.startDate);
-                  if (updateData.endDate) updates.endDate = new Date(updateData.endDate);
-                  await storage.updateCalendarEvent(userId, eventId, updates);
-                } else if (action.type === 'create_financial_record') {
-                  const recordData = {
-                    ...action.parameters,
-                    date: new Date(action.parameters.date),
-                    amount: action.parameters.amount * 100 // Convert to cents
-                  };
-                  const record = await storage.createFinancialRecord(userId, recordData);
-                  // Trigger automatic correlation analysis
-                  processFinancialCorrelation(userId, record.id);
-                } else if (action.type === 'update_financial_record') {
-                  const { recordId, ...updateData } = action.parameters;
-                  const updates: any = {};
-                  if (updateData.type) updates.type = updateData.type;
-                  if (updateData.category) updates.category = updateData.category;
-                  if (updateData.amount !== undefined) updates.amount = updateData.amount * 100; // Convert to cents
-                  if (updateData.description) updates.description = updateData.description;
-                  if (updateData.date) updates.date = new Date(updateData.date);
-                  const record = await storage.updateFinancialRecord(userId, recordId, updates);
-                  if (record) {
-                    // Trigger automatic correlation analysis
-                    processFinancialCorrelation(userId, record.id);
-                  }
-                }
-              } catch (actionError) {
-                console.error('Error executing AI action:', actionError);
-              }
-            }
-          }
-          
-          // Save AI response
-          const aiMessage = await storage.createMessage(userId, {
-            conversationId: validatedData.conversationId,
-            role: 'assistant',
-            content: aiResult.response
-          });
-          
-          // Update conversation title if this is the first message
-          if (conversationMessages.length === 0) {
-            const conversation = await storage.getConversation(userId, validatedData.conversationId);
-            if (conversation && conversation.title === 'New Conversation') {
-              // Generate a title from the first message
-              const title = validatedData.content.length > 50 
-                ? validatedData.content.substring(0, 50) + '...'
-                : validatedData.content;
-              await storage.updateConversation(userId, validatedData.conversationId, { title });
-            }
-          }
-          
-          res.json({ userMessage, aiMessage });
+          const reply = await generateAssistantReply(userId, validatedData.conversationId);
+          res.json({ userMessage, ...reply });
         } catch (aiError) {
           console.error('Error generating AI response:', aiError);
           res.json({ userMessage, aiMessage: null, error: 'Failed to generate AI response' });
@@ -456,267 +594,1280 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.json({ userMessage });
       }
     } catch (error) {
-      console.error('Error creating message:', error);
+      console.error('Error creating message:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid message data', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to create message' });
+      }
+    }
+  });
+
+  // Streaming variant of POST /api/messages: assistant tokens and tool progress are sent as server-sent events
+  app.post('/api/messages/stream', authMiddleware, async (req: any, res: Response) => {
+    const userId = req.user.claims.sub;
+    let validatedData;
+    try {
+      validatedData = insertMessageSchema.parse(req.body);
+    } catch (error) {
+      console.error('Error creating message:', error);
+      return res.status(400).json({ message: 'Invalid message data', errors: error instanceof z.ZodError ? error.errors : [] });
+    }
+    const conversationId = validatedData.conversationId;
+    if (validatedData.role !== 'user' || !conversationId) {
+      return res.status(400).json({ message: 'Only user messages in a conversation can be streamed' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    try {
+      const userMessage = await storage.createMessage(userId, validatedData);
+      sendEvent(res, 'user_message', userMessage);
+
+      // The reply is generated and saved even if the client disconnects midway
+      const reply = await generateAssistantReply(userId, conversationId, {
+        onToken: (text) => sendEvent(res, 'token', { text }),
+        onToolEvent: (event) => sendEvent(res, 'tool', event)
+      });
+      sendEvent(res, 'done', reply);
+    } catch (error) {
+      console.error('Error streaming AI response:', error);
+      sendEvent(res, 'error', { message: 'Failed to generate AI response' });
+    }
+    res.end();
+  });
+
+  // Pending changes: AI-proposed creates and updates awaiting approval
+  app.get('/api/pending-changes', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const changes = await storage.getPendingChanges(userId, {
+        status: req.query.status ? String(req.query.status) : undefined,
+        conversationId: req.query.conversationId ? parseInt(req.query.conversationId) : undefined
+      });
+      res.json(changes);
+    } catch (error) {
+      console.error('Error fetching pending changes:', error);
+      res.status(500).json({ message: 'Failed to fetch pending changes' });
+    }
+  });
+
+  app.post('/api/pending-changes/:id/approve', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const result = await approvePendingChange(userId, id);
+      if (!result) {
+        return res.status(404).json({ message: 'Pending change not found' });
+      }
+      if (result.change.status === 'failed') {
+        return res.status(409).json({ message: result.change.error || 'Failed to apply change', change: result.change });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error('Error approving pending change:', error);
+      res.status(500).json({ message: 'Failed to approve pending change' });
+    }
+  });
+
+  app.post('/api/pending-changes/:id/reject', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const change = await rejectPendingChange(userId, id);
+      if (!change) {
+        return res.status(404).json({ message: 'Pending change not found' });
+      }
+      res.json(change);
+    } catch (error) {
+      console.error('Error rejecting pending change:', error);
+      res.status(500).json({ message: 'Failed to reject pending change' });
+    }
+  });
+
+  app.get('/api/audit-log', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const entries = await storage.getAuditLog(userId, {
+        entityType: req.query.entityType ? String(req.query.entityType) : undefined,
+        entityId: req.query.entityId ? parseInt(req.query.entityId) : undefined,
+        limit: req.query.limit ? Math.min(parseInt(req.query.limit) || 100, 500) : undefined
+      });
+      res.json(entries);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      res.status(500).json({ message: 'Failed to fetch audit log' });
+    }
+  });
+
+  app.post('/api/audit-log/:id/revert', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const result = await revertAuditEntry(userId, id);
+      if (!result) {
+        return res.status(404).json({ message: 'Audit entry not found' });
+      }
+      if (result.error) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error('Error reverting audit entry:', error);
+      res.status(500).json({ message: 'Failed to revert change' });
+    }
+  });
+
+  app.patch('/api/user/auto-apply-actions', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { autoApplyActions } = updateAutoApplyActionsSchema.parse(req.body);
+      const user = await storage.updateUserSettings(userId, { autoApplyActions });
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      res.json({ autoApplyActions: user.autoApplyActions });
+    } catch (error) {
+      console.error('Error updating auto-apply settings:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid settings', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to update auto-apply settings' });
+      }
+    }
+  });
+
+  // Totals, budgets and goal targets are in the base currency, so every record is re-converted when it changes
+  app.patch('/api/user/base-currency', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { baseCurrency } = updateBaseCurrencySchema.parse(req.body);
+      const user = await storage.updateUserSettings(userId, { baseCurrency });
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      const converted = await storage.recalculateBaseAmounts(userId);
+      await updateRevenueBasedGoals(userId);
+      res.json({ baseCurrency: user.baseCurrency, converted });
+    } catch (error) {
+      console.error('Error updating base currency:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid settings', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to update base currency' });
+      }
+    }
+  });
+
+  // Exchange rates routes
+  app.get('/api/exchange-rates', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const rates = await storage.getExchangeRates(userId);
+      res.json(rates);
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error);
+      res.status(500).json({ message: 'Failed to fetch exchange rates' });
+    }
+  });
+
+  app.post('/api/exchange-rates', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const rate = insertExchangeRateSchema.parse(req.body);
+      const [saved] = await storage.upsertExchangeRates(userId, [{ ...rate, source: 'manual' }]);
+      const converted = await storage.recalculateBaseAmounts(userId);
+      await updateRevenueBasedGoals(userId);
+      res.status(201).json({ ...saved, converted });
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to save exchange rate' });
+      }
+    }
+  });
+
+  // Loads a CSV of rates; valid rows are saved even when others are rejected
+  app.post('/api/exchange-rates/import', authMiddleware, statementUpload.single('file'), async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!req.file || path.extname(req.file.originalname).toLowerCase() !== '.csv') {
+        return res.status(400).json({ message: 'Upload a CSV file of exchange rates' });
+      }
+
+      const user = await storage.getUser(userId);
+      const { rates, errors } = parseExchangeRateFile(req.file.buffer, user?.baseCurrency || 'USD');
+      if (rates.length === 0) {
+        return res.status(400).json({ message: 'No valid exchange rates found in file', errors });
+      }
+
+      const saved = await storage.upsertExchangeRates(userId, rates.map(rate => ({ ...rate, source: 'import' })));
+      const converted = await storage.recalculateBaseAmounts(userId);
+      await updateRevenueBasedGoals(userId);
+      res.status(201).json({ imported: saved.length, errors, converted });
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      res.status(500).json({ message: 'Failed to import exchange rates' });
+    }
+  });
+
+  app.delete('/api/exchange-rates/:id', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteExchangeRate(userId, id);
+      if (!success) {
+        return res.status(404).json({ message: 'Exchange rate not found' });
+      }
+      await storage.recalculateBaseAmounts(userId);
+      await updateRevenueBasedGoals(userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      res.status(500).json({ message: 'Failed to delete exchange rate' });
+    }
+  });
+
+  // Tax routes: the tax line of each category and the income tax rate table behind the quarterly estimate
+  app.get('/api/tax-categories', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const categories = await getTaxCategories(userId);
+      res.json(categories);
+    } catch (error) {
+      console.error('Error fetching tax categories:', error);
+      res.status(500).json({ message: 'Failed to fetch tax categories' });
+    }
+  });
+
+  app.put('/api/tax-categories', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const mapping = updateCategoryTaxLineSchema.parse(req.body);
+      await storage.setCategoryTaxLine(userId, mapping);
+      const categories = await getTaxCategories(userId);
+      res.json(categories);
+    } catch (error) {
+      console.error('Error updating tax category:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to update tax category' });
+      }
+    }
+  });
+
+  app.get('/api/tax-rates', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const rates = await storage.getTaxRates(userId);
+      res.json(rates);
+    } catch (error) {
+      console.error('Error fetching tax rates:', error);
+      res.status(500).json({ message: 'Failed to fetch tax rates' });
+    }
+  });
+
+  app.post('/api/tax-rates', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const rate = insertTaxRateSchema.parse(req.body);
+      const saved = await storage.createTaxRate(userId, rate);
+      res.status(201).json(saved);
+    } catch (error) {
+      console.error('Error saving tax rate:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to save tax rate' });
+      }
+    }
+  });
+
+  app.delete('/api/tax-rates/:id', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteTaxRate(userId, id);
+      if (!success) {
+        return res.status(404).json({ message: 'Tax rate not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting tax rate:', error);
+      res.status(500).json({ message: 'Failed to delete tax rate' });
+    }
+  });
+
+  // Accounts routes; balances are in each account's own currency
+  app.get('/api/accounts', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const accounts = await getAccountSummaries(userId);
+      res.json(accounts);
+    } catch (error) {
+      console.error('Error fetching accounts:', error);
+      res.status(500).json({ message: 'Failed to fetch accounts' });
+    }
+  });
+
+  app.post('/api/accounts', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertAccountSchema.parse(req.body);
+      const account = await storage.createAccount(userId, validatedData);
+      res.status(201).json(account);
+    } catch (error) {
+      console.error('Error creating account:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to create account' });
+      }
+    }
+  });
+
+  app.patch('/api/accounts/:id', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const { openingDate, ...updates } = updateAccountSchema.parse(req.body);
+      const account = await storage.updateAccount(userId, id, {
+        ...updates,
+        ...(openingDate ? { openingDate: new Date(openingDate) } : {}),
+      });
+      if (!account) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      res.json(account);
+    } catch (error) {
+      console.error('Error updating account:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to update account' });
+      }
+    }
+  });
+
+  app.delete('/api/accounts/:id', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      if (await storage.isAccountInUse(userId, id)) {
+        return res.status(409).json({ message: 'Records or recurring records use this account; archive it instead' });
+      }
+      const success = await storage.deleteAccount(userId, id);
+      if (!success) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      res.status(500).json({ message: 'Failed to delete account' });
+    }
+  });
+
+  // Records in the account, oldest first, with the running balance after each
+  app.get('/api/accounts/:id/register', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const account = await storage.getAccount(userId, parseInt(req.params.id));
+      if (!account) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      const register = await getAccountRegister(userId, account);
+      res.json(register);
+    } catch (error) {
+      console.error('Error fetching account register:', error);
+      res.status(500).json({ message: 'Failed to fetch account register' });
+    }
+  });
+
+  // Finishes a reconciliation: the ticked records are cleared if they bring the account to the statement balance
+  app.post('/api/accounts/:id/reconcile', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const request = reconcileAccountSchema.parse(req.body);
+      const account = await storage.getAccount(userId, parseInt(req.params.id));
+      if (!account) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      const result = await reconcileAccount(userId, account, request);
+      if ('error' in result) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(result.summary);
+    } catch (error) {
+      console.error('Error reconciling account:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to reconcile account' });
+      }
+    }
+  });
+
+  // Tasks routes
+  app.get('/api/tasks', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const tasks = await storage.getTasks(userId);
+      res.json(tasks);
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+      res.status(500).json({ message: 'Failed to fetch tasks' });
+    }
+  });
+
+  app.post('/api/tasks', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertTaskSchema.parse(req.body);
+      // Convert dueDate string to Date object if provided
+      const taskData = {
+        ...validatedData,
+        dueDate: validatedData.dueDate ? new Date(validatedData.dueDate) : null
+      };
+      const task = await storage.createTask(userId, taskData);
+      res.json(task);
+    } catch (error) {
+      console.error('Error creating task:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid task data', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to create task' });
+      }
+    }
+  });
+
+  app.patch('/api/tasks/:id', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const updates = req.body;
+      
+      // Convert dueDate string to Date object if present
+      if (updates.dueDate && typeof updates.dueDate === 'string') {
+        updates.dueDate = new Date(updates.dueDate);
+      }
+      
+      const task = await storage.updateTask(userId, id, updates);
+      if (!task) {
+        res.status(404).json({ message: 'Task not found' });
+      } else {
+        res.json(task);
+      }
+    } catch (error) {
+      console.error('Error updating task:', error);
+      res.status(500).json({ message: 'Failed to update task' });
+    }
+  });
+
+  app.delete('/api/tasks/:id', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteTask(userId, id);
+      if (!success) {
+        res.status(404).json({ message: 'Task not found' });
+      } else {
+        res.status(204).send();
+      }
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      res.status(500).json({ message: 'Failed to delete task' });
+    }
+  });
+
+  // Calendar Events routes
+  app.get('/api/calendar-events', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const events = await storage.getCalendarEvents(userId);
+      res.json(events);
+    } catch (error) {
+      console.error('Error fetching calendar events:', error);
+      res.status(500).json({ message: 'Failed to fetch calendar events' });
+    }
+  });
+
+  app.post('/api/calendar-events', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertCalendarEventSchema.parse(req.body);
+      const event = await storage.createCalendarEvent(userId, validatedData);
+      res.status(201).json(event);
+    } catch (error) {
+      console.error('Error creating calendar event:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to create calendar event' });
+      }
+    }
+  });
+
+  app.patch('/api/calendar-events/:id', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const updates = req.body;
+      
+      // Convert date strings to Date objects if present
+      if (updates.startDate) {
+        updates.startDate = new Date(updates.startDate);
+      }
+      if (updates.endDate) {
+        updates.endDate = new Date(updates.endDate);
+      }
+      
+      const event = await storage.updateCalendarEvent(userId, id, updates);
+      if (!event) {
+        res.status(404).json({ message: 'Calendar event not found' });
+      } else {
+        res.json(event);
+      }
+    } catch (error) {
+      console.error('Error updating calendar event:', error);
+      res.status(500).json({ message: 'Failed to update calendar event' });
+    }
+  });
+
+  app.delete('/api/calendar-events/:id', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteCalendarEvent(userId, id);
+      if (!success) {
+        res.status(404).json({ message: 'Calendar event not found' });
+      } else {
+        res.status(204).send();
+      }
+    } catch (error) {
+      console.error('Error deleting calendar event:', error);
+      res.status(500).json({ message: 'Failed to delete calendar event' });
+    }
+  });
+
+  // Financial Records routes
+  app.get('/api/financial-records', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const records = await storage.getFinancialRecords(userId);
+      res.json(records);
+    } catch (error) {
+      console.error('Error fetching financial records:', error);
+      res.status(500).json({ message: 'Failed to fetch financial records' });
+    }
+  });
+
+  // Statement import: parse an uploaded CSV/OFX file and preview the mapped rows without saving anything
+  app.post('/api/financial-records/import/preview', authMiddleware, statementUpload.single('file'), async (req: any, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No statement uploaded' });
+      }
+
+      const statement = parseStatement(req.file.buffer, req.file.originalname);
+      if (statement.rows.length === 0) {
+        return res.status(400).json({ message: 'No transactions found in statement' });
+      }
+
+      // The mapping arrives as a JSON string next to the file in the multipart form
+      let mappingInput: unknown;
+      if (req.body.mapping) {
+        try {
+          mappingInput = JSON.parse(req.body.mapping);
+        } catch {
+          return res.status(400).json({ message: 'Invalid column mapping' });
+        }
+      }
+      const mapping = mappingInput !== undefined
+        ? statementColumnMappingSchema.parse(mappingInput)
+        : suggestMapping(statement);
+
+      res.json({
+        format: statement.format,
+        columns: statement.columns,
+        mapping,
+        rows: applyMapping(statement, mapping)
+      });
+    } catch (error) {
+      console.error('Error previewing statement import:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid column mapping', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to read statement' });
+      }
+    }
+  });
+
+  app.post('/api/financial-records/import', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { rows } = financialRecordImportSchema.parse(req.body);
+      for (const row of rows) {
+        const accountError = await checkRecordAccounts(userId, row) || checkTaxAmount(row);
+        if (accountError) {
+          return res.status(400).json({ message: accountError });
+        }
+      }
+      const records = await storage.createFinancialRecords(userId, rows);
+      const duplicates = await detectDuplicates(userId, records);
+
+      // Correlated in batches, one analysis per batch
+      try {
+        await queueFinancialCorrelation(userId, records.map(record => record.id));
+      } catch (correlationError) {
+        console.error('Failed to queue correlation analysis but records were imported:', correlationError);
+      }
+
+      res.status(201).json({ imported: records.length, records, duplicates: duplicates.size });
+    } catch (error) {
+      console.error('Error importing financial records:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid import data', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to import financial records' });
+      }
+    }
+  });
+
+  // Distinct categories in use, so goals can be bound to the categories that actually exist
+  app.get('/api/financial-records/categories', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const records = await storage.getFinancialRecords(userId);
+      const categories = new Map<string, { type: string; category: string; count: number }>();
+      for (const record of records) {
+        const key = `${record.type}:${record.category}`;
+        const entry = categories.get(key) || { type: record.type, category: record.category, count: 0 };
+        entry.count++;
+        categories.set(key, entry);
+      }
+      res.json(Array.from(categories.values()).sort((a, b) => a.category.localeCompare(b.category)));
+    } catch (error) {
+      console.error('Error fetching financial categories:', error);
+      res.status(500).json({ message: 'Failed to fetch financial categories' });
+    }
+  });
+
+  // Duplicate review queue: suspected pairs with both records attached
+  app.get('/api/financial-records/duplicates', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [duplicates, records] = await Promise.all([
+        storage.getFinancialRecordDuplicates(userId, 'pending'),
+        storage.getFinancialRecords(userId)
+      ]);
+      const recordsById = new Map(records.map(record => [record.id, record]));
+
+      res.json(duplicates
+        .map(duplicate => ({
+          ...duplicate,
+          record: recordsById.get(duplicate.recordId),
+          duplicateOf: recordsById.get(duplicate.duplicateOfId)
+        }))
+        .filter(duplicate => duplicate.record && duplicate.duplicateOf)
+        .sort((a, b) => b.score - a.score));
+    } catch (error) {
+      console.error('Error fetching duplicate financial records:', error);
+      res.status(500).json({ message: 'Failed to fetch duplicate financial records' });
+    }
+  });
+
+  // Merge keeps one record (filling in a missing description from the other) and deletes the other
+  app.post('/api/financial-records/duplicates/:id/merge', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const { keep } = mergeFinancialRecordDuplicateSchema.parse(req.body || {});
+      const duplicate = await storage.getFinancialRecordDuplicate(userId, id);
+      if (!duplicate || duplicate.status !== 'pending') {
+        return res.status(404).json({ message: 'Duplicate not found' });
+      }
+
+      const [keepId, removeId] = keep === 'original'
+        ? [duplicate.duplicateOfId, duplicate.recordId]
+        : [duplicate.recordId, duplicate.duplicateOfId];
+      const [kept, removed] = await Promise.all([
+        storage.getFinancialRecord(userId, keepId),
+        storage.getFinancialRecord(userId, removeId)
+      ]);
+      if (!kept || !removed) {
+        return res.status(404).json({ message: 'Financial record not found' });
+      }
+
+      let record = kept;
+      if (!kept.description && removed.description) {
+        record = await storage.updateFinancialRecord(userId, kept.id, { description: removed.description, updatedAt: new Date() }) || kept;
+      }
+      // Deleting the record also removes this and any other pending pairs that reference it
+      await storage.deleteFinancialRecord(userId, removed.id);
+      await updateRevenueBasedGoals(userId);
+
+      res.json({ message: 'Duplicate merged', record, removedId: removed.id });
+    } catch (error) {
+      console.error('Error merging duplicate financial records:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to merge duplicate financial records' });
+      }
+    }
+  });
+
+  app.post('/api/financial-records/duplicates/:id/dismiss', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const duplicate = await storage.updateFinancialRecordDuplicate(userId, id, { status: 'dismissed', resolvedAt: new Date() });
+      if (!duplicate) {
+        res.status(404).json({ message: 'Duplicate not found' });
+      } else {
+        res.json(duplicate);
+      }
+    } catch (error) {
+      console.error('Error dismissing duplicate financial record:', error);
+      res.status(500).json({ message: 'Failed to dismiss duplicate financial record' });
+    }
+  });
+
+  app.get('/api/financial-records/:id', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const record = await storage.getFinancialRecord(userId, id);
+      if (!record) {
+        res.status(404).json({ message: 'Financial record not found' });
+      } else {
+        res.json(record);
+      }
+    } catch (error) {
+      console.error('Error fetching financial record:', error);
+      res.status(500).json({ message: 'Failed to fetch financial record' });
+    }
+  });
+
+  app.post('/api/financial-records', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertFinancialRecordSchema.parse(req.body);
+      const accountError = await checkRecordAccounts(userId, validatedData) || checkTaxAmount(validatedData);
+      if (accountError) {
+        return res.status(400).json({ message: accountError });
+      }
+      const recordData = {
+        ...validatedData,
+        date: new Date(validatedData.date)
+      };
+      const record = await storage.createFinancialRecord(userId, recordData);
+      const duplicates = await detectDuplicates(userId, [record]);
+      const budgetAlerts = await checkBudgetAlertsSafely(userId);
+      
+      // Queue AI correlation analysis
+      try {
+        await queueFinancialCorrelation(userId, [record.id]);
+      } catch (correlationError) {
+        console.error('Failed to queue correlation analysis but record was saved:', correlationError);
+      }
+      
+      // The record is saved either way; suspected duplicates and budget alerts come back for the client to surface
+      res.status(201).json({ ...record, warnings: formatDuplicateWarnings(duplicates.get(record.id)), budgetAlerts });
+    } catch (error) {
+      console.error('Error creating financial record:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to create financial record' });
+      }
+    }
+  });
+
+  // Confirming a draft (optionally with corrections) brings it into lists, totals and goal progress
+  app.post('/api/financial-records/:id/confirm', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const edits = confirmFinancialRecordSchema.parse(req.body || {});
+
+      const draft = await storage.getFinancialRecord(userId, id);
+      if (!draft) {
+        return res.status(404).json({ message: 'Financial record not found' });
+      }
+      if (draft.status !== 'draft') {
+        return res.status(409).json({ message: 'Financial record is already confirmed' });
+      }
+      const accountError = await checkRecordAccounts(userId, { ...draft, ...edits }) || checkTaxAmount({ ...draft, ...edits });
+      if (accountError) {
+        return res.status(400).json({ message: accountError });
+      }
+
+      const record = await storage.updateFinancialRecord(userId, id, {
+        ...edits,
+        date: edits.date ? new Date(edits.date) : undefined,
+        status: 'confirmed'
+      });
+      if (!record) {
+        return res.status(404).json({ message: 'Financial record not found' });
+      }
+      const duplicates = await detectDuplicates(userId, [record]);
+      const budgetAlerts = await checkBudgetAlertsSafely(userId);
+
+      try {
+        await queueFinancialCorrelation(userId, [record.id]);
+      } catch (correlationError) {
+        console.error('Failed to queue correlation analysis but record was confirmed:', correlationError);
+      }
+
+      res.json({ ...record, warnings: formatDuplicateWarnings(duplicates.get(record.id)), budgetAlerts });
+    } catch (error) {
+      console.error('Error confirming financial record:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to confirm financial record' });
+      }
+    }
+  });
+
+  app.patch('/api/financial-records/:id', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const updates = req.body;
+      
+      // Convert date string to Date object if present
+      if (updates.date) {
+        updates.date = new Date(updates.date);
+      }
+      if (updates.currency) {
+        updates.currency = String(updates.currency).toUpperCase();
+      }
+      // Derived from the exchange rates whenever the amount, currency or date changes
+      delete updates.baseAmount;
+
+      const existing = await storage.getFinancialRecord(userId, id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Financial record not found' });
+      }
+      // A record that stops being a transfer no longer has a receiving account
+      if ((updates.type ?? existing.type) !== 'transfer' && existing.transferAccountId) {
+        updates.transferAccountId = null;
+      }
+      const accountError = await checkRecordAccounts(userId, { ...existing, ...updates }) || checkTaxAmount({ ...existing, ...updates });
+      if (accountError) {
+        return res.status(400).json({ message: accountError });
+      }
+      
+      const record = await storage.updateFinancialRecord(userId, id, updates);
+      if (!record) {
+        res.status(404).json({ message: 'Financial record not found' });
+      } else {
+        // Queue correlation analysis for updated record
+        try {
+          await queueFinancialCorrelation(userId, [record.id]);
+        } catch (correlationError) {
+          console.error('Failed to queue correlation analysis but record was updated:', correlationError);
+        }
+        
+        res.json(record);
+      }
+    } catch (error) {
+      console.error('Error updating financial record:', error);
+      res.status(500).json({ message: 'Failed to update financial record' });
+    }
+  });
+
+  app.delete('/api/financial-records/:id', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteFinancialRecord(userId, id);
+      if (!success) {
+        res.status(404).json({ message: 'Financial record not found' });
+      } else {
+        res.status(204).send();
+      }
+    } catch (error) {
+      console.error('Error deleting financial record:', error);
+      res.status(500).json({ message: 'Failed to delete financial record' });
+    }
+  });
+
+  // Recurring record templates; due occurrences become financial records on schedule
+  app.get('/api/recurring-records', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const templates = await storage.getRecurringRecords(userId);
+      res.json(templates);
+    } catch (error) {
+      console.error('Error fetching recurring records:', error);
+      res.status(500).json({ message: 'Failed to fetch recurring records' });
+    }
+  });
+
+  // Scheduled records for the cash-flow view, e.g. ?days=30 (default) up to a year ahead
+  app.get('/api/recurring-records/upcoming', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 366);
+      const templates = await storage.getRecurringRecords(userId);
+      res.json(getUpcomingOccurrences(templates, days));
+    } catch (error) {
+      console.error('Error fetching upcoming recurring records:', error);
+      res.status(500).json({ message: 'Failed to fetch upcoming recurring records' });
+    }
+  });
+
+  // Occurrences from a start date in the past are recorded straight away
+  app.post('/api/recurring-records', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertRecurringRecordSchema.parse(req.body);
+      const startDate = new Date(validatedData.startDate);
+      const endDate = validatedData.endDate ? new Date(validatedData.endDate) : null;
+      if (isNaN(startDate.getTime()) || (endDate && (isNaN(endDate.getTime()) || endDate < startDate))) {
+        return res.status(400).json({ message: 'Invalid start or end date' });
+      }
+      const accountError = await checkRecordAccounts(userId, { accountId: validatedData.accountId });
+      if (accountError) {
+        return res.status(400).json({ message: accountError });
+      }
+
+      const nextRunAt = getNextRunAt({ rule: validatedData.rule, startDate, endDate, lastOccurrenceAt: null });
+      const backfillError = checkBackfill({ rule: validatedData.rule, startDate, endDate }, nextRunAt);
+      if (backfillError) {
+        return res.status(400).json({ message: backfillError });
+      }
+
+      const template = await storage.createRecurringRecord(userId, { ...validatedData, nextRunAt });
+      const records = await recordDueOccurrences(template);
+      const created = records.length > 0 ? await storage.getRecurringRecord(userId, template.id) : template;
+      res.status(201).json({ ...(created || template), recordsCreated: records.length });
+    } catch (error) {
+      console.error('Error creating recurring record:', error);
       if (error instanceof z.ZodError) {
-        res.status(400).json({ message: 'Invalid message data', errors: error.errors });
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
       } else {
-        res.status(500).json({ message: 'Failed to create message' });
+        res.status(500).json({ message: 'Failed to create recurring record' });
       }
     }
   });
 
-  // Tasks routes
-  app.get('/api/tasks', authMiddleware, async (req: any, res: Response) => {
+  // Changes apply to occurrences not yet recorded; records already created are left as they are
+  app.patch('/api/recurring-records/:id', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
-      const tasks = await storage.getTasks(userId);
-      res.json(tasks);
+      const id = parseInt(req.params.id);
+      const { startDate, endDate, ...data } = updateRecurringRecordSchema.parse(req.body);
+
+      const existing = await storage.getRecurringRecord(userId, id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Recurring record not found' });
+      }
+      const accountError = await checkRecordAccounts(userId, { accountId: data.accountId });
+      if (accountError) {
+        return res.status(400).json({ message: accountError });
+      }
+
+      const updates: Partial<RecurringRecord> = {
+        ...data,
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: parseOptionalDate(endDate),
+      };
+      const merged = {
+        rule: data.rule ?? existing.rule,
+        startDate: updates.startDate ?? existing.startDate,
+        endDate: updates.endDate === undefined ? existing.endDate : updates.endDate,
+        lastOccurrenceAt: existing.lastOccurrenceAt,
+      };
+      if (isNaN(merged.startDate.getTime()) || (merged.endDate && (isNaN(merged.endDate.getTime()) || merged.endDate < merged.startDate))) {
+        return res.status(400).json({ message: 'Invalid start or end date' });
+      }
+      // Resuming a paused template picks up from today instead of recording everything it missed
+      const resuming = data.active === true && !existing.active;
+      updates.nextRunAt = getNextRunAt(merged, resuming ? new Date() : undefined);
+      const backfillError = checkBackfill(merged, updates.nextRunAt);
+      if (backfillError) {
+        return res.status(400).json({ message: backfillError });
+      }
+
+      const template = await storage.updateRecurringRecord(userId, id, updates);
+      if (!template) {
+        return res.status(404).json({ message: 'Recurring record not found' });
+      }
+      const records = await recordDueOccurrences(template);
+      const updated = records.length > 0 ? await storage.getRecurringRecord(userId, id) : template;
+      res.json({ ...(updated || template), recordsCreated: records.length });
     } catch (error) {
-      console.error('Error fetching tasks:', error);
-      res.status(500).json({ message: 'Failed to fetch tasks' });
+      console.error('Error updating recurring record:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to update recurring record' });
+      }
     }
   });
 
-  app.post('/api/tasks', authMiddleware, async (req: any, res: Response) => {
+  app.delete('/api/recurring-records/:id', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
-      const validatedData = insertTaskSchema.parse(req.body);
-      // Convert dueDate string to Date object if provided
-      const taskData = {
-        ...validatedData,
-        dueDate: validatedData.dueDate ? new Date(validatedData.dueDate) : null
-      };
-      const task = await storage.createTask(userId, taskData);
-      res.json(task);
-    } catch (error) {
-      console.error('Error creating task:', error);
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ message: 'Invalid task data', errors: error.errors });
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteRecurringRecord(userId, id);
+      if (!success) {
+        res.status(404).json({ message: 'Recurring record not found' });
       } else {
-        res.status(500).json({ message: 'Failed to create task' });
+        res.status(204).send();
       }
+    } catch (error) {
+      console.error('Error deleting recurring record:', error);
+      res.status(500).json({ message: 'Failed to delete recurring record' });
     }
   });
 
-  app.patch('/api/tasks/:id', authMiddleware, async (req: any, res: Response) => {
+  // Skips or edits a single upcoming occurrence, identified by its scheduled date (yyyy-mm-dd)
+  app.put('/api/recurring-records/:id/occurrences/:date', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      const updates = req.body;
-      
-      // Convert dueDate string to Date object if present
-      if (updates.dueDate && typeof updates.dueDate === 'string') {
-        updates.dueDate = new Date(updates.dueDate);
+      const exception = recurringOccurrenceExceptionSchema.parse(req.body);
+
+      const template = await storage.getRecurringRecord(userId, id);
+      if (!template) {
+        return res.status(404).json({ message: 'Recurring record not found' });
       }
-      
-      const task = await storage.updateTask(userId, id, updates);
-      if (!task) {
-        res.status(404).json({ message: 'Task not found' });
-      } else {
-        res.json(task);
+      const occurrenceError = checkUpcomingOccurrence(template, req.params.date);
+      if (occurrenceError) {
+        return res.status(occurrenceError.status).json({ message: occurrenceError.message });
       }
+
+      const updated = await storage.updateRecurringRecord(userId, id, {
+        exceptions: { ...pruneExceptions(template), [req.params.date]: exception },
+      });
+      res.json(updated);
     } catch (error) {
-      console.error('Error updating task:', error);
-      res.status(500).json({ message: 'Failed to update task' });
+      console.error('Error updating recurring record occurrence:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to update occurrence' });
+      }
     }
   });
 
-  app.delete('/api/tasks/:id', authMiddleware, async (req: any, res: Response) => {
+  // Restores a skipped or edited occurrence to the template's values
+  app.delete('/api/recurring-records/:id/occurrences/:date', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      const success = await storage.deleteTask(userId, id);
-      if (!success) {
-        res.status(404).json({ message: 'Task not found' });
-      } else {
-        res.status(204).send();
+
+      const template = await storage.getRecurringRecord(userId, id);
+      if (!template) {
+        return res.status(404).json({ message: 'Recurring record not found' });
       }
+      const occurrenceError = checkUpcomingOccurrence(template, req.params.date);
+      if (occurrenceError) {
+        return res.status(occurrenceError.status).json({ message: occurrenceError.message });
+      }
+
+      const { [req.params.date]: _removed, ...exceptions } = pruneExceptions(template);
+      const updated = await storage.updateRecurringRecord(userId, id, { exceptions });
+      res.json(updated);
     } catch (error) {
-      console.error('Error deleting task:', error);
-      res.status(500).json({ message: 'Failed to delete task' });
+      console.error('Error restoring recurring record occurrence:', error);
+      res.status(500).json({ message: 'Failed to restore occurrence' });
     }
   });
 
-  // Calendar Events routes
-  app.get('/api/calendar-events', authMiddleware, async (req: any, res: Response) => {
+  // Budgets with actual spend and variance for the current period, or the period containing ?date=yyyy-mm-dd
+  app.get('/api/budgets', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
-      const events = await storage.getCalendarEvents(userId);
-      res.json(events);
+      const date = req.query.date ? new Date(req.query.date as string) : new Date();
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ message: 'Invalid date' });
+      }
+      const statuses = await getBudgetStatuses(userId, date);
+      res.json(statuses);
     } catch (error) {
-      console.error('Error fetching calendar events:', error);
-      res.status(500).json({ message: 'Failed to fetch calendar events' });
+      console.error('Error fetching budgets:', error);
+      res.status(500).json({ message: 'Failed to fetch budgets' });
     }
   });
 
-  app.post('/api/calendar-events', authMiddleware, async (req: any, res: Response) => {
+  app.post('/api/budgets', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
-      const validatedData = insertCalendarEventSchema.parse(req.body);
-      const event = await storage.createCalendarEvent(userId, validatedData);
-      res.status(201).json(event);
+      const validatedData = insertBudgetSchema.parse(req.body);
+      const existing = await storage.getBudgets(userId);
+      if (existing.some(budget => isSameBudget(budget, validatedData))) {
+        return res.status(409).json({ message: `There is already a ${validatedData.period} budget for ${validatedData.category}` });
+      }
+
+      const budget = await storage.createBudget(userId, validatedData);
+      // Spend already recorded this period may pass a threshold straight away
+      const budgetAlerts = await checkBudgetAlertsSafely(userId);
+      res.status(201).json({ ...budget, budgetAlerts });
     } catch (error) {
-      console.error('Error creating calendar event:', error);
+      console.error('Error creating budget:', error);
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: 'Invalid input', errors: error.errors });
       } else {
-        res.status(500).json({ message: 'Failed to create calendar event' });
+        res.status(500).json({ message: 'Failed to create budget' });
       }
     }
   });
 
-  app.patch('/api/calendar-events/:id', authMiddleware, async (req: any, res: Response) => {
+  app.patch('/api/budgets/:id', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      const updates = req.body;
-      
-      // Convert date strings to Date objects if present
-      if (updates.startDate) {
-        updates.startDate = new Date(updates.startDate);
+      const updates = updateBudgetSchema.parse(req.body);
+
+      const current = await storage.getBudget(userId, id);
+      if (!current) {
+        return res.status(404).json({ message: 'Budget not found' });
       }
-      if (updates.endDate) {
-        updates.endDate = new Date(updates.endDate);
+      const next = { category: updates.category ?? current.category, period: updates.period ?? current.period };
+      const existing = await storage.getBudgets(userId);
+      if (existing.some(budget => budget.id !== id && isSameBudget(budget, next))) {
+        return res.status(409).json({ message: `There is already a ${next.period} budget for ${next.category}` });
       }
-      
-      const event = await storage.updateCalendarEvent(userId, id, updates);
-      if (!event) {
-        res.status(404).json({ message: 'Calendar event not found' });
-      } else {
-        res.json(event);
+
+      const budget = await storage.updateBudget(userId, id, updates);
+      if (!budget) {
+        return res.status(404).json({ message: 'Budget not found' });
       }
+      const budgetAlerts = await checkBudgetAlertsSafely(userId);
+      res.json({ ...budget, budgetAlerts });
     } catch (error) {
-      console.error('Error updating calendar event:', error);
-      res.status(500).json({ message: 'Failed to update calendar event' });
+      console.error('Error updating budget:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to update budget' });
+      }
     }
   });
 
-  app.delete('/api/calendar-events/:id', authMiddleware, async (req: any, res: Response) => {
+  app.delete('/api/budgets/:id', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      const success = await storage.deleteCalendarEvent(userId, id);
+      const success = await storage.deleteBudget(userId, id);
       if (!success) {
-        res.status(404).json({ message: 'Calendar event not found' });
+        res.status(404).json({ message: 'Budget not found' });
       } else {
         res.status(204).send();
       }
     } catch (error) {
-      console.error('Error deleting calendar event:', error);
-      res.status(500).json({ message: 'Failed to delete calendar event' });
+      console.error('Error deleting budget:', error);
+      res.status(500).json({ message: 'Failed to delete budget' });
     }
   });
 
-  // Financial Records routes
-  app.get('/api/financial-records', authMiddleware, async (req: any, res: Response) => {
+  // Alerts not yet dismissed by default; ?acknowledged=true lists dismissed ones
+  app.get('/api/budget-alerts', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
-      const records = await storage.getFinancialRecords(userId);
-      res.json(records);
+      const alerts = await storage.getBudgetAlerts(userId, { acknowledged: req.query.acknowledged === 'true' });
+      res.json(alerts);
     } catch (error) {
-      console.error('Error fetching financial records:', error);
-      res.status(500).json({ message: 'Failed to fetch financial records' });
+      console.error('Error fetching budget alerts:', error);
+      res.status(500).json({ message: 'Failed to fetch budget alerts' });
     }
   });
 
-  app.get('/api/financial-records/:id', authMiddleware, async (req: any, res: Response) => {
+  app.post('/api/budget-alerts/:id/acknowledge', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      const record = await storage.getFinancialRecord(userId, id);
-      if (!record) {
-        res.status(404).json({ message: 'Financial record not found' });
+      const alert = await storage.acknowledgeBudgetAlert(userId, id);
+      if (!alert) {
+        res.status(404).json({ message: 'Budget alert not found' });
       } else {
-        res.json(record);
+        res.json(alert);
       }
     } catch (error) {
-      console.error('Error fetching financial record:', error);
-      res.status(500).json({ message: 'Failed to fetch financial record' });
+      console.error('Error acknowledging budget alert:', error);
+      res.status(500).json({ message: 'Failed to acknowledge budget alert' });
     }
   });
 
-  app.post('/api/financial-records', authMiddleware, async (req: any, res: Response) => {
+  // Deterministic projection of revenue, expenses and net cash for ?months=3, 6 (default) or 12
+  app.get('/api/financial-forecast', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
-      const validatedData = insertFinancialRecordSchema.parse(req.body);
-      const recordData = {
-        ...validatedData,
-        date: new Date(validatedData.date)
-      };
-      const record = await storage.createFinancialRecord(userId, recordData);
-      
-      // Trigger immediate AI correlation analysis
-      try {
-        await processFinancialCorrelation(userId, record.id);
-        console.log(`✓ Auto-correlation completed for financial record ${record.id}`);
-      } catch (correlationError) {
-        console.error('Correlation analysis failed but record was saved:', correlationError);
+      const months = req.query.months ? parseInt(req.query.months as string) : 6;
+      if (!FORECAST_HORIZONS.includes(months)) {
+        return res.status(400).json({ message: `months must be one of ${FORECAST_HORIZONS.join(', ')}` });
       }
-      
-      res.status(201).json(record);
+      const forecast = await forecastCashFlow(userId, months);
+      res.json(forecast);
     } catch (error) {
-      console.error('Error creating financial record:', error);
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ message: 'Invalid input', errors: error.errors });
-      } else {
-        res.status(500).json({ message: 'Failed to create financial record' });
-      }
+      console.error('Error forecasting cash flow:', error);
+      res.status(500).json({ message: 'Failed to forecast cash flow' });
     }
   });
 
-  app.patch('/api/financial-records/:id', authMiddleware, async (req: any, res: Response) => {
+  // Profit and loss, cash-flow statement or balance sheet, computed from the records alone. Query:
+  // ?period=month|quarter&periods=N&end=yyyy-mm-dd; ?format=csv or pdf downloads the report instead of returning JSON
+  app.get('/api/reports/:kind', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
-      const id = parseInt(req.params.id);
-      const updates = req.body;
-      
-      // Convert date string to Date object if present
-      if (updates.date) {
-        updates.date = new Date(updates.date);
+      const kind = req.params.kind as FinancialReport['kind'];
+      if (!Object.prototype.hasOwnProperty.call(REPORT_BUILDERS, kind)) {
+        return res.status(404).json({ message: 'Report not found' });
       }
-      
-      const record = await storage.updateFinancialRecord(userId, id, updates);
-      if (!record) {
-        res.status(404).json({ message: 'Financial record not found' });
-      } else {
-        // Trigger correlation analysis for updated record
-        try {
-          await processFinancialCorrelation(userId, record.id);
-          console.log(`✓ Auto-correlation completed for updated financial record ${record.id}`);
-        } catch (correlationError) {
-          console.error('Correlation analysis failed but record was updated:', correlationError);
-        }
-        
-        res.json(record);
+      const query = reportQuerySchema.parse(req.query);
+      const report = await REPORT_BUILDERS[kind](userId, query);
+
+      if (query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${reportFilename(report, 'csv')}"`);
+        return res.send(reportToCsv(report));
       }
+      if (query.format === 'pdf') {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${reportFilename(report, 'pdf')}"`);
+        return res.send(reportToPdf(report));
+      }
+      res.json(report);
     } catch (error) {
-      console.error('Error updating financial record:', error);
-      res.status(500).json({ message: 'Failed to update financial record' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      console.error('Error building financial report:', error);
+      res.status(500).json({ message: 'Failed to build financial report' });
     }
   });
 
-  app.delete('/api/financial-records/:id', authMiddleware, async (req: any, res: Response) => {
+  // Growth, margins, burn rate, runway and average transaction sizes, computed from the records alone
+  app.get('/api/financial-metrics', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
-      const id = parseInt(req.params.id);
-      const success = await storage.deleteFinancialRecord(userId, id);
-      if (!success) {
-        res.status(404).json({ message: 'Financial record not found' });
-      } else {
-        res.status(204).send();
-      }
+      const metrics = await getFinancialMetrics(userId);
+      res.json(metrics);
     } catch (error) {
-      console.error('Error deleting financial record:', error);
-      res.status(500).json({ message: 'Failed to delete financial record' });
+      console.error('Error calculating financial metrics:', error);
+      res.status(500).json({ message: 'Failed to calculate financial metrics' });
     }
   });
 
-  // AI Financial Analysis endpoint
+  // Verified metrics with AI commentary that cites them
   app.get('/api/ai/financial-analysis', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
-      const records = await storage.getFinancialRecords(userId);
-      const analysis = await analyzeFinancialRecords(records);
+      const analysis = await analyzeFinancialRecords(userId);
       res.json(analysis);
     } catch (error) {
       console.error('Error analyzing financial records:', error);
@@ -724,7 +1875,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AI Action endpoints for comprehensive data management
+  // AI Action endpoints for comprehensive data management; changes are attributed to the chat assistant
+  const chatAudit: AuditContext = { actor: 'chat' };
+
   app.post('/api/ai/update-task-status', authMiddleware, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
@@ -739,7 +1892,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid status. Must be: pending, in_progress, or completed' });
       }
       
-      const task = await storage.updateTask(userId, taskId, { status });
+      const task = await storage.updateTask(userId, taskId, { status }, chatAudit);
       if (!task) {
         return res.status(404).json({ message: 'Task not found' });
       }
@@ -755,7 +1908,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const validatedData = insertTaskSchema.parse(req.body);
-      const task = await storage.createTask(userId, validatedData);
+      const task = await storage.createTask(userId, validatedData, chatAudit);
       res.status(201).json({ message: 'Task created successfully', task });
     } catch (error) {
       console.error('Error creating task:', error);
@@ -783,7 +1936,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Cap progress at 100%
       const cappedProgress = Math.min(progress, 100);
       
-      const goal = await storage.updateGoal(userId, goalId, { progress: cappedProgress });
+      const goal = await storage.updateGoal(userId, goalId, { progress: cappedProgress }, chatAudit);
       if (!goal) {
         return res.status(404).json({ message: 'Goal not found' });
       }
@@ -799,7 +1952,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const validatedData = insertGoalSchema.parse(req.body);
-      const goal = await storage.createGoal(userId, validatedData);
+      const goal = await storage.createGoal(userId, validatedData, chatAudit);
       res.status(201).json({ message: 'Goal created successfully', goal });
     } catch (error) {
       console.error('Error creating goal:', error);
@@ -815,7 +1968,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const validatedData = insertCalendarEventSchema.parse(req.body);
-      const event = await storage.createCalendarEvent(userId, validatedData);
+      const event = await storage.createCalendarEvent(userId, validatedData, chatAudit);
       res.status(201).json({ message: 'Calendar event created successfully', event });
     } catch (error) {
       console.error('Error creating calendar event:', error);
@@ -836,7 +1989,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Event ID is required' });
       }
       
-      const event = await storage.updateCalendarEvent(userId, eventId, updateData);
+      const event = await storage.updateCalendarEvent(userId, eventId, updateData, chatAudit);
       if (!event) {
         return res.status(404).json({ message: 'Calendar event not found' });
       }
@@ -852,12 +2005,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const validatedData = insertFinancialRecordSchema.parse(req.body);
-      const record = await storage.createFinancialRecord(userId, validatedData);
+      const accountError = await checkRecordAccounts(userId, validatedData) || checkTaxAmount(validatedData);
+      if (accountError) {
+        return res.status(400).json({ message: accountError });
+      }
+      const record = await storage.createFinancialRecord(userId, validatedData, chatAudit);
+      const duplicates = await detectDuplicates(userId, [record]);
       
-      // Trigger automatic correlation analysis
-      processFinancialCorrelation(userId, record.id);
+      // Queue automatic correlation analysis
+      await queueFinancialCorrelation(userId, [record.id]);
       
-      res.status(201).json({ message: 'Financial record created successfully', record });
+      res.status(201).json({ message: 'Financial record created successfully', record, warnings: formatDuplicateWarnings(duplicates.get(record.id)) });
     } catch (error) {
       console.error('Error creating financial record:', error);
       if (error instanceof z.ZodError) {
@@ -877,13 +2035,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Record ID is required' });
       }
       
-      const record = await storage.updateFinancialRecord(userId, recordId, updateData);
+      const record = await storage.updateFinancialRecord(userId, recordId, updateData, chatAudit);
       if (!record) {
         return res.status(404).json({ message: 'Financial record not found' });
       }
       
-      // Trigger automatic correlation analysis
-      processFinancialCorrelation(userId, record.id);
+      // Queue automatic correlation analysis
+      await queueFinancialCorrelation(userId, [record.id]);
       
       res.json({ message: 'Financial record updated successfully', record });
     } catch (error) {
@@ -1002,13 +2160,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Financial record not found' });
       }
 
-      const [goals, tasks, allRecords] = await Promise.all([
-        storage.getGoals(userId),
+      const [goals, tasks, allRecords, user] = await Promise.all([
+        getGoalsWithProgress(userId),
         storage.getTasks(userId),
-        storage.getFinancialRecords(userId)
+        storage.getFinancialRecords(userId),
+        storage.getUser(userId)
       ]);
 
-      const analysis = await analyzeDataCorrelations(financialRecord, goals, tasks, allRecords);
+      const analysis = await analyzeDataCorrelations([financialRecord], goals, tasks, allRecords, user?.baseCurrency);
       res.json(analysis);
     } catch (error) {
       console.error('Error analyzing correlations:', error);
@@ -1016,125 +2175,238 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Background jobs routes
+  app.get('/api/jobs', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const jobs = await storage.getJobs(userId, {
+        status: req.query.status ? String(req.query.status).split(',') : undefined,
+        type: req.query.type ? String(req.query.type) : undefined,
+        documentId: req.query.documentId ? parseInt(req.query.documentId) : undefined,
+        limit: req.query.limit ? Math.min(parseInt(req.query.limit) || 100, 500) : undefined,
+      });
+      res.json(jobs);
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+      res.status(500).json({ message: 'Failed to fetch jobs' });
+    }
+  });
+
+  app.get('/api/jobs/:id', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const job = await storage.getJob(userId, id);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error('Error fetching job:', error);
+      res.status(500).json({ message: 'Failed to fetch job' });
+    }
+  });
+
+  // Requeues a dead-lettered job with a fresh set of attempts
+  app.post('/api/jobs/:id/retry', authMiddleware, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const job = await storage.getJob(userId, id);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      if (job.status !== 'dead') {
+        return res.status(409).json({ message: 'Only failed jobs can be retried' });
+      }
+
+      const retried = await retryJob(job);
+      if (job.documentId) {
+        await storage.updateDocument(userId, job.documentId, { status: 'pending' });
+      }
+      res.json(retried);
+    } catch (error) {
+      console.error('Error retrying job:', error);
+      res.status(500).json({ message: 'Failed to retry job' });
+    }
+  });
+
+  backfillBaseAmounts();
+  startRecurringRecordScheduler();
+
+  startJobWorker({
+    process_document: {
+      run: processDocumentJob,
+      onDead: async (job) => {
+        if (job.documentId) {
+          await storage.updateDocument(job.userId, job.documentId, { status: 'error' });
+        }
+      },
+    },
+    correlate_financial_records: {
+      run: (job) => processFinancialCorrelation(job.userId, job.payload.recordIds || []),
+    },
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
 
-// Async function to process financial record correlations
-async function processFinancialCorrelation(userId: string, financialRecordId: number) {
+// Budget alerts never block the change that triggered them; the correlation job checks again later
+async function checkBudgetAlertsSafely(userId: string): Promise<BudgetAlert[]> {
   try {
-    const financialRecord = await storage.getFinancialRecord(userId, financialRecordId);
-    if (!financialRecord) {
-      console.error('Financial record not found for correlation:', financialRecordId);
-      return;
-    }
-
-    const [goals, tasks, allRecords] = await Promise.all([
-      storage.getGoals(userId),
-      storage.getTasks(userId),
-      storage.getFinancialRecords(userId)
-    ]);
-
-    const analysis = await analyzeDataCorrelations(financialRecord, goals, tasks, allRecords);
-    
-    // Execute correlation actions (goal progress updates, task status changes)
-    await executeCorrelationActions(userId, analysis);
-    
-    // Update revenue-based goals with accurate calculations
-    await updateRevenueBasedGoals(userId);
-    
-    console.log(`Processed correlations for financial record ${financialRecordId}:`, {
-      correlations: analysis.correlations.length,
-      progressUpdates: analysis.progressUpdates.length,
-      taskUpdates: analysis.taskUpdates.length
-    });
+    return await checkBudgetAlerts(userId);
   } catch (error) {
-    console.error('Error processing financial correlation:', error);
+    console.error('Error checking budget alerts:', error);
+    return [];
+  }
+}
+
+function isSameBudget(budget: { category: string; period: string }, other: { category: string; period: string }): boolean {
+  return budget.period === other.period && budget.category.trim().toLowerCase() === other.category.trim().toLowerCase();
+}
+
+// Only occurrences that are on the schedule and not yet recorded can be skipped or edited
+function checkUpcomingOccurrence(template: RecurringRecord, date: string): { status: number; message: string } | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+    return { status: 400, message: 'Occurrence date must be yyyy-mm-dd' };
+  }
+  if (template.lastOccurrenceAt && date <= toDateKey(template.lastOccurrenceAt)) {
+    return { status: 409, message: 'This occurrence has already been recorded; edit the financial record instead' };
+  }
+  const next = getNextRunAt(template, new Date(date));
+  if (!next || toDateKey(next) !== date) {
+    return { status: 404, message: 'No occurrence is scheduled on this date' };
   }
+  return undefined;
 }
 
-// Function to update revenue-based goals with accurate calculations
-async function updateRevenueBasedGoals(userId: string) {
+// Drops exceptions for occurrences that have already been recorded
+function pruneExceptions(template: RecurringRecord): RecurringRecord['exceptions'] {
+  const last = template.lastOccurrenceAt ? toDateKey(template.lastOccurrenceAt) : null;
+  return Object.fromEntries(Object.entries(template.exceptions || {}).filter(([date]) => !last || date > last));
+}
+
+// Moves a multer upload into file storage; the temporary upload is removed either way
+async function storeUpload(userId: string, file: Express.Multer.File): Promise<string> {
+  const key = getDocumentStorageKey(userId, file.filename);
   try {
-    const [goals, financialRecords] = await Promise.all([
-      storage.getGoals(userId),
-      storage.getFinancialRecords(userId)
-    ]);
-    
-    // Calculate current totals
-    const totalRevenue = financialRecords
-      .filter(r => r.type === 'revenue')
-      .reduce((sum, r) => sum + r.amount, 0);
-    
-    const totalExpenses = financialRecords
-      .filter(r => r.type === 'expense')
-      .reduce((sum, r) => sum + r.amount, 0);
-    
-    // Update revenue-based goals with target amounts
-    for (const goal of goals) {
-      if (goal.type === 'revenue' && goal.targetAmount) {
-        const newProgress = Math.min(100, Math.floor((totalRevenue / goal.targetAmount) * 100));
-        if (newProgress !== goal.progress) {
-          await storage.updateGoal(userId, goal.id, { progress: newProgress });
-          console.log(`✓ Updated goal "${goal.title}" progress to ${newProgress}% (${totalRevenue / 100} / ${goal.targetAmount / 100})`);
-        }
-      } else if (goal.type === 'expense' && goal.targetAmount) {
-        // For expense goals, progress = (target - actual) / target * 100 (staying under budget)
-        const newProgress = Math.max(0, Math.min(100, Math.floor(((goal.targetAmount - totalExpenses) / goal.targetAmount) * 100)));
-        if (newProgress !== goal.progress) {
-          await storage.updateGoal(userId, goal.id, { progress: newProgress });
-          console.log(`✓ Updated expense goal "${goal.title}" progress to ${newProgress}%`);
-        }
-      }
-    }
-  } catch (error) {
-    console.error('Error updating revenue-based goals:', error);
+    await getFileStorage().put(key, file.path, file.mimetype);
+  } finally {
+    await cleanupFile(file.path);
+  }
+  return key;
+}
+
+// Job handler for uploaded documents. Errors are thrown for the job queue to retry.
+async function processDocumentJob(job: Job, context: JobContext) {
+  const document = await storage.getDocument(job.userId, job.documentId!);
+  if (!document) {
+    // Deleted while queued
+    return;
+  }
+  if (!document.storageKey) {
+    throw new Error('The original file is not available. Please upload the document again.');
+  }
+
+  // Parsers read from disk, so work on a temporary copy of the stored original
+  const filePath = await downloadToTempFile(document.storageKey);
+  try {
+    await analyzeDocument(document, filePath, context);
+  } finally {
+    await cleanupFile(filePath);
   }
 }
 
-// Async function to process documents
-async function processDocumentAsync(userId: string, documentId: number, filePath: string, mimeType: string) {
+// Extracts text, summarizes, indexes and pulls out receipt details.
+// Every step replaces what an earlier attempt left behind, so it is safe to run again.
+async function analyzeDocument(document: Document, filePath: string, context: JobContext) {
+  const userId = document.userId;
+  const documentId = document.id;
+
+  await storage.updateDocument(userId, documentId, { status: 'processing' });
+  await context.reportProgress(10, 'Extracting text');
+
+  // Extract text from file; spreadsheets keep their tables and are stored as text renderings of them
+  const tables = isSpreadsheet(filePath) ? await parseSpreadsheet(filePath) : null;
+  const extracted = tables
+    ? { content: formatTablesAsText(tables), pages: [] }
+    : await extractTextFromFile(filePath, document.mimeType, (page, pageCount) =>
+        context.reportProgress(10 + (30 * page) / pageCount, `Extracting text (page ${page} of ${pageCount})`));
+  const content = extracted.content;
+  const warning = getExtractionWarning(extracted);
+
+  // Summarize document with AI
+  await context.reportProgress(40, 'Summarizing');
+  const analysis = await summarizeDocument(content, document.originalName, tables);
+
+  // Update document with content and summary
+  await storage.updateDocument(userId, documentId, {
+    content,
+    tables,
+    pages: extracted.pages.length > 0 ? extracted.pages : null,
+    summary: analysis.summary,
+    insights: analysis.keyPoints,
+    status: warning ? 'warning' : 'completed',
+    warning,
+    processedAt: new Date()
+  });
+
+  // Index passages for search; a failure here leaves the document usable and it is retried on the next search
+  await context.reportProgress(70, 'Indexing for search');
   try {
-    // Update status to processing
-    await storage.updateDocument(userId, documentId, { status: 'processing' });
-
-    // Extract text from file
-    const content = await extractTextFromFile(filePath, mimeType);
-    
-    // Get document info for filename
-    const document = await storage.getDocument(userId, documentId);
-    if (!document) {
-      throw new Error('Document not found');
-    }
-
-    // Summarize document with AI
-    const analysis = await summarizeDocument(content, document.originalName);
-
-    // Update document with content and summary
-    await storage.updateDocument(userId, documentId, {
-      content,
-      summary: analysis.summary,
-      insights: analysis.keyPoints,
-      status: 'completed',
-      processedAt: new Date()
+    await indexDocument(userId, documentId, content);
+  } catch (error) {
+    console.error('Error indexing document:', error);
+  }
+
+  // Create AI insights
+  for (const insight of await storage.getAiInsightsByDocument(userId, documentId)) {
+    await storage.deleteAiInsight(userId, insight.id);
+  }
+  for (const insight of analysis.insights) {
+    await storage.createAiInsight(userId, {
+      documentId,
+      type: insight.type,
+      title: insight.title,
+      content: insight.content,
+      confidence: insight.confidence
     });
+  }
 
-    // Create AI insights
-    for (const insight of analysis.insights) {
-      await storage.createAiInsight(userId, {
-        documentId,
-        type: insight.type,
-        title: insight.title,
-        content: insight.content,
-        confidence: insight.confidence
+  // A new version is compared with the one it replaces; the old version's insights stay with it, hidden while it is superseded
+  if (document.previousVersionId && !document.insightsDiff) {
+    await context.reportProgress(80, 'Comparing with previous version');
+    const previous = await storage.getDocument(userId, document.previousVersionId);
+    if (previous) {
+      const previousInsights = await storage.getAiInsightsByDocument(userId, previous.id);
+      const comparison = await compareInsights(
+        previousInsights.map(({ type, title, content }) => ({ type, title, content })),
+        analysis.insights.map(({ type, title, content }) => ({ type, title, content }))
+      );
+      await storage.updateDocument(userId, documentId, {
+        insightsDiff: { previousDocumentId: previous.id, previousVersion: previous.version, ...comparison },
       });
     }
+  }
 
-    // Clean up the uploaded file
-    await cleanupFile(filePath);
-  } catch (error) {
-    console.error('Error processing document:', error);
-    await storage.updateDocument(userId, documentId, { status: 'error' });
-    await cleanupFile(filePath);
+  // Receipts, invoices and bills become draft financial records for the user to confirm
+  if (!tables && content.trim()) {
+    await context.reportProgress(85, 'Extracting financial details');
+    try {
+      const categories = Array.from(new Set((await storage.getFinancialRecords(userId)).map(record => record.category)));
+      const extraction = await extractFinancialDocument(content, document.originalName, categories);
+      for (const record of await storage.getFinancialRecordsByDocument(userId, documentId)) {
+        if (record.status === 'draft') {
+          await storage.deleteFinancialRecord(userId, record.id, { actor: 'system' });
+        }
+      }
+      if (extraction) {
+        await storage.updateDocument(userId, documentId, { extraction });
+        await createDraftRecords(userId, documentId, extraction);
+      }
+    } catch (error) {
+      console.error('Error extracting financial details from document:', error);
+    }
   }
 }
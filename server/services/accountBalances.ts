@@ -0,0 +1,125 @@
+import { storage } from "../storage";
+import { convertAmount, formatMoney, type ExchangeRateQuote } from "@shared/currency";
+import type { Account, AccountRegisterEntry, AccountSummary, FinancialRecord } from "@shared/schema";
+
+export interface ReconcileRequest {
+  statementDate: string; // yyyy-mm-dd
+  statementBalance: number; // in cents of the account's currency
+  recordIds: number[];
+}
+
+// Signed change a record makes to an account, in cents of the account's currency, or null when the record is in
+// another currency no exchange rate covers. Revenue and other money (funding, loans, refunds) come in, expenses go
+// out, and a transfer leaves its sending account and arrives in its receiving one.
+export function accountAmount(record: FinancialRecord, account: Account, rates: ExchangeRateQuote[]): number | null {
+  let sign: number;
+  if (record.type === 'transfer') {
+    sign = record.accountId === account.id ? -1 : 1;
+  } else {
+    sign = record.type === 'expense' ? -1 : 1;
+  }
+  const amount = record.currency === account.currency
+    ? record.amount
+    : convertAmount(record.amount, record.currency, account.currency, record.date, rates);
+  return amount === null ? null : sign * amount;
+}
+
+export function isClearedIn(record: FinancialRecord, account: Account): boolean {
+  return record.accountId === account.id ? !!record.clearedAt : !!record.transferClearedAt;
+}
+
+// Running balance from the opening balance, oldest record first. Records dated before the opening date are
+// already part of the opening balance and are left out.
+export function buildRegister(account: Account, records: FinancialRecord[], rates: ExchangeRateQuote[]): AccountRegisterEntry[] {
+  let balance = account.openingBalance;
+  return records
+    .filter(record => (record.accountId === account.id || record.transferAccountId === account.id) && record.date >= account.openingDate)
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.id - b.id)
+    .map(record => {
+      const amount = accountAmount(record, account, rates);
+      balance += amount ?? 0;
+      return { record, amount, balance, cleared: isClearedIn(record, account) };
+    });
+}
+
+export function summarizeAccount(account: Account, register: AccountRegisterEntry[]): AccountSummary {
+  return {
+    ...account,
+    balance: register.length > 0 ? register[register.length - 1].balance : account.openingBalance,
+    clearedBalance: account.openingBalance + register.filter(entry => entry.cleared).reduce((sum, entry) => sum + (entry.amount ?? 0), 0),
+    recordCount: register.length,
+    unclearedCount: register.filter(entry => !entry.cleared).length,
+    unconverted: register.filter(entry => entry.amount === null).length,
+  };
+}
+
+export async function getAccountSummaries(userId: string): Promise<AccountSummary[]> {
+  const [accounts, rates] = await Promise.all([storage.getAccounts(userId), storage.getExchangeRates(userId)]);
+  return await Promise.all(accounts.map(async account => {
+    const records = await storage.getAccountRecords(userId, account.id);
+    return summarizeAccount(account, buildRegister(account, records, rates));
+  }));
+}
+
+export async function getAccountRegister(userId: string, account: Account): Promise<AccountRegisterEntry[]> {
+  const [records, rates] = await Promise.all([storage.getAccountRecords(userId, account.id), storage.getExchangeRates(userId)]);
+  return buildRegister(account, records, rates);
+}
+
+// Checks the accounts a record refers to; returns a message for the client, or null when they are fine.
+// Transfers need two different accounts of the user's, other records at most one.
+export async function checkRecordAccounts(
+  userId: string,
+  record: { type?: string; accountId?: number | null; transferAccountId?: number | null },
+): Promise<string | null> {
+  if (record.type === 'transfer') {
+    if (!record.accountId || !record.transferAccountId) {
+      return 'A transfer needs both the account it leaves and the account it goes to';
+    }
+    if (record.accountId === record.transferAccountId) {
+      return 'A transfer needs two different accounts';
+    }
+  } else if (record.type !== undefined && record.transferAccountId) {
+    return 'Only transfers have a receiving account';
+  }
+  for (const id of [record.accountId, record.transferAccountId]) {
+    if (id && !(await storage.getAccount(userId, id))) {
+      return `Account ${id} not found`;
+    }
+  }
+  return null;
+}
+
+// Clears the ticked records when, together with everything cleared before, they bring the account to the
+// statement balance. Returns an error message instead when they don't, or when a record can't be cleared.
+export async function reconcileAccount(userId: string, account: Account, request: ReconcileRequest): Promise<{ summary: AccountSummary } | { error: string }> {
+  const register = await getAccountRegister(userId, account);
+  const statementEnd = new Date(`${request.statementDate}T23:59:59.999Z`);
+  const selected = register.filter(entry => request.recordIds.includes(entry.record.id));
+
+  if (selected.length !== new Set(request.recordIds).size) {
+    return { error: 'Some records are not in this account' };
+  }
+  const invalid = selected.find(entry => entry.cleared || entry.amount === null || entry.record.date > statementEnd);
+  if (invalid) {
+    const reason = invalid.cleared ? 'is already cleared'
+      : invalid.amount === null ? `has no exchange rate into ${account.currency}` : 'is dated after the statement';
+    return { error: `Record ${invalid.record.id} ${reason}` };
+  }
+
+  const clearedBalance = summarizeAccount(account, register).clearedBalance
+    + selected.reduce((sum, entry) => sum + entry.amount!, 0);
+  if (clearedBalance !== request.statementBalance) {
+    return {
+      error: `Cleared balance ${formatMoney(clearedBalance, account.currency)} does not match the statement balance ${formatMoney(request.statementBalance, account.currency)}`,
+    };
+  }
+
+  await storage.clearFinancialRecords(userId, account.id, selected.map(entry => entry.record.id));
+  const updated = await storage.updateAccount(userId, account.id, {
+    reconciledAt: new Date(request.statementDate),
+    reconciledBalance: request.statementBalance,
+  });
+  const summary = summarizeAccount(updated || account, await getAccountRegister(userId, updated || account));
+  return { summary };
+}
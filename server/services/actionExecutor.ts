@@ -0,0 +1,220 @@
+import { storage } from "../storage";
+import { updateRevenueBasedGoals } from "./goalProgress";
+import { queueFinancialCorrelation } from "./correlationEngine";
+import { detectDuplicates, formatDuplicateWarnings } from "./duplicateDetector";
+import type { AuditContext } from "@shared/schema";
+
+export type ActionEntityType = 'task' | 'goal' | 'calendar_event' | 'financial_record';
+
+export interface AIAction {
+  type: string;
+  parameters: Record<string, any>;
+}
+
+// Normalized form of an action: which entity it touches and the stored field values it writes
+export interface PlannedAction {
+  entityType: ActionEntityType;
+  entityId: number | null; // null for creates
+  values: Record<string, any>;
+}
+
+export interface ActionResult {
+  entityType: ActionEntityType;
+  entityId: number | null;
+  notes: string[]; // follow-up information for the user, e.g. suspected duplicates
+}
+
+export function planAction(action: AIAction): PlannedAction {
+  const parameters = action.parameters || {};
+
+  switch (action.type) {
+    case 'update_task_status':
+      return { entityType: 'task', entityId: parameters.taskId, values: { status: parameters.status } };
+
+    case 'create_task':
+      return {
+        entityType: 'task',
+        entityId: null,
+        values: {
+          ...parameters,
+          dueDate: parameters.dueDate ? new Date(parameters.dueDate) : null
+        }
+      };
+
+    case 'update_goal_progress':
+      return {
+        entityType: 'goal',
+        entityId: parameters.goalId,
+        values: { progress: Math.floor(Math.min(100, Math.max(0, parameters.progress))) }
+      };
+
+    case 'create_goal':
+      return {
+        entityType: 'goal',
+        entityId: null,
+        values: {
+          ...parameters,
+          startDate: parameters.startDate ? new Date(parameters.startDate) : null,
+          targetDate: parameters.targetDate ? new Date(parameters.targetDate) : null,
+          period: parameters.period || 'none',
+          financialCategories: parameters.financialCategories || [],
+          targetAmount: parameters.targetAmount ? parameters.targetAmount * 100 : null, // Convert to cents
+          status: 'active',
+          progress: 0
+        }
+      };
+
+    case 'create_calendar_event':
+      return {
+        entityType: 'calendar_event',
+        entityId: null,
+        values: {
+          ...parameters,
+          startDate: new Date(parameters.startDate),
+          endDate: new Date(parameters.endDate),
+          allDay: parameters.allDay || false,
+          completed: false
+        }
+      };
+
+    case 'update_calendar_event': {
+      const { eventId, ...updateData } = parameters;
+      const values: Record<string, any> = {};
+      if (updateData.title) values.title = updateData.title;
+      if (updateData.description) values.description = updateData.description;
+      if (updateData.completed !== undefined) values.completed = updateData.completed;
+      if (updateData.startDate) values.startDate = new Date(updateData.startDate);
+      if (updateData.endDate) values.endDate = new Date(updateData.endDate);
+      return { entityType: 'calendar_event', entityId: eventId, values };
+    }
+
+    case 'create_financial_record':
+      return {
+        entityType: 'financial_record',
+        entityId: null,
+        values: {
+          ...parameters,
+          date: new Date(parameters.date),
+          amount: Math.round(parameters.amount * 100), // Convert to cents
+          currency: parameters.currency ? String(parameters.currency).toUpperCase() : undefined // storage falls back to the base currency
+        }
+      };
+
+    case 'update_financial_record': {
+      const { recordId, ...updateData } = parameters;
+      const values: Record<string, any> = {};
+      if (updateData.type) values.type = updateData.type;
+      if (updateData.category) values.category = updateData.category;
+      if (updateData.amount !== undefined) values.amount = Math.round(updateData.amount * 100); // Convert to cents
+      if (updateData.currency) values.currency = String(updateData.currency).toUpperCase();
+      if (updateData.description) values.description = updateData.description;
+      if (updateData.date) values.date = new Date(updateData.date);
+      return { entityType: 'financial_record', entityId: recordId, values };
+    }
+
+    default:
+      throw new Error(`Unknown action type: ${action.type}`);
+  }
+}
+
+export async function getActionTarget(userId: string, planned: PlannedAction): Promise<Record<string, any> | undefined> {
+  if (planned.entityId === null) return undefined;
+
+  switch (planned.entityType) {
+    case 'task':
+      return storage.getTask(userId, planned.entityId);
+    case 'goal':
+      return storage.getGoal(userId, planned.entityId);
+    case 'calendar_event':
+      return storage.getCalendarEvent(userId, planned.entityId);
+    case 'financial_record':
+      return storage.getFinancialRecord(userId, planned.entityId);
+  }
+}
+
+// Applies an action to the user's data, attributing it to the given actor in the audit log.
+// Throws if the target entity no longer exists.
+export async function executeAction(userId: string, action: AIAction, audit: AuditContext): Promise<ActionResult> {
+  const planned = planAction(action);
+  const notes: string[] = [];
+  let entityId = planned.entityId;
+
+  switch (action.type) {
+    case 'update_task_status':
+      ensureFound(await storage.updateTask(userId, entityId!, planned.values, audit), 'Task');
+      break;
+
+    case 'create_task':
+      entityId = (await storage.createTask(userId, planned.values, audit)).id;
+      break;
+
+    case 'update_goal_progress':
+      ensureFound(await storage.updateGoal(userId, entityId!, planned.values, audit), 'Goal');
+      break;
+
+    case 'create_goal':
+      entityId = (await storage.createGoal(userId, planned.values, audit)).id;
+      await updateRevenueBasedGoals(userId);
+      break;
+
+    case 'create_calendar_event':
+      entityId = (await storage.createCalendarEvent(userId, planned.values as any, audit)).id;
+      break;
+
+    case 'update_calendar_event':
+      ensureFound(await storage.updateCalendarEvent(userId, entityId!, planned.values, audit), 'Calendar event');
+      break;
+
+    case 'create_financial_record': {
+      const record = await storage.createFinancialRecord(userId, planned.values as any, audit);
+      entityId = record.id;
+      const duplicates = await detectDuplicates(userId, [record]);
+      formatDuplicateWarnings(duplicates.get(record.id)).forEach(warning => {
+        notes.push(`${warning.message}. It has been added to the duplicate review queue on the Financials page.`);
+      });
+      // Queue automatic correlation analysis
+      await queueFinancialCorrelation(userId, [record.id]);
+      break;
+    }
+
+    case 'update_financial_record': {
+      const record = ensureFound(await storage.updateFinancialRecord(userId, entityId!, planned.values, audit), 'Financial record');
+      // Queue automatic correlation analysis
+      await queueFinancialCorrelation(userId, [record.id]);
+      break;
+    }
+  }
+
+  return { entityType: planned.entityType, entityId, notes };
+}
+
+function ensureFound<T>(entity: T | undefined, label: string): T {
+  if (!entity) {
+    throw new Error(`${label} not found`);
+  }
+  return entity;
+}
+
+export function describeAction(action: AIAction): string {
+  const parameters = action.parameters || {};
+  switch (action.type) {
+    case 'update_goal_progress':
+      return `Update goal progress to ${parameters.progress}%`;
+    case 'update_task_status':
+      return `Update task status to ${parameters.status}`;
+    case 'create_task':
+      return `Create task: "${parameters.title}"`;
+    case 'create_goal':
+      return `Create goal: "${parameters.title}"`;
+    case 'create_calendar_event':
+      return `Create calendar event: "${parameters.title}"`;
+    case 'update_calendar_event':
+      return `Update calendar event`;
+    case 'create_financial_record':
+      return `Create financial record: ${parameters.amount}${parameters.currency ? ` ${parameters.currency}` : ''} (${parameters.type})`;
+    case 'update_financial_record':
+      return `Update financial record`;
+    default:
+      return action.type;
+  }
+}
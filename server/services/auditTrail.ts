@@ -0,0 +1,133 @@
+import { getTableColumns } from "drizzle-orm";
+import { auditedTables, storage } from "../storage";
+import { updateRevenueBasedGoals } from "./goalProgress";
+import type { AuditLogEntry, AuditEntityType, AuditContext } from "@shared/schema";
+
+// Bookkeeping columns that are never rolled back
+const SYSTEM_FIELDS = new Set(['id', 'userId', 'createdAt', 'updatedAt']);
+
+// Timestamp columns of each audited table; they come back from the json snapshots as ISO strings
+const DATE_FIELDS = Object.fromEntries(
+  Object.entries(auditedTables).map(([entityType, table]) => [
+    entityType,
+    new Set(Object.entries(getTableColumns(table)).filter(([, column]) => column.dataType === 'date').map(([field]) => field)),
+  ])
+) as Record<AuditEntityType, Set<string>>;
+
+export interface RevertOutcome {
+  entityType: AuditEntityType;
+  entityId: number;
+  error?: string; // set when the entity is no longer in a state the entry can be undone from
+}
+
+// Undoes a single audit entry: creates are deleted, updates get their previous field values back
+// and deletes are restored under the original id. The revert is itself recorded in the audit log.
+export async function revertAuditEntry(userId: string, id: number): Promise<RevertOutcome | undefined> {
+  const entry = await storage.getAuditLogEntry(userId, id);
+  if (!entry) return undefined;
+
+  const entityType = entry.entityType as AuditEntityType;
+  const outcome: RevertOutcome = { entityType, entityId: entry.entityId };
+  const audit: AuditContext = { actor: 'user', revertOfId: entry.id };
+  const label = entityType.replace('_', ' ');
+  const current = await getEntity(userId, entityType, entry.entityId);
+
+  switch (entry.action) {
+    case 'create':
+      if (!current) return { ...outcome, error: `This ${label} has already been deleted` };
+      await deleteEntity(userId, entityType, entry.entityId, audit);
+      break;
+
+    case 'update': {
+      if (!current) return { ...outcome, error: `This ${label} has since been deleted` };
+      const updates = getRevertedFields(entityType, entry);
+      if (Object.keys(updates).length === 0) return { ...outcome, error: 'Nothing to revert' };
+      await updateEntity(userId, entityType, entry.entityId, { ...updates, updatedAt: new Date() }, audit);
+      break;
+    }
+
+    case 'delete':
+      if (current) return { ...outcome, error: `This ${label} already exists` };
+      if (!entry.before) return { ...outcome, error: 'No snapshot to restore from' };
+      await storage.restoreEntity(userId, entityType, hydrateSnapshot(entityType, entry.before), audit);
+      break;
+
+    default:
+      return { ...outcome, error: `Cannot revert ${entry.action} entries` };
+  }
+
+  if (entityType === 'goal' || entityType === 'financial_record') {
+    await updateRevenueBasedGoals(userId);
+  }
+
+  console.log(`Reverted audit entry ${entry.id} (${entry.action} ${entityType} ${entry.entityId})`);
+  return outcome;
+}
+
+// Fields the update changed, set back to their previous values
+function getRevertedFields(entityType: AuditEntityType, entry: AuditLogEntry): Record<string, any> {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const updates: Record<string, any> = {};
+  for (const field of Object.keys(before)) {
+    if (SYSTEM_FIELDS.has(field)) continue;
+    if (JSON.stringify(before[field]) === JSON.stringify(after[field])) continue;
+    updates[field] = before[field];
+  }
+  return hydrateSnapshot(entityType, updates);
+}
+
+function hydrateSnapshot(entityType: AuditEntityType, snapshot: Record<string, any>): Record<string, any> {
+  const hydrated: Record<string, any> = { ...snapshot };
+  for (const field of Object.keys(hydrated)) {
+    if (DATE_FIELDS[entityType].has(field) && typeof hydrated[field] === 'string') {
+      hydrated[field] = new Date(hydrated[field]);
+    }
+  }
+  return hydrated;
+}
+
+async function getEntity(userId: string, entityType: AuditEntityType, id: number): Promise<Record<string, any> | undefined> {
+  switch (entityType) {
+    case 'goal':
+      return storage.getGoal(userId, id);
+    case 'task':
+      return storage.getTask(userId, id);
+    case 'calendar_event':
+      return storage.getCalendarEvent(userId, id);
+    case 'financial_record':
+      return storage.getFinancialRecord(userId, id);
+    case 'business_context':
+      return storage.getBusinessContext(userId, id);
+  }
+}
+
+async function updateEntity(userId: string, entityType: AuditEntityType, id: number, updates: Record<string, any>, audit: AuditContext) {
+  switch (entityType) {
+    case 'goal':
+      return storage.updateGoal(userId, id, updates, audit);
+    case 'task':
+      return storage.updateTask(userId, id, updates, audit);
+    case 'calendar_event':
+      return storage.updateCalendarEvent(userId, id, updates, audit);
+    case 'financial_record':
+      return storage.updateFinancialRecord(userId, id, updates, audit);
+    case 'business_context':
+      return storage.updateBusinessContext(userId, id, updates, audit);
+  }
+}
+
+async function deleteEntity(userId: string, entityType: AuditEntityType, id: number, audit: AuditContext) {
+  switch (entityType) {
+    case 'goal':
+      return storage.deleteGoal(userId, id, audit);
+    case 'task':
+      return storage.deleteTask(userId, id, audit);
+    case 'calendar_event':
+      return storage.deleteCalendarEvent(userId, id, audit);
+    case 'financial_record':
+      return storage.deleteFinancialRecord(userId, id, audit);
+    case 'business_context':
+      return storage.deleteBusinessContext(userId, id, audit);
+  }
+}
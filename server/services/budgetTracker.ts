@@ -0,0 +1,76 @@
+import { storage } from "../storage";
+import { getGoalWindow, isInGoalWindow } from "@shared/goalWindow";
+import { formatMoney } from "@shared/currency";
+import { inBaseCurrency } from "./currencyConversion";
+import type { Budget, BudgetAlert, BudgetStatus, FinancialRecord } from "@shared/schema";
+
+// Actual spend against a budget for the calendar month or quarter containing `now`. Only confirmed expense
+// records in the budget's category count, matched the same case-insensitive way as goal categories.
+// Budgets are in the base currency, so the records should already be converted with inBaseCurrency.
+export function calculateBudgetStatus(budget: Budget, financialRecords: FinancialRecord[], now: Date = new Date()): BudgetStatus {
+  const window = getGoalWindow({ period: budget.period }, now);
+  const category = normalizeCategory(budget.category);
+  const spent = financialRecords
+    .filter(r => r.type === 'expense' && normalizeCategory(r.category) === category && isInGoalWindow(r.date, window))
+    .reduce((sum, r) => sum + r.amount, 0);
+
+  const percentUsed = budget.amount > 0 ? Math.round((spent / budget.amount) * 1000) / 10 : 0;
+  const warningAt = Math.min(...(budget.alertThresholds || []).filter(threshold => threshold < 100), 100);
+
+  return {
+    ...budget,
+    periodStart: window.start!.toISOString(),
+    periodEnd: window.end!.toISOString(),
+    periodLabel: window.label,
+    spent,
+    variance: budget.amount - spent,
+    percentUsed,
+    status: spent > budget.amount ? 'over' : percentUsed >= warningAt ? 'warning' : 'under',
+  };
+}
+
+export async function getBudgetStatuses(userId: string, now: Date = new Date()): Promise<BudgetStatus[]> {
+  const [budgets, financialRecords] = await Promise.all([
+    storage.getBudgets(userId),
+    storage.getFinancialRecords(userId),
+  ]);
+  return budgets.map(budget => calculateBudgetStatus(budget, inBaseCurrency(financialRecords), now));
+}
+
+// Records an alert for every threshold a budget has passed this period and adds a warning insight for it.
+// Each threshold fires once per period, so this is safe to call after any change to the records.
+export async function checkBudgetAlerts(userId: string, now: Date = new Date()): Promise<BudgetAlert[]> {
+  const [statuses, user] = await Promise.all([getBudgetStatuses(userId, now), storage.getUser(userId)]);
+  const formatAmount = (amount: number) => formatMoney(amount, user?.baseCurrency);
+  const fired: BudgetAlert[] = [];
+
+  for (const status of statuses) {
+    const passed = (status.alertThresholds || [])
+      .filter(threshold => status.percentUsed >= threshold)
+      .sort((a, b) => a - b);
+    for (const threshold of passed) {
+      const alert = await storage.createBudgetAlert(userId, {
+        budgetId: status.id,
+        periodStart: new Date(status.periodStart),
+        threshold,
+        spent: status.spent,
+        budgetAmount: status.amount,
+      });
+      if (!alert) continue;
+
+      fired.push(alert);
+      await storage.createAiInsight(userId, {
+        type: 'warning',
+        title: threshold >= 100 ? `${status.category} budget exceeded` : `${status.category} budget ${threshold}% used`,
+        content: `${formatAmount(status.spent)} of the ${formatAmount(status.amount)} ${status.period} ${status.category} budget has been spent in ${status.periodLabel} (${status.percentUsed}%).`,
+        confidence: 100,
+      });
+    }
+  }
+
+  return fired;
+}
+
+function normalizeCategory(category: string): string {
+  return category.trim().toLowerCase();
+}
@@ -0,0 +1,271 @@
+import { storage, type MonthlyFinancialTotal } from "../storage";
+import { getUpcomingOccurrences, toDateKey } from "./recurringRecords";
+import { calculateGoalProgress } from "./goalProgress";
+import { inBaseCurrency } from "./currencyConversion";
+import { getGoalWindow } from "@shared/goalWindow";
+import { convertAmount } from "@shared/currency";
+import type { CashFlowForecast, CashFlowForecastGoal, CashFlowForecastMonth, FinancialRecord, ForecastBand, Goal, UpcomingRecurringOccurrence } from "@shared/schema";
+
+export const FORECAST_HORIZONS = [3, 6, 12];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Complete months of history the model is fitted on
+const HISTORY_MONTHS = 24;
+// A linear trend needs this much history before it is trusted over a flat average
+const TREND_MIN_MONTHS = 6;
+// Month-of-year effects are only estimated once every calendar month has been seen twice
+const SEASONALITY_MIN_MONTHS = 24;
+// Bands cover 80% of outcomes; 1.2816 is the matching two-sided normal quantile
+const CONFIDENCE = 0.8;
+const Z = 1.2816;
+// With a single month of history there is no spread to measure, so the band assumes this share of the level
+const SINGLE_MONTH_UNCERTAINTY = 0.25;
+
+interface SeriesModel {
+  predict(t: number): { expected: number; sigma: number };
+  trend: boolean;
+  seasonality: boolean;
+}
+
+interface MonthSlot {
+  key: string; // yyyy-mm
+  start: Date;
+  end: Date; // exclusive
+}
+
+type Series = 'revenue' | 'expense';
+
+// Projects revenue, expenses and net cash month by month. Each series is a least-squares trend (once there is
+// enough history) plus month-of-year seasonality, fitted on records that did not come from recurring templates;
+// the scheduled occurrences of those templates are then added exactly. The current month counts what has been
+// recorded so far and forecasts only the rest of it. Everything is in the user's base currency.
+export async function forecastCashFlow(userId: string, months: number, now: Date = new Date()): Promise<CashFlowForecast> {
+  const currentMonth = monthSlot(now.getUTCFullYear(), now.getUTCMonth());
+  const historyStart = monthSlot(now.getUTCFullYear(), now.getUTCMonth() - HISTORY_MONTHS).start;
+  const slots = Array.from({ length: months }, (_, i) => monthSlot(now.getUTCFullYear(), now.getUTCMonth() + i));
+  const horizonEnd = slots[slots.length - 1].end;
+
+  const [allTotals, baselineTotals, templates, goals, user, rates] = await Promise.all([
+    storage.getMonthlyFinancialTotals(userId, { startDate: historyStart, endDate: currentMonth.end }),
+    storage.getMonthlyFinancialTotals(userId, { startDate: historyStart, endDate: currentMonth.start, excludeRecurring: true }),
+    storage.getRecurringRecords(userId),
+    storage.getGoals(userId),
+    storage.getUser(userId),
+    storage.getExchangeRates(userId),
+  ]);
+  const baseCurrency = user?.baseCurrency || 'USD';
+
+  // History starts at the first month with any record; earlier empty months say nothing about the business
+  const firstKey = allTotals.find(total => total.month < currentMonth.key)?.month;
+  const historySlots: MonthSlot[] = [];
+  if (firstKey) {
+    const [year, month] = firstKey.split('-').map(Number);
+    for (let slot = monthSlot(year, month - 1); slot.start < currentMonth.start; slot = monthSlot(slot.start.getUTCFullYear(), slot.start.getUTCMonth() + 1)) {
+      historySlots.push(slot);
+    }
+  }
+  const firstCalendarMonth = historySlots[0]?.start.getUTCMonth() ?? 0;
+  const models: Record<Series, SeriesModel> = {
+    revenue: fitSeries(historySlots.map(slot => monthTotal(baselineTotals, slot.key, 'revenue')), firstCalendarMonth),
+    expense: fitSeries(historySlots.map(slot => monthTotal(baselineTotals, slot.key, 'expense')), firstCalendarMonth),
+  };
+
+  const days = Math.ceil((horizonEnd.getTime() - now.getTime()) / DAY_MS);
+  // Occurrences in a currency no rate covers are left out, like unconverted records are left out of the totals
+  const scheduled = getUpcomingOccurrences(templates, days, now)
+    .filter(occurrence => !occurrence.skipped && occurrence.date < toDateKey(horizonEnd))
+    .map(occurrence => ({
+      ...occurrence,
+      amount: convertAmount(occurrence.amount, occurrence.currency, baseCurrency, occurrence.date, rates),
+      currency: baseCurrency,
+    }))
+    .filter((occurrence): occurrence is UpcomingRecurringOccurrence => occurrence.amount !== null);
+
+  // Share of each forecast month still ahead; only the current month is partly over
+  const remaining = (slot: MonthSlot) => Math.max(0, Math.min(1, (slot.end.getTime() - Math.max(now.getTime(), slot.start.getTime())) / (slot.end.getTime() - slot.start.getTime())));
+
+  const forecastSeries = (series: Series, slot: MonthSlot, index: number) => {
+    const { expected, sigma } = models[series].predict(historySlots.length + index);
+    const share = remaining(slot);
+    const recorded = slot.key === currentMonth.key ? monthTotal(allTotals, slot.key, series) : 0;
+    const scheduledAmount = sumScheduled(scheduled, series, slot.key);
+    return { expected: recorded + expected * share + scheduledAmount, sigma: sigma * share, scheduled: scheduledAmount };
+  };
+
+  let cumulativeExpected = 0;
+  let cumulativeVariance = 0;
+  const totalVariance = { revenue: 0, expense: 0 };
+  const totalExpected = { revenue: 0, expense: 0 };
+  const forecast: CashFlowForecastMonth[] = slots.map((slot, index) => {
+    const revenue = forecastSeries('revenue', slot, index);
+    const expenses = forecastSeries('expense', slot, index);
+    const netSigma = Math.sqrt(revenue.sigma ** 2 + expenses.sigma ** 2);
+    cumulativeExpected += revenue.expected - expenses.expected;
+    cumulativeVariance += netSigma ** 2;
+    totalExpected.revenue += revenue.expected;
+    totalExpected.expense += expenses.expected;
+    totalVariance.revenue += revenue.sigma ** 2;
+    totalVariance.expense += expenses.sigma ** 2;
+
+    return {
+      month: slot.key,
+      revenue: band(revenue.expected, revenue.sigma, true),
+      expenses: band(expenses.expected, expenses.sigma, true),
+      net: band(revenue.expected - expenses.expected, netSigma, false),
+      cumulativeNet: band(cumulativeExpected, Math.sqrt(cumulativeVariance), false),
+      scheduledRevenue: Math.round(revenue.scheduled),
+      scheduledExpenses: Math.round(expenses.scheduled),
+    };
+  });
+
+  const eligibleGoals = goals.filter(goal =>
+    goal.status === 'active' && goal.targetAmount && (goal.type === 'revenue' || goal.type === 'expense'));
+  const records = eligibleGoals.length > 0 ? inBaseCurrency(await storage.getFinancialRecords(userId)) : [];
+
+  return {
+    months,
+    currency: baseCurrency,
+    confidence: CONFIDENCE,
+    historyMonths: historySlots.length,
+    trend: models.revenue.trend || models.expense.trend,
+    seasonality: models.revenue.seasonality || models.expense.seasonality,
+    history: historySlots.map(slot => {
+      const revenue = monthTotal(allTotals, slot.key, 'revenue');
+      const expenses = monthTotal(allTotals, slot.key, 'expense');
+      return { month: slot.key, revenue, expenses, net: revenue - expenses };
+    }),
+    forecast,
+    totals: {
+      revenue: band(totalExpected.revenue, Math.sqrt(totalVariance.revenue), true),
+      expenses: band(totalExpected.expense, Math.sqrt(totalVariance.expense), true),
+      net: band(totalExpected.revenue - totalExpected.expense, Math.sqrt(totalVariance.revenue + totalVariance.expense), false),
+    },
+    goals: eligibleGoals
+      .map(goal => projectGoal(goal, records, models, historySlots, slots, scheduled, now))
+      .filter((goal): goal is CashFlowForecastGoal => goal !== null),
+  };
+}
+
+// Where a goal is heading: the amount recorded in its window so far plus the forecast for the rest of the
+// window within the horizon. Goals bound to categories get the categories' share of the forecast.
+function projectGoal(
+  goal: Goal,
+  records: FinancialRecord[],
+  models: Record<Series, SeriesModel>,
+  historySlots: MonthSlot[],
+  slots: MonthSlot[],
+  scheduled: UpcomingRecurringOccurrence[],
+  now: Date
+): CashFlowForecastGoal | null {
+  const progress = calculateGoalProgress(goal, records, now);
+  const window = getGoalWindow(goal, now);
+  if (!progress || (window.end && window.end <= now)) return null;
+
+  const series = goal.type as Series;
+  const categories = new Set((goal.financialCategories || []).map(category => category.trim().toLowerCase()));
+  const inCategories = (category: string) => categories.size === 0 || categories.has(category.trim().toLowerCase());
+
+  let share = 1;
+  if (categories.size > 0) {
+    const history = records.filter(r => r.type === series && !r.recurringRecordId && historySlots.length > 0 && r.date >= historySlots[0].start);
+    const total = history.reduce((sum, r) => sum + r.amount, 0);
+    share = total > 0 ? history.filter(r => inCategories(r.category)).reduce((sum, r) => sum + r.amount, 0) / total : 0;
+  }
+
+  let projected = progress.actual;
+  slots.forEach((slot, index) => {
+    const start = Math.max(slot.start.getTime(), now.getTime(), window.start?.getTime() ?? -Infinity);
+    const end = Math.min(slot.end.getTime(), window.end?.getTime() ?? Infinity);
+    if (end <= start) return;
+    projected += models[series].predict(historySlots.length + index).expected * share * (end - start) / (slot.end.getTime() - slot.start.getTime());
+  });
+  projected += scheduled
+    .filter(occurrence => occurrence.type === series && inCategories(occurrence.category))
+    .filter(occurrence => {
+      const date = new Date(occurrence.date);
+      return (!window.start || date >= window.start) && (!window.end || date < window.end);
+    })
+    .reduce((sum, occurrence) => sum + occurrence.amount, 0);
+
+  const targetAmount = goal.targetAmount!;
+  return {
+    goalId: goal.id,
+    title: goal.title,
+    type: goal.type,
+    targetAmount,
+    projected: Math.round(projected),
+    windowLabel: window.label,
+    onTrack: series === 'revenue' ? projected >= targetAmount : projected <= targetAmount,
+    partial: !window.end || window.end > slots[slots.length - 1].end,
+  };
+}
+
+// Least-squares trend plus additive month-of-year effects; `t` counts months from the first month of history
+function fitSeries(values: number[], firstCalendarMonth: number): SeriesModel {
+  const n = values.length;
+  if (n === 0) {
+    return { predict: () => ({ expected: 0, sigma: 0 }), trend: false, seasonality: false };
+  }
+
+  const meanT = (n - 1) / 2;
+  const meanY = values.reduce((sum, y) => sum + y, 0) / n;
+  const sxx = values.reduce((sum, _, t) => sum + (t - meanT) ** 2, 0);
+  const trend = n >= TREND_MIN_MONTHS && sxx > 0;
+  const slope = trend ? values.reduce((sum, y, t) => sum + (t - meanT) * (y - meanY), 0) / sxx : 0;
+  const level = meanY - slope * meanT;
+
+  let seasonal: number[] | null = null;
+  if (n >= SEASONALITY_MIN_MONTHS) {
+    const sums = new Array(12).fill(0);
+    const counts = new Array(12).fill(0);
+    values.forEach((y, t) => {
+      const month = (firstCalendarMonth + t) % 12;
+      sums[month] += y - (level + slope * t);
+      counts[month]++;
+    });
+    const raw = sums.map((sum, month) => counts[month] > 0 ? sum / counts[month] : 0);
+    const mean = raw.reduce((sum, value) => sum + value, 0) / 12;
+    seasonal = raw.map(value => value - mean);
+  }
+
+  const fitted = (t: number) => level + slope * t + (seasonal ? seasonal[(firstCalendarMonth + t) % 12] : 0);
+  const parameters = 1 + (trend ? 1 : 0) + (seasonal ? 11 : 0);
+  const squaredResiduals = values.reduce((sum, y, t) => sum + (y - fitted(t)) ** 2, 0);
+  const sigma = n > parameters
+    ? Math.sqrt(squaredResiduals / (n - parameters))
+    : Math.abs(meanY) * SINGLE_MONTH_UNCERTAINTY;
+
+  return {
+    // Prediction interval of a regression: wider the further `t` is from the middle of the history
+    predict: (t: number) => ({
+      expected: Math.max(0, fitted(t)),
+      sigma: sigma * Math.sqrt(1 + 1 / n + (trend ? (t - meanT) ** 2 / sxx : 0)),
+    }),
+    trend,
+    seasonality: seasonal !== null,
+  };
+}
+
+function band(expected: number, sigma: number, nonNegative: boolean): ForecastBand {
+  const low = expected - Z * sigma;
+  return {
+    expected: Math.round(expected),
+    low: Math.round(nonNegative ? Math.max(0, low) : low),
+    high: Math.round(expected + Z * sigma),
+  };
+}
+
+function monthSlot(year: number, month: number): MonthSlot {
+  const start = new Date(Date.UTC(year, month, 1));
+  return { key: toDateKey(start).slice(0, 7), start, end: new Date(Date.UTC(year, month + 1, 1)) };
+}
+
+function monthTotal(totals: MonthlyFinancialTotal[], month: string, type: Series): number {
+  return totals.filter(total => total.month === month && total.type === type).reduce((sum, total) => sum + total.total, 0);
+}
+
+function sumScheduled(scheduled: UpcomingRecurringOccurrence[], type: Series, month: string): number {
+  return scheduled
+    .filter(occurrence => occurrence.type === type && occurrence.date.startsWith(month))
+    .reduce((sum, occurrence) => sum + occurrence.amount, 0);
+}
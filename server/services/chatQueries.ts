@@ -0,0 +1,335 @@
+import { storage, type FinancialRecordFilters } from "../storage";
+import { getGoalWindow } from "@shared/goalWindow";
+import { searchDocuments } from "./documentSearch";
+import { describeMetric, getFinancialMetrics } from "./financialMetrics";
+import { getGoalsWithProgress } from "./goalProgress";
+import type { FinancialRecord } from "@shared/schema";
+import type { LLMToolDefinition } from "./llmProvider";
+
+// Read-only tools the chat assistant calls on demand instead of receiving every record in its prompt
+
+const MAX_RESULTS = 100;
+
+interface QueryTool {
+  definition: LLMToolDefinition;
+  label: string; // live status shown while the query runs
+  run: (userId: string, params: Record<string, any>) => Promise<Record<string, any>>;
+}
+
+const QUERY_TOOLS: QueryTool[] = [
+  {
+    label: "Searching financial records",
+    definition: {
+      name: "search_financial_records",
+      description: "Find financial records by date range, type, category or description text. Returns matching records (newest first, each in its own currency with the base-currency amount) and totals in the base currency for everything that matches",
+      parameters: {
+        type: "object",
+        properties: {
+          startDate: { type: "string", description: "Earliest date to include, ISO format (yyyy-mm-dd)" },
+          endDate: { type: "string", description: "Latest date to include, ISO format (yyyy-mm-dd)" },
+          type: { type: "string", enum: ["revenue", "expense", "other"], description: "Only records of this type" },
+          category: { type: "string", description: "Only records in this category (case-insensitive)" },
+          query: { type: "string", description: "Text to look for in the description or category" },
+          limit: { type: "number", description: `Maximum number of records to return (default 25, max ${MAX_RESULTS})` }
+        }
+      }
+    },
+    run: async (userId, params) => {
+      const filters = parseFinancialFilters(params);
+      const [records, totals, user] = await Promise.all([
+        storage.searchFinancialRecords(userId, { ...filters, limit: clampLimit(params.limit, 25) }),
+        storage.getFinancialRecordTotals(userId, filters),
+        storage.getUser(userId)
+      ]);
+      const matched = totals.reduce((sum, total) => sum + total.count, 0);
+      return {
+        matched,
+        returned: records.length,
+        baseCurrency: user?.baseCurrency || 'USD',
+        totals: totals.map(total => ({ type: total.type, total: fromCents(total.total), count: total.count, unconverted: total.unconverted })),
+        records: records.map(formatRecord)
+      };
+    }
+  },
+  {
+    label: "Summarizing finances",
+    definition: {
+      name: "summarize_financials_by_month",
+      description: "Aggregate financial records into monthly revenue, expense and other totals (in the user's base currency) with the monthly net",
+      parameters: {
+        type: "object",
+        properties: {
+          startDate: { type: "string", description: "Earliest date to include, ISO format (yyyy-mm-dd)" },
+          endDate: { type: "string", description: "Latest date to include, ISO format (yyyy-mm-dd)" },
+          type: { type: "string", enum: ["revenue", "expense", "other"], description: "Only records of this type" },
+          category: { type: "string", description: "Only records in this category (case-insensitive)" }
+        }
+      }
+    },
+    run: async (userId, params) => {
+      const [rows, user] = await Promise.all([
+        storage.getMonthlyFinancialTotals(userId, parseFinancialFilters(params)),
+        storage.getUser(userId)
+      ]);
+      const months = new Map<string, { month: string; revenue: number; expense: number; other: number; records: number }>();
+      for (const row of rows) {
+        const entry = months.get(row.month) || { month: row.month, revenue: 0, expense: 0, other: 0, records: 0 };
+        if (row.type === 'revenue' || row.type === 'expense' || row.type === 'other') {
+          entry[row.type] += fromCents(row.total);
+        }
+        entry.records += row.count;
+        months.set(row.month, entry);
+      }
+      return {
+        baseCurrency: user?.baseCurrency || 'USD',
+        months: Array.from(months.values()).map(month => ({ ...month, net: month.revenue - month.expense }))
+      };
+    }
+  },
+  {
+    label: "Calculating financial metrics",
+    definition: {
+      name: "get_financial_metrics",
+      description: "Verified financial metrics computed from the records: month-over-month and year-over-year revenue and expense growth, profit margins, gross and net burn rate, runway and average transaction size per category. Quote these instead of calculating them yourself",
+      parameters: {
+        type: "object",
+        properties: {}
+      }
+    },
+    run: async (userId) => {
+      const metrics = await getFinancialMetrics(userId);
+      return {
+        baseCurrency: metrics.currency,
+        month: metrics.month,
+        metrics: metrics.metrics.map(metric => describeMetric(metric, metrics.currency)),
+        categoryAverages: metrics.categoryAverages.map(average => ({
+          type: average.type,
+          category: average.category,
+          count: average.count,
+          average: fromCents(average.average),
+          total: fromCents(average.total)
+        })),
+        unconverted: metrics.unconverted
+      };
+    }
+  },
+  {
+    label: "Looking up tasks",
+    definition: {
+      name: "find_tasks",
+      description: "Look up tasks by title or description text, status or priority",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "Text to look for in the title or description" },
+          status: { type: "string", enum: ["pending", "in_progress", "completed"], description: "Only tasks with this status" },
+          priority: { type: "string", enum: ["low", "medium", "high"], description: "Only tasks with this priority" },
+          limit: { type: "number", description: `Maximum number of tasks to return (default 25, max ${MAX_RESULTS})` }
+        }
+      }
+    },
+    run: async (userId, params) => {
+      const tasks = (await storage.getTasks(userId))
+        .filter(task => matchesText(params.query, task.title, task.description))
+        .filter(task => !params.status || task.status === params.status)
+        .filter(task => !params.priority || task.priority === params.priority);
+      return {
+        matched: tasks.length,
+        tasks: tasks.slice(0, clampLimit(params.limit, 25)).map(task => ({
+          id: task.id,
+          title: task.title,
+          description: task.description,
+          status: task.status,
+          priority: task.priority,
+          dueDate: task.dueDate ? toIsoDate(task.dueDate) : null
+        }))
+      };
+    }
+  },
+  {
+    label: "Looking up goals",
+    definition: {
+      name: "find_goals",
+      description: "Look up goals by title or description text or status, including their measurement window and bound categories",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "Text to look for in the title or description" },
+          status: { type: "string", enum: ["active", "completed", "paused"], description: "Only goals with this status" }
+        }
+      }
+    },
+    run: async (userId, params) => {
+      const goals = (await getGoalsWithProgress(userId))
+        .filter(goal => matchesText(params.query, goal.title, goal.description))
+        .filter(goal => !params.status || goal.status === params.status);
+      return {
+        matched: goals.length,
+        goals: goals.slice(0, MAX_RESULTS).map(goal => ({
+          id: goal.id,
+          title: goal.title,
+          description: goal.description,
+          type: goal.type,
+          category: goal.category,
+          status: goal.status,
+          progress: goal.progress,
+          targetAmount: goal.targetAmount !== null ? fromCents(goal.targetAmount) : null,
+          targetDate: goal.targetDate ? toIsoDate(goal.targetDate) : null,
+          window: getGoalWindow(goal).label,
+          financialCategories: goal.financialCategories
+        }))
+      };
+    }
+  },
+  {
+    label: "Checking the calendar",
+    definition: {
+      name: "find_calendar_events",
+      description: "Look up calendar events in a date range or by title or description text",
+      parameters: {
+        type: "object",
+        properties: {
+          startDate: { type: "string", description: "Earliest date to include, ISO format (yyyy-mm-dd)" },
+          endDate: { type: "string", description: "Latest date to include, ISO format (yyyy-mm-dd)" },
+          query: { type: "string", description: "Text to look for in the title or description" },
+          limit: { type: "number", description: `Maximum number of events to return (default 25, max ${MAX_RESULTS})` }
+        }
+      }
+    },
+    run: async (userId, params) => {
+      const start = parseStartDate(params.startDate);
+      const end = parseEndDate(params.endDate);
+      const events = (await storage.getCalendarEvents(userId))
+        .filter(event => matchesText(params.query, event.title, event.description))
+        .filter(event => !start || new Date(event.endDate) >= start)
+        .filter(event => !end || new Date(event.startDate) < end)
+        .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+      return {
+        matched: events.length,
+        events: events.slice(0, clampLimit(params.limit, 25)).map(event => ({
+          id: event.id,
+          title: event.title,
+          description: event.description,
+          startDate: new Date(event.startDate).toISOString(),
+          endDate: new Date(event.endDate).toISOString(),
+          allDay: event.allDay,
+          completed: event.completed
+        }))
+      };
+    }
+  },
+  {
+    label: "Searching documents",
+    definition: {
+      name: "search_documents",
+      description: "Search the text of uploaded documents and return the most relevant passages. Cite the passages you rely on as [filename, passage N]",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "What to look for, as words or a question" },
+          documentId: { type: "number", description: "Only search this document" },
+          limit: { type: "number", description: "Maximum number of passages to return (default 5, max 10)" }
+        },
+        required: ["query"]
+      }
+    },
+    run: async (userId, params) => {
+      const query = String(params.query || '').trim();
+      if (!query) throw new Error('query is required');
+      const documentId = params.documentId !== undefined ? Number(params.documentId) : undefined;
+      if (documentId !== undefined && isNaN(documentId)) throw new Error(`Invalid documentId: ${params.documentId}`);
+      const { results } = await searchDocuments(userId, query, {
+        limit: Math.min(clampLimit(params.limit, 5), 10),
+        documentId
+      });
+      return {
+        passages: results.map(result => ({
+          documentId: result.documentId,
+          filename: result.filename,
+          passage: result.passage,
+          text: result.content
+        }))
+      };
+    }
+  }
+];
+
+export const CHAT_QUERY_TOOLS: LLMToolDefinition[] = QUERY_TOOLS.map(tool => tool.definition);
+
+export function isQueryTool(name: string): boolean {
+  return QUERY_TOOLS.some(tool => tool.definition.name === name);
+}
+
+export function getQueryToolLabel(name: string): string {
+  return QUERY_TOOLS.find(tool => tool.definition.name === name)?.label || 'Looking things up';
+}
+
+// Throws on unknown tools and invalid parameters; the caller reports the error to the model
+export async function runQueryTool(userId: string, name: string, params: Record<string, any>): Promise<Record<string, any>> {
+  const tool = QUERY_TOOLS.find(candidate => candidate.definition.name === name);
+  if (!tool) {
+    throw new Error(`Unknown query tool: ${name}`);
+  }
+  return tool.run(userId, params);
+}
+
+function parseFinancialFilters(params: Record<string, any>): FinancialRecordFilters {
+  return {
+    startDate: parseStartDate(params.startDate),
+    endDate: parseEndDate(params.endDate),
+    type: params.type || undefined,
+    category: params.category || undefined,
+    query: params.query || undefined
+  };
+}
+
+function parseStartDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) throw new Error(`Invalid startDate: ${value}`);
+  return date;
+}
+
+// End dates are inclusive; a bare yyyy-mm-dd covers that whole day
+function parseEndDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) throw new Error(`Invalid endDate: ${value}`);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(String(value))) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
+function clampLimit(value: unknown, fallback: number): number {
+  const limit = Math.floor(Number(value));
+  if (!limit || limit < 1) return fallback;
+  return Math.min(limit, MAX_RESULTS);
+}
+
+function matchesText(query: unknown, ...fields: Array<string | null>): boolean {
+  if (!query) return true;
+  const needle = String(query).toLowerCase();
+  return fields.some(field => field?.toLowerCase().includes(needle));
+}
+
+function formatRecord(record: FinancialRecord) {
+  return {
+    id: record.id,
+    type: record.type,
+    category: record.category,
+    amount: fromCents(record.amount),
+    currency: record.currency,
+    baseAmount: record.baseAmount !== null ? fromCents(record.baseAmount) : null, // null when no exchange rate covers it
+    date: toIsoDate(record.date),
+    description: record.description
+  };
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+function toIsoDate(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
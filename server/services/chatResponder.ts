@@ -0,0 +1,158 @@
+import { storage } from "../storage";
+import type { Message, PendingChange, ChatToolEvent } from "@shared/schema";
+import { generateChatResponse, parseToolArguments } from "./openai";
+import { proposeActions, type ProposalOutcome } from "./pendingChanges";
+import { describeAction } from "./actionExecutor";
+import { isQueryTool, getQueryToolLabel, runQueryTool } from "./chatQueries";
+import { getGoalsWithProgress } from "./goalProgress";
+import type { LLMToolCall } from "./llmProvider";
+import { AI_ACTION_TYPES } from "@shared/constants";
+
+export interface ChatReplyHooks {
+  onToken?: (text: string) => void; // set to stream the reply text as it is generated
+  onToolEvent?: (event: ChatToolEvent) => void;
+}
+
+export interface ChatReply {
+  aiMessage: Message;
+  pendingChanges: PendingChange[];
+}
+
+// Generates and saves the assistant's reply to the latest user message of a conversation.
+// AI-requested changes are queued for approval unless the user auto-applies that action type.
+export async function generateAssistantReply(
+  userId: string,
+  conversationId: number,
+  hooks: ChatReplyHooks = {}
+): Promise<ChatReply> {
+  // Get conversation history
+  const conversationMessages = await storage.getMessagesByConversation(userId, conversationId);
+
+  // Convert to format expected by the LLM provider
+  const chatHistory = conversationMessages.map(msg => ({
+    role: msg.role,
+    content: msg.content
+  }));
+
+  // Fetch context data for AI
+  const [tasks, goals, documents, insights, calendarEvents, financialTotals, businessContexts, user] = await Promise.all([
+    storage.getTasks(userId),
+    getGoalsWithProgress(userId),
+    storage.getDocuments(userId),
+    storage.getAiInsights(userId),
+    storage.getCalendarEvents(userId),
+    storage.getFinancialRecordTotals(userId),
+    storage.getBusinessContexts(userId),
+    storage.getUser(userId)
+  ]);
+
+  const contextData = {
+    tasks,
+    goals,
+    documents,
+    insights,
+    calendarEvents,
+    financialTotals,
+    baseCurrency: user?.baseCurrency,
+    businessContexts
+  };
+
+  const latestUserMessage = [...conversationMessages].reverse().find(msg => msg.role === 'user');
+  const outcome: ProposalOutcome = { applied: [], proposed: [], failed: [], notes: [] };
+  const toolFailures: string[] = [];
+
+  // Lookups run directly; changes are proposed (or auto-applied) right away. Either outcome is reported back to the model.
+  const executeTool = async (toolCall: LLMToolCall, reasoning?: string): Promise<Record<string, any>> => {
+    const parameters = parseToolArguments(toolCall.arguments);
+    if (!parameters) {
+      const error = `Invalid arguments for ${toolCall.name}`;
+      if (!isQueryTool(toolCall.name)) toolFailures.push(error);
+      hooks.onToolEvent?.({ actionType: toolCall.name, label: toolCall.name, status: 'failed', summary: toolCall.name, error });
+      return { status: 'failed', error };
+    }
+
+    if (isQueryTool(toolCall.name)) {
+      const label = getQueryToolLabel(toolCall.name);
+      hooks.onToolEvent?.({ actionType: toolCall.name, label, status: 'running', summary: label });
+      try {
+        const result = await runQueryTool(userId, toolCall.name, parameters);
+        hooks.onToolEvent?.({ actionType: toolCall.name, label, status: 'completed', summary: label });
+        return { status: 'ok', ...result };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Query failed';
+        console.error(`Error running ${toolCall.name}:`, error);
+        hooks.onToolEvent?.({ actionType: toolCall.name, label, status: 'failed', summary: label, error: message });
+        return { status: 'failed', error: message };
+      }
+    }
+
+    const action = { type: toolCall.name, parameters };
+    const summary = describeAction(action);
+    const label = AI_ACTION_TYPES.find(type => type.value === action.type)?.status || 'Working';
+    hooks.onToolEvent?.({ actionType: action.type, label, status: 'running', summary });
+
+    const result = await proposeActions(userId, [action], {
+      source: 'chat',
+      conversationId,
+      reasoning: reasoning || (latestUserMessage ? `Requested in chat: "${latestUserMessage.content}"` : undefined)
+    });
+    outcome.applied.push(...result.applied);
+    outcome.proposed.push(...result.proposed);
+    outcome.failed.push(...result.failed);
+    outcome.notes.push(...result.notes);
+
+    if (result.applied.length > 0) {
+      hooks.onToolEvent?.({ actionType: action.type, label, status: 'applied', summary });
+      return { status: 'applied', entityType: result.applied[0].entityType, entityId: result.applied[0].entityId, notes: result.notes };
+    }
+    if (result.proposed.length > 0) {
+      hooks.onToolEvent?.({ actionType: action.type, label, status: 'proposed', summary });
+      return { status: 'pending_approval', message: 'Queued for the user to approve. It has not been applied yet.' };
+    }
+    if (result.failed.length > 0) {
+      const error = result.failed[0].error || 'Failed to apply change';
+      hooks.onToolEvent?.({ actionType: action.type, label, status: 'failed', summary, error });
+      return { status: 'failed', error };
+    }
+    hooks.onToolEvent?.({ actionType: action.type, label, status: 'skipped', summary });
+    return { status: 'no_change', message: 'The data already has these values.' };
+  };
+
+  const onToken = hooks.onToken;
+  const aiResult = await generateChatResponse(chatHistory, contextData, {
+    executeTool,
+    onChunk: onToken ? (chunk) => { if (chunk.type === 'text') onToken(chunk.text); } : undefined
+  });
+
+  const actionNotes = [...outcome.notes];
+  if (outcome.proposed.length > 0) {
+    actionNotes.push(`${outcome.proposed.length} change(s) are waiting for your approval.`);
+  }
+  const failures = [...outcome.failed.map(change => change.error || 'Failed to apply change'), ...toolFailures];
+  if (failures.length > 0) {
+    actionNotes.push(`${failures.length} change(s) could not be applied: ${failures.join('; ')}`);
+  }
+
+  // Save AI response
+  const aiMessage = await storage.createMessage(userId, {
+    conversationId,
+    role: 'assistant',
+    content: actionNotes.length > 0
+      ? `${aiResult.response}\n\nNote: ${actionNotes.join('\nNote: ')}`
+      : aiResult.response
+  });
+
+  // Name untitled conversations after their first message
+  const firstMessage = conversationMessages[0];
+  if (conversationMessages.length === 1 && firstMessage.role === 'user') {
+    const conversation = await storage.getConversation(userId, conversationId);
+    if (conversation && conversation.title === 'New Conversation') {
+      const title = firstMessage.content.length > 50
+        ? firstMessage.content.substring(0, 50) + '...'
+        : firstMessage.content;
+      await storage.updateConversation(userId, conversationId, { title });
+    }
+  }
+
+  return { aiMessage, pendingChanges: outcome.proposed };
+}
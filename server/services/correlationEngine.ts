@@ -1,9 +1,16 @@
-import OpenAI from "openai";
 import { storage } from "../storage.js";
+import { getLLMProvider } from "./llmProvider.js";
 import { FinancialRecord, Goal, Task } from "../../shared/schema.js";
+import { getGoalWindow } from "../../shared/goalWindow.js";
+import { formatMoney } from "../../shared/currency.js";
+import { getGoalsWithProgress, updateRevenueBasedGoals } from "./goalProgress.js";
+import { checkBudgetAlerts } from "./budgetTracker";
+import { inBaseCurrency } from "./currencyConversion";
+import { proposeActions } from "./pendingChanges.js";
+import { enqueueJob } from "./jobQueue.js";
 
-// Updated to use "gpt-4o-mini" as requested by user for cost efficiency
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Records correlated by one job; a large import is split into several
+const CORRELATION_BATCH_SIZE = 50;
 
 export interface DataCorrelation {
   financialRecordId: number;
@@ -30,42 +37,42 @@ export interface CorrelationAnalysis {
   }[];
 }
 
+// Accepts a batch so bulk imports are correlated with a single model call. Totals and goal targets
+// are given in the user's base currency; records in other currencies show both amounts.
 export async function analyzeDataCorrelations(
-  financialRecord: FinancialRecord,
+  financialRecords: FinancialRecord[],
   allGoals: Goal[],
   allTasks: Task[],
-  existingFinancialRecords: FinancialRecord[]
+  existingFinancialRecords: FinancialRecord[],
+  baseCurrency: string = 'USD'
 ): Promise<CorrelationAnalysis> {
   try {
+    const existingInBase = inBaseCurrency(existingFinancialRecords);
+    const totalOf = (type: string) => existingInBase.filter(r => r.type === type).reduce((sum, r) => sum + r.amount, 0);
     const prompt = `
 You are an AI business intelligence agent that analyzes financial data to correlate it with business goals and tasks. 
 
-FINANCIAL RECORD TO ANALYZE:
-- ID: ${financialRecord.id}
-- Type: ${financialRecord.type}
-- Category: ${financialRecord.category}
-- Amount: $${(financialRecord.amount / 100).toFixed(2)}
-- Description: ${financialRecord.description || 'No description'}
-- Date: ${financialRecord.date}
+FINANCIAL RECORDS TO ANALYZE (${financialRecords.length}):
+${financialRecords.map(r => `- ID: ${r.id}, Type: ${r.type}, Category: ${r.category}, Amount: ${describeAmount(r, baseCurrency)}, Description: ${r.description || 'No description'}, Date: ${r.date}`).join('\n')}
 
 EXISTING GOALS:
-${allGoals.map(g => `- ID: ${g.id}, Title: "${g.title}", Type: ${g.type}, Category: ${g.category}, Progress: ${g.progress}%, Target Amount: ${g.targetAmount ? '$' + (g.targetAmount / 100).toFixed(2) : 'Not set'}, Target Date: ${g.targetDate}, Status: ${g.status}, Description: ${g.description || 'No description'}`).join('\n')}
+${allGoals.map(g => `- ID: ${g.id}, Title: "${g.title}", Type: ${g.type}, Category: ${g.category}, Progress: ${g.progress}%, Target Amount: ${g.targetAmount ? formatMoney(g.targetAmount, baseCurrency) : 'Not set'}, Target Date: ${g.targetDate}, Measurement Window: ${getGoalWindow(g).label}, Financial Categories: ${g.financialCategories?.length ? g.financialCategories.join(', ') : 'All'}, Status: ${g.status}, Description: ${g.description || 'No description'}`).join('\n')}
 
-TOTAL REVENUE ANALYSIS:
-- Total Revenue: $${(existingFinancialRecords.filter(r => r.type === 'revenue').reduce((sum, r) => sum + r.amount, 0) / 100).toFixed(2)}
-- Total Expenses: $${(existingFinancialRecords.filter(r => r.type === 'expense').reduce((sum, r) => sum + r.amount, 0) / 100).toFixed(2)}
-- Net Revenue: $${((existingFinancialRecords.filter(r => r.type === 'revenue').reduce((sum, r) => sum + r.amount, 0) - existingFinancialRecords.filter(r => r.type === 'expense').reduce((sum, r) => sum + r.amount, 0)) / 100).toFixed(2)}
+TOTAL REVENUE ANALYSIS (in ${baseCurrency}):
+- Total Revenue: ${formatMoney(totalOf('revenue'), baseCurrency)}
+- Total Expenses: ${formatMoney(totalOf('expense'), baseCurrency)}
+- Net Revenue: ${formatMoney(totalOf('revenue') - totalOf('expense'), baseCurrency)}
 
 EXISTING TASKS:
 ${allTasks.map(t => `- ID: ${t.id}, Title: "${t.title}", Status: ${t.status}, Priority: ${t.priority}, Due: ${t.dueDate || 'No due date'}`).join('\n')}
 
 RECENT FINANCIAL CONTEXT:
-${existingFinancialRecords.slice(-5).map(r => `- ${r.type}: ${r.category} $${(r.amount / 100).toFixed(2)} - ${r.description || 'No description'}`).join('\n')}
+${existingFinancialRecords.slice(-5).map(r => `- ${r.type}: ${r.category} ${describeAmount(r, baseCurrency)} - ${r.description || 'No description'}`).join('\n')}
 
 ANALYSIS REQUIREMENTS:
-1. Identify which goals and tasks are directly related to this financial record
+1. Identify which goals and tasks are directly related to these financial records (one correlation entry per related record)
 2. For revenue-related goals, calculate accurate progress based on actual revenue targets:
-   - If goal has targetAmount field set, calculate progress = (current_total_revenue / targetAmount) * 100
+   - If goal has targetAmount field set, calculate progress = (revenue inside the goal's measurement window / targetAmount) * 100
    - For goals like "Reach $100,000 revenue", extract target from title/description if targetAmount not set
    - Only update progress if you can determine a clear target amount
 3. Only suggest progress updates that are mathematically accurate based on financial data
@@ -81,7 +88,7 @@ Respond with a JSON object in this exact format:
 {
   "correlations": [
     {
-      "financialRecordId": ${financialRecord.id},
+      "financialRecordId": record_id,
       "relatedGoals": [goal_id_array],
       "relatedTasks": [task_id_array],
       "confidence": 0.0-1.0,
@@ -108,8 +115,7 @@ Respond with a JSON object in this exact format:
 }
 `;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const response = await getLLMProvider().complete({
       messages: [
         {
           role: "system",
@@ -120,46 +126,98 @@ Respond with a JSON object in this exact format:
           content: prompt
         }
       ],
-      response_format: { type: "json_object" },
+      responseFormat: "json",
       temperature: 0.3
     });
 
-    const analysis: CorrelationAnalysis = JSON.parse(response.choices[0].message.content!);
-    return analysis;
-  } catch (error) {
-    console.error('Error analyzing data correlations:', error);
+    const analysis: Partial<CorrelationAnalysis> = JSON.parse(response.content || '{}');
     return {
-      correlations: [],
-      businessInsights: [],
-      recommendedActions: [],
-      progressUpdates: [],
-      taskUpdates: []
+      correlations: analysis.correlations || [],
+      businessInsights: analysis.businessInsights || [],
+      recommendedActions: analysis.recommendedActions || [],
+      progressUpdates: analysis.progressUpdates || [],
+      taskUpdates: analysis.taskUpdates || []
     };
+  } catch (error) {
+    console.error('Error analyzing data correlations:', error);
+    throw new Error(`Failed to analyze correlations: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+// Goal progress and task status changes become proposals for the user to review
+// (unless the user enabled auto-apply for that action type)
 export async function executeCorrelationActions(userId: string, analysis: CorrelationAnalysis): Promise<void> {
   try {
-    // Execute goal progress updates
-    for (const update of analysis.progressUpdates) {
-      // Cap progress at 100% and ensure it's a valid integer
-      const cappedProgress = Math.floor(Math.min(100, Math.max(0, update.newProgress)));
-      await storage.updateGoal(userId, update.goalId, { progress: cappedProgress });
-      console.log(`Updated goal ${update.goalId} progress to ${cappedProgress}%: ${update.reason}`);
-    }
+    const goals = await storage.getGoals(userId);
+    const actions = [
+      ...analysis.progressUpdates
+        // Goals with a target amount are measured from their records; proposals would only be overwritten
+        .filter(update => !goals.find(g => g.id === update.goalId && g.targetAmount && (g.type === 'revenue' || g.type === 'expense')))
+        .map(update => ({
+          type: 'update_goal_progress',
+          parameters: { goalId: update.goalId, progress: update.newProgress },
+          reasoning: update.reason
+        })),
+      ...analysis.taskUpdates
+        .filter(update => update.newStatus)
+        .map(update => ({
+          type: 'update_task_status',
+          parameters: { taskId: update.taskId, status: update.newStatus },
+          reasoning: update.reason
+        }))
+    ];
 
-    // Execute task status updates
-    for (const update of analysis.taskUpdates) {
-      if (update.newStatus) {
-        await storage.updateTask(userId, update.taskId, { status: update.newStatus });
-        console.log(`Updated task ${update.taskId} status to ${update.newStatus}: ${update.reason}`);
-      }
+    const outcome = await proposeActions(userId, actions, { source: 'correlation' });
+    if (outcome.proposed.length > 0) {
+      console.log(`Proposed ${outcome.proposed.length} correlation change(s) for review`);
     }
   } catch (error) {
     console.error('Error executing correlation actions:', error);
   }
 }
 
+// Correlates a batch of financial records with goals and tasks, then refreshes measured goal progress.
+// Runs as a background job, so failures are thrown for the queue to retry.
+export async function processFinancialCorrelation(userId: string, financialRecordIds: number[]) {
+  const [goals, tasks, allRecords, user] = await Promise.all([
+    getGoalsWithProgress(userId),
+    storage.getTasks(userId),
+    storage.getFinancialRecords(userId),
+    storage.getUser(userId)
+  ]);
+
+  const financialRecords = allRecords.filter(record => financialRecordIds.includes(record.id));
+  if (financialRecords.length === 0) {
+    console.error('Financial records not found for correlation:', financialRecordIds);
+    return;
+  }
+
+  // Budget alerts come first so a failing model call does not hold them back
+  await checkBudgetAlerts(userId);
+
+  const analysis = await analyzeDataCorrelations(financialRecords, goals, tasks, allRecords, user?.baseCurrency);
+  
+  // Propose correlation actions (goal progress updates, task status changes)
+  await executeCorrelationActions(userId, analysis);
+  
+  // Update revenue-based goals with accurate calculations
+  await updateRevenueBasedGoals(userId);
+  
+  console.log(`Processed correlations for financial records ${financialRecordIds.join(', ')}:`, {
+    correlations: analysis.correlations.length,
+    progressUpdates: analysis.progressUpdates.length,
+    taskUpdates: analysis.taskUpdates.length
+  });
+}
+
+// Queues correlation for newly created or changed records, one job per batch; the job queue retries a batch
+// when its model call fails
+export async function queueFinancialCorrelation(userId: string, financialRecordIds: number[]): Promise<void> {
+  for (let start = 0; start < financialRecordIds.length; start += CORRELATION_BATCH_SIZE) {
+    await enqueueJob(userId, 'correlate_financial_records', { recordIds: financialRecordIds.slice(start, start + CORRELATION_BATCH_SIZE) });
+  }
+}
+
 export async function generateBusinessInsights(userId: string): Promise<{
   insights: string[];
   financialTrends: string[];
@@ -167,32 +225,35 @@ export async function generateBusinessInsights(userId: string): Promise<{
   recommendations: string[];
 }> {
   try {
-    const [goals, tasks, financialRecords] = await Promise.all([
-      storage.getGoals(userId),
+    const [goals, tasks, financialRecords, user] = await Promise.all([
+      getGoalsWithProgress(userId),
       storage.getTasks(userId),
-      storage.getFinancialRecords(userId)
+      storage.getFinancialRecords(userId),
+      storage.getUser(userId)
     ]);
+    const baseCurrency = user?.baseCurrency || 'USD';
+    const recordsInBase = inBaseCurrency(financialRecords);
 
-    const totalRevenue = financialRecords
+    const totalRevenue = recordsInBase
       .filter(r => r.type === 'revenue')
       .reduce((sum, r) => sum + r.amount, 0);
 
-    const totalExpenses = financialRecords
+    const totalExpenses = recordsInBase
       .filter(r => r.type === 'expense')
       .reduce((sum, r) => sum + r.amount, 0);
 
-    const totalOther = financialRecords
+    const totalOther = recordsInBase
       .filter(r => r.type === 'other')
       .reduce((sum, r) => sum + r.amount, 0);
 
     const prompt = `
 Analyze this business data to provide comprehensive insights:
 
-FINANCIAL SUMMARY:
-- Total Revenue: $${(totalRevenue / 100).toFixed(2)}
-- Total Expenses: $${(totalExpenses / 100).toFixed(2)}
-- Total Other: $${(totalOther / 100).toFixed(2)}
-- Net Profit: $${((totalRevenue - totalExpenses) / 100).toFixed(2)}
+FINANCIAL SUMMARY (in ${baseCurrency}):
+- Total Revenue: ${formatMoney(totalRevenue, baseCurrency)}
+- Total Expenses: ${formatMoney(totalExpenses, baseCurrency)}
+- Total Other: ${formatMoney(totalOther, baseCurrency)}
+- Net Profit: ${formatMoney(totalRevenue - totalExpenses, baseCurrency)}
 
 GOALS STATUS:
 ${goals.map(g => `- "${g.title}": ${g.progress}% complete, Status: ${g.status}, Target: ${g.targetDate}`).join('\n')}
@@ -201,7 +262,7 @@ TASKS STATUS:
 ${tasks.map(t => `- "${t.title}": ${t.status}, Priority: ${t.priority}`).join('\n')}
 
 RECENT FINANCIAL RECORDS:
-${financialRecords.slice(-10).map(r => `- ${r.type}: ${r.category} $${(r.amount / 100).toFixed(2)} - ${r.description || 'No description'}`).join('\n')}
+${financialRecords.slice(-10).map(r => `- ${r.type}: ${r.category} ${describeAmount(r, baseCurrency)} - ${r.description || 'No description'}`).join('\n')}
 
 Provide analysis in JSON format:
 {
@@ -212,8 +273,7 @@ Provide analysis in JSON format:
 }
 `;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const response = await getLLMProvider().complete({
       messages: [
         {
           role: "system",
@@ -224,11 +284,17 @@ Provide analysis in JSON format:
           content: prompt
         }
       ],
-      response_format: { type: "json_object" },
+      responseFormat: "json",
       temperature: 0.3
     });
 
-    return JSON.parse(response.choices[0].message.content!);
+    const result = JSON.parse(response.content || '{}');
+    return {
+      insights: result.insights || [],
+      financialTrends: result.financialTrends || [],
+      goalAlignment: result.goalAlignment || [],
+      recommendations: result.recommendations || []
+    };
   } catch (error) {
     console.error('Error generating business insights:', error);
     return {
@@ -238,4 +304,11 @@ Provide analysis in JSON format:
       recommendations: []
     };
   }
-}
\ No newline at end of file
+}
+
+// "€120.00 (= $130.50)" for records outside the base currency, so the model sees both figures
+function describeAmount(record: FinancialRecord, baseCurrency: string): string {
+  const amount = formatMoney(record.amount, record.currency);
+  if (record.currency === baseCurrency) return amount;
+  return `${amount} (${record.baseAmount !== null ? `= ${formatMoney(record.baseAmount, baseCurrency)}` : `no ${baseCurrency} rate`})`;
+}
@@ -0,0 +1,77 @@
+import { storage } from "../storage";
+import { parseAmount, parseCsv, parseStatementDate } from "./statementImporter";
+import { insertExchangeRateSchema, type FinancialRecord, type InsertExchangeRate } from "@shared/schema";
+
+export interface ParsedExchangeRates {
+  rates: InsertExchangeRate[];
+  errors: string[]; // one per rejected row, with its line number
+}
+
+const DATE_COLUMNS = ['date', 'day', 'as of'];
+const FROM_COLUMNS = ['from', 'from currency', 'from_currency', 'currency', 'base'];
+const TO_COLUMNS = ['to', 'to currency', 'to_currency', 'quote'];
+const RATE_COLUMNS = ['rate', 'exchange rate', 'exchange_rate', 'fx rate'];
+
+// Records with their amount replaced by the base-currency amount, for code that sums `amount`.
+// Records no rate covers yet are left out rather than counted in the wrong currency.
+export function inBaseCurrency(records: FinancialRecord[]): FinancialRecord[] {
+  return records
+    .filter(record => record.baseAmount !== null)
+    .map(record => ({ ...record, amount: record.baseAmount! }));
+}
+
+// Reads a CSV of rates with date, from (or currency), optional to and rate columns. Rows without a
+// `to` column are rates into the user's base currency: "EUR, 1.08" means one euro buys 1.08 base units.
+export function parseExchangeRateFile(buffer: Buffer, baseCurrency: string): ParsedExchangeRates {
+  const statement = parseCsv(buffer.toString('utf-8').replace(/^﻿/, ''));
+  const dateColumn = findColumn(statement.columns, DATE_COLUMNS);
+  const fromColumn = findColumn(statement.columns, FROM_COLUMNS);
+  const toColumn = findColumn(statement.columns, TO_COLUMNS);
+  const rateColumn = findColumn(statement.columns, RATE_COLUMNS);
+
+  if (!dateColumn || !fromColumn || !rateColumn) {
+    return { rates: [], errors: ['The file needs date, currency (or from) and rate columns'] };
+  }
+
+  const rates: InsertExchangeRate[] = [];
+  const errors: string[] = [];
+  statement.rows.forEach((row, index) => {
+    const line = index + 2; // the header is line 1
+    const date = parseStatementDate(row[dateColumn], 'auto');
+    const rate = parseAmount(row[rateColumn]);
+    const result = insertExchangeRateSchema.safeParse({
+      fromCurrency: row[fromColumn],
+      toCurrency: (toColumn && row[toColumn]) || baseCurrency,
+      rate: rate ?? NaN,
+      date: date ?? '',
+    });
+    if (!date) {
+      errors.push(`Line ${line}: unrecognised date "${row[dateColumn]}"`);
+    } else if (!result.success) {
+      errors.push(`Line ${line}: ${result.error.errors[0].message}`);
+    } else {
+      rates.push(result.data);
+    }
+  });
+
+  return { rates, errors };
+}
+
+// Fills in base amounts for records stored before currencies existed, or left unconverted while a rate was missing
+export async function backfillBaseAmounts(): Promise<void> {
+  try {
+    const userIds = await storage.getUserIdsWithUnconvertedRecords();
+    for (const userId of userIds) {
+      const changed = await storage.recalculateBaseAmounts(userId);
+      if (changed > 0) {
+        console.log(`Converted ${changed} financial records to the base currency for user ${userId}`);
+      }
+    }
+  } catch (error) {
+    console.error('Error converting financial records to the base currency:', error);
+  }
+}
+
+function findColumn(columns: string[], names: string[]): string | undefined {
+  return columns.find(column => names.includes(column.trim().toLowerCase()));
+}
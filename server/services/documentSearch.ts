@@ -0,0 +1,265 @@
+import { storage } from "../storage";
+import type { Document, DocumentChunk, DocumentSearchResponse } from "@shared/schema";
+import { getEmbeddingProvider } from "./embeddings";
+
+// Documents are split into overlapping passages of roughly this many characters
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+
+// BM25 parameters and the reciprocal rank fusion constant used to merge lexical and semantic rankings
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const RRF_K = 60;
+const SEMANTIC_CANDIDATES = 50;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have", "in", "is", "it", "its",
+  "of", "on", "or", "that", "the", "their", "this", "to", "was", "were", "what", "when", "which", "who", "will", "with"
+]);
+
+interface TextUnit {
+  text: string;
+  separator: string; // joins the unit to the one before it
+}
+
+export interface DocumentSearchOptions {
+  limit?: number;
+  documentId?: number; // search a single document
+}
+
+// Splits extracted text into passages, keeping paragraphs and sentences whole where they fit
+export function chunkText(content: string): string[] {
+  const chunks: string[] = [];
+  let current: TextUnit[] = [];
+  let length = 0;
+  let fresh = 0; // units not carried over from the previous passage
+
+  for (const unit of splitUnits(content)) {
+    if (fresh > 0 && length + unit.text.length > CHUNK_SIZE) {
+      chunks.push(joinUnits(current));
+      current = overlapTail(current);
+      length = current.reduce((sum, item) => sum + item.text.length + 1, 0);
+      fresh = 0;
+    }
+    current.push(unit);
+    length += unit.text.length + 1;
+    fresh++;
+  }
+  if (fresh > 0) chunks.push(joinUnits(current));
+
+  return chunks;
+}
+
+// Replaces a document's passages, embedding them when an embedding provider is configured.
+// Embedding failures leave the passages searchable lexically.
+export async function indexDocument(userId: string, documentId: number, content: string): Promise<DocumentChunk[]> {
+  const texts = chunkText(content);
+  let embeddings: number[][] | null = null;
+  const provider = getEmbeddingProvider();
+
+  if (provider && texts.length > 0) {
+    try {
+      embeddings = await provider.embed(texts);
+    } catch (error) {
+      console.error(`Error embedding document ${documentId}:`, error);
+    }
+  }
+
+  return storage.replaceDocumentChunks(userId, documentId, texts.map((text, index) => ({
+    chunkIndex: index,
+    content: text,
+    embedding: embeddings?.[index] || null,
+    embeddingModel: embeddings ? provider!.model : null
+  })));
+}
+
+// Ranks passages with BM25, fused with embedding similarity when the query and passages can be embedded
+export async function searchDocuments(userId: string, query: string, options: DocumentSearchOptions = {}): Promise<DocumentSearchResponse> {
+  const limit = options.limit || 5;
+  const documents = (await storage.getDocuments(userId))
+    .filter(doc => options.documentId === undefined || doc.id === options.documentId);
+  let chunks = await loadChunks(userId, documents, options.documentId);
+
+  const lexical = rankLexical(query, chunks, documents);
+  let semantic: Array<{ chunk: DocumentChunk; score: number }> = [];
+  const provider = getEmbeddingProvider();
+
+  if (provider && chunks.length > 0) {
+    try {
+      const [queryEmbedding] = await provider.embed([query]);
+      chunks = await embedStaleDocuments(userId, documents, chunks, provider.model);
+      semantic = chunks
+        .filter(chunk => chunk.embedding && chunk.embeddingModel === provider.model)
+        .map(chunk => ({ chunk, score: cosineSimilarity(queryEmbedding, chunk.embedding!) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, SEMANTIC_CANDIDATES);
+    } catch (error) {
+      console.error('Error embedding search query, falling back to lexical search:', error);
+    }
+  }
+
+  const ranked = semantic.length > 0 ? fuseRankings([lexical, semantic]) : lexical;
+  const names = new Map(documents.map(doc => [doc.id, doc.originalName]));
+
+  return {
+    method: semantic.length > 0 ? 'hybrid' : 'lexical',
+    results: ranked.slice(0, limit).map(({ chunk, score }) => ({
+      documentId: chunk.documentId,
+      filename: names.get(chunk.documentId) || `Document ${chunk.documentId}`,
+      passage: chunk.chunkIndex + 1,
+      content: chunk.content,
+      score: Math.round(score * 1000) / 1000
+    }))
+  };
+}
+
+// Indexes processed documents that have no passages yet, e.g. ones uploaded before search existed
+async function loadChunks(userId: string, documents: Document[], documentId?: number): Promise<DocumentChunk[]> {
+  // Only passages of current versions; superseded versions keep theirs for when they become current again
+  const current = new Set(documents.map(doc => doc.id));
+  const chunks = (await storage.getDocumentChunks(userId, documentId)).filter(chunk => current.has(chunk.documentId));
+  const indexed = new Set(chunks.map(chunk => chunk.documentId));
+  const missing = documents.filter(doc => (doc.status === 'completed' || doc.status === 'warning') && doc.content && !indexed.has(doc.id));
+
+  for (const doc of missing) {
+    chunks.push(...await indexDocument(userId, doc.id, doc.content!));
+  }
+  return chunks;
+}
+
+// Re-indexes documents whose passages were stored without embeddings from the current model
+async function embedStaleDocuments(userId: string, documents: Document[], chunks: DocumentChunk[], model: string): Promise<DocumentChunk[]> {
+  const stale = new Set(chunks.filter(chunk => chunk.embeddingModel !== model).map(chunk => chunk.documentId));
+  if (stale.size === 0) return chunks;
+
+  const refreshed = chunks.filter(chunk => !stale.has(chunk.documentId));
+  for (const doc of documents.filter(doc => stale.has(doc.id) && doc.content)) {
+    refreshed.push(...await indexDocument(userId, doc.id, doc.content!));
+  }
+  return refreshed;
+}
+
+function rankLexical(query: string, chunks: DocumentChunk[], documents: Document[]): Array<{ chunk: DocumentChunk; score: number }> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || chunks.length === 0) return [];
+
+  // Filenames count as part of every passage so "what does the lease say" finds lease.pdf
+  const names = new Map(documents.map(doc => [doc.id, doc.originalName]));
+  const termCounts = chunks.map(chunk => {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(`${names.get(chunk.documentId) || ''} ${chunk.content}`)) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    return { chunk, counts, length: Array.from(counts.values()).reduce((sum, count) => sum + count, 0) };
+  });
+  const averageLength = termCounts.reduce((sum, entry) => sum + entry.length, 0) / termCounts.length || 1;
+
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const frequency = termCounts.filter(entry => entry.counts.has(term)).length;
+    idf.set(term, Math.log(1 + (chunks.length - frequency + 0.5) / (frequency + 0.5)));
+  }
+
+  return termCounts
+    .map(({ chunk, counts, length }) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = counts.get(term) || 0;
+        if (tf === 0) continue;
+        score += idf.get(term)! * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+      }
+      return { chunk, score };
+    })
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Reciprocal rank fusion: a passage's score is the sum of 1 / (k + rank) over the rankings it appears in
+function fuseRankings(rankings: Array<Array<{ chunk: DocumentChunk; score: number }>>): Array<{ chunk: DocumentChunk; score: number }> {
+  const fused = new Map<number, { chunk: DocumentChunk; score: number }>();
+  for (const ranking of rankings) {
+    ranking.forEach(({ chunk }, rank) => {
+      const entry = fused.get(chunk.id) || { chunk, score: 0 };
+      entry.score += 1 / (RRF_K + rank + 1);
+      fused.set(chunk.id, entry);
+    });
+  }
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) || [])
+    .filter(word => !STOP_WORDS.has(word) && (word.length > 1 || /\d/.test(word)))
+    .map(stem);
+}
+
+// Folds simple plurals together ("invoices" -> "invoice", "categories" -> "category")
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Paragraphs, broken into sentences and lines (then hard cuts) when longer than a passage
+function splitUnits(content: string): TextUnit[] {
+  const units: TextUnit[] = [];
+  for (const paragraph of content.replace(/\r\n?/g, '\n').split(/\n[ \t]*\n/)) {
+    const text = paragraph.replace(/[ \t]+/g, ' ').trim();
+    if (!text) continue;
+    if (text.length <= CHUNK_SIZE) {
+      units.push({ text, separator: '\n\n' });
+      continue;
+    }
+
+    const parts = text.split(/((?<=[.!?]) +|\n)/);
+    for (let i = 0; i < parts.length; i += 2) {
+      const part = parts[i].trim();
+      if (!part) continue;
+      const separator = i === 0 ? '\n\n' : parts[i - 1] === '\n' ? '\n' : ' ';
+      hardSplit(part).forEach((piece, index) => units.push({ text: piece, separator: index === 0 ? separator : ' ' }));
+    }
+  }
+  return units;
+}
+
+// Cuts text longer than a passage at word boundaries where possible
+function hardSplit(text: string): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > CHUNK_SIZE) {
+    const space = rest.lastIndexOf(' ', CHUNK_SIZE);
+    const cut = space > CHUNK_SIZE / 2 ? space : CHUNK_SIZE;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+function joinUnits(units: TextUnit[]): string {
+  return units.map((unit, index) => (index === 0 ? '' : unit.separator) + unit.text).join('');
+}
+
+// Trailing units (never the whole passage) repeated at the start of the next one for context
+function overlapTail(units: TextUnit[]): TextUnit[] {
+  const tail: TextUnit[] = [];
+  let length = 0;
+  for (let i = units.length - 1; i > 0; i--) {
+    length += units[i].text.length;
+    if (length > CHUNK_OVERLAP) break;
+    tail.unshift(units[i]);
+  }
+  return tail;
+}
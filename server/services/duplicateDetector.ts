@@ -0,0 +1,161 @@
+import { storage } from "../storage";
+import type { FinancialRecord, InsertFinancialRecordDuplicate } from "@shared/schema";
+
+export interface DuplicateMatch {
+  record: FinancialRecord;
+  score: number; // 0-100
+  reasons: string[];
+}
+
+export const DUPLICATE_DATE_WINDOW_DAYS = 3;
+export const DUPLICATE_SCORE_THRESHOLD = 70;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weighted fuzzy match: amount (40, or 25 across currencies) + date proximity (25) + category (15) + description similarity (20).
+// Records of a different type, or more than the date window apart, are never duplicates.
+export function scoreDuplicate(candidate: FinancialRecord, existing: FinancialRecord): DuplicateMatch | null {
+  if (candidate.id === existing.id || candidate.type !== existing.type) return null;
+
+  const dayDiff = Math.abs(new Date(candidate.date).getTime() - new Date(existing.date).getTime()) / DAY_MS;
+  if (dayDiff > DUPLICATE_DATE_WINDOW_DAYS) return null;
+
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (candidate.currency === existing.currency) {
+    const amountDiff = Math.abs(candidate.amount - existing.amount);
+    if (amountDiff === 0) {
+      score += 40;
+      reasons.push("Same amount");
+    } else if (amountDiff <= Math.max(candidate.amount, existing.amount) * 0.01) {
+      score += 25;
+      reasons.push("Amount within 1%");
+    } else {
+      return null;
+    }
+  } else {
+    // The same payment recorded in two currencies can only match as closely as the exchange rates allow
+    if (candidate.baseAmount === null || existing.baseAmount === null) return null;
+    if (Math.abs(candidate.baseAmount - existing.baseAmount) > Math.max(candidate.baseAmount, existing.baseAmount) * 0.01) return null;
+    score += 25;
+    reasons.push("Converted amount within 1%");
+  }
+
+  score += Math.round(25 * (1 - dayDiff / (DUPLICATE_DATE_WINDOW_DAYS + 1)));
+  reasons.push(dayDiff < 1 ? "Same date" : `Dates ${Math.round(dayDiff)} day(s) apart`);
+
+  if (candidate.category.trim().toLowerCase() === existing.category.trim().toLowerCase()) {
+    score += 15;
+    reasons.push("Same category");
+  }
+
+  const similarity = descriptionSimilarity(candidate.description, existing.description);
+  score += Math.round(20 * similarity);
+  if (similarity >= 0.6) {
+    reasons.push(`Similar description (${Math.round(similarity * 100)}%)`);
+  }
+
+  return { record: existing, score: Math.min(100, score), reasons };
+}
+
+export function findDuplicateMatches(candidate: FinancialRecord, existingRecords: FinancialRecord[]): DuplicateMatch[] {
+  return existingRecords
+    .map(existing => scoreDuplicate(candidate, existing))
+    .filter((match): match is DuplicateMatch => !!match && match.score >= DUPLICATE_SCORE_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Sørensen–Dice coefficient over character bigrams; both empty counts as identical
+export function descriptionSimilarity(a?: string | null, b?: string | null): number {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+  if (!left && !right) return 1;
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  leftBigrams.forEach(bigram => counts.set(bigram, (counts.get(bigram) || 0) + 1));
+
+  let overlap = 0;
+  for (const bigram of rightBigrams) {
+    const count = counts.get(bigram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(bigram, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+}
+
+function normalizeDescription(value?: string | null): string {
+  return (value || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function bigrams(value: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    result.push(value.slice(i, i + 2));
+  }
+  return result;
+}
+
+// Checks freshly created records against the user's existing records (and earlier records in the same batch)
+// and queues suspected pairs for review. Returns the matches per new record id.
+export async function detectDuplicates(userId: string, newRecords: FinancialRecord[]): Promise<Map<number, DuplicateMatch[]>> {
+  const result = new Map<number, DuplicateMatch[]>();
+  if (newRecords.length === 0) return result;
+
+  const [allRecords, knownPairs] = await Promise.all([
+    storage.getFinancialRecords(userId),
+    storage.getFinancialRecordDuplicates(userId),
+  ]);
+
+  const newIds = new Set(newRecords.map(record => record.id));
+  const pairKey = (a: number, b: number) => `${Math.min(a, b)}:${Math.max(a, b)}`;
+  const knownKeys = new Set(knownPairs.map(pair => pairKey(pair.recordId, pair.duplicateOfId)));
+  const pairsToCreate: Omit<InsertFinancialRecordDuplicate, "userId">[] = [];
+
+  for (const record of newRecords) {
+    // Within a batch only compare against earlier rows so each pair is reported once
+    const candidates = allRecords.filter(existing => !newIds.has(existing.id) || existing.id < record.id);
+    const matches = findDuplicateMatches(record, candidates);
+    if (matches.length === 0) continue;
+
+    result.set(record.id, matches);
+    for (const match of matches) {
+      const key = pairKey(record.id, match.record.id);
+      if (knownKeys.has(key)) continue;
+      knownKeys.add(key);
+      pairsToCreate.push({
+        recordId: record.id,
+        duplicateOfId: match.record.id,
+        score: match.score,
+        reasons: match.reasons,
+        status: "pending",
+      });
+    }
+  }
+
+  if (pairsToCreate.length > 0) {
+    await storage.createFinancialRecordDuplicates(userId, pairsToCreate);
+    console.log(`Flagged ${pairsToCreate.length} suspected duplicate financial record(s) for review`);
+  }
+
+  return result;
+}
+
+export function formatDuplicateWarnings(matches: DuplicateMatch[] = []) {
+  return matches.map(match => ({
+    type: "possible_duplicate" as const,
+    message: `Possible duplicate of ${match.record.category} record from ${new Date(match.record.date).toLocaleDateString()} (${match.score}% match)`,
+    duplicateOf: match.record,
+    score: match.score,
+    reasons: match.reasons,
+  }));
+}
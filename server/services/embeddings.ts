@@ -0,0 +1,79 @@
+import OpenAI from "openai";
+
+// Turns text into vectors for semantic document search. Optional: without a provider, search is lexical only.
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Batch size for a single embeddings request; local servers tend to reject very large batches
+const EMBEDDING_BATCH_SIZE = 64;
+
+// Adapter for any endpoint that speaks the OpenAI embeddings API (OpenAI, Ollama, LM Studio, llama.cpp server...)
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(options: { name: string; apiKey: string; model: string; baseURL?: string }) {
+    this.name = options.name;
+    this.model = options.model;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const response = await this.client.embeddings.create({ model: this.model, input: batch });
+      const ordered = [...response.data].sort((a, b) => a.index - b.index);
+      vectors.push(...ordered.map(item => item.embedding));
+    }
+    return vectors;
+  }
+}
+
+let activeProvider: EmbeddingProvider | null | undefined;
+
+// Provider selection:
+//   EMBEDDING_PROVIDER=openai (default when OPENAI_API_KEY is set) | local | none (default otherwise)
+//   EMBEDDING_MODEL overrides the model name; the local endpoint reuses LLM_BASE_URL / LLM_API_KEY unless EMBEDDING_BASE_URL is set
+export function createEmbeddingProviderFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider | null {
+  const providerName = env.EMBEDDING_PROVIDER || (env.OPENAI_API_KEY ? "openai" : "none");
+
+  switch (providerName) {
+    case "openai":
+      return new OpenAICompatibleEmbeddingProvider({
+        name: "openai",
+        apiKey: env.OPENAI_API_KEY || "sk-placeholder",
+        model: env.EMBEDDING_MODEL || "text-embedding-3-small",
+      });
+    case "local":
+      return new OpenAICompatibleEmbeddingProvider({
+        name: "local",
+        apiKey: env.LLM_API_KEY || "not-needed",
+        baseURL: env.EMBEDDING_BASE_URL || env.LLM_BASE_URL || "http://localhost:11434/v1",
+        model: env.EMBEDDING_MODEL || "nomic-embed-text",
+      });
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${providerName}". Expected openai, local or none.`);
+  }
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (activeProvider === undefined) {
+    activeProvider = createEmbeddingProviderFromEnv();
+    console.log(activeProvider
+      ? `Using embedding provider "${activeProvider.name}" (model: ${activeProvider.model})`
+      : 'No embedding provider configured; document search is lexical (BM25) only');
+  }
+  return activeProvider;
+}
+
+// Replace the process-wide provider; null disables embeddings
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  activeProvider = provider;
+}
@@ -2,11 +2,27 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { promisify } from 'util';
+import { getDocument, OPS, type PDFPageProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { DocumentPage } from '@shared/schema';
+import { isSpreadsheet } from './spreadsheetParser';
+import { recognizeImage, encodeRawImage, type RawImage } from './ocr';
 
 const readFile = promisify(fs.readFile);
 const unlink = promisify(fs.unlink);
 
-// Configure multer for file uploads
+// PDF pages with less embedded text than this are treated as scanned and read with OCR
+const MIN_PAGE_TEXT = 25;
+// OCR confidence (0-100) below which a page is flagged for review
+export const LOW_OCR_CONFIDENCE = 60;
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg'];
+
+export interface ExtractedText {
+  content: string;
+  pages: DocumentPage[]; // empty for formats without pages
+}
+
+// Configure multer for file uploads; files land here only until they are moved to file storage
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
     const uploadPath = path.join(process.cwd(), 'uploads');
@@ -26,13 +42,14 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
     'application/pdf',
     'text/plain',
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/msword'
+    'application/msword',
+    ...IMAGE_TYPES
   ];
   
-  if (allowedTypes.includes(file.mimetype)) {
+  if (allowedTypes.includes(file.mimetype) || isSpreadsheet(file.originalname)) {
     cb(null, true);
   } else {
-    cb(new Error('Only PDF, TXT, and DOCX files are allowed'));
+    cb(new Error('Only PDF, TXT, DOCX, XLSX, XLS, CSV, PNG and JPEG files are allowed'));
   }
 };
 
@@ -44,16 +61,24 @@ export const upload = multer({
   }
 });
 
-export async function extractTextFromFile(filePath: string, mimeType: string): Promise<string> {
+// onPage is called after each PDF page, so slow OCR of a long scan can report progress
+export async function extractTextFromFile(
+  filePath: string,
+  mimeType: string,
+  onPage?: (page: number, pageCount: number) => Promise<void>
+): Promise<ExtractedText> {
   try {
     switch (mimeType) {
       case 'text/plain':
-        return await extractTextFromTxt(filePath);
+        return { content: await extractTextFromTxt(filePath), pages: [] };
       case 'application/pdf':
-        return await extractTextFromPdf(filePath);
+        return await extractTextFromPdf(filePath, onPage);
+      case 'image/png':
+      case 'image/jpeg':
+        return await extractTextFromImage(filePath);
       case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
       case 'application/msword':
-        return await extractTextFromDocx(filePath);
+        return { content: await extractTextFromDocx(filePath), pages: [] };
       default:
         throw new Error(`Unsupported file type: ${mimeType}`);
     }
@@ -67,10 +92,88 @@ async function extractTextFromTxt(filePath: string): Promise<string> {
   return buffer.toString('utf-8');
 }
 
-async function extractTextFromPdf(filePath: string): Promise<string> {
-  // For now, return a placeholder since PDF parsing requires additional dependencies
-  // In a real implementation, you would use libraries like pdf-parse or pdf2pic
-  return "PDF content extraction not yet implemented. This is a placeholder for PDF text content.";
+// Uses the embedded text layer where there is one and OCRs the page's largest image otherwise
+async function extractTextFromPdf(filePath: string, onPage?: (page: number, pageCount: number) => Promise<void>): Promise<ExtractedText> {
+  const data = new Uint8Array(await readFile(filePath));
+  const pdf = await getDocument({ data, isEvalSupported: false, disableFontFace: true, verbosity: 0 }).promise;
+  const texts: string[] = [];
+  const pages: DocumentPage[] = [];
+
+  try {
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const textContent = await page.getTextContent();
+      let text = textContent.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .trim();
+
+      const image = text.length < MIN_PAGE_TEXT ? await getLargestImage(page) : null;
+      if (image) {
+        const result = await recognizeImage(encodeRawImage(image));
+        text = result.text;
+        pages.push({ page: number, method: 'ocr', confidence: result.confidence, characters: text.length });
+      } else {
+        pages.push({ page: number, method: 'text', confidence: null, characters: text.length });
+      }
+
+      texts.push(text);
+      page.cleanup();
+      await onPage?.(number, pdf.numPages);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return { content: texts.filter(Boolean).join('\n\n'), pages };
+}
+
+// Scanned pages are usually a single full-page image
+async function getLargestImage(page: PDFPageProxy): Promise<RawImage | null> {
+  const operators = await page.getOperatorList();
+  let largest: RawImage | null = null;
+
+  for (let i = 0; i < operators.fnArray.length; i++) {
+    let image: RawImage | null = null;
+    if (operators.fnArray[i] === OPS.paintImageXObject) {
+      const name: string = operators.argsArray[i][0];
+      const objects = name.startsWith('g_') ? page.commonObjs : page.objs;
+      image = await new Promise(resolve => objects.get(name, resolve));
+    } else if (operators.fnArray[i] === OPS.paintInlineImageXObject) {
+      image = operators.argsArray[i][0];
+    }
+
+    if (image?.data && (!largest || image.width * image.height > largest.width * largest.height)) {
+      largest = image;
+    }
+  }
+  return largest;
+}
+
+async function extractTextFromImage(filePath: string): Promise<ExtractedText> {
+  const result = await recognizeImage(await readFile(filePath));
+  return {
+    content: result.text,
+    pages: [{ page: 1, method: 'ocr', confidence: result.confidence, characters: result.text.length }]
+  };
+}
+
+// Explains why extracted text may be unreliable, or null when it looks fine
+export function getExtractionWarning(extracted: ExtractedText): string | null {
+  if (!extracted.content.trim()) {
+    return 'No text could be extracted from this file.';
+  }
+
+  const lowPages = extracted.pages.filter(page =>
+    page.method === 'ocr' && (page.characters === 0 || (page.confidence ?? 0) < LOW_OCR_CONFIDENCE)
+  );
+  if (lowPages.length === 0) return null;
+
+  const lowest = Math.min(...lowPages.map(page => page.confidence ?? 0));
+  const where = extracted.pages.length === 1
+    ? 'This scan was'
+    : `Page${lowPages.length === 1 ? '' : 's'} ${lowPages.map(page => page.page).join(', ')} ${lowPages.length === 1 ? 'was' : 'were'}`;
+  return `${where} read with low OCR confidence (lowest ${lowest}%). Check the extracted text before relying on it.`;
 }
 
 async function extractTextFromDocx(filePath: string): Promise<string> {
@@ -0,0 +1,174 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+} from "@aws-sdk/client-s3";
+
+// Keeps the original uploaded files. Keys are relative paths such as "documents/<userId>/<filename>".
+export interface FileStorage {
+  readonly name: string;
+  put(key: string, filePath: string, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalFileStorage implements FileStorage {
+  readonly name = "local";
+
+  constructor(private rootDir: string) {}
+
+  async put(key: string, filePath: string): Promise<void> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.copyFile(filePath, target);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const target = this.resolve(key);
+    await fs.promises.access(target);
+    return fs.createReadStream(target);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  // Keys come from the database, but never let one escape the storage folder
+  private resolve(key: string): string {
+    const target = path.resolve(this.rootDir, key);
+    if (!target.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return target;
+  }
+}
+
+// Works with AWS S3 and S3-compatible servers (MinIO, Cloudflare R2, Backblaze B2...)
+export class S3FileStorage implements FileStorage {
+  readonly name = "s3";
+  private client: S3Client;
+
+  constructor(private options: {
+    bucket: string;
+    region: string;
+    endpoint?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    forcePathStyle?: boolean;
+  }) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      // Default checksums use aws-chunked uploads, which many S3-compatible servers store verbatim or reject
+      requestChecksumCalculation: "WHEN_REQUIRED",
+      responseChecksumValidation: "WHEN_REQUIRED",
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, filePath: string, contentType: string): Promise<void> {
+    const { size } = await fs.promises.stat(filePath);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Body: fs.createReadStream(filePath),
+      ContentLength: size,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Readable> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.options.bucket, Key: key }));
+    if (!(response.Body instanceof Readable)) {
+      throw new Error(`Empty response body for "${key}"`);
+    }
+    return response.Body;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.options.bucket, Key: key }));
+      return true;
+    } catch (error: any) {
+      if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }));
+  }
+}
+
+let activeStorage: FileStorage | undefined;
+
+// Backend selection:
+//   FILE_STORAGE=local (default) keeps files under FILE_STORAGE_DIR (default ./storage)
+//   FILE_STORAGE=s3 uses S3_BUCKET, S3_REGION (default us-east-1) and optionally S3_ENDPOINT, S3_ACCESS_KEY_ID,
+//   S3_SECRET_ACCESS_KEY and S3_FORCE_PATH_STYLE=true (needed by most self-hosted servers such as MinIO)
+export function createFileStorageFromEnv(env: NodeJS.ProcessEnv = process.env): FileStorage {
+  const backend = env.FILE_STORAGE || "local";
+
+  switch (backend) {
+    case "local":
+      return new LocalFileStorage(env.FILE_STORAGE_DIR || path.join(process.cwd(), "storage"));
+    case "s3":
+      if (!env.S3_BUCKET) {
+        throw new Error("S3_BUCKET must be set when FILE_STORAGE=s3");
+      }
+      return new S3FileStorage({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION || "us-east-1",
+        endpoint: env.S3_ENDPOINT,
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE === "true",
+      });
+    default:
+      throw new Error(`Unknown FILE_STORAGE "${backend}". Expected local or s3.`);
+  }
+}
+
+export function getFileStorage(): FileStorage {
+  if (!activeStorage) {
+    activeStorage = createFileStorageFromEnv();
+    console.log(`Using file storage "${activeStorage.name}"`);
+  }
+  return activeStorage;
+}
+
+// Replace the process-wide backend, e.g. with one pointing at a test bucket
+export function setFileStorage(fileStorage: FileStorage): void {
+  activeStorage = fileStorage;
+}
+
+export function getDocumentStorageKey(userId: string, filename: string): string {
+  return `documents/${userId}/${filename}`;
+}
+
+// Copies a stored file to a temporary path for parsers that read from disk; the caller removes it
+export async function downloadToTempFile(key: string): Promise<string> {
+  const tempPath = path.join(os.tmpdir(), `document-${Date.now()}-${Math.round(Math.random() * 1E9)}${path.extname(key)}`);
+  await pipeline(await getFileStorage().get(key), fs.createWriteStream(tempPath));
+  return tempPath;
+}
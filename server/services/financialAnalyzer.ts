@@ -1,20 +1,8 @@
-import OpenAI from "openai";
-import { FinancialRecord } from "@shared/schema";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-export interface FinancialAnalysis {
-  adjustedRevenue: number;
-  adjustedExpenses: number;
-  adjustedInvestments: number;
-  adjustedNetProfit: number;
-  insights: string[];
-  performanceMetrics: {
-    revenueGrowth: number; // percentage
-    expenseEfficiency: number; // percentage
-    profitMargin: number; // percentage
-  };
-}
+import { z } from "zod";
+import { getLLMProvider } from "./llmProvider";
+import { describeMetric, getFinancialMetrics } from "./financialMetrics";
+import { formatMoney } from "@shared/currency";
+import type { FinancialAnalysis, FinancialCommentary, FinancialMetrics } from "@shared/schema";
 
 export interface PerformanceIndicators {
   salesPerformance: number; // e.g., 200% = sold 200% of target
@@ -23,113 +11,77 @@ export interface PerformanceIndicators {
   customerAcquisition: number; // new customers acquired
 }
 
-export async function analyzeFinancialRecords(records: FinancialRecord[]): Promise<FinancialAnalysis> {
+const commentarySchema = z.object({
+  commentary: z.array(z.object({
+    text: z.string(),
+    citations: z.array(z.string()).default([]),
+  })).default([]),
+});
+
+// Every number comes from the metrics engine; the model only writes commentary on top of them and cites the
+// metrics each statement relies on. When the commentary fails the metrics are still returned.
+export async function analyzeFinancialRecords(userId: string): Promise<FinancialAnalysis> {
+  const metrics = await getFinancialMetrics(userId);
   try {
-    // Calculate base totals - only include true business revenue, not funding
-    const baseRevenue = records.filter(r => r.type === 'revenue').reduce((sum, r) => sum + r.amount, 0);
-    const baseExpenses = records.filter(r => r.type === 'expense').reduce((sum, r) => sum + r.amount, 0);
-    const baseInvestments = records.filter(r => r.type === 'other').reduce((sum, r) => sum + r.amount, 0);
-    
-    // Prepare data for AI analysis
-    const financialData = {
-      records: records.map(r => ({
-        type: r.type,
-        category: r.category,
-        amount: r.amount / 100, // Convert cents to dollars for AI
-        description: r.description,
-        date: r.date
-      })),
-      baseTotals: {
-        revenue: baseRevenue / 100,
-        expenses: baseExpenses / 100,
-        investments: baseInvestments / 100
-      }
-    };
+    return { metrics, commentary: await writeCommentary(metrics), commentaryError: null };
+  } catch (error) {
+    console.error('Error writing financial commentary:', error);
+    return { metrics, commentary: [], commentaryError: 'Commentary is temporarily unavailable' };
+  }
+}
+
+async function writeCommentary(metrics: FinancialMetrics): Promise<FinancialCommentary[]> {
+  const available = metrics.metrics.filter(metric => metric.value !== null);
+  if (available.length === 0 && metrics.categoryAverages.length === 0) return [];
 
-    const prompt = `
-    Analyze the following financial records and provide intelligent adjustments based on performance indicators:
+  const averages = metrics.categoryAverages.slice(0, 10).map(average =>
+    `${average.key}: average ${average.type} in ${average.category} = ${formatMoney(average.average, metrics.currency)} over ${average.count} records (total ${formatMoney(average.total, metrics.currency)})`
+  );
 
-    Financial Data: ${JSON.stringify(financialData, null, 2)}
+  const prompt = `
+    Write short commentary on a small business's finances. The figures below were computed from its records and are
+    verified; amounts are in ${metrics.currency}.
 
-    Please analyze the records and look for:
-    1. Performance indicators (e.g., "sold 200% of target", "exceeded expectations by 50%")
-    2. Efficiency improvements (e.g., "reduced costs by 30%", "optimized operations")
-    3. Market expansion (e.g., "new market entry", "customer growth")
-    4. Investment returns (e.g., "ROI of 150%", "asset appreciation")
+    Metrics:
+    ${metrics.metrics.map(metric => describeMetric(metric, metrics.currency)).join('\n    ')}
 
-    Based on your analysis, provide adjustments to the financial totals and key insights.
-    Consider descriptions that indicate over/under performance and adjust totals accordingly.
-    
-    IMPORTANT: Net profit = Revenue - Expenses ONLY (do NOT include investments/funding in profit calculation)
+    Average transaction size by category, trailing twelve months:
+    ${averages.join('\n    ') || 'none'}
 
-    Return your analysis in the following JSON format:
+    Rules:
+    - Use only the figures above. Do not estimate, adjust or calculate new numbers.
+    - Skip metrics that are not available rather than guessing them.
+    - Every statement must cite the keys (e.g. "revenue_mom", "average:expense:Rent") of the figures it relies on.
+    - Give 3 to 5 statements, most important first: trends, risks and one practical suggestion.
+
+    Respond in JSON:
     {
-      "adjustedRevenue": number,
-      "adjustedExpenses": number,
-      "adjustedInvestments": number,
-      "adjustedNetProfit": number,
-      "insights": ["insight1", "insight2", "insight3"],
-      "performanceMetrics": {
-        "revenueGrowth": number,
-        "expenseEfficiency": number,
-        "profitMargin": number
-      }
+      "commentary": [{ "text": "Revenue grew 12.5% on last month while expenses were flat.", "citations": ["revenue_mom", "expenses_mom"] }]
     }
-    `;
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini", // using gpt-4o-mini as requested by user for cost efficiency
-      messages: [
-        {
-          role: "system",
-          content: "You are a financial analyst AI. Analyze financial records and provide intelligent adjustments based on performance indicators found in transaction descriptions. Focus on realistic business scenarios and performance metrics."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.3
-    });
-
-    const analysis = JSON.parse(response.choices[0].message.content || "{}");
-
-    // Convert dollar amounts back to cents and ensure valid numbers
-    return {
-      adjustedRevenue: Math.round((analysis.adjustedRevenue || baseRevenue / 100) * 100),
-      adjustedExpenses: Math.round((analysis.adjustedExpenses || baseExpenses / 100) * 100),
-      adjustedInvestments: Math.round((analysis.adjustedInvestments || baseInvestments / 100) * 100),
-      adjustedNetProfit: Math.round((analysis.adjustedNetProfit || (baseRevenue - baseExpenses) / 100) * 100),
-      insights: analysis.insights || [],
-      performanceMetrics: {
-        revenueGrowth: analysis.performanceMetrics?.revenueGrowth || 0,
-        expenseEfficiency: analysis.performanceMetrics?.expenseEfficiency || 0,
-        profitMargin: analysis.performanceMetrics?.profitMargin || 0
-      }
-    };
-
-  } catch (error) {
-    console.error('Error analyzing financial records:', error);
-    
-    // Return fallback analysis
-    const baseRevenue = records.filter(r => r.type === 'revenue').reduce((sum, r) => sum + r.amount, 0);
-    const baseExpenses = records.filter(r => r.type === 'expense').reduce((sum, r) => sum + r.amount, 0);
-    const baseInvestments = records.filter(r => r.type === 'other').reduce((sum, r) => sum + r.amount, 0);
-    
-    return {
-      adjustedRevenue: baseRevenue,
-      adjustedExpenses: baseExpenses,
-      adjustedInvestments: baseInvestments,
-      adjustedNetProfit: baseRevenue - baseExpenses,
-      insights: ["Financial analysis temporarily unavailable"],
-      performanceMetrics: {
-        revenueGrowth: 0,
-        expenseEfficiency: 0,
-        profitMargin: baseRevenue > 0 ? ((baseRevenue - baseExpenses) / baseRevenue) * 100 : 0
+  `;
+
+  const response = await getLLMProvider().complete({
+    messages: [
+      {
+        role: "system",
+        content: "You are a financial analyst explaining verified figures to a business owner. Respond in JSON format."
+      },
+      {
+        role: "user",
+        content: prompt
       }
-    };
-  }
+    ],
+    responseFormat: "json",
+    temperature: 0.3,
+  });
+
+  const parsed = commentarySchema.parse(JSON.parse(response.content || '{}'));
+  const keys = new Set([...metrics.metrics.map(metric => metric.key), ...metrics.categoryAverages.map(average => average.key)]);
+
+  // Unknown citations are dropped, and so are statements left without any: they aren't grounded in the figures
+  return parsed.commentary
+    .map(statement => ({ text: statement.text.trim(), citations: Array.from(new Set(statement.citations.filter(key => keys.has(key)))) }))
+    .filter(statement => statement.text !== '' && statement.citations.length > 0);
 }
 
 export function extractPerformanceIndicators(description: string): PerformanceIndicators {
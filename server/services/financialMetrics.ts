@@ -0,0 +1,217 @@
+import { storage } from "../storage";
+import { getAccountSummaries } from "./accountBalances";
+import { convertAmount, formatMoney, type ExchangeRateQuote } from "@shared/currency";
+import type { AccountSummary, CategoryAverage, FinancialMetric, FinancialMetrics, FinancialRecord, MetricInput } from "@shared/schema";
+
+// Complete months averaged for the burn rate
+const BURN_MONTHS = 3;
+// Complete months behind trailing margins and average transaction sizes
+const TRAILING_MONTHS = 12;
+
+export interface CashOnHand {
+  balance: number; // bank and cash accounts, in cents of the base currency
+  accounts: number;
+  unconverted: number; // accounts left out because no exchange rate covers them
+}
+
+interface MonthTotals {
+  key: string; // yyyy-mm
+  label: string; // e.g. "Sep 2026"
+  revenue: number;
+  expenses: number;
+}
+
+export async function getFinancialMetrics(userId: string, now: Date = new Date()): Promise<FinancialMetrics> {
+  const [records, accounts, rates, user] = await Promise.all([
+    storage.getFinancialRecords(userId),
+    getAccountSummaries(userId),
+    storage.getExchangeRates(userId),
+    storage.getUser(userId),
+  ]);
+  const currency = user?.baseCurrency || 'USD';
+  return calculateFinancialMetrics(records, getCashOnHand(accounts, currency, rates, now), currency, now);
+}
+
+// Bank and cash account balances in the base currency; null when the user has no such accounts
+export function getCashOnHand(accounts: AccountSummary[], currency: string, rates: ExchangeRateQuote[], now: Date): CashOnHand | null {
+  const cashAccounts = accounts.filter(account => account.type === 'bank' || account.type === 'cash');
+  if (cashAccounts.length === 0) return null;
+
+  let balance = 0;
+  let unconverted = 0;
+  for (const account of cashAccounts) {
+    const converted = account.currency === currency ? account.balance : convertAmount(account.balance, account.currency, currency, now, rates);
+    if (converted === null) {
+      unconverted++;
+    } else {
+      balance += converted;
+    }
+  }
+  return { balance, accounts: cashAccounts.length, unconverted };
+}
+
+// Growth, margins, burn rate, runway and average transaction sizes, all from base-currency record amounts. The
+// current month is still running, so month-over-month and year-over-year figures compare the last complete month.
+// Transfers and other money (funding, loans, refunds) are neither revenue nor expenses and are left out.
+export function calculateFinancialMetrics(records: FinancialRecord[], cash: CashOnHand | null, currency: string, now: Date = new Date()): FinancialMetrics {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth() - 1; // last complete month
+  const windowStart = Date.UTC(year, month - TRAILING_MONTHS, 1); // also covers the year-over-year comparison month
+  const windowEnd = Date.UTC(year, month + 1, 1);
+
+  const relevant = records.filter(record =>
+    (record.type === 'revenue' || record.type === 'expense')
+    && record.date.getTime() >= windowStart && record.date.getTime() < windowEnd);
+  const converted = relevant.filter(record => record.baseAmount !== null);
+
+  const totals = new Map<string, MonthTotals>();
+  const monthTotals = (offset: number): MonthTotals => {
+    const start = new Date(Date.UTC(year, month - offset, 1));
+    const key = start.toISOString().slice(0, 7);
+    if (!totals.has(key)) {
+      const label = start.toLocaleDateString("en-US", { month: "short", year: "numeric", timeZone: "UTC" });
+      totals.set(key, { key, label, revenue: 0, expenses: 0 });
+    }
+    return totals.get(key)!;
+  };
+  for (let offset = 0; offset <= TRAILING_MONTHS; offset++) monthTotals(offset);
+  for (const record of converted) {
+    const entry = totals.get(record.date.toISOString().slice(0, 7));
+    if (!entry) continue;
+    if (record.type === 'revenue') {
+      entry.revenue += record.baseAmount!;
+    } else {
+      entry.expenses += record.baseAmount!;
+    }
+  }
+
+  const current = monthTotals(0);
+  const previous = monthTotals(1);
+  const yearAgo = monthTotals(12);
+  const trailing = Array.from({ length: TRAILING_MONTHS }, (_, offset) => monthTotals(offset));
+  const trailingLabel = `${trailing[trailing.length - 1].label} to ${current.label}`;
+  const burnMonths = trailing.slice(0, BURN_MONTHS);
+  const burnLabel = `${burnMonths[burnMonths.length - 1].label} to ${current.label}`;
+  const sum = (months: MonthTotals[], type: 'revenue' | 'expenses') => months.reduce((total, entry) => total + entry[type], 0);
+
+  const grossBurn = Math.round(sum(burnMonths, 'expenses') / BURN_MONTHS);
+  const netBurn = Math.round((sum(burnMonths, 'expenses') - sum(burnMonths, 'revenue')) / BURN_MONTHS);
+
+  const metrics: FinancialMetric[] = [
+    growth('revenue_mom', 'Revenue growth, month over month', 'revenue', current, previous),
+    growth('revenue_yoy', 'Revenue growth, year over year', 'revenue', current, yearAgo),
+    growth('expenses_mom', 'Expense growth, month over month', 'expenses', current, previous),
+    growth('expenses_yoy', 'Expense growth, year over year', 'expenses', current, yearAgo),
+    margin('profit_margin_month', `Profit margin, ${current.label}`, current.label, current.revenue, current.expenses),
+    margin('profit_margin_ttm', 'Profit margin, trailing twelve months', trailingLabel, sum(trailing, 'revenue'), sum(trailing, 'expenses')),
+    {
+      key: 'gross_burn',
+      label: 'Gross burn rate (per month)',
+      value: grossBurn,
+      unit: 'money',
+      formula: `${burnLabel} expenses / ${BURN_MONTHS}`,
+      inputs: [money(`${burnLabel} expenses`, sum(burnMonths, 'expenses'))],
+      note: grossBurn === 0 ? `No expenses in ${burnLabel}` : null,
+    },
+    {
+      key: 'net_burn',
+      label: 'Net burn rate (per month)',
+      value: netBurn,
+      unit: 'money',
+      formula: `(${burnLabel} expenses - ${burnLabel} revenue) / ${BURN_MONTHS}`,
+      inputs: [money(`${burnLabel} expenses`, sum(burnMonths, 'expenses')), money(`${burnLabel} revenue`, sum(burnMonths, 'revenue'))],
+      note: grossBurn === 0 ? `No expenses in ${burnLabel}` : netBurn <= 0 ? 'Revenue covered expenses' : null,
+    },
+    runway(cash, netBurn, currency),
+  ];
+
+  return {
+    currency,
+    month: current.key,
+    metrics,
+    categoryAverages: categoryAverages(converted.filter(record => record.date.getTime() >= Date.UTC(year, month - TRAILING_MONTHS + 1, 1))),
+    unconverted: relevant.length - converted.length,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// One line per metric for prompts, e.g. "revenue_mom: Revenue growth, month over month = 12.5%; formula: ...; inputs: ..."
+export function describeMetric(metric: FinancialMetric, currency: string): string {
+  const value = metric.value === null ? 'not available'
+    : metric.unit === 'percent' ? `${metric.value}%`
+    : metric.unit === 'months' ? `${metric.value} months`
+    : formatMoney(metric.value, currency);
+  const inputs = metric.inputs.map(input => `${input.label} = ${input.unit === 'money' ? formatMoney(input.value, currency) : input.value}`);
+  return `${metric.key}: ${metric.label} = ${value}; formula: ${metric.formula}; inputs: ${inputs.join(', ')}${metric.note ? `; note: ${metric.note}` : ''}`;
+}
+
+function growth(key: string, label: string, type: 'revenue' | 'expenses', current: MonthTotals, previous: MonthTotals): FinancialMetric {
+  const base = previous[type];
+  return {
+    key,
+    label,
+    value: base === 0 ? null : round1(((current[type] - base) / base) * 100),
+    unit: 'percent',
+    formula: `(${current.label} ${type} - ${previous.label} ${type}) / ${previous.label} ${type} x 100`,
+    inputs: [money(`${current.label} ${type}`, current[type]), money(`${previous.label} ${type}`, base)],
+    note: base === 0 ? `No ${type} in ${previous.label} to compare with` : null,
+  };
+}
+
+function margin(key: string, label: string, period: string, revenue: number, expenses: number): FinancialMetric {
+  return {
+    key,
+    label,
+    value: revenue === 0 ? null : round1(((revenue - expenses) / revenue) * 100),
+    unit: 'percent',
+    formula: `(${period} revenue - ${period} expenses) / ${period} revenue x 100`,
+    inputs: [money(`${period} revenue`, revenue), money(`${period} expenses`, expenses)],
+    note: revenue === 0 ? `No revenue in ${period}` : null,
+  };
+}
+
+function runway(cash: CashOnHand | null, netBurn: number, currency: string): FinancialMetric {
+  let note: string | null = null;
+  if (!cash) {
+    note = 'Add bank or cash accounts to calculate runway';
+  } else if (netBurn <= 0) {
+    note = 'Not burning cash: revenue covered expenses';
+  } else if (cash.unconverted > 0) {
+    note = `${cash.unconverted} account${cash.unconverted === 1 ? '' : 's'} left out: no exchange rate into ${currency}`;
+  }
+  return {
+    key: 'runway',
+    label: 'Runway',
+    value: cash && netBurn > 0 ? round1(Math.max(cash.balance, 0) / netBurn) : null,
+    unit: 'months',
+    formula: 'Cash on hand / net burn rate',
+    inputs: [
+      ...(cash ? [money(`Cash on hand (${cash.accounts} bank and cash account${cash.accounts === 1 ? '' : 's'})`, cash.balance)] : []),
+      money('Net burn rate (per month)', netBurn),
+    ],
+    note,
+  };
+}
+
+function categoryAverages(records: FinancialRecord[]): CategoryAverage[] {
+  const byCategory = new Map<string, CategoryAverage>();
+  for (const record of records) {
+    const type = record.type as CategoryAverage['type'];
+    const key = `average:${type}:${record.category}`;
+    const entry = byCategory.get(key) || { key, type, category: record.category, count: 0, total: 0, average: 0 };
+    entry.count++;
+    entry.total += record.baseAmount!;
+    byCategory.set(key, entry);
+  }
+  return Array.from(byCategory.values())
+    .map(entry => ({ ...entry, average: Math.round(entry.total / entry.count) }))
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+}
+
+function money(label: string, value: number): MetricInput {
+  return { label, value, unit: 'money' };
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
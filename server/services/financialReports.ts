@@ -0,0 +1,370 @@
+import { storage } from "../storage";
+import { buildRegister } from "./accountBalances";
+import { baseTaxAmount, createTaxLineResolver, getTaxLine, taxOnProfit } from "./taxCategories";
+import { convertAmount } from "@shared/currency";
+import { TAX_LINES, type TaxLine } from "@shared/constants";
+import type { FinancialRecord, FinancialReport, ReportChange, ReportColumn, ReportLine, ReportQuery, ReportSection, TaxRate } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PERIODS = { month: 12, quarter: 4 };
+// Tax estimate lines for amounts that are not on a taxable or deductible tax line
+const UNMAPPED_INCOME = 'Unmapped income (taxed as gross receipts)';
+const NON_TAXABLE_INCOME = 'Non-taxable income';
+const NON_DEDUCTIBLE_EXPENSES = 'Non-deductible expenses';
+const UNMAPPED_EXPENSES = 'Unmapped expenses (not deducted)';
+
+type ReportOptions = Pick<ReportQuery, 'period' | 'periods' | 'end'>;
+
+// A line before it becomes a ReportLine: the period before the report first, then one amount per column
+interface Series {
+  label: string;
+  amounts: number[];
+}
+
+interface Bucket {
+  start: number;
+  end: number; // exclusive
+}
+
+// Calendar months or quarters ending with the one that contains `end`, oldest first. The last column stops at the
+// end of the `end` day, so a report run mid-month covers the month to date. Record dates are UTC midnight, so
+// periods are computed in UTC as well.
+export function getReportColumns(options: ReportOptions, now: Date = new Date()): ReportColumn[] {
+  const count = options.periods ?? DEFAULT_PERIODS[options.period];
+  const endDay = options.end ? new Date(`${options.end}T00:00:00.000Z`) : startOfUTCDay(now);
+  const reportEnd = new Date(endDay.getTime() + DAY_MS);
+  const monthsPerPeriod = options.period === 'quarter' ? 3 : 1;
+  const lastStartMonth = Math.floor(endDay.getUTCMonth() / monthsPerPeriod) * monthsPerPeriod;
+
+  return Array.from({ length: count }, (_, i) => {
+    const column = periodColumn(endDay.getUTCFullYear(), lastStartMonth - (count - 1 - i) * monthsPerPeriod, options.period);
+    return i === count - 1 && new Date(column.end) > reportEnd ? { ...column, end: toDateKey(reportEnd) } : column;
+  });
+}
+
+// Revenue and expenses by category for each period, in the user's base currency. Transfers between the user's
+// accounts and other money (funding, loans, refunds) are not income and are left out.
+export async function buildProfitAndLoss(userId: string, options: ReportOptions): Promise<FinancialReport> {
+  const columns = getReportColumns(options);
+  const buckets = withPreviousPeriod(columns, options.period);
+  const [records, currency] = await Promise.all([storage.getFinancialRecords(userId), getBaseCurrency(userId)]);
+
+  const revenue = categorySeries(records.filter(record => record.type === 'revenue'), buckets, 1);
+  const expenses = categorySeries(records.filter(record => record.type === 'expense'), buckets, 1);
+  const revenueTotal = sumSeries('Total revenue', revenue, buckets);
+  const expenseTotal = sumSeries('Total expenses', expenses, buckets);
+
+  return {
+    kind: 'profit-and-loss',
+    title: 'Profit and Loss',
+    period: options.period,
+    currency,
+    columns,
+    sections: [toSection('Revenue', revenue, revenueTotal, true), toSection('Expenses', expenses, expenseTotal, true, false)],
+    result: toLine(sumSeries('Net income', [revenueTotal, expenseTotal], buckets, [1, -1]), true),
+    unconverted: countUnconverted(records.filter(record => record.type === 'revenue' || record.type === 'expense'), buckets),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// Money in and out by category for each period, using the direct method: revenue received and expenses paid are
+// operating cash flows, other money (funding, loans, refunds) is shown separately. Transfers don't change the
+// user's cash and are left out.
+export async function buildCashFlowStatement(userId: string, options: ReportOptions): Promise<FinancialReport> {
+  const columns = getReportColumns(options);
+  const buckets = withPreviousPeriod(columns, options.period);
+  const [records, currency] = await Promise.all([storage.getFinancialRecords(userId), getBaseCurrency(userId)]);
+
+  const receipts = categorySeries(records.filter(record => record.type === 'revenue'), buckets, 1);
+  const payments = categorySeries(records.filter(record => record.type === 'expense'), buckets, -1);
+  const financing = categorySeries(records.filter(record => record.type === 'other'), buckets, 1);
+  const receiptsTotal = sumSeries('Total operating receipts', receipts, buckets);
+  const paymentsTotal = sumSeries('Total operating payments', payments, buckets);
+  const financingTotal = sumSeries('Total financing and other', financing, buckets);
+
+  return {
+    kind: 'cash-flow',
+    title: 'Cash Flow Statement',
+    period: options.period,
+    currency,
+    columns,
+    sections: [
+      toSection('Operating receipts', receipts, receiptsTotal, true),
+      toSection('Operating payments', payments, paymentsTotal, true),
+      toSection('Financing and other', financing, financingTotal, true),
+    ],
+    result: toLine(sumSeries('Net change in cash', [receiptsTotal, paymentsTotal, financingTotal], buckets), true),
+    unconverted: countUnconverted(records.filter(record => record.type !== 'transfer'), buckets),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// Account balances at the end of each period, in the user's base currency. Bank and cash accounts are assets;
+// card balances are money owed and are shown as positive liabilities. Each balance is converted at the rate for
+// its as-of date.
+export async function buildBalanceSheet(userId: string, options: ReportOptions): Promise<FinancialReport> {
+  const columns = getReportColumns(options).map(column => ({ ...column, label: formatAsOf(column.end) }));
+  const buckets = withPreviousPeriod(columns, options.period);
+  const [accounts, rates, currency] = await Promise.all([
+    storage.getAccounts(userId),
+    storage.getExchangeRates(userId),
+    getBaseCurrency(userId),
+  ]);
+  const reportEnd = buckets[buckets.length - 1].end;
+
+  const assets: Series[] = [];
+  const liabilities: Series[] = [];
+  let unconverted = 0;
+  for (const account of accounts.filter(account => account.openingDate.getTime() < reportEnd)) {
+    const register = buildRegister(account, await storage.getAccountRecords(userId, account.id), rates);
+    let missingRate = register.some(entry => entry.amount === null && entry.record.date.getTime() < reportEnd);
+    const sign = account.type === 'card' ? -1 : 1;
+
+    const amounts = buckets.map(bucket => {
+      if (account.openingDate.getTime() >= bucket.end) return 0;
+      const balance = register
+        .filter(entry => entry.record.date.getTime() < bucket.end)
+        .reduce((sum, entry) => sum + (entry.amount ?? 0), account.openingBalance);
+      const converted = account.currency === currency
+        ? balance
+        : convertAmount(balance, account.currency, currency, new Date(bucket.end - DAY_MS), rates);
+      if (converted === null) missingRate = true;
+      return sign * (converted ?? 0);
+    });
+
+    if (missingRate) unconverted++;
+    (account.type === 'card' ? liabilities : assets).push({ label: account.name, amounts });
+  }
+
+  const assetTotal = sumSeries('Total assets', assets, buckets);
+  const liabilityTotal = sumSeries('Total liabilities', liabilities, buckets);
+
+  return {
+    kind: 'balance-sheet',
+    title: 'Balance Sheet',
+    period: options.period,
+    currency,
+    columns,
+    sections: [toSection('Assets', assets, assetTotal, false), toSection('Liabilities', liabilities, liabilityTotal, false, false)],
+    result: toLine(sumSeries('Net worth', [assetTotal, liabilityTotal], buckets, [1, -1]), false),
+    unconverted,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// Quarter by quarter for the tax year containing `end` (the period options don't apply). Income and expenses are
+// net of their sales tax or VAT and are counted at the share of their category's tax line: unmapped income is
+// taxed as gross receipts and unmapped expenses are not deducted. Income tax is estimated on the year-to-date
+// profit, since rate thresholds are annual: each quarter owes the tax on the profit through its end less the tax
+// already owed at its start. Sales tax or VAT recorded on expenses is treated as reclaimable.
+export async function buildTaxEstimate(userId: string, options: ReportOptions): Promise<FinancialReport> {
+  const endDay = options.end ? new Date(`${options.end}T00:00:00.000Z`) : startOfUTCDay(new Date());
+  const columns = getReportColumns({ period: 'quarter', periods: Math.floor(endDay.getUTCMonth() / 3) + 1, end: options.end });
+  const buckets = withPreviousPeriod(columns, 'quarter');
+  const [records, mappings, rates, currency] = await Promise.all([
+    storage.getFinancialRecords(userId),
+    storage.getCategoryTaxLines(userId),
+    storage.getTaxRates(userId),
+    getBaseCurrency(userId),
+  ]);
+  const resolve = createTaxLineResolver(mappings);
+  const firstYearStart = Date.UTC(new Date(buckets[0].start).getUTCFullYear(), 0, 1);
+  const reportEnd = buckets[buckets.length - 1].end;
+
+  // Lines keep the order they are listed in, so tax lines read in schedule order
+  const order = [...TAX_LINES.map(line => lineLabel(line.value)), UNMAPPED_INCOME, NON_TAXABLE_INCOME, NON_DEDUCTIBLE_EXPENSES, UNMAPPED_EXPENSES];
+  const income = new Map<string, number[]>();
+  const deductions = new Map<string, number[]>();
+  const excluded = new Map<string, number[]>();
+  const salesTax = { collected: buckets.map(() => 0), paid: buckets.map(() => 0) };
+  const profitEntries: { time: number; amount: number }[] = [];
+  const add = (series: Map<string, number[]>, label: string, index: number, amount: number) => {
+    if (index === -1 || amount === 0) return;
+    const amounts = series.get(label) || buckets.map(() => 0);
+    amounts[index] += amount;
+    series.set(label, amounts);
+  };
+
+  const taxed = records.filter(record => record.type === 'revenue' || record.type === 'expense');
+  for (const record of taxed) {
+    const time = record.date.getTime();
+    const tax = baseTaxAmount(record);
+    if (tax === null || time < firstYearStart || time >= reportEnd) continue;
+    const index = bucketIndex(record.date, buckets);
+    const net = record.baseAmount! - tax;
+    const taxLine = resolve(record.type, record.category);
+    const share = taxLine ? getTaxLine(taxLine).share : record.type === 'revenue' ? 100 : 0;
+    const counted = Math.round((net * share) / 100);
+
+    if (record.type === 'revenue') {
+      add(income, taxLine ? lineLabel(taxLine) : UNMAPPED_INCOME, index, counted);
+      add(excluded, NON_TAXABLE_INCOME, index, net - counted);
+      if (index !== -1) salesTax.collected[index] += tax;
+      profitEntries.push({ time, amount: counted });
+    } else {
+      if (taxLine) add(deductions, lineLabel(taxLine), index, counted);
+      add(excluded, taxLine ? NON_DEDUCTIBLE_EXPENSES : UNMAPPED_EXPENSES, index, -(net - counted));
+      if (index !== -1) salesTax.paid[index] -= tax;
+      profitEntries.push({ time, amount: -counted });
+    }
+  }
+
+  const inOrder = (series: Map<string, number[]>): Series[] => Array.from(series.entries())
+    .sort(([a], [b]) => order.indexOf(a) - order.indexOf(b))
+    .map(([label, amounts]) => ({ label, amounts }));
+  const incomeLines = inOrder(income);
+  const deductionLines = inOrder(deductions);
+  const excludedLines = inOrder(excluded);
+  const incomeTotal = sumSeries('Total taxable income', incomeLines, buckets);
+  const deductionTotal = sumSeries('Total deductions', deductionLines, buckets);
+  const profitLines = [{ ...incomeTotal, label: 'Taxable income' }, { label: 'Less deductions', amounts: deductionTotal.amounts.map(amount => -amount) }];
+  const profit = sumSeries('Taxable profit', profitLines, buckets);
+
+  // Year-to-date profit just before `time`, for the tax year that contains `yearOf`
+  const profitToDate = (yearOf: number, time: number) => {
+    const yearStart = Date.UTC(new Date(yearOf).getUTCFullYear(), 0, 1);
+    return profitEntries
+      .filter(entry => entry.time >= yearStart && entry.time < time)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+  };
+  const schedules = new Map<string, TaxRate[]>();
+  for (const rate of rates) schedules.set(rate.name, [...(schedules.get(rate.name) || []), rate]);
+  const incomeTaxLines: Series[] = Array.from(schedules.entries()).map(([name, brackets]) => ({
+    label: name,
+    amounts: buckets.map(bucket =>
+      taxOnProfit(profitToDate(bucket.start, bucket.end), brackets) - taxOnProfit(profitToDate(bucket.start, bucket.start), brackets)),
+  }));
+  const incomeTaxTotal = sumSeries('Total estimated income tax', incomeTaxLines, buckets);
+
+  const salesTaxLines = [
+    { label: 'Collected on sales', amounts: salesTax.collected },
+    { label: 'Paid on purchases', amounts: salesTax.paid },
+  ].filter(line => line.amounts.some(amount => amount !== 0));
+  const salesTaxTotal = sumSeries('Net sales tax / VAT due', salesTaxLines, buckets);
+
+  return {
+    kind: 'tax-estimate',
+    title: 'Quarterly Tax Estimate',
+    period: 'quarter',
+    currency,
+    columns,
+    sections: [
+      toSection('Taxable income', incomeLines, incomeTotal, true),
+      toSection('Deductible expenses', deductionLines, deductionTotal, true),
+      toSection('Not taxed or deducted', excludedLines, sumSeries('Net left out', excludedLines, buckets), true),
+      toSection('Taxable profit', profitLines, profit, true),
+      toSection('Estimated income tax', incomeTaxLines, incomeTaxTotal, true, false),
+      toSection('Sales tax / VAT', salesTaxLines, salesTaxTotal, true, false),
+    ],
+    result: toLine(sumSeries('Total estimated tax due', [incomeTaxTotal, salesTaxTotal], buckets), true),
+    unconverted: countUnconverted(taxed, buckets),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+export const REPORT_BUILDERS: Record<FinancialReport['kind'], (userId: string, options: ReportOptions) => Promise<FinancialReport>> = {
+  'profit-and-loss': buildProfitAndLoss,
+  'cash-flow': buildCashFlowStatement,
+  'balance-sheet': buildBalanceSheet,
+  'tax-estimate': buildTaxEstimate,
+};
+
+// e.g. "Advertising (line 8)"
+function lineLabel(value: TaxLine): string {
+  const line = getTaxLine(value);
+  return line.line ? `${line.label} (line ${line.line})` : line.label;
+}
+
+async function getBaseCurrency(userId: string): Promise<string> {
+  const user = await storage.getUser(userId);
+  return user?.baseCurrency || 'USD';
+}
+
+// The period before the first column comes first, so every column has something to be compared with
+function withPreviousPeriod(columns: ReportColumn[], period: ReportQuery['period']): Bucket[] {
+  const first = new Date(columns[0].start);
+  const previous = periodColumn(first.getUTCFullYear(), first.getUTCMonth() - (period === 'quarter' ? 3 : 1), period);
+  return [previous, ...columns].map(column => ({ start: new Date(column.start).getTime(), end: new Date(column.end).getTime() }));
+}
+
+function bucketIndex(date: Date, buckets: Bucket[]): number {
+  const time = date.getTime();
+  return buckets.findIndex(bucket => time >= bucket.start && time < bucket.end);
+}
+
+// One series per category, largest first, from base-currency amounts; records no rate covers are counted separately
+function categorySeries(records: FinancialRecord[], buckets: Bucket[], sign: number): Series[] {
+  const byCategory = new Map<string, number[]>();
+  for (const record of records) {
+    const index = bucketIndex(record.date, buckets);
+    if (index === -1 || record.baseAmount === null) continue;
+    const amounts = byCategory.get(record.category) || buckets.map(() => 0);
+    amounts[index] += sign * record.baseAmount;
+    byCategory.set(record.category, amounts);
+  }
+
+  return Array.from(byCategory.entries())
+    .map(([label, amounts]) => ({ label, amounts, total: Math.abs(amounts.slice(1).reduce((sum, amount) => sum + amount, 0)) }))
+    .sort((a, b) => b.total - a.total || a.label.localeCompare(b.label))
+    .map(({ label, amounts }) => ({ label, amounts }));
+}
+
+function sumSeries(label: string, parts: Series[], buckets: Bucket[], weights: number[] = parts.map(() => 1)): Series {
+  return { label, amounts: buckets.map((_, index) => parts.reduce((sum, part, i) => sum + weights[i] * part.amounts[index], 0)) };
+}
+
+function toSection(title: string, lines: Series[], total: Series, summable: boolean, increaseIsGood = true): ReportSection {
+  return { title, lines: lines.map(line => toLine(line, summable)), total: toLine(total, summable), increaseIsGood };
+}
+
+// Drops the period before the report, keeping it only as the first column's comparison
+function toLine(series: Series, summable: boolean): ReportLine {
+  const amounts = series.amounts.slice(1);
+  return {
+    label: series.label,
+    amounts,
+    total: summable ? amounts.reduce((sum, amount) => sum + amount, 0) : null,
+    changes: amounts.map((amount, i) => changeFrom(series.amounts[i], amount)),
+  };
+}
+
+function changeFrom(previous: number, current: number): ReportChange {
+  return {
+    amount: current - previous,
+    percent: previous === 0 ? null : Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10,
+  };
+}
+
+function countUnconverted(records: FinancialRecord[], buckets: Bucket[]): number {
+  return records.filter(record => record.baseAmount === null && bucketIndex(record.date, buckets) > 0).length;
+}
+
+function periodColumn(year: number, startMonth: number, period: ReportQuery['period']): ReportColumn {
+  const start = new Date(Date.UTC(year, startMonth, 1));
+  const end = new Date(Date.UTC(year, startMonth + (period === 'quarter' ? 3 : 1), 1));
+  const startYear = start.getUTCFullYear();
+  if (period === 'quarter') {
+    const quarter = Math.floor(start.getUTCMonth() / 3) + 1;
+    return { key: `${startYear}-Q${quarter}`, label: `Q${quarter} ${startYear}`, start: toDateKey(start), end: toDateKey(end) };
+  }
+  return {
+    key: toDateKey(start).slice(0, 7),
+    label: start.toLocaleDateString("en-US", { month: "short", year: "numeric", timeZone: "UTC" }),
+    start: toDateKey(start),
+    end: toDateKey(end),
+  };
+}
+
+// Balance-sheet columns are labelled with the last day they include
+function formatAsOf(end: string): string {
+  return new Date(new Date(end).getTime() - DAY_MS)
+    .toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
+function startOfUTCDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
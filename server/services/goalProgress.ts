@@ -0,0 +1,74 @@
+import { storage } from "../storage";
+import type { FinancialRecord, Goal } from "@shared/schema";
+import { getGoalWindow, isInGoalWindow, type GoalWindow } from "@shared/goalWindow";
+import { inBaseCurrency } from "./currencyConversion";
+
+export interface GoalProgressResult {
+  progress: number; // 0-100
+  actual: number; // cents inside the window, in the base currency
+  window: GoalWindow;
+}
+
+// Progress for goals with a targetAmount, measured only against records inside the goal's window
+// and, when the goal is bound to financial categories, only records in those categories.
+// Targets are in the base currency, so callers pass records through inBaseCurrency first.
+// Returns null for goals that are not tracked automatically.
+export function calculateGoalProgress(goal: Goal, financialRecords: FinancialRecord[], now: Date = new Date()): GoalProgressResult | null {
+  if (!goal.targetAmount || (goal.type !== 'revenue' && goal.type !== 'expense')) {
+    return null;
+  }
+
+  const window = getGoalWindow(goal, now);
+  const categories = new Set((goal.financialCategories || []).map(normalizeCategory));
+  const actual = financialRecords
+    .filter(r => r.type === goal.type && isInGoalWindow(r.date, window))
+    .filter(r => categories.size === 0 || categories.has(normalizeCategory(r.category)))
+    .reduce((sum, r) => sum + r.amount, 0);
+
+  const progress = goal.type === 'revenue'
+    ? Math.floor((actual / goal.targetAmount) * 100)
+    // For expense goals, progress = (target - actual) / target * 100 (staying under budget)
+    : Math.floor(((goal.targetAmount - actual) / goal.targetAmount) * 100);
+
+  return { progress: Math.max(0, Math.min(100, progress)), actual, window };
+}
+
+function normalizeCategory(category: string): string {
+  return category.trim().toLowerCase();
+}
+
+// The user's goals with progress computed for the current window, without writing it back. Recurring
+// windows roll over without any new records, so the stored progress can be out of date until the next change.
+export async function getGoalsWithProgress(userId: string, now: Date = new Date()): Promise<Goal[]> {
+  const [goals, records] = await Promise.all([
+    storage.getGoals(userId),
+    storage.getFinancialRecords(userId)
+  ]);
+  const financialRecords = inBaseCurrency(records);
+  return goals.map(goal => {
+    const result = calculateGoalProgress(goal, financialRecords, now);
+    return result ? { ...goal, progress: result.progress } : goal;
+  });
+}
+
+// Recomputes progress for every automatically tracked goal of the user
+export async function updateRevenueBasedGoals(userId: string) {
+  try {
+    const [goals, records] = await Promise.all([
+      storage.getGoals(userId),
+      storage.getFinancialRecords(userId)
+    ]);
+    const financialRecords = inBaseCurrency(records);
+    
+    // Update revenue and expense goals with target amounts, counting only records inside each goal's window
+    for (const goal of goals) {
+      const result = calculateGoalProgress(goal, financialRecords);
+      if (result && result.progress !== goal.progress) {
+        await storage.updateGoal(userId, goal.id, { progress: result.progress }, { actor: 'system' });
+        console.log(`✓ Updated ${goal.type} goal "${goal.title}" progress to ${result.progress}% (${result.actual / 100} / ${goal.targetAmount! / 100}, ${result.window.label})`);
+      }
+    }
+  } catch (error) {
+    console.error('Error updating revenue-based goals:', error);
+  }
+}
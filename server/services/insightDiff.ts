@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { getLLMProvider } from "./llmProvider";
+import type { InsightSnapshot, InsightsDiff } from "@shared/schema";
+
+export type InsightComparison = Omit<InsightsDiff, 'previousDocumentId' | 'previousVersion'>;
+
+// Title token overlap above which the fallback matcher treats two insights as the same point
+const TITLE_MATCH_THRESHOLD = 0.5;
+
+const matchesSchema = z.object({
+  matches: z.array(z.object({
+    previous: z.number().int(),
+    current: z.number().int(),
+    changed: z.boolean(),
+    change: z.string().nullish(),
+  })),
+});
+
+// Pairs up the insights of two document versions. The model matches insights that make the same point in
+// different words; when it is unavailable, insights are paired by overlapping title words instead.
+export async function compareInsights(previous: InsightSnapshot[], current: InsightSnapshot[]): Promise<InsightComparison> {
+  if (previous.length === 0 || current.length === 0) {
+    return { added: current, resolved: previous, changed: [], unchanged: [] };
+  }
+
+  let matches: Array<{ previous: number; current: number; change: string | null }>;
+  try {
+    matches = await matchWithModel(previous, current);
+  } catch (error) {
+    console.error('Error comparing insights with the model, falling back to title matching:', error);
+    matches = matchByTitle(previous, current);
+  }
+
+  const matchedPrevious = new Set(matches.map(match => match.previous));
+  const matchedCurrent = new Set(matches.map(match => match.current));
+  return {
+    added: current.filter((_, index) => !matchedCurrent.has(index)),
+    resolved: previous.filter((_, index) => !matchedPrevious.has(index)),
+    changed: matches
+      .filter(match => match.change)
+      .map(match => ({ before: previous[match.previous], after: current[match.current], change: match.change! })),
+    unchanged: matches.filter(match => !match.change).map(match => current[match.current]),
+  };
+}
+
+async function matchWithModel(previous: InsightSnapshot[], current: InsightSnapshot[]) {
+  const list = (insights: InsightSnapshot[], prefix: string) => insights
+    .map((insight, index) => `${prefix}${index + 1}. [${insight.type}] ${insight.title}: ${insight.content}`)
+    .join('\n');
+
+  const prompt = `
+    Compare the insights drawn from two versions of the same business document.
+
+    Previous version:
+    ${list(previous, 'P')}
+
+    New version:
+    ${list(current, 'N')}
+
+    Match each new insight to the previous insight that makes the same point, even if it is worded differently.
+    Leave insights unmatched when they are genuinely new or no longer raised. Each insight can be matched at most once.
+    For a match, set "changed" to true when the substance differs (figures, severity, recommendation) and describe
+    the difference in one short sentence; rewording alone is not a change.
+
+    Respond in JSON:
+    {
+      "matches": [{ "previous": 1, "current": 2, "changed": true, "change": "Projected savings rose from $10k to $15k" }]
+    }
+  `;
+
+  const response = await getLLMProvider().complete({
+    messages: [
+      {
+        role: "system",
+        content: "You are a business analysis expert comparing document revisions. Respond in JSON format."
+      },
+      {
+        role: "user",
+        content: prompt
+      }
+    ],
+    responseFormat: "json",
+    temperature: 0,
+  });
+
+  const parsed = matchesSchema.parse(JSON.parse(response.content || '{}'));
+  const usedPrevious = new Set<number>();
+  const usedCurrent = new Set<number>();
+  const matches: Array<{ previous: number; current: number; change: string | null }> = [];
+
+  // Numbers are 1-based in the prompt; out-of-range and repeated matches are dropped
+  for (const match of parsed.matches) {
+    const previousIndex = match.previous - 1;
+    const currentIndex = match.current - 1;
+    if (!previous[previousIndex] || !current[currentIndex]) continue;
+    if (usedPrevious.has(previousIndex) || usedCurrent.has(currentIndex)) continue;
+    usedPrevious.add(previousIndex);
+    usedCurrent.add(currentIndex);
+    matches.push({
+      previous: previousIndex,
+      current: currentIndex,
+      change: match.changed ? (match.change?.trim() || 'Details changed') : null,
+    });
+  }
+  return matches;
+}
+
+function matchByTitle(previous: InsightSnapshot[], current: InsightSnapshot[]) {
+  const candidates = previous.flatMap((before, previousIndex) =>
+    current.map((after, currentIndex) => ({
+      previous: previousIndex,
+      current: currentIndex,
+      score: overlap(tokens(before.title), tokens(after.title)),
+    }))
+  ).filter(candidate => candidate.score >= TITLE_MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const usedPrevious = new Set<number>();
+  const usedCurrent = new Set<number>();
+  const matches: Array<{ previous: number; current: number; change: string | null }> = [];
+  for (const candidate of candidates) {
+    if (usedPrevious.has(candidate.previous) || usedCurrent.has(candidate.current)) continue;
+    usedPrevious.add(candidate.previous);
+    usedCurrent.add(candidate.current);
+    const before = previous[candidate.previous];
+    const after = current[candidate.current];
+    const same = before.type === after.type && before.content.trim() === after.content.trim();
+    matches.push({ previous: candidate.previous, current: candidate.current, change: same ? null : 'Details changed' });
+  }
+  return matches;
+}
+
+function tokens(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]+/g) || []);
+}
+
+// Jaccard similarity of two token sets
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
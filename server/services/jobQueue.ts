@@ -0,0 +1,217 @@
+import { storage } from "../storage";
+import type { Job, JobType } from "@shared/schema";
+
+export interface JobContext {
+  // Records progress (0-100) and the current step; also tells the queue the attempt is still alive
+  reportProgress(progress: number, step?: string): Promise<void>;
+}
+
+export interface JobHandler {
+  run(job: Job, context: JobContext): Promise<void>;
+  // Called once when the last attempt fails, e.g. to mark the document as failed
+  onDead?(job: Job, error: Error): Promise<void>;
+}
+
+export interface EnqueueOptions {
+  documentId?: number;
+  maxAttempts?: number;
+}
+
+// How often the worker looks for due jobs when it has not been woken by an enqueue
+const POLL_INTERVAL_MS = 5000;
+// Jobs run at the same time in this process; document processing is mostly waiting on the model
+const CONCURRENCY = 2;
+// Running jobs that have not reported progress for this long are treated as interrupted
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+// Retry delays double from the base up to the cap: 30s, 1m, 2m, 4m...
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+// Completed jobs are kept this long for the jobs API, then pruned
+const COMPLETED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAINTENANCE_INTERVAL_MS = 60 * 1000;
+
+let handlers: Partial<Record<JobType, JobHandler>> = {};
+let running = 0;
+let started = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+export async function enqueueJob(
+  userId: string,
+  type: JobType,
+  payload: Record<string, any> = {},
+  options: EnqueueOptions = {}
+): Promise<Job> {
+  const job = await storage.createJob(userId, {
+    type,
+    payload,
+    documentId: options.documentId ?? null,
+    maxAttempts: options.maxAttempts,
+  });
+  wakeWorker();
+  return job;
+}
+
+// Puts a dead job back in the queue with a fresh set of attempts
+export async function retryJob(job: Job): Promise<Job | undefined> {
+  const retried = await storage.updateJob(job.id, {
+    status: 'queued',
+    attempts: 0,
+    progress: 0,
+    step: null,
+    runAt: new Date(),
+    lockedAt: null,
+    lockToken: null,
+    completedAt: null,
+  });
+  wakeWorker();
+  return retried;
+}
+
+export function startJobWorker(jobHandlers: Partial<Record<JobType, JobHandler>>): void {
+  if (started) return;
+  started = true;
+  handlers = jobHandlers;
+
+  runMaintenance();
+  setInterval(runMaintenance, MAINTENANCE_INTERVAL_MS).unref();
+  wakeWorker();
+}
+
+class JobLostError extends Error {
+  constructor(job: Job) {
+    super(`Job ${job.id} (${job.type}) attempt ${job.attempts} was treated as stale and no longer holds the job; stopping it`);
+  }
+}
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+function wakeWorker(): void {
+  if (!started) return;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+  fillSlots().catch(error => console.error('Error polling job queue:', error));
+}
+
+// The poll timer is re-armed even when claiming fails, so a brief database error doesn't stop the worker
+async function fillSlots(): Promise<void> {
+  try {
+    while (running < CONCURRENCY) {
+      running++;
+      let job: Job | undefined;
+      try {
+        job = await storage.claimNextJob();
+      } finally {
+        if (!job) running--;
+      }
+      if (!job) break;
+
+      runJob(job).finally(() => {
+        running--;
+        wakeWorker();
+      });
+    }
+  } finally {
+    if (!pollTimer) {
+      pollTimer = setTimeout(() => {
+        pollTimer = null;
+        wakeWorker();
+      }, POLL_INTERVAL_MS);
+      pollTimer.unref();
+    }
+  }
+}
+
+async function runJob(job: Job): Promise<void> {
+  const handler = handlers[job.type as JobType];
+  if (!handler) {
+    await failJob({ ...job, attempts: job.maxAttempts }, new Error(`No handler for job type "${job.type}"`));
+    return;
+  }
+
+  // An attempt that was given up on as stale stops at its next progress report instead of racing the new one
+  const context: JobContext = {
+    reportProgress: async (progress, step) => {
+      const updated = await storage.updateJobAttempt(job, {
+        progress: Math.max(0, Math.min(100, Math.round(progress))),
+        step: step ?? null,
+        lockedAt: new Date(),
+      });
+      if (!updated) throw new JobLostError(job);
+    },
+  };
+
+  try {
+    await handler.run(job, context);
+    const completed = await storage.updateJobAttempt(job, {
+      status: 'completed',
+      progress: 100,
+      step: null,
+      lockedAt: null,
+      lockToken: null,
+      completedAt: new Date(),
+    });
+    if (!completed) console.error(new JobLostError(job).message);
+  } catch (error) {
+    await failJob(job, error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+// Schedules another attempt with backoff, or dead-letters the job once its attempts are used up. Nothing is
+// recorded when the attempt no longer holds the job, e.g. because it was already re-queued as stale.
+async function failJob(job: Job, error: Error): Promise<void> {
+  try {
+    if (job.attempts < job.maxAttempts) {
+      const delay = getRetryDelay(job.attempts);
+      const requeued = await storage.updateJobAttempt(job, {
+        status: 'queued',
+        runAt: new Date(Date.now() + delay),
+        lockedAt: null,
+        lockToken: null,
+        lastError: error.message,
+      });
+      if (requeued) {
+        console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts} of ${job.maxAttempts}, retrying in ${Math.round(delay / 1000)}s:`, error);
+      } else {
+        console.error(new JobLostError(job).message);
+      }
+      return;
+    }
+
+    const dead = await storage.updateJobAttempt(job, {
+      status: 'dead',
+      lockedAt: null,
+      lockToken: null,
+      lastError: error.message,
+      completedAt: new Date(),
+    });
+    if (!dead) {
+      console.error(new JobLostError(job).message);
+      return;
+    }
+    console.error(`Job ${job.id} (${job.type}) failed after ${job.attempts} attempts:`, error);
+    const handler = handlers[job.type as JobType];
+    if (handler?.onDead) {
+      await handler.onDead(dead, error);
+    }
+  } catch (updateError) {
+    console.error(`Error recording failure of job ${job.id}:`, updateError);
+  }
+}
+
+async function runMaintenance(): Promise<void> {
+  try {
+    const stale = await storage.getStaleJobs(new Date(Date.now() - LOCK_TIMEOUT_MS));
+    for (const job of stale) {
+      await failJob(job, new Error('The job was interrupted, e.g. by a server restart'));
+    }
+    if (stale.length > 0) wakeWorker();
+
+    await storage.deleteCompletedJobs(new Date(Date.now() - COMPLETED_RETENTION_MS));
+  } catch (error) {
+    console.error('Error maintaining job queue:', error);
+  }
+}
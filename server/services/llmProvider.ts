@@ -0,0 +1,294 @@
+import OpenAI from "openai";
+
+// Provider-neutral chat completion types shared by every AI service
+export type LLMRole = "system" | "user" | "assistant" | "tool";
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // raw JSON string as produced by the model
+}
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+  toolCalls?: LLMToolCall[]; // set on assistant messages that requested tools
+  toolCallId?: string; // set on tool result messages
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON schema
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  responseFormat?: "text" | "json";
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMCompletionResult {
+  content: string;
+  toolCalls: LLMToolCall[];
+}
+
+export type LLMStreamChunk =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; toolCall: LLMToolCall };
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+  // Reports text deltas as they are generated and each tool call once its arguments are complete,
+  // then resolves with the same result complete() would have returned
+  stream(request: LLMCompletionRequest, onChunk: (chunk: LLMStreamChunk) => void): Promise<LLMCompletionResult>;
+}
+
+export interface OpenAICompatibleOptions {
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+  supportsJsonMode?: boolean; // many local servers ignore or reject response_format
+}
+
+// Adapter for any endpoint that speaks the OpenAI chat completions API (Ollama, LM Studio, vLLM, llama.cpp server...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string = "openai-compatible";
+  readonly model: string;
+  protected client: OpenAI;
+  private supportsJsonMode: boolean;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.model = options.model;
+    this.supportsJsonMode = options.supportsJsonMode ?? false;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const wantsJson = request.responseFormat === "json";
+    const response = await this.client.chat.completions.create(this.buildParams(request));
+
+    const message = response.choices[0]?.message;
+    const toolCalls: LLMToolCall[] = [];
+    for (const toolCall of message?.tool_calls || []) {
+      if (toolCall.type === "function") {
+        toolCalls.push({
+          id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: toolCall.function.arguments || "{}",
+        });
+      }
+    }
+
+    return {
+      content: wantsJson ? extractJsonObject(message?.content || "") : message?.content || "",
+      toolCalls,
+    };
+  }
+
+  async stream(request: LLMCompletionRequest, onChunk: (chunk: LLMStreamChunk) => void): Promise<LLMCompletionResult> {
+    const wantsJson = request.responseFormat === "json";
+    const stream = await this.client.chat.completions.create({ ...this.buildParams(request), stream: true });
+
+    let content = "";
+    // Tool call ids, names and arguments arrive in fragments keyed by the call's index
+    const partialCalls: LLMToolCall[] = [];
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+      if (delta.content) {
+        content += delta.content;
+        onChunk({ type: "text", text: delta.content });
+      }
+      for (const call of delta.tool_calls || []) {
+        const partial = partialCalls[call.index] || (partialCalls[call.index] = { id: "", name: "", arguments: "" });
+        if (call.id) partial.id = call.id;
+        if (call.function?.name) partial.name += call.function.name;
+        if (call.function?.arguments) partial.arguments += call.function.arguments;
+      }
+    }
+
+    const toolCalls = partialCalls
+      .filter(Boolean)
+      .map(call => ({ ...call, arguments: call.arguments || "{}" }));
+    toolCalls.forEach(toolCall => onChunk({ type: "tool_call", toolCall }));
+
+    return {
+      content: wantsJson ? extractJsonObject(content) : content,
+      toolCalls,
+    };
+  }
+
+  private buildParams(request: LLMCompletionRequest): OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming {
+    const wantsJson = request.responseFormat === "json";
+    const messages = request.messages.map(toOpenAIMessage);
+
+    // Without native JSON mode, ask for JSON in the prompt instead
+    if (wantsJson && !this.supportsJsonMode) {
+      messages.push({ role: "system", content: "Respond with a single valid JSON object and nothing else." });
+    }
+
+    return {
+      model: this.model,
+      messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(wantsJson && this.supportsJsonMode ? { response_format: { type: "json_object" as const } } : {}),
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map(tool => ({
+              type: "function" as const,
+              function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+              },
+            })),
+            tool_choice: "auto" as const,
+          }
+        : {}),
+    };
+  }
+}
+
+// Hosted OpenAI API
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  readonly name = "openai";
+
+  constructor(options: { apiKey: string; model: string }) {
+    super({ ...options, supportsJsonMode: true });
+  }
+}
+
+export type StubResponder = (request: LLMCompletionRequest) => LLMCompletionResult;
+
+// Deterministic offline provider for tests and air-gapped machines.
+// By default it echoes the last user message and answers JSON requests with "{}".
+// A user message of the form `/tool <name> {json}` produces that tool call, so tool flows can be exercised without a model;
+// the following step echoes the tool results.
+export class StubProvider implements LLMProvider {
+  readonly name = "stub";
+  readonly model = "stub";
+  private responder: StubResponder;
+
+  constructor(responder: StubResponder = defaultStubResponder) {
+    this.responder = responder;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    return this.responder(request);
+  }
+
+  // Replays the scripted response word by word so streaming clients see incremental output
+  async stream(request: LLMCompletionRequest, onChunk: (chunk: LLMStreamChunk) => void): Promise<LLMCompletionResult> {
+    const result = this.responder(request);
+    for (const piece of result.content.match(/\S+\s*|\s+/g) || []) {
+      onChunk({ type: "text", text: piece });
+    }
+    result.toolCalls.forEach(toolCall => onChunk({ type: "tool_call", toolCall }));
+    return result;
+  }
+}
+
+function defaultStubResponder(request: LLMCompletionRequest): LLMCompletionResult {
+  if (request.responseFormat === "json") {
+    return { content: "{}", toolCalls: [] };
+  }
+
+  // After tool calls, answer with their results instead of calling the tool again
+  const lastMessage = request.messages[request.messages.length - 1];
+  if (lastMessage?.role === "tool") {
+    const results = request.messages.filter(msg => msg.role === "tool").map(msg => msg.content);
+    return { content: `Tool results: ${results.join(", ")}`, toolCalls: [] };
+  }
+
+  const lastUserMessage = [...request.messages].reverse().find(msg => msg.role === "user");
+  const text = lastUserMessage?.content.trim() || "";
+  const toolMatch = text.match(/^\/tool\s+(\w+)\s*(\{[\s\S]*\})?$/);
+
+  if (toolMatch && request.tools?.some(tool => tool.name === toolMatch[1])) {
+    return {
+      content: "",
+      toolCalls: [{ id: "stub-call-1", name: toolMatch[1], arguments: toolMatch[2] || "{}" }],
+    };
+  }
+
+  return {
+    content: text ? `Offline assistant received: "${text}"` : "Offline assistant is running without a language model.",
+    toolCalls: [],
+  };
+}
+
+function toOpenAIMessage(message: LLMMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+  if (message.role === "tool") {
+    return { role: "tool", content: message.content, tool_call_id: message.toolCallId || "" };
+  }
+  if (message.role === "assistant" && message.toolCalls?.length) {
+    return {
+      role: "assistant",
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: "function" as const,
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+// Local models often wrap JSON in prose or code fences; keep only the outermost object
+function extractJsonObject(content: string): string {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start === -1 || end <= start) return content;
+  return content.slice(start, end + 1);
+}
+
+let activeProvider: LLMProvider | null = null;
+
+// Provider selection:
+//   LLM_PROVIDER=openai (default when OPENAI_API_KEY is set) | local | stub (default otherwise)
+//   LLM_MODEL overrides the model name, LLM_BASE_URL / LLM_API_KEY configure the local endpoint
+export function createLLMProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const providerName = env.LLM_PROVIDER || (env.OPENAI_API_KEY ? "openai" : "stub");
+
+  switch (providerName) {
+    case "openai":
+      return new OpenAIProvider({
+        apiKey: env.OPENAI_API_KEY || "sk-placeholder",
+        model: env.LLM_MODEL || "gpt-4o-mini",
+      });
+    case "local":
+      return new OpenAICompatibleProvider({
+        apiKey: env.LLM_API_KEY || "not-needed",
+        baseURL: env.LLM_BASE_URL || "http://localhost:11434/v1",
+        model: env.LLM_MODEL || "llama3.1",
+        supportsJsonMode: env.LLM_JSON_MODE === "true",
+      });
+    case "stub":
+      return new StubProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}". Expected openai, local or stub.`);
+  }
+}
+
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProviderFromEnv();
+    console.log(`Using LLM provider "${activeProvider.name}" (model: ${activeProvider.model})`);
+  }
+  return activeProvider;
+}
+
+// Replace the process-wide provider, e.g. with a scripted StubProvider in tests
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
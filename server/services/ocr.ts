@@ -0,0 +1,73 @@
+import path from 'path';
+import { createRequire } from 'module';
+import { createWorker, OEM, type Worker } from 'tesseract.js';
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-100, mean word confidence reported by tesseract
+}
+
+// Raw pixels as decoded by pdf.js: 1 = 1-bit grayscale (0 is black), 2 = RGB, 3 = RGBA
+export interface RawImage {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+let workerPromise: Promise<Worker> | null = null;
+
+// OCR runs locally with tesseract.js (WebAssembly). English data ships with @tesseract.js-data/eng;
+// set OCR_LANG (e.g. "eng+deu") and OCR_LANG_PATH to a folder of *.traineddata.gz files for other languages.
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    const lang = process.env.OCR_LANG || 'eng';
+    workerPromise = createWorker(lang, OEM.LSTM_ONLY, {
+      langPath: process.env.OCR_LANG_PATH || bundledLanguagePath(),
+      gzip: true,
+      cacheMethod: 'none', // read the data in place instead of caching copies in the working directory
+    });
+    workerPromise.catch(() => {
+      workerPromise = null;
+    });
+  }
+  return workerPromise;
+}
+
+function bundledLanguagePath(): string {
+  const require = createRequire(import.meta.url);
+  return path.join(path.dirname(require.resolve('@tesseract.js-data/eng/package.json')), '4.0.0');
+}
+
+// Accepts encoded images (PNG, JPEG, PNM...)
+export async function recognizeImage(image: Buffer): Promise<OcrResult> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image);
+  return { text: data.text.trim(), confidence: Math.round(data.confidence) };
+}
+
+// Encodes decoded pixels as PNM, which tesseract reads without any image codec
+export function encodeRawImage(image: RawImage): Buffer {
+  const { width, height, kind, data } = image;
+
+  if (kind === 1) {
+    const rowBytes = Math.ceil(width / 8);
+    const pixels = Buffer.alloc(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        pixels[y * width + x] = bit ? 255 : 0;
+      }
+    }
+    return Buffer.concat([Buffer.from(`P5\n${width} ${height}\n255\n`), pixels]);
+  }
+
+  const channels = kind === 3 ? 4 : 3;
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    pixels[i * 3] = data[i * channels];
+    pixels[i * 3 + 1] = data[i * channels + 1];
+    pixels[i * 3 + 2] = data[i * channels + 2];
+  }
+  return Buffer.concat([Buffer.from(`P6\n${width} ${height}\n255\n`), pixels]);
+}
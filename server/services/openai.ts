@@ -1,9 +1,11 @@
-import OpenAI from "openai";
-
-// Updated to use "gpt-4o-mini" as requested by user for cost efficiency
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || "sk-placeholder"
-});
+import { getLLMProvider, type LLMToolDefinition, type LLMToolCall, type LLMMessage, type LLMCompletionRequest, type LLMCompletionResult, type LLMStreamChunk } from "./llmProvider";
+import { getGoalWindow } from "@shared/goalWindow";
+import { formatMoney } from "@shared/currency";
+import { describeAction, type AIAction } from "./actionExecutor";
+import { CHAT_QUERY_TOOLS, isQueryTool } from "./chatQueries";
+import { describeTablesForAnalysis } from "./spreadsheetParser";
+import type { FinancialTotal } from "../storage";
+import type { DocumentTable } from "@shared/schema";
 
 export interface DocumentSummary {
   summary: string;
@@ -18,12 +20,16 @@ export interface BusinessInsight {
   confidence: number;
 }
 
-export async function summarizeDocument(content: string, filename: string): Promise<DocumentSummary> {
+// Spreadsheets are described table by table (column statistics and sample rows) instead of as flat text
+export async function summarizeDocument(content: string, filename: string, tables?: DocumentTable[] | null): Promise<DocumentSummary> {
   const prompt = `
     Analyze the following business document and provide a comprehensive summary with insights.
     
     Document filename: ${filename}
-    
+    ${tables?.length ? `
+    This document is a spreadsheet. Reason over its rows and columns: compare periods and categories,
+    point out the largest items, totals, trends and anything that looks unusual, and quote figures from the tables.
+    ` : ''}    
     Please provide your analysis in JSON format with the following structure:
     {
       "summary": "A concise summary of the document (2-3 sentences)",
@@ -46,13 +52,11 @@ export async function summarizeDocument(content: string, filename: string): Prom
     - Strategic recommendations
     - Operational improvements
     
-    Document content:
-    ${content}
+    ${tables?.length ? `Tables:\n${describeTablesForAnalysis(tables)}` : `Document content:\n${content}`}
   `;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini", // using gpt-4o-mini as requested by user
+    const response = await getLLMProvider().complete({
       messages: [
         {
           role: "system",
@@ -63,11 +67,11 @@ export async function summarizeDocument(content: string, filename: string): Prom
           content: prompt
         }
       ],
-      response_format: { type: "json_object" },
-      max_tokens: 1500,
+      responseFormat: "json",
+      maxTokens: 1500,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const result = JSON.parse(response.content || '{}');
     
     return {
       summary: result.summary || "Unable to generate summary",
@@ -75,7 +79,7 @@ export async function summarizeDocument(content: string, filename: string): Prom
       insights: result.insights || []
     };
   } catch (error) {
-    console.error('OpenAI API error:', error);
+    console.error('LLM provider error:', error);
     throw new Error(`Failed to analyze document: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
@@ -95,8 +99,7 @@ export async function generateGoalRecommendations(goals: string[], documentConte
   `;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini", // using gpt-4o-mini as requested by user
+    const response = await getLLMProvider().complete({
       messages: [
         {
           role: "system",
@@ -107,30 +110,65 @@ export async function generateGoalRecommendations(goals: string[], documentConte
           content: prompt
         }
       ],
-      response_format: { type: "json_object" },
-      max_tokens: 800,
+      responseFormat: "json",
+      maxTokens: 800,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const result = JSON.parse(response.content || '{}');
     return result.recommendations || [];
   } catch (error) {
-    console.error('OpenAI API error:', error);
+    console.error('LLM provider error:', error);
     throw new Error(`Failed to generate recommendations: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+// How many tasks, documents and events are listed in the chat prompt before the model has to query for more
+const PROMPT_LIST_LIMIT = 10;
+
+// Upper bound on model calls per chat reply, so a model that keeps calling tools cannot loop forever
+export const MAX_AGENT_STEPS = 5;
+
+export interface ChatResponseOptions {
+  // Runs one tool call and returns the result the model sees; reasoning is the text the model sent with the call
+  executeTool: (toolCall: LLMToolCall, reasoning?: string) => Promise<Record<string, any>>;
+  onChunk?: (chunk: LLMStreamChunk) => void; // streams the reply instead of waiting for each full completion
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  items.forEach(item => {
+    counts[key(item)] = (counts[key(item)] || 0) + 1;
+  });
+  return counts;
+}
+
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts).map(([key, count]) => `${count} ${key.replace('_', ' ')}`).join(', ');
+}
+
+export function parseToolArguments(args: string): Record<string, any> | null {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
 export async function generateChatResponse(
   messages: Array<{role: string; content: string}>,
-  contextData?: {
+  contextData: {
     tasks?: Array<any>;
     goals?: Array<any>;
     documents?: Array<any>;
     insights?: Array<any>;
     calendarEvents?: Array<any>;
-    financialRecords?: Array<any>;
+    financialTotals?: FinancialTotal[];
+    baseCurrency?: string; // currency of the financial totals and goal targets
     businessContexts?: Array<any>;
-  }
-): Promise<{ response: string; actions?: any[] }> {
+  },
+  options: ChatResponseOptions
+): Promise<{ response: string; actions: AIAction[]; steps: number }> {
   try {
     let systemMessage = `You are an AI business assistant with the ability to update tasks and goals. Help users with business analysis, planning, and decision-making. Provide clear, actionable advice based on their questions and any document context they provide.
 
@@ -154,11 +192,14 @@ FUNCTION CALLING REQUIREMENTS:
   * update_task_status - Update task status (pending, in_progress, completed)
   * create_task - Create new tasks (requires: title, optional: priority, dueDate)
   * update_goal_progress - Update goal progress percentage
-  * create_goal - Create new goals (requires: title, type, category, optional: targetDate, targetAmount)
+  * create_goal - Create new goals (requires: title, type, category, optional: startDate, targetDate, period, targetAmount, financialCategories)
   * create_calendar_event - Create calendar events (requires: title, startDate, endDate, optional: description, allDay)
   * update_calendar_event - Update calendar events (requires: eventId, optional: title, description, completed, dates)
   * create_financial_record - Create financial records (requires: type, category, amount, date, optional: description)
   * update_financial_record - Update financial records (requires: recordId, optional: type, category, amount, date, description)
+- Changes may be queued for the user's approval before they take effect, so describe them as proposed changes rather than completed ones
+- After each function call you receive its result (applied, pending_approval, no_change or failed). You may call further functions based on those results, for example to correct a failed call
+- Your final answer must reflect those results: say which changes were applied, which are waiting for approval, and tell the user plainly about any that failed and why
 
 WHEN TO CALL FUNCTIONS VS ASK FOR CLARIFICATION:
 - Call update functions immediately when user provides clear update instructions
@@ -195,115 +236,112 @@ PROGRESS CALCULATION RULES:
 - Always call the function immediately after calculating progress
 
 GOAL IDENTIFICATION:
-- Use the exact goal ID number from the goals list above
-- Match goals by their title text to find the correct ID`;
+- Use the exact goal ID number from the goals list below
+- Match goals by their title text to find the correct ID; call find_goals (or find_tasks for tasks) when the item is not listed`;
     
-    // Add context data to system message if available
+    // The prompt carries a compact summary; details are fetched with the read-only query tools
     if (contextData) {
-      systemMessage += "\n\nYou have access to the following business data:";
+      const now = new Date();
+      systemMessage += "\n\nYou have access to the following business data summary. Use the lookup functions (search_financial_records, summarize_financials_by_month, find_tasks, find_goals, find_calendar_events, search_documents) for anything not listed here:";
       
       if (contextData.tasks?.length) {
-        systemMessage += `\n\nTasks (${contextData.tasks.length} total):\n`;
-        contextData.tasks.forEach((task, index) => {
-          systemMessage += `${index + 1}. ID: ${task.id} - "${task.title}" - ${task.status} (Priority: ${task.priority})`;
-          if (task.description) systemMessage += ` - ${task.description}`;
-          if (task.dueDate) systemMessage += ` - Due: ${new Date(task.dueDate).toLocaleDateString()}`;
-          systemMessage += "\n";
-        });
+        const statusCounts = countBy(contextData.tasks, task => task.status);
+        systemMessage += `\n\nTasks (${contextData.tasks.length} total: ${formatCounts(statusCounts)})`;
+        const openTasks = contextData.tasks
+          .filter(task => task.status !== 'completed')
+          .sort((a, b) => (a.dueDate ? new Date(a.dueDate).getTime() : Infinity) - (b.dueDate ? new Date(b.dueDate).getTime() : Infinity))
+          .slice(0, PROMPT_LIST_LIMIT);
+        if (openTasks.length > 0) {
+          systemMessage += `\nOpen tasks due soonest:\n`;
+          openTasks.forEach((task, index) => {
+            systemMessage += `${index + 1}. ID: ${task.id} - "${task.title}" - ${task.status} (Priority: ${task.priority})`;
+            if (task.dueDate) systemMessage += ` - Due: ${new Date(task.dueDate).toLocaleDateString()}`;
+            systemMessage += "\n";
+          });
+        }
       }
       
       if (contextData.goals?.length) {
-        systemMessage += `\n\nGoals (${contextData.goals.length} total):\n`;
-        contextData.goals.forEach((goal, index) => {
-          systemMessage += `${index + 1}. ID: ${goal.id} - "${goal.title}" - ${goal.status} (Progress: ${goal.progress}%, Target: ${goal.targetDate ? new Date(goal.targetDate).toLocaleDateString() : 'Not set'})`;
-          if (goal.description) systemMessage += ` - ${goal.description}`;
-          systemMessage += "\n";
-        });
-        
-        // Check for revenue-related goals
-        const revenueGoals = contextData.goals.filter(goal => 
-          goal.title.toLowerCase().includes('revenue') || 
-          goal.title.toLowerCase().includes('sales') ||
-          goal.title.toLowerCase().includes('income') ||
-          goal.title.toLowerCase().includes('400k') ||
-          goal.description?.toLowerCase().includes('revenue') ||
-          goal.description?.toLowerCase().includes('sales')
-        );
-        
-        if (revenueGoals.length > 0) {
-          systemMessage += `\nRevenue-Related Goals Found:\n`;
-          revenueGoals.forEach((goal, index) => {
-            systemMessage += `${index + 1}. "${goal.title}" - Target: ${goal.targetDate ? new Date(goal.targetDate).toLocaleDateString() : 'Not set'}, Progress: ${goal.progress}%\n`;
-            if (goal.description) systemMessage += `   Description: ${goal.description}\n`;
+        const activeGoals = contextData.goals.filter(goal => goal.status === 'active');
+        systemMessage += `\n\nGoals (${contextData.goals.length} total, ${activeGoals.length} active)`;
+        if (activeGoals.length > 0) {
+          systemMessage += `\nActive goals:\n`;
+          activeGoals.slice(0, PROMPT_LIST_LIMIT * 2).forEach((goal, index) => {
+            systemMessage += `${index + 1}. ID: ${goal.id} - "${goal.title}" (Progress: ${goal.progress}%, Target: ${goal.targetAmount ? `${formatMoney(goal.targetAmount, contextData.baseCurrency)} ` : ''}${goal.targetDate ? `by ${new Date(goal.targetDate).toLocaleDateString()}` : 'no date'}, Measured: ${getGoalWindow(goal).label}${goal.financialCategories?.length ? `, Categories: ${goal.financialCategories.join(', ')}` : ''})`;
+            systemMessage += "\n";
           });
         }
       }
       
       if (contextData.documents?.length) {
-        systemMessage += `\n\nRecent Documents (${contextData.documents.length} total):\n`;
-        contextData.documents.forEach((doc, index) => {
-          systemMessage += `${index + 1}. ${doc.filename} - ${doc.status} (${new Date(doc.createdAt).toLocaleDateString()})`;
-          if (doc.summary) systemMessage += ` - ${doc.summary.substring(0, 100)}...`;
-          systemMessage += "\n";
-        });
+        systemMessage += `\n\nDocuments (${contextData.documents.length} total, most recent first):\n`;
+        [...contextData.documents]
+          .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime())
+          .slice(0, PROMPT_LIST_LIMIT)
+          .forEach((doc, index) => {
+            systemMessage += `${index + 1}. ID: ${doc.id} - ${doc.originalName || doc.filename} - ${doc.status} (${new Date(doc.uploadedAt).toLocaleDateString()})`;
+            if (doc.summary) systemMessage += ` - ${doc.summary.substring(0, 100)}...`;
+            systemMessage += "\n";
+          });
+        systemMessage += "To answer questions about what a document says, call search_documents and base the answer on the returned passages. Cite every passage you use as [filename, passage N], and say so when no passage answers the question.\n";
       }
       
       if (contextData.insights?.length) {
-        systemMessage += `\n\nAI Insights (${contextData.insights.length} total):\n`;
-        contextData.insights.forEach((insight, index) => {
+        systemMessage += `\n\nRecent AI Insights (${contextData.insights.length} total):\n`;
+        contextData.insights.slice(-5).forEach((insight, index) => {
           systemMessage += `${index + 1}. ${insight.type}: ${insight.title} - ${insight.content.substring(0, 100)}...`;
           systemMessage += "\n";
         });
       }
       
       if (contextData.calendarEvents?.length) {
-        systemMessage += `\n\nCalendar Events (${contextData.calendarEvents.length} total):\n`;
-        contextData.calendarEvents.forEach((event, index) => {
-          systemMessage += `${index + 1}. ${event.title} - ${new Date(event.startDate).toLocaleDateString()} to ${new Date(event.endDate).toLocaleDateString()}`;
-          if (event.description) systemMessage += ` - ${event.description}`;
-          systemMessage += "\n";
-        });
+        const upcomingEvents = contextData.calendarEvents
+          .filter(event => new Date(event.endDate) >= now)
+          .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+        systemMessage += `\n\nCalendar Events (${contextData.calendarEvents.length} total, ${upcomingEvents.length} upcoming)`;
+        if (upcomingEvents.length > 0) {
+          systemMessage += `\nNext events:\n`;
+          upcomingEvents.slice(0, PROMPT_LIST_LIMIT).forEach((event, index) => {
+            systemMessage += `${index + 1}. ID: ${event.id} - ${event.title} - ${new Date(event.startDate).toLocaleDateString()} to ${new Date(event.endDate).toLocaleDateString()}`;
+            systemMessage += "\n";
+          });
+        }
       }
       
-      if (contextData.financialRecords?.length) {
-        systemMessage += `\n\nFinancial Records (${contextData.financialRecords.length} total):\n`;
-        
-        // Calculate totals for context
-        const revenueRecords = contextData.financialRecords.filter(record => record.type === 'revenue');
-        const expenseRecords = contextData.financialRecords.filter(record => record.type === 'expense');
-        const otherRecords = contextData.financialRecords.filter(record => record.type === 'other');
+      if (contextData.financialTotals?.length) {
+        const totalFor = (type: string) => contextData.financialTotals!.find(total => total.type === type);
+        const recordCount = contextData.financialTotals.reduce((sum, total) => sum + total.count, 0);
+        const firstDates = contextData.financialTotals.map(total => total.firstDate).filter((date): date is Date => !!date);
+        const lastDates = contextData.financialTotals.map(total => total.lastDate).filter((date): date is Date => !!date);
         
-        // Financial amounts are stored in cents in the database, convert to dollars
-        const totalRevenue = revenueRecords.reduce((sum, record) => sum + (record.amount / 100), 0);
-        const totalExpenses = expenseRecords.reduce((sum, record) => sum + (record.amount / 100), 0);
-        const totalOther = otherRecords.reduce((sum, record) => sum + (record.amount / 100), 0);
+        // Totals are in cents of the base currency; records in other currencies were converted when stored
+        const baseCurrency = contextData.baseCurrency || 'USD';
+        const totalRevenue = totalFor('revenue')?.total || 0;
+        const totalExpenses = totalFor('expense')?.total || 0;
+        const totalOther = totalFor('other')?.total || 0;
         const netProfit = totalRevenue - totalExpenses;
+        const unconverted = contextData.financialTotals.reduce((sum, total) => sum + total.unconverted, 0);
         
-        systemMessage += `\nFinancial Summary:\n`;
-        systemMessage += `- Total Revenue: $${totalRevenue.toLocaleString()}\n`;
-        systemMessage += `- Total Expenses: $${totalExpenses.toLocaleString()}\n`;
-        systemMessage += `- Other (Investments/Funding): $${totalOther.toLocaleString()}\n`;
-        systemMessage += `- Net Profit: $${netProfit.toLocaleString()}\n`;
-        
-        systemMessage += `\nRecent Financial Records:\n`;
-        contextData.financialRecords
-          .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-          .slice(0, 10)
-          .forEach((record, index) => {
-            // Convert cents to dollars for display
-            const amountInDollars = record.amount / 100;
-            systemMessage += `${index + 1}. ${record.type.toUpperCase()} - ${record.category} - $${amountInDollars.toLocaleString()} (${new Date(record.date).toLocaleDateString()})`;
-            if (record.description) systemMessage += ` - ${record.description}`;
-            systemMessage += "\n";
-          });
+        systemMessage += `\n\nFinancial Summary (${recordCount} records`;
+        if (firstDates.length > 0 && lastDates.length > 0) {
+          systemMessage += ` from ${new Date(Math.min(...firstDates.map(date => date.getTime()))).toLocaleDateString()} to ${new Date(Math.max(...lastDates.map(date => date.getTime()))).toLocaleDateString()}`;
+        }
+        systemMessage += `, all time, in ${baseCurrency}):\n`;
+        systemMessage += `- Total Revenue: ${formatMoney(totalRevenue, baseCurrency)}\n`;
+        systemMessage += `- Total Expenses: ${formatMoney(totalExpenses, baseCurrency)}\n`;
+        systemMessage += `- Other (Investments/Funding): ${formatMoney(totalOther, baseCurrency)}\n`;
+        systemMessage += `- Net Profit: ${formatMoney(netProfit, baseCurrency)}\n`;
+        if (unconverted > 0) {
+          systemMessage += `- ${unconverted} record(s) in other currencies are left out of these totals until an exchange rate for them is added\n`;
+        }
       }
       
-      systemMessage += "\n\nIMPORTANT: You have access to complete financial records data and goals above. When users ask about revenue, growth rates, or financial performance:\n";
-      systemMessage += "1. Use the financial data provided above for current revenue totals\n";
+      systemMessage += "\n\nIMPORTANT: When users ask about revenue, growth rates, or financial performance:\n";
+      systemMessage += "1. Use the financial summary above for all-time totals and call search_financial_records or summarize_financials_by_month for specific periods, categories or individual records\n";
       systemMessage += "2. Reference revenue-related goals for target amounts and dates\n";
       systemMessage += "3. Calculate growth rates using both current financial data and goal targets\n";
       systemMessage += "4. For monthly growth calculations, break down quarterly goals into monthly targets\n";
-      systemMessage += "5. Never ask for information that is already available in the context data\n";
+      systemMessage += "5. Never ask for information that you can look up with the available functions\n";
       systemMessage += "6. ABSOLUTELY NO LaTeX or mathematical markup (no \\[, \\], \\(, \\), \\text{}, \\left, \\right, \\frac, etc.)\n";
       systemMessage += "7. Use ONLY plain text for calculations - Example: 'Required Growth = $400,000 - $700 = $399,300'\n";
       systemMessage += "8. For percentages use: 'Growth Rate = (399,300 ÷ 700) × 100 = 57,043%'\n";
@@ -335,326 +373,335 @@ GOAL IDENTIFICATION:
       systemMessage += `\nWhen providing business advice, recommendations, or making decisions, ALWAYS consider this business context. Reference relevant context items in your responses and tailor your advice to the specific business situation.\n`;
     }
     
-    const tools = [
+    const tools: LLMToolDefinition[] = [
+      ...CHAT_QUERY_TOOLS,
       {
-        type: "function" as const,
-        function: {
-          name: "update_task_status",
-          description: "Update the status of a specific task",
-          parameters: {
-            type: "object",
-            properties: {
-              taskId: {
-                type: "number",
-                description: "The ID of the task to update"
-              },
-              status: {
-                type: "string",
-                enum: ["pending", "in_progress", "completed"],
-                description: "The new status for the task"
-              }
-            },
-            required: ["taskId", "status"]
-          }
+        name: "update_task_status",
+        description: "Update the status of a specific task",
+        parameters: {
+          type: "object",
+          properties: {
+            taskId: {
+              type: "number",
+              description: "The ID of the task to update"
+            },
+            status: {
+              type: "string",
+              enum: ["pending", "in_progress", "completed"],
+              description: "The new status for the task"
+            }
+          },
+          required: ["taskId", "status"]
         }
       },
       {
-        type: "function" as const,
-        function: {
-          name: "create_task",
-          description: "Create a new task",
-          parameters: {
-            type: "object",
-            properties: {
-              title: {
-                type: "string",
-                description: "The title of the task"
-              },
-              description: {
-                type: "string",
-                description: "Optional description of the task"
-              },
-              priority: {
-                type: "string",
-                enum: ["low", "medium", "high"],
-                description: "Task priority level"
-              },
-              dueDate: {
-                type: "string",
-                description: "Optional due date in ISO format"
-              }
-            },
-            required: ["title"]
-          }
+        name: "create_task",
+        description: "Create a new task",
+        parameters: {
+          type: "object",
+          properties: {
+            title: {
+              type: "string",
+              description: "The title of the task"
+            },
+            description: {
+              type: "string",
+              description: "Optional description of the task"
+            },
+            priority: {
+              type: "string",
+              enum: ["low", "medium", "high"],
+              description: "Task priority level"
+            },
+            dueDate: {
+              type: "string",
+              description: "Optional due date in ISO format"
+            }
+          },
+          required: ["title"]
         }
       },
       {
-        type: "function" as const,
-        function: {
-          name: "update_goal_progress",
-          description: "Update the progress percentage of a specific goal",
-          parameters: {
-            type: "object",
-            properties: {
-              goalId: {
-                type: "number",
-                description: "The ID of the goal to update"
-              },
-              progress: {
-                type: "number",
-                minimum: 0,
-                maximum: 100,
-                description: "The new progress percentage (0-100)"
-              }
-            },
-            required: ["goalId", "progress"]
-          }
+        name: "update_goal_progress",
+        description: "Update the progress percentage of a specific goal",
+        parameters: {
+          type: "object",
+          properties: {
+            goalId: {
+              type: "number",
+              description: "The ID of the goal to update"
+            },
+            progress: {
+              type: "number",
+              minimum: 0,
+              maximum: 100,
+              description: "The new progress percentage (0-100)"
+            }
+          },
+          required: ["goalId", "progress"]
         }
       },
       {
-        type: "function" as const,
-        function: {
-          name: "create_goal",
-          description: "Create a new goal",
-          parameters: {
-            type: "object",
-            properties: {
-              title: {
-                type: "string",
-                description: "The title of the goal"
-              },
-              description: {
-                type: "string",
-                description: "Optional description of the goal"
-              },
-              type: {
-                type: "string",
-                enum: ["revenue", "expense", "other"],
-                description: "Type of goal"
-              },
-              category: {
-                type: "string",
-                description: "Category of the goal"
-              },
-              targetDate: {
-                type: "string",
-                description: "Target completion date in ISO format"
-              },
-              targetAmount: {
-                type: "number",
-                description: "Target amount in dollars (for revenue/expense goals)"
-              }
-            },
-            required: ["title", "type", "category"]
-          }
+        name: "create_goal",
+        description: "Create a new goal",
+        parameters: {
+          type: "object",
+          properties: {
+            title: {
+              type: "string",
+              description: "The title of the goal"
+            },
+            description: {
+              type: "string",
+              description: "Optional description of the goal"
+            },
+            type: {
+              type: "string",
+              enum: ["revenue", "expense", "other"],
+              description: "Type of goal"
+            },
+            category: {
+              type: "string",
+              description: "Category of the goal"
+            },
+            startDate: {
+              type: "string",
+              description: "Start of the measurement window in ISO format (fixed-date goals only)"
+            },
+            targetDate: {
+              type: "string",
+              description: "Target completion date in ISO format; also the end of the measurement window"
+            },
+            period: {
+              type: "string",
+              enum: ["none", "monthly", "quarterly", "yearly"],
+              description: "Recurring measurement period, e.g. quarterly for \"revenue per quarter\" goals. Use none for fixed dates"
+            },
+            targetAmount: {
+              type: "number",
+              description: "Target amount in the user's base currency units, not cents (for revenue/expense goals)"
+            },
+            financialCategories: {
+              type: "array",
+              items: { type: "string" },
+              description: "Financial record categories that count toward the goal, e.g. [\"Marketing\"] for \"keep marketing under $5k\". Omit to count all categories"
+            }
+          },
+          required: ["title", "type", "category"]
         }
       },
       {
-        type: "function" as const,
-        function: {
-          name: "create_calendar_event",
-          description: "Create a new calendar event",
-          parameters: {
-            type: "object",
-            properties: {
-              title: {
-                type: "string",
-                description: "The title of the event"
-              },
-              description: {
-                type: "string",
-                description: "Optional description of the event"
-              },
-              startDate: {
-                type: "string",
-                description: "Start date and time in ISO format"
-              },
-              endDate: {
-                type: "string",
-                description: "End date and time in ISO format"
-              },
-              allDay: {
-                type: "boolean",
-                description: "Whether this is an all-day event"
-              }
-            },
-            required: ["title", "startDate", "endDate"]
-          }
+        name: "create_calendar_event",
+        description: "Create a new calendar event",
+        parameters: {
+          type: "object",
+          properties: {
+            title: {
+              type: "string",
+              description: "The title of the event"
+            },
+            description: {
+              type: "string",
+              description: "Optional description of the event"
+            },
+            startDate: {
+              type: "string",
+              description: "Start date and time in ISO format"
+            },
+            endDate: {
+              type: "string",
+              description: "End date and time in ISO format"
+            },
+            allDay: {
+              type: "boolean",
+              description: "Whether this is an all-day event"
+            }
+          },
+          required: ["title", "startDate", "endDate"]
         }
       },
       {
-        type: "function" as const,
-        function: {
-          name: "update_calendar_event",
-          description: "Update an existing calendar event",
-          parameters: {
-            type: "object",
-            properties: {
-              eventId: {
-                type: "number",
-                description: "The ID of the event to update"
-              },
-              title: {
-                type: "string",
-                description: "Optional new title"
-              },
-              description: {
-                type: "string",
-                description: "Optional new description"
-              },
-              completed: {
-                type: "boolean",
-                description: "Mark event as completed or not"
-              },
-              startDate: {
-                type: "string",
-                description: "Optional new start date and time in ISO format"
-              },
-              endDate: {
-                type: "string",
-                description: "Optional new end date and time in ISO format"
-              }
-            },
-            required: ["eventId"]
-          }
+        name: "update_calendar_event",
+        description: "Update an existing calendar event",
+        parameters: {
+          type: "object",
+          properties: {
+            eventId: {
+              type: "number",
+              description: "The ID of the event to update"
+            },
+            title: {
+              type: "string",
+              description: "Optional new title"
+            },
+            description: {
+              type: "string",
+              description: "Optional new description"
+            },
+            completed: {
+              type: "boolean",
+              description: "Mark event as completed or not"
+            },
+            startDate: {
+              type: "string",
+              description: "Optional new start date and time in ISO format"
+            },
+            endDate: {
+              type: "string",
+              description: "Optional new end date and time in ISO format"
+            }
+          },
+          required: ["eventId"]
         }
       },
       {
-        type: "function" as const,
-        function: {
-          name: "create_financial_record",
-          description: "Create a new financial record",
-          parameters: {
-            type: "object",
-            properties: {
-              type: {
-                type: "string",
-                enum: ["revenue", "expense", "other"],
-                description: "Type of financial record"
-              },
-              category: {
-                type: "string",
-                description: "Category of the financial record"
-              },
-              amount: {
-                type: "number",
-                description: "Amount in dollars"
-              },
-              description: {
-                type: "string",
-                description: "Optional description"
-              },
-              date: {
-                type: "string",
-                description: "Date of the financial record in ISO format"
-              }
-            },
-            required: ["type", "category", "amount", "date"]
-          }
+        name: "create_financial_record",
+        description: "Create a new financial record",
+        parameters: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["revenue", "expense", "other"],
+              description: "Type of financial record"
+            },
+            category: {
+              type: "string",
+              description: "Category of the financial record"
+            },
+            amount: {
+              type: "number",
+              description: "Amount in currency units (not cents)"
+            },
+            currency: {
+              type: "string",
+              description: "Optional ISO currency code such as EUR or GBP; defaults to the user's base currency"
+            },
+            description: {
+              type: "string",
+              description: "Optional description"
+            },
+            date: {
+              type: "string",
+              description: "Date of the financial record in ISO format"
+            }
+          },
+          required: ["type", "category", "amount", "date"]
         }
       },
       {
-        type: "function" as const,
-        function: {
-          name: "update_financial_record",
-          description: "Update an existing financial record",
-          parameters: {
-            type: "object",
-            properties: {
-              recordId: {
-                type: "number",
-                description: "The ID of the financial record to update"
-              },
-              type: {
-                type: "string",
-                enum: ["revenue", "expense", "other"],
-                description: "Optional new type"
-              },
-              category: {
-                type: "string",
-                description: "Optional new category"
-              },
-              amount: {
-                type: "number",
-                description: "Optional new amount in dollars"
-              },
-              description: {
-                type: "string",
-                description: "Optional new description"
-              },
-              date: {
-                type: "string",
-                description: "Optional new date in ISO format"
-              }
-            },
-            required: ["recordId"]
-          }
+        name: "update_financial_record",
+        description: "Update an existing financial record",
+        parameters: {
+          type: "object",
+          properties: {
+            recordId: {
+              type: "number",
+              description: "The ID of the financial record to update"
+            },
+            type: {
+              type: "string",
+              enum: ["revenue", "expense", "other"],
+              description: "Optional new type"
+            },
+            category: {
+              type: "string",
+              description: "Optional new category"
+            },
+            amount: {
+              type: "number",
+              description: "Optional new amount in currency units (not cents)"
+            },
+            currency: {
+              type: "string",
+              description: "Optional new ISO currency code"
+            },
+            description: {
+              type: "string",
+              description: "Optional new description"
+            },
+            date: {
+              type: "string",
+              description: "Optional new date in ISO format"
+            }
+          },
+          required: ["recordId"]
         }
       }
     ];
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: systemMessage
-        },
-        ...messages.map(msg => ({
-          role: msg.role as "user" | "assistant" | "system",
-          content: msg.content
-        }))
-      ],
-      max_tokens: 1000,
-      tools: tools,
-      tool_choice: "auto"
-    });
+    const conversation: LLMMessage[] = [
+      {
+        role: "system",
+        content: systemMessage
+      },
+      ...messages.map(msg => ({
+        role: msg.role as "user" | "assistant" | "system",
+        content: msg.content
+      }))
+    ];
+    const provider = getLLMProvider();
+    const actions: AIAction[] = [];
+    const replyParts: string[] = [];
+    let steps = 0;
 
-    console.log('OpenAI API Response:', JSON.stringify(response, null, 2));
+    // Tool results go back to the model until it answers without calling tools or the step budget runs out
+    while (steps < MAX_AGENT_STEPS) {
+      steps++;
+      const isLastStep = steps === MAX_AGENT_STEPS;
+      const request: LLMCompletionRequest = {
+        messages: conversation,
+        maxTokens: 1000,
+        // The last step gets no tools so the model has to summarize what happened
+        tools: isLastStep ? undefined : tools
+      };
 
-    const choice = response.choices[0];
-    const actions: any[] = [];
-    
-    if (choice.message.tool_calls) {
-      console.log('Tool calls detected:', choice.message.tool_calls);
-      for (const toolCall of choice.message.tool_calls) {
-        if (toolCall.type === "function") {
-          const functionArgs = JSON.parse(toolCall.function.arguments || '{}');
-          
-          actions.push({
-            type: toolCall.function.name,
-            parameters: functionArgs
-          });
+      // Separate the text of consecutive steps in the streamed output
+      const streamedBefore = replyParts.length > 0;
+      let streamedText = false;
+      const onStepChunk = options.onChunk && ((chunk: LLMStreamChunk) => {
+        if (chunk.type === 'text' && !streamedText) {
+          streamedText = true;
+          if (streamedBefore) options.onChunk!({ type: 'text', text: '\n\n' });
         }
+        options.onChunk!(chunk);
+      });
+
+      let response: LLMCompletionResult;
+      try {
+        response = onStepChunk ? await provider.stream(request, onStepChunk) : await provider.complete(request);
+      } catch (error) {
+        // Once tools have run, report what was done rather than losing it
+        if (steps === 1) throw error;
+        console.error(`LLM provider error in agent step ${steps}:`, error);
+        replyParts.push(`I couldn't finish this request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        break;
+      }
+
+      console.log(`LLM Response (step ${steps}):`, JSON.stringify(response, null, 2));
+
+      if (response.content.trim()) {
+        replyParts.push(response.content.trim());
+      }
+      if (response.toolCalls.length === 0) break;
+
+      conversation.push({ role: "assistant", content: response.content, toolCalls: response.toolCalls });
+      for (const toolCall of response.toolCalls) {
+        if (!isQueryTool(toolCall.name)) {
+          actions.push({ type: toolCall.name, parameters: parseToolArguments(toolCall.arguments) || {} });
+        }
+        const result = await options.executeTool(toolCall, response.content.trim() || undefined);
+        conversation.push({ role: "tool", toolCallId: toolCall.id, content: JSON.stringify(result) });
       }
     }
 
-    let responseText = choice.message.content || "";
+    let responseText = replyParts.join("\n\n");
     
     // If there were tool calls but no text response, generate a helpful message
     if (actions.length > 0 && !responseText.trim()) {
-      const actionDescriptions = actions.map(action => {
-        if (action.type === 'update_goal_progress') {
-          return `Updated goal progress to ${action.parameters.progress}%`;
-        } else if (action.type === 'update_task_status') {
-          return `Updated task status to ${action.parameters.status}`;
-        } else if (action.type === 'create_task') {
-          return `Created new task: "${action.parameters.title}"`;
-        } else if (action.type === 'create_goal') {
-          return `Created new goal: "${action.parameters.title}"`;
-        } else if (action.type === 'create_calendar_event') {
-          return `Created calendar event: "${action.parameters.title}"`;
-        } else if (action.type === 'update_calendar_event') {
-          return `Updated calendar event`;
-        } else if (action.type === 'create_financial_record') {
-          return `Created financial record: $${action.parameters.amount} (${action.parameters.type})`;
-        } else if (action.type === 'update_financial_record') {
-          return `Updated financial record`;
-        }
-        return 'Completed action';
-      });
+      const actionDescriptions = actions.map(describeAction);
       
-      responseText = `I've successfully completed the following actions:\n\n${actionDescriptions.map(desc => `✓ ${desc}`).join('\n')}\n\nThe changes have been applied to your data. Is there anything else you'd like me to help you with?`;
+      responseText = `I've prepared the following changes:\n\n${actionDescriptions.map(desc => `• ${desc}`).join('\n')}\n\nIs there anything else you'd like me to help you with?`;
     } else if (!responseText.trim()) {
       responseText = "I apologize, but I couldn't generate a response. Please try again.";
     }
@@ -663,10 +710,11 @@ GOAL IDENTIFICATION:
 
     return {
       response: responseText,
-      actions
+      actions,
+      steps
     };
   } catch (error) {
-    console.error('OpenAI API error:', error);
+    console.error('LLM provider error:', error);
     throw new Error(`Failed to generate chat response: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
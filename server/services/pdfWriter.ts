@@ -0,0 +1,122 @@
+// A small PDF 1.4 writer for generated reports: text in the built-in Helvetica fonts plus straight lines. The
+// standard fonts are never embedded, which keeps files small and needs no font files or PDF library.
+
+export interface PdfTextOptions {
+  size?: number; // points, default 10
+  bold?: boolean;
+  align?: 'left' | 'right'; // right-aligned text ends at x
+  gray?: boolean; // secondary text
+}
+
+// Helvetica advance widths for ASCII 32-126, in thousandths of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Helvetica-Bold keeps the digit widths and runs about 8% wider on letters; close enough for layout
+const BOLD_FACTOR = 1.08;
+
+// Width of the text in points, as drawn by text()
+export function textWidth(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const width = code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+    units += bold && !/[0-9.,\-]/.test(char) ? width * BOLD_FACTOR : width;
+  }
+  return (units * size) / 1000;
+}
+
+// Cuts the text to fit the width, ending it with "..."
+export function fitText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+// Pages are drawn in order; coordinates are in points from the top-left corner of the page
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(readonly width: number, readonly height: number) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const left = options.align === 'right' ? x - textWidth(text, size, options.bold) : x;
+    this.currentPage().push(
+      `BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${options.gray ? '0.4 0.4 0.4' : '0 0 0'} rg ` +
+      `${num(left)} ${num(this.height - y)} Td (${escapeText(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.currentPage().push(
+      `${num(width)} w 0.6 0.6 0.6 RG ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) this.addPage();
+    // 1 catalog, 2 page tree, 3-4 fonts, then a page object and its content stream for each page
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+    this.pages.forEach((operations, i) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+      );
+    });
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+      offsets.push(Buffer.byteLength(pdf, 'latin1'));
+      pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+    const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.from(pdf, 'latin1');
+  }
+
+  private currentPage(): string[] {
+    if (this.pages.length === 0) this.addPage();
+    return this.pages[this.pages.length - 1];
+  }
+}
+
+// WinAnsi covers Latin-1; dashes and curly quotes get ASCII stand-ins and anything else becomes "?"
+function escapeText(text: string): string {
+  return text
+    .replace(/[–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\xFF]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
@@ -0,0 +1,140 @@
+import { storage } from "../storage";
+import type { PendingChange, PendingChangeDiff } from "@shared/schema";
+import { planAction, getActionTarget, executeAction, describeAction, type AIAction, type PlannedAction } from "./actionExecutor";
+
+export interface ProposalContext {
+  source: 'chat' | 'correlation';
+  conversationId?: number;
+  reasoning?: string; // shared reasoning when actions don't carry their own
+}
+
+export interface ProposalOutcome {
+  applied: PendingChange[];
+  proposed: PendingChange[];
+  failed: PendingChange[];
+  notes: string[];
+}
+
+// Stores AI-originated actions as proposals with a diff against the current data.
+// Action types the user opted into via autoApplyActions are applied right away (and kept as history).
+export async function proposeActions(
+  userId: string,
+  actions: Array<AIAction & { reasoning?: string }>,
+  context: ProposalContext
+): Promise<ProposalOutcome> {
+  const outcome: ProposalOutcome = { applied: [], proposed: [], failed: [], notes: [] };
+  if (actions.length === 0) return outcome;
+
+  const user = await storage.getUser(userId);
+  const autoApply = new Set(user?.autoApplyActions || []);
+
+  for (const action of actions) {
+    const { reasoning, ...rest } = action;
+    const baseChange = {
+      source: context.source,
+      conversationId: context.conversationId ?? null,
+      actionType: action.type,
+      parameters: rest.parameters || {},
+      summary: describeAction(action),
+      reasoning: reasoning || context.reasoning || null,
+    };
+
+    let planned: PlannedAction;
+    let diff: PendingChangeDiff[];
+    try {
+      planned = planAction(action);
+      const current = await getActionTarget(userId, planned);
+      if (planned.entityId !== null && !current) {
+        throw new Error(`${planned.entityType.replace('_', ' ')} ${planned.entityId} not found`);
+      }
+      diff = buildDiff(planned, current);
+    } catch (error) {
+      const failed = await storage.createPendingChange(userId, {
+        ...baseChange,
+        entityType: 'unknown',
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Invalid action',
+        resolvedAt: new Date(),
+      });
+      outcome.failed.push(failed);
+      continue;
+    }
+
+    // Updates that would not change anything are not worth a review
+    if (planned.entityId !== null && diff.length === 0) continue;
+
+    const change = await storage.createPendingChange(userId, {
+      ...baseChange,
+      entityType: planned.entityType,
+      entityId: planned.entityId,
+      diff,
+    });
+
+    if (autoApply.has(action.type)) {
+      const result = await applyPendingChange(userId, change);
+      if (result.change.status === 'applied') {
+        outcome.applied.push(result.change);
+        outcome.notes.push(...result.notes);
+      } else {
+        outcome.failed.push(result.change);
+      }
+    } else {
+      outcome.proposed.push(change);
+    }
+  }
+
+  return outcome;
+}
+
+export async function approvePendingChange(userId: string, id: number): Promise<{ change: PendingChange; notes: string[] } | undefined> {
+  const change = await storage.getPendingChange(userId, id);
+  if (!change || change.status !== 'pending') return undefined;
+  return applyPendingChange(userId, change);
+}
+
+export async function rejectPendingChange(userId: string, id: number): Promise<PendingChange | undefined> {
+  const change = await storage.getPendingChange(userId, id);
+  if (!change || change.status !== 'pending') return undefined;
+  return storage.updatePendingChange(userId, id, { status: 'rejected', resolvedAt: new Date() });
+}
+
+async function applyPendingChange(userId: string, change: PendingChange): Promise<{ change: PendingChange; notes: string[] }> {
+  try {
+    const result = await executeAction(userId, { type: change.actionType, parameters: change.parameters }, {
+      actor: change.source === 'correlation' ? 'correlation' : 'chat'
+    });
+    const applied = await storage.updatePendingChange(userId, change.id, {
+      status: 'applied',
+      entityId: result.entityId,
+      resolvedAt: new Date(),
+    });
+    console.log(`Applied ${change.source} change ${change.id}: ${change.summary}`);
+    return { change: applied || change, notes: result.notes };
+  } catch (error) {
+    console.error(`Error applying pending change ${change.id}:`, error);
+    const failed = await storage.updatePendingChange(userId, change.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Failed to apply change',
+      resolvedAt: new Date(),
+    });
+    return { change: failed || change, notes: [] };
+  }
+}
+
+function buildDiff(planned: PlannedAction, current: Record<string, any> | undefined): PendingChangeDiff[] {
+  const diff: PendingChangeDiff[] = [];
+  for (const [field, value] of Object.entries(planned.values)) {
+    const after = toDiffValue(value);
+    const before = current ? toDiffValue(current[field]) : null;
+    if (after === null && before === null) continue;
+    if (JSON.stringify(before) === JSON.stringify(after)) continue;
+    diff.push({ field, before, after });
+  }
+  return diff;
+}
+
+function toDiffValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { getLLMProvider } from "./llmProvider";
+import { storage } from "../storage";
+import type { FinancialDocumentExtraction, FinancialRecord } from "@shared/schema";
+
+// Only documents that mention one of these are sent for extraction
+const FINANCIAL_DOCUMENT_PATTERN = /\b(total|subtotal|amount due|balance due|invoice|receipt|bill|tax|vat|gst)\b/i;
+// Receipts and invoices fit comfortably; longer documents are truncated
+const MAX_EXTRACTION_CHARS = 12000;
+
+// Amounts arrive in dollars and may be sent as strings ("1,234.50")
+const dollars = z.preprocess(
+  value => (typeof value === 'string' ? parseFloat(value.replace(/[^\d.-]/g, '')) : value),
+  z.number().finite()
+);
+
+const extractionSchema = z.object({
+  isFinancialDocument: z.literal(true),
+  documentType: z.enum(['receipt', 'invoice', 'bill']),
+  direction: z.enum(['expense', 'revenue']).default('expense'),
+  vendor: z.string().nullish(),
+  documentNumber: z.string().nullish(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish().catch(null),
+  currency: z.string().nullish(),
+  category: z.string().min(1).catch('Other Expenses'),
+  lineItems: z.array(z.object({
+    description: z.string(),
+    quantity: z.number().nullish(),
+    amount: dollars,
+  })).catch([]),
+  subtotal: dollars.nullish().catch(null),
+  tax: dollars.nullish().catch(null),
+  total: dollars.refine(total => total > 0, 'Total must be positive'),
+});
+
+// Pulls vendor, date, line items, tax and total out of a receipt, invoice or bill.
+// Returns null for other documents and when the model's answer is unusable.
+export async function extractFinancialDocument(
+  content: string,
+  filename: string,
+  knownCategories: string[] = []
+): Promise<FinancialDocumentExtraction | null> {
+  if (!FINANCIAL_DOCUMENT_PATTERN.test(content)) return null;
+
+  const prompt = `
+    Decide whether the following document is a receipt, an invoice or a bill, and if so extract its details.
+
+    Document filename: ${filename}
+
+    Respond in JSON. For any other kind of document respond with {"isFinancialDocument": false}. Otherwise:
+    {
+      "isFinancialDocument": true,
+      "documentType": "receipt|invoice|bill",
+      "direction": "expense|revenue",
+      "vendor": "The other party: the seller or supplier, or the customer on an invoice the business issued",
+      "documentNumber": "Invoice or receipt number, or null",
+      "date": "yyyy-mm-dd, or null if not shown",
+      "currency": "ISO code such as USD, or null",
+      "category": "Bookkeeping category",
+      "lineItems": [{ "description": "Item", "quantity": 1, "amount": 12.5 }],
+      "subtotal": 25.0,
+      "tax": 2.0,
+      "total": 27.0
+    }
+
+    Rules:
+    - All amounts are in currency units (dollars), not cents
+    - "direction" is "revenue" only for invoices the business issued to its customers; receipts and bills are expenses
+    - Line item amounts are line totals (quantity already applied)
+    - Use null for subtotal or tax when the document does not show them
+    ${knownCategories.length > 0 ? `- Prefer one of the categories already in use: ${knownCategories.join(', ')}` : ''}
+
+    Document content:
+    ${content.slice(0, MAX_EXTRACTION_CHARS)}
+  `;
+
+  try {
+    const response = await getLLMProvider().complete({
+      messages: [
+        {
+          role: "system",
+          content: "You are a bookkeeping assistant. Extract structured data from receipts, invoices and bills exactly as written, in JSON format."
+        },
+        {
+          role: "user",
+          content: prompt
+        }
+      ],
+      responseFormat: "json",
+      temperature: 0,
+    });
+
+    const parsed = extractionSchema.safeParse(JSON.parse(response.content || '{}'));
+    if (!parsed.success) return null;
+
+    const result = parsed.data;
+    return {
+      documentType: result.documentType,
+      direction: result.direction,
+      vendor: result.vendor || null,
+      documentNumber: result.documentNumber || null,
+      date: result.date || null,
+      currency: /^[a-z]{3}$/i.test(result.currency?.trim() || '') ? result.currency!.trim().toUpperCase() : null, // symbols like "$" are ambiguous
+      category: result.category,
+      lineItems: result.lineItems.map(item => ({
+        description: item.description,
+        quantity: item.quantity ?? null,
+        amount: toCents(item.amount),
+      })),
+      subtotal: result.subtotal != null ? toCents(result.subtotal) : null,
+      tax: result.tax != null ? toCents(result.tax) : null,
+      total: toCents(result.total),
+    };
+  } catch (error) {
+    console.error('Error extracting financial document:', error);
+    return null;
+  }
+}
+
+// Creates the draft record for an extraction; the user confirms or discards it from the document view
+export async function createDraftRecords(
+  userId: string,
+  documentId: number,
+  extraction: FinancialDocumentExtraction
+): Promise<FinancialRecord[]> {
+  const label = extraction.documentType.charAt(0).toUpperCase() + extraction.documentType.slice(1);
+  const items = extraction.lineItems.map(item => item.description).filter(Boolean);
+  const description = [
+    `${label}${extraction.documentNumber ? ` #${extraction.documentNumber}` : ''}${extraction.vendor ? ` - ${extraction.vendor}` : ''}`,
+    items.length > 0 ? items.slice(0, 5).join(', ') + (items.length > 5 ? ` and ${items.length - 5} more` : '') : null,
+  ].filter(Boolean).join(': ');
+
+  const record = await storage.createFinancialRecord(userId, {
+    type: extraction.direction,
+    category: extraction.category,
+    amount: extraction.total,
+    currency: extraction.currency ?? undefined, // storage falls back to the base currency
+    taxAmount: Math.min(extraction.tax ?? 0, extraction.total),
+    description,
+    date: extraction.date || new Date().toISOString().split('T')[0],
+    documentId,
+    status: 'draft',
+  }, { actor: 'system' });
+
+  return [record];
+}
+
+function toCents(amount: number): number {
+  return Math.round(Math.abs(amount) * 100);
+}
@@ -0,0 +1,215 @@
+import { storage } from "../storage";
+import { queueFinancialCorrelation } from "./correlationEngine";
+import type { AuditContext, FinancialRecord, InsertFinancialRecord, RecurringRecord, UpcomingRecurringOccurrence } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How often the scheduler records due occurrences; a template due today is recorded within the hour
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+// Past occurrences a template may record when it is created or moved back in time (a year of daily records).
+// The scheduler also records at most this many per template per run.
+export const MAX_BACKFILL_OCCURRENCES = 366;
+
+const SCHEDULER_AUDIT: AuditContext = { actor: 'system' };
+
+type Schedule = Pick<RecurringRecord, 'rule' | 'startDate' | 'endDate'>;
+
+let started = false;
+
+// Occurrences are whole UTC days, the same way record dates entered as yyyy-mm-dd are stored
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// Monday of the date's week, as in RRULE's default WKST=MO
+function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getUTCDay() + 6) % 7));
+}
+
+function monthDate(year: number, month: number, day: number): Date {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, day === -1 ? daysInMonth : Math.min(day, daysInMonth)));
+}
+
+// Dates of the nth period (day, week, month or year) counted from the start date, in order
+function periodDates(schedule: Schedule, start: Date, period: number): Date[] {
+  const { rule } = schedule;
+  switch (rule.freq) {
+    case 'daily':
+      return [addDays(start, period)];
+    case 'weekly': {
+      const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [start.getUTCDay()];
+      const weekStart = addDays(startOfWeek(start), period * 7);
+      return Array.from(new Set(weekdays))
+        .map(weekday => addDays(weekStart, (weekday + 6) % 7))
+        .sort((a, b) => a.getTime() - b.getTime());
+    }
+    case 'monthly':
+      return [monthDate(start.getUTCFullYear(), start.getUTCMonth() + period, rule.byMonthDay ?? start.getUTCDate())];
+    case 'yearly':
+      return [monthDate(start.getUTCFullYear() + period, start.getUTCMonth(), start.getUTCDate())];
+  }
+}
+
+// Whole periods between the start date and `from`, so walking a long-running schedule skips straight ahead
+function periodsBefore(schedule: Schedule, start: Date, from: Date): number {
+  switch (schedule.rule.freq) {
+    case 'daily':
+      return Math.floor((from.getTime() - start.getTime()) / DAY_MS);
+    case 'weekly':
+      return Math.floor((startOfWeek(from).getTime() - startOfWeek(start).getTime()) / (7 * DAY_MS));
+    case 'monthly':
+      return (from.getUTCFullYear() - start.getUTCFullYear()) * 12 + from.getUTCMonth() - start.getUTCMonth();
+    case 'yearly':
+      return from.getUTCFullYear() - start.getUTCFullYear();
+  }
+}
+
+// Occurrence dates on or after `from`, in order, until the end date. Monthly days past the end of a short
+// month fall on its last day rather than being skipped, so a bill "on the 31st" still comes every month.
+export function* occurrences(schedule: Schedule, from: Date = schedule.startDate): Generator<Date> {
+  const interval = schedule.rule.interval || 1;
+  const start = startOfDay(schedule.startDate);
+  const end = schedule.endDate ? startOfDay(schedule.endDate) : null;
+  const earliest = startOfDay(from) > start ? startOfDay(from) : start;
+
+  const skipped = Math.max(0, periodsBefore(schedule, start, earliest));
+  for (let period = skipped - (skipped % interval); ; period += interval) {
+    for (const date of periodDates(schedule, start, period)) {
+      if (date < earliest) continue;
+      if (end && date > end) return;
+      yield date;
+    }
+  }
+}
+
+export function nextOccurrence(schedule: Schedule, from: Date): Date | null {
+  const next = occurrences(schedule, from).next();
+  return next.done ? null : next.value;
+}
+
+// The next occurrence still to record: the one after the last recorded occurrence, or the first one.
+// `notBefore` drops occurrences missed while a template was paused.
+export function getNextRunAt(template: Schedule & Pick<RecurringRecord, 'lastOccurrenceAt'>, notBefore?: Date): Date | null {
+  let from = template.lastOccurrenceAt ? addDays(startOfDay(template.lastOccurrenceAt), 1) : template.startDate;
+  if (notBefore && startOfDay(notBefore) > from) {
+    from = startOfDay(notBefore);
+  }
+  return nextOccurrence(template, from);
+}
+
+// Rejects schedules that would record more than MAX_BACKFILL_OCCURRENCES past occurrences at once;
+// returns the error message, or null when the backlog is small enough
+export function checkBackfill(schedule: Schedule, nextRunAt: Date | null, now: Date = new Date()): string | null {
+  if (!nextRunAt) return null;
+  const dates = occurrences(schedule, nextRunAt);
+  let due = 0;
+  for (let next = dates.next(); !next.done && next.value <= now; next = dates.next()) {
+    if (++due > MAX_BACKFILL_OCCURRENCES) {
+      return `The start date is too far in the past: at most ${MAX_BACKFILL_OCCURRENCES} past occurrences can be recorded at once`;
+    }
+  }
+  return null;
+}
+
+// Turns every due occurrence of one template into a financial record. Skipped occurrences only move the
+// schedule on; edited ones are recorded with their changes.
+export async function recordDueOccurrences(template: RecurringRecord, now: Date = new Date()): Promise<FinancialRecord[]> {
+  const records: FinancialRecord[] = [];
+  let current = template;
+
+  // Anything past the limit is left for the scheduler's next runs
+  for (let advancedCount = 0; advancedCount < MAX_BACKFILL_OCCURRENCES; advancedCount++) {
+    if (!current.active || !current.nextRunAt || current.nextRunAt > now) break;
+    const occurrence = current.nextRunAt;
+    const exception = current.exceptions?.[toDateKey(occurrence)];
+    const advanced = await storage.advanceRecurringRecord(current, {
+      nextRunAt: nextOccurrence(current, addDays(occurrence, 1)),
+      lastOccurrenceAt: occurrence,
+    }, exception?.skip ? null : {
+      type: current.type as InsertFinancialRecord['type'],
+      category: exception?.category ?? current.category,
+      amount: exception?.amount ?? current.amount,
+      currency: current.currency,
+      accountId: current.accountId,
+      description: exception?.description ?? current.description ?? undefined,
+      date: exception?.date ?? toDateKey(occurrence),
+      recurringRecordId: current.id,
+    }, SCHEDULER_AUDIT);
+    // Another server process recorded this occurrence first
+    if (!advanced) break;
+
+    if (advanced.record) records.push(advanced.record);
+    current = advanced.template;
+  }
+
+  if (records.length > 0) {
+    try {
+      await queueFinancialCorrelation(template.userId, records.map(record => record.id));
+    } catch (error) {
+      console.error('Failed to queue correlation analysis for recurring records:', error);
+    }
+  }
+  return records;
+}
+
+// Occurrences of the user's active templates due within the next `days` days, including skipped ones so they
+// can be restored; occurrences that are due but not yet recorded count as upcoming too
+export function getUpcomingOccurrences(templates: RecurringRecord[], days: number, now: Date = new Date()): UpcomingRecurringOccurrence[] {
+  const until = addDays(startOfDay(now), days);
+  const upcoming: UpcomingRecurringOccurrence[] = [];
+
+  for (const template of templates) {
+    if (!template.active || !template.nextRunAt) continue;
+    const schedule = occurrences(template, template.nextRunAt);
+    for (let next = schedule.next(); !next.done && next.value <= until; next = schedule.next()) {
+      const occurrence = next.value;
+      const occurrenceDate = toDateKey(occurrence);
+      const exception = template.exceptions?.[occurrenceDate];
+      upcoming.push({
+        recurringRecordId: template.id,
+        occurrenceDate,
+        date: exception?.date ?? occurrenceDate,
+        type: template.type,
+        category: exception?.category ?? template.category,
+        amount: exception?.amount ?? template.amount,
+        currency: template.currency,
+        description: exception?.description ?? template.description,
+        skipped: !!exception?.skip,
+        edited: !!exception && !exception.skip,
+      });
+    }
+  }
+
+  return upcoming.sort((a, b) => a.date.localeCompare(b.date) || a.recurringRecordId - b.recurringRecordId);
+}
+
+async function runScheduler(): Promise<void> {
+  try {
+    const due = await storage.getDueRecurringRecords(new Date());
+    for (const template of due) {
+      try {
+        await recordDueOccurrences(template);
+      } catch (error) {
+        console.error(`Error recording occurrences of recurring record ${template.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error running recurring record scheduler:', error);
+  }
+}
+
+export function startRecurringRecordScheduler(): void {
+  if (started) return;
+  started = true;
+
+  runScheduler();
+  setInterval(runScheduler, SCHEDULER_INTERVAL_MS).unref();
+}
@@ -0,0 +1,162 @@
+import { PdfDocument, fitText, textWidth } from "./pdfWriter";
+import type { FinancialReport, ReportChange, ReportLine } from "@shared/schema";
+
+// Landscape A4, in points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const LABEL_WIDTH = 140;
+// Report columns printed side by side; longer reports continue in further blocks
+const PDF_BLOCK_COLUMNS = 12;
+
+interface TableRow {
+  kind: 'section' | 'line' | 'total' | 'result';
+  label: string;
+  line?: ReportLine;
+}
+
+// Amounts are plain decimals in the report currency, so spreadsheets read them as numbers
+export function reportToCsv(report: FinancialReport): string {
+  const rows: string[][] = [
+    [report.title],
+    ['Currency', report.currency],
+    ['Generated', report.generatedAt],
+    ...(report.unconverted > 0 ? [['Left out (no exchange rate)', String(report.unconverted)]] : []),
+    [],
+    ['', ...headerCells(report)],
+  ];
+  for (const row of tableRows(report)) {
+    rows.push(row.line ? [row.label, ...lineCells(report, row.line, csvAmount)] : [row.label]);
+  }
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// Wide reports are printed in blocks of columns, one after the other; totals and changes close the last block
+export function reportToPdf(report: FinancialReport): Buffer {
+  const doc = new PdfDocument(PAGE_WIDTH, PAGE_HEIGHT);
+  const headers = headerCells(report);
+  const rows = tableRows(report).map(row => ({ ...row, cells: row.line ? lineCells(report, row.line, pdfAmount) : [] }));
+  const extraColumns = headers.length - report.columns.length;
+
+  const generated = new Date(report.generatedAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  const notes = [
+    `Amounts in ${report.currency}`,
+    `Change: ${report.columns[report.columns.length - 1].label} against the ${report.kind === 'balance-sheet' ? 'date' : 'period'} before`,
+    `Generated ${generated}`,
+    ...(report.unconverted > 0 ? [`${report.unconverted} left out: no exchange rate into ${report.currency}`] : []),
+  ];
+
+  for (let first = 0; first < report.columns.length; first += PDF_BLOCK_COLUMNS) {
+    const last = Math.min(first + PDF_BLOCK_COLUMNS, report.columns.length);
+    const indexes = Array.from({ length: last - first }, (_, i) => first + i);
+    if (last === report.columns.length) {
+      indexes.push(...Array.from({ length: extraColumns }, (_, i) => report.columns.length + i));
+    }
+    const size = indexes.length > 12 ? 6 : indexes.length > 8 ? 7 : 8;
+    const rowHeight = size * 1.9;
+    const columnWidth = (PAGE_WIDTH - MARGIN * 2 - LABEL_WIDTH) / indexes.length;
+    const columnRight = (position: number) => MARGIN + LABEL_WIDTH + columnWidth * (position + 1) - 2;
+    const headerLines = indexes.map(index => wrapHeader(headers[index], columnWidth - 4, size));
+    const headerHeight = rowHeight * Math.max(...headerLines.map(lines => lines.length));
+
+    let y = 0;
+    const startPage = () => {
+      doc.addPage();
+      y = MARGIN;
+      if (doc.pageCount === 1) {
+        doc.text(MARGIN, y + 14, report.title, { size: 16, bold: true });
+        y += 24;
+        doc.text(MARGIN, y + 9, fitText(notes.join('  |  '), PAGE_WIDTH - MARGIN * 2, 8), { size: 8, gray: true });
+        y += 22;
+      }
+      headerLines.forEach((lines, position) => {
+        lines.forEach((line, i) => {
+          doc.text(columnRight(position), y + size + i * rowHeight, line, { size, bold: true, align: 'right' });
+        });
+      });
+      y += headerHeight;
+      doc.line(MARGIN, y - size * 0.5, PAGE_WIDTH - MARGIN, y - size * 0.5);
+    };
+
+    startPage();
+    for (const row of rows) {
+      if (y + rowHeight > PAGE_HEIGHT - MARGIN) startPage();
+      const bold = row.kind !== 'line';
+      const indent = row.kind === 'line' ? 10 : 0;
+      if (row.kind === 'total' || row.kind === 'result') {
+        doc.line(MARGIN + LABEL_WIDTH, y - size * 0.3, PAGE_WIDTH - MARGIN, y - size * 0.3, row.kind === 'result' ? 1 : 0.5);
+      }
+      doc.text(MARGIN + indent, y + size, fitText(row.label, LABEL_WIDTH - indent - 4, size, bold), { size, bold });
+      if (row.line) {
+        indexes.forEach((index, position) => {
+          doc.text(columnRight(position), y + size, row.cells[index], { size, bold, align: 'right' });
+        });
+      }
+      y += row.kind === 'total' ? rowHeight * 1.6 : rowHeight;
+    }
+  }
+
+  return doc.toBuffer();
+}
+
+// Headers that don't fit the column go on two lines, split at the last space that makes the first line fit
+function wrapHeader(header: string, width: number, size: number): string[] {
+  if (textWidth(header, size, true) <= width) return [header];
+  const words = header.split(' ');
+  for (let i = words.length - 1; i > 0; i--) {
+    const first = words.slice(0, i).join(' ');
+    if (textWidth(first, size, true) <= width) {
+      return [first, fitText(words.slice(i).join(' '), width, size, true)];
+    }
+  }
+  return [fitText(header, width, size, true)];
+}
+
+// e.g. profit-and-loss-2025-11-to-2026-10.csv
+export function reportFilename(report: FinancialReport, extension: string): string {
+  const first = report.columns[0].key;
+  const last = report.columns[report.columns.length - 1].key;
+  return `${report.kind}-${first === last ? first : `${first}-to-${last}`}.${extension}`;
+}
+
+function tableRows(report: FinancialReport): TableRow[] {
+  const rows: TableRow[] = [];
+  for (const section of report.sections) {
+    rows.push({ kind: 'section', label: section.title });
+    rows.push(...section.lines.map(line => ({ kind: 'line' as const, label: line.label, line })));
+    rows.push({ kind: 'total', label: section.total.label, line: section.total });
+  }
+  rows.push({ kind: 'result', label: report.result.label, line: report.result });
+  return rows;
+}
+
+function headerCells(report: FinancialReport): string[] {
+  return [
+    ...report.columns.map(column => column.label),
+    ...(report.kind === 'balance-sheet' ? [] : ['Total']),
+    'Change',
+    'Change %',
+  ];
+}
+
+function lineCells(report: FinancialReport, line: ReportLine, formatAmount: (amount: number) => string): string[] {
+  const change: ReportChange | undefined = line.changes[line.changes.length - 1];
+  return [
+    ...line.amounts.map(formatAmount),
+    ...(report.kind === 'balance-sheet' ? [] : [formatAmount(line.total ?? 0)]),
+    change ? formatAmount(change.amount) : '',
+    change?.percent != null ? `${change.percent.toFixed(1)}%` : '',
+  ];
+}
+
+function csvAmount(amount: number): string {
+  return (amount / 100).toFixed(2);
+}
+
+function pdfAmount(amount: number): string {
+  return new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount / 100);
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
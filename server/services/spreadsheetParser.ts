@@ -0,0 +1,226 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import ExcelJS from 'exceljs';
+import * as XLSX from '@e965/xlsx';
+import type { DocumentTable } from '@shared/schema';
+import {
+  splitCsvRows,
+  statementFromRows,
+  suggestMapping,
+  applyMapping,
+  parseAmount,
+  parseStatementDate,
+  type ParsedStatement,
+} from './statementImporter';
+
+const readFile = promisify(fs.readFile);
+
+export const SPREADSHEET_MIME_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+  'text/csv',
+  'application/csv',
+];
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.csv'];
+
+// Rows kept per table; the text content and imports only see this many
+const MAX_TABLE_ROWS = 5000;
+// Rows shown to the model per table when summarizing, next to the column statistics
+const SUMMARY_SAMPLE_ROWS = 50;
+// Share of rows that must map to valid transactions before a table is offered for import
+const FINANCIAL_ROW_RATIO = 0.6;
+
+// Browsers report CSV files inconsistently (text/csv, application/vnd.ms-excel, ...), so the extension decides
+export function isSpreadsheet(filename: string): boolean {
+  return SPREADSHEET_EXTENSIONS.includes(path.extname(filename).toLowerCase());
+}
+
+export async function parseSpreadsheet(filePath: string): Promise<DocumentTable[]> {
+  const buffer = await readFile(filePath);
+  const extension = path.extname(filePath).toLowerCase();
+
+  let sheets: { name: string; grid: string[][] }[];
+  if (extension === '.csv') {
+    const text = buffer.toString('utf-8').replace(/^\uFEFF/, '');
+    sheets = [{ name: 'Sheet1', grid: splitCsvRows(text) }];
+  } else {
+    const workbook = new ExcelJS.Workbook();
+    // exceljs reads only .xlsx, so legacy binary .xls workbooks are converted first
+    await workbook.xlsx.load(extension === '.xls' ? convertXlsToXlsx(buffer) : buffer);
+    sheets = workbook.worksheets.map(worksheet => {
+      const grid: string[][] = [];
+      for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+        const row = worksheet.getRow(rowNumber);
+        grid.push(Array.from({ length: row.cellCount }, (_, index) => cellText(row.getCell(index + 1))));
+      }
+      return { name: worksheet.name, grid };
+    });
+  }
+
+  return sheets.flatMap(sheet => detectTables(sheet.name, sheet.grid));
+}
+
+function convertXlsToXlsx(buffer: Buffer): Buffer {
+  const workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true });
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+// Dates are rendered as yyyy-mm-dd whatever their display format, so imports never guess the day/month order
+function cellText(cell: ExcelJS.Cell): string {
+  const value = cell.type === ExcelJS.ValueType.Formula ? cell.result : cell.value;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? '' : value.toISOString().split('T')[0];
+  }
+  return cell.text ?? '';
+}
+
+// Blank rows separate tables. Within a block, rows above the first row with two or more
+// filled cells are its title; blocks without such a row are kept as single-column notes.
+function detectTables(sheet: string, grid: string[][]): DocumentTable[] {
+  const tables: DocumentTable[] = [];
+  let block: string[][] = [];
+  let pendingTitle: string[] = [];
+
+  const flush = () => {
+    if (block.length === 0) return;
+    const headerIndex = block.findIndex(row => filledCount(row) >= 2);
+    if (headerIndex === -1 || headerIndex === block.length - 1) {
+      pendingTitle.push(...block.map(row => row.filter(Boolean).join(' ')));
+    } else {
+      pendingTitle.push(...block.slice(0, headerIndex).map(row => row.filter(Boolean).join(' ')));
+      tables.push(buildTable(sheet, pendingTitle, block[headerIndex], block.slice(headerIndex + 1)));
+      pendingTitle = [];
+    }
+    block = [];
+  };
+
+  for (const rawRow of grid) {
+    const row = (rawRow || []).map(cell => String(cell ?? '').replace(/\s+/g, ' ').trim());
+    if (filledCount(row) === 0) {
+      flush();
+    } else {
+      block.push(row);
+    }
+  }
+  flush();
+
+  if (pendingTitle.length > 0) {
+    tables.push(buildTable(sheet, [], ['Notes'], pendingTitle.map(line => [line])));
+  }
+  return tables;
+}
+
+function buildTable(sheet: string, titleLines: string[], header: string[], dataRows: string[][]): DocumentTable {
+  const keptRows = dataRows.slice(0, MAX_TABLE_ROWS);
+
+  // Drop trailing columns that are empty everywhere. A loop rather than Math.max(...rows),
+  // which overflows the call stack on sheets with many rows.
+  const width = [header, ...keptRows].reduce((widest, row) => {
+    let last = row.length - 1;
+    while (last >= 0 && !row[last]) last--;
+    return Math.max(widest, last + 1);
+  }, 0);
+
+  const seen = new Map<string, number>();
+  const columns = Array.from({ length: width }, (_, index) => {
+    const name = header[index] || `Column ${index + 1}`;
+    const count = seen.get(name) || 0;
+    seen.set(name, count + 1);
+    return count === 0 ? name : `${name} (${count + 1})`;
+  });
+
+  const rows = keptRows.map(row => Array.from({ length: width }, (_, index) => row[index] || ''));
+
+  const table: DocumentTable = {
+    sheet,
+    title: titleLines.length > 0 ? titleLines.join(' / ') : null,
+    columns,
+    rows,
+    rowCount: dataRows.length,
+    financial: false,
+  };
+  table.financial = isFinancialTable(table);
+  return table;
+}
+
+export function tableToStatement(table: DocumentTable): ParsedStatement {
+  return statementFromRows([table.columns, ...table.rows]);
+}
+
+function isFinancialTable(table: DocumentTable): boolean {
+  if (table.rows.length === 0) return false;
+  const statement = tableToStatement(table);
+  const mapping = suggestMapping(statement);
+  if (!mapping.amount && !mapping.debit && !mapping.credit) return false;
+
+  const validRows = applyMapping(statement, mapping).filter(row => row.errors.length === 0).length;
+  return validRows >= Math.ceil(table.rows.length * FINANCIAL_ROW_RATIO);
+}
+
+// Plain-text rendering stored as the document's content, so search and chat see every table
+export function formatTablesAsText(tables: DocumentTable[]): string {
+  return tables.map(table => {
+    const lines = [`Sheet "${table.sheet}"${table.title ? `: ${table.title}` : ''} (${table.rowCount} rows)`];
+    lines.push(formatRow(table.columns), formatRow(table.columns.map(() => '---')));
+    table.rows.forEach(row => lines.push(formatRow(row)));
+    if (table.rowCount > table.rows.length) {
+      lines.push(`(${table.rowCount - table.rows.length} more rows not stored)`);
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+// Column statistics plus sample rows, so the model can reason over large tables without reading every cell
+export function describeTablesForAnalysis(tables: DocumentTable[]): string {
+  return tables.map((table, index) => {
+    const lines = [`Table ${index + 1}: sheet "${table.sheet}"${table.title ? `, titled "${table.title}"` : ''}, ${table.rowCount} rows`];
+    lines.push('Columns:');
+    table.columns.forEach((column, columnIndex) => {
+      lines.push(`- ${column}: ${describeColumn(table.rows.map(row => row[columnIndex]))}`);
+    });
+
+    const sample = table.rows.slice(0, SUMMARY_SAMPLE_ROWS);
+    lines.push(sample.length < table.rows.length ? `First ${sample.length} rows:` : 'Rows:');
+    lines.push(formatRow(table.columns), formatRow(table.columns.map(() => '---')));
+    sample.forEach(row => lines.push(formatRow(row)));
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+function describeColumn(values: string[]): string {
+  const filled = values.filter(Boolean);
+  if (filled.length === 0) return 'empty';
+
+  const dates = filled.map(value => parseStatementDate(value, 'auto')).filter((date): date is string => date !== null);
+  if (dates.length >= filled.length * 0.8) {
+    const sorted = [...dates].sort();
+    return `dates from ${sorted[0]} to ${sorted[sorted.length - 1]}`;
+  }
+
+  const numbers = filled.map(value => parseAmount(value)).filter((amount): amount is number => amount !== null);
+  if (numbers.length >= filled.length * 0.8) {
+    const total = numbers.reduce((sum, amount) => sum + amount, 0);
+    return `numbers, total ${round(total)}, min ${round(Math.min(...numbers))}, max ${round(Math.max(...numbers))}, average ${round(total / numbers.length)}`;
+  }
+
+  const counts = new Map<string, number>();
+  filled.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  const common = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([value, count]) => (count > 1 ? `${value} (${count})` : value));
+  return `text, ${counts.size} distinct values, e.g. ${common.join(', ')}`;
+}
+
+function formatRow(cells: string[]): string {
+  return `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+}
+
+function filledCount(row: string[]): number {
+  return row.filter(cell => cell !== '').length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,302 @@
+import multer from 'multer';
+import path from 'path';
+import type { StatementColumnMapping as ColumnMapping, ImportPreviewRow } from '@shared/schema';
+
+export type StatementFormat = 'csv' | 'ofx';
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+const ALLOWED_EXTENSIONS = ['.csv', '.ofx', '.qfx'];
+
+// Statements are parsed in memory and never written to the uploads folder
+export const statementUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (ALLOWED_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV, OFX and QFX statements are allowed'));
+    }
+  },
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  }
+});
+
+export function parseStatement(buffer: Buffer, filename: string): ParsedStatement {
+  const text = buffer.toString('utf-8').replace(/^\uFEFF/, '');
+  const extension = path.extname(filename).toLowerCase();
+
+  if (extension === '.ofx' || extension === '.qfx' || /<OFX>/i.test(text)) {
+    return parseOfx(text);
+  }
+  return parseCsv(text);
+}
+
+export function parseCsv(text: string): ParsedStatement {
+  return statementFromRows(splitCsvRows(text).filter(row => row.some(cell => cell.trim() !== '')));
+}
+
+// The first row is the header; used for CSV files and tables found in uploaded spreadsheets
+export function statementFromRows(lines: string[][]): ParsedStatement {
+  if (lines.length === 0) {
+    return { format: 'csv', columns: [], rows: [] };
+  }
+
+  // Deduplicate header names so every column stays addressable
+  const seen = new Map<string, number>();
+  const columns = lines[0].map((header, index) => {
+    const name = header.trim() || `Column ${index + 1}`;
+    const count = seen.get(name) || 0;
+    seen.set(name, count + 1);
+    return count === 0 ? name : `${name} (${count + 1})`;
+  });
+
+  const rows = lines.slice(1).map(cells => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      row[column] = (cells[index] ?? '').trim();
+    });
+    return row;
+  });
+
+  return { format: 'csv', columns, rows };
+}
+
+// RFC 4180 style splitting with quoted fields, escaped quotes and embedded newlines.
+// The delimiter is sniffed from the header line so semicolon and tab exports also work.
+export function splitCsvRows(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+const OFX_COLUMNS = ['DTPOSTED', 'TRNAMT', 'TRNTYPE', 'NAME', 'MEMO', 'FITID'];
+
+// OFX 1.x is SGML (closing tags optional), OFX 2.x is XML; reading tag values line-agnostically handles both
+export function parseOfx(text: string): ParsedStatement {
+  const rows: Record<string, string>[] = [];
+  const transactionPattern = /<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|(?=<\/BANKTRANLIST>))/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = transactionPattern.exec(text)) !== null) {
+    const block = match[1];
+    const row: Record<string, string> = {};
+    for (const tag of OFX_COLUMNS) {
+      const valueMatch = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+      row[tag] = valueMatch ? decodeOfxEntities(valueMatch[1].trim()) : '';
+    }
+    rows.push(row);
+  }
+
+  return { format: 'ofx', columns: OFX_COLUMNS, rows };
+}
+
+function decodeOfxEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+export function suggestMapping(statement: ParsedStatement): ColumnMapping {
+  if (statement.format === 'ofx') {
+    return {
+      date: 'DTPOSTED',
+      amount: 'TRNAMT',
+      description: 'NAME',
+      defaultType: 'auto',
+      defaultCategory: 'Other',
+      dateFormat: 'YMD',
+    };
+  }
+
+  const find = (...patterns: RegExp[]) =>
+    statement.columns.find(column => patterns.some(pattern => pattern.test(column)));
+
+  const amount = find(/^amount$/i, /amount/i, /^value$/i, /^sum$/i);
+  return {
+    date: find(/^date$/i, /posted/i, /date/i) || statement.columns[0] || '',
+    amount,
+    debit: amount ? undefined : find(/debit/i, /withdrawal/i, /money out/i, /paid out/i),
+    credit: amount ? undefined : find(/credit/i, /deposit/i, /money in/i, /paid in/i),
+    type: find(/^type$/i, /transaction type/i),
+    category: find(/category/i),
+    description: find(/description/i, /memo/i, /payee/i, /details/i, /^name$/i, /narrative/i),
+    defaultType: 'auto',
+    defaultCategory: 'Other',
+    dateFormat: 'auto',
+  };
+}
+
+export function applyMapping(statement: ParsedStatement, mapping: ColumnMapping): ImportPreviewRow[] {
+  return statement.rows.map((row, index) => {
+    const errors: string[] = [];
+
+    let signedAmount: number | null = null;
+    if (mapping.amount) {
+      signedAmount = parseAmount(row[mapping.amount]);
+    } else if (mapping.debit || mapping.credit) {
+      const debit = mapping.debit ? parseAmount(row[mapping.debit]) : null;
+      const credit = mapping.credit ? parseAmount(row[mapping.credit]) : null;
+      if (debit !== null || credit !== null) {
+        signedAmount = (credit ? Math.abs(credit) : 0) - (debit ? Math.abs(debit) : 0);
+      }
+    }
+    if (signedAmount === null || signedAmount === 0) {
+      errors.push('Missing or invalid amount');
+    }
+
+    const date = parseStatementDate(row[mapping.date], statement.format === 'ofx' ? 'YMD' : mapping.dateFormat);
+    if (!date) {
+      errors.push('Missing or invalid date');
+    }
+
+    const type = resolveType(mapping.type ? row[mapping.type] : undefined, signedAmount ?? 0, mapping.defaultType);
+    const category = (mapping.category && row[mapping.category]) || mapping.defaultCategory || 'Other';
+
+    const descriptionParts = [mapping.description ? row[mapping.description] : ''];
+    if (statement.format === 'ofx' && row.MEMO && row.MEMO !== row[mapping.description || '']) {
+      descriptionParts.push(row.MEMO);
+    }
+
+    return {
+      rowNumber: index + 1,
+      type,
+      category,
+      amount: Math.round(Math.abs(signedAmount ?? 0) * 100),
+      date,
+      description: descriptionParts.filter(Boolean).join(' - '),
+      errors,
+    };
+  });
+}
+
+// Handles "$1,234.56", "(45.00)", "-45", "45.00-" and European "1.234,56"
+export function parseAmount(raw: string | undefined): number | null {
+  if (!raw) return null;
+  let value = raw.trim();
+  if (!value) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.endsWith('-')) {
+    negative = true;
+    value = value.slice(0, -1);
+  }
+
+  value = value.replace(/[^\d.,-]/g, '');
+  if (value.startsWith('-')) {
+    negative = !negative;
+    value = value.slice(1);
+  }
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot && value.length - lastComma <= 3) {
+    // Comma is the decimal separator
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(value);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+export function parseStatementDate(raw: string | undefined, dateFormat: ColumnMapping['dateFormat']): string | null {
+  if (!raw) return null;
+  const value = raw.trim();
+
+  // OFX: YYYYMMDD[HHMMSS[.XXX]][[-5:EST]]
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (compact && (dateFormat === 'YMD' || dateFormat === 'auto') && !/[\/\-.]/.test(value.slice(0, 8))) {
+    return toIsoDate(+compact[1], +compact[2], +compact[3]);
+  }
+
+  const parts = value.split(/[T\s]/)[0].split(/[\/\-.]/).filter(Boolean);
+  if (parts.length < 3 || parts.slice(0, 3).some(part => !/^\d+$/.test(part))) {
+    return null;
+  }
+  const [a, b, c] = parts.slice(0, 3).map(Number);
+
+  if (parts[0].length === 4 || dateFormat === 'YMD') {
+    return toIsoDate(a, b, c);
+  }
+
+  const year = c < 100 ? 2000 + c : c;
+  if (dateFormat === 'DMY' || (dateFormat === 'auto' && a > 12)) {
+    return toIsoDate(year, b, a);
+  }
+  return toIsoDate(year, a, b);
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+function resolveType(rawType: string | undefined, signedAmount: number, defaultType: ColumnMapping['defaultType']): ImportPreviewRow['type'] {
+  if (rawType) {
+    const value = rawType.toLowerCase();
+    if (/revenue|income|credit|deposit|sale/.test(value)) return 'revenue';
+    if (/expense|debit|payment|withdrawal|purchase|fee/.test(value)) return 'expense';
+    if (/other|transfer|investment|loan/.test(value)) return 'other';
+  }
+  if (defaultType !== 'auto') return defaultType;
+  return signedAmount < 0 ? 'expense' : 'revenue';
+}
@@ -0,0 +1,78 @@
+import { storage } from "../storage";
+import { DEFAULT_CATEGORY_TAX_LINES, FINANCIAL_CATEGORIES, TAX_LINES, type TaxLine } from "@shared/constants";
+import type { CategoryTaxLine, FinancialRecord, TaxCategory, TaxRate } from "@shared/schema";
+
+type TaxedType = TaxCategory['type'];
+
+// Looks up the tax line of a category: the user's mapping first, then the default for built-in categories.
+// Categories are matched case-insensitively, like budget categories.
+export type TaxLineResolver = (type: string, category: string) => TaxLine | null;
+
+export function createTaxLineResolver(mappings: CategoryTaxLine[]): TaxLineResolver {
+  const mapped = new Map(mappings.map(mapping => [categoryKey(mapping.type, mapping.category), mapping.taxLine as TaxLine]));
+  return (type, category) => mapped.get(categoryKey(type, category)) ?? defaultTaxLine(type, category);
+}
+
+export function defaultTaxLine(type: string, category: string): TaxLine | null {
+  if (type !== 'revenue' && type !== 'expense') return null;
+  const normalized = category.trim().toLowerCase();
+  const entry = Object.entries(DEFAULT_CATEGORY_TAX_LINES[type]).find(([name]) => name.toLowerCase() === normalized);
+  return entry ? entry[1] : null;
+}
+
+export function getTaxLine(value: TaxLine) {
+  return TAX_LINES.find(line => line.value === value)!;
+}
+
+// Every revenue and expense category the user can map: the built-in ones, those used by records and those
+// already mapped, with the record count and current tax line of each
+export async function getTaxCategories(userId: string): Promise<TaxCategory[]> {
+  const [records, mappings] = await Promise.all([storage.getFinancialRecords(userId), storage.getCategoryTaxLines(userId)]);
+  const resolve = createTaxLineResolver(mappings);
+
+  const categories = new Map<string, TaxCategory>();
+  const add = (type: TaxedType, category: string) => {
+    const key = categoryKey(type, category);
+    if (!categories.has(key)) {
+      categories.set(key, { type, category, count: 0, taxLine: resolve(type, category), defaultTaxLine: defaultTaxLine(type, category) });
+    }
+    return categories.get(key)!;
+  };
+
+  for (const type of ['revenue', 'expense'] as const) {
+    FINANCIAL_CATEGORIES[type].forEach(category => add(type, category));
+  }
+  for (const mapping of mappings) {
+    if (mapping.type === 'revenue' || mapping.type === 'expense') add(mapping.type, mapping.category);
+  }
+  for (const record of records) {
+    if (record.type === 'revenue' || record.type === 'expense') add(record.type, record.category).count++;
+  }
+
+  return Array.from(categories.values())
+    .sort((a, b) => a.type.localeCompare(b.type) || a.category.localeCompare(b.category));
+}
+
+// The record's sales tax or VAT in the base currency, at the same rate as its amount; null while no rate covers it
+export function baseTaxAmount(record: FinancialRecord): number | null {
+  if (record.baseAmount === null) return null;
+  if (!record.taxAmount || record.amount === 0) return 0;
+  return Math.round((record.taxAmount * record.baseAmount) / record.amount);
+}
+
+// Income tax on a year's taxable profit (in cents) under one named rate table. Each rate applies to the part
+// of the profit between its threshold and the next one, so a single row is a flat tax.
+export function taxOnProfit(profit: number, brackets: TaxRate[]): number {
+  const sorted = [...brackets].sort((a, b) => a.threshold - b.threshold);
+  let tax = 0;
+  sorted.forEach((bracket, i) => {
+    const upper = i + 1 < sorted.length ? sorted[i + 1].threshold : Infinity;
+    const taxed = Math.min(profit, upper) - bracket.threshold;
+    if (taxed > 0) tax += (taxed * bracket.rate) / 100;
+  });
+  return Math.round(tax);
+}
+
+function categoryKey(type: string, category: string): string {
+  return `${type}:${category.trim().toLowerCase()}`;
+}
@@ -1,18 +1,32 @@
 import {
   users,
   documents,
+  documentChunks,
   goals,
   aiInsights,
   conversations,
   messages,
   tasks,
   calendarEvents,
+  accounts,
   financialRecords,
+  financialRecordDuplicates,
+  recurringRecords,
+  budgets,
+  budgetAlerts,
+  exchangeRates,
+  categoryTaxLines,
+  taxRates,
+  pendingChanges,
+  auditLog,
+  jobs,
   businessContext,
   type User,
   type UpsertUser,
   type Document,
   type InsertDocument,
+  type DocumentChunk,
+  type InsertDocumentChunk,
   type Goal,
   type AiInsight,
   type InsertAiInsight,
@@ -23,13 +37,83 @@ import {
   type Task,
   type CalendarEvent,
   type InsertCalendarEvent,
+  type Account,
+  type InsertAccount,
   type FinancialRecord,
+  type FinancialRecordStatus,
   type InsertFinancialRecord,
+  type FinancialRecordDuplicate,
+  type InsertFinancialRecordDuplicate,
+  type RecurringRecord,
+  type InsertRecurringRecord,
+  type Budget,
+  type InsertBudget,
+  type BudgetAlert,
+  type InsertBudgetAlert,
+  type ExchangeRate,
+  type InsertExchangeRate,
+  type CategoryTaxLine,
+  type UpdateCategoryTaxLine,
+  type TaxRate,
+  type InsertTaxRate,
+  type PendingChange,
+  type InsertPendingChange,
+  type AuditLogEntry,
+  type AuditEntityType,
+  type AuditContext,
+  type Job,
+  type InsertJob,
   type BusinessContext,
   type InsertBusinessContext,
 } from "@shared/schema";
+import { convertAmount } from "@shared/currency";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { eq, and, desc, gte, lt, lte, ilike, or, inArray, isNull, isNotNull, sql, getTableColumns, type SQL } from "drizzle-orm";
+
+export interface FinancialRecordFilters {
+  startDate?: Date;
+  endDate?: Date; // exclusive
+  type?: string;
+  category?: string; // case-insensitive exact match
+  query?: string; // substring of the description or category
+  excludeRecurring?: boolean; // leave out records generated by recurring record templates
+  limit?: number;
+}
+
+export interface FinancialTotal {
+  type: string;
+  total: number; // in cents of the user's base currency
+  count: number;
+  unconverted: number; // records left out of the total because no exchange rate covers them
+  firstDate: Date | null;
+  lastDate: Date | null;
+}
+
+export interface MonthlyFinancialTotal {
+  month: string; // yyyy-mm
+  type: string;
+  total: number; // in cents of the user's base currency
+  count: number;
+}
+
+// Set when a record is created from an uploaded receipt or invoice, or from a recurring record template
+export interface FinancialRecordSource {
+  documentId?: number | null;
+  recurringRecordId?: number | null;
+  status?: FinancialRecordStatus;
+}
+
+const USER_AUDIT: AuditContext = { actor: 'user' };
+
+// Tables whose changes are recorded in the audit log, by entity type
+export const auditedTables = {
+  goal: goals,
+  task: tasks,
+  calendar_event: calendarEvents,
+  financial_record: financialRecords,
+  business_context: businessContext,
+};
 
 // Interface for storage operations
 export interface IStorage {
@@ -37,20 +121,24 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUsers(): Promise<User[]>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUserSettings(id: string, updates: Partial<Pick<User, "autoApplyActions" | "baseCurrency">>): Promise<User | undefined>;
   
   // Documents (user-specific)
   getDocument(userId: string, id: number): Promise<Document | undefined>;
   getDocuments(userId: string): Promise<Document[]>;
+  getDocumentVersions(userId: string, documentId: number): Promise<Document[]>;
   createDocument(userId: string, document: InsertDocument): Promise<Document>;
   updateDocument(userId: string, id: number, updates: Partial<Document>): Promise<Document | undefined>;
   deleteDocument(userId: string, id: number): Promise<boolean>;
+  getDocumentChunks(userId: string, documentId?: number): Promise<DocumentChunk[]>;
+  replaceDocumentChunks(userId: string, documentId: number, chunks: Omit<InsertDocumentChunk, 'userId' | 'documentId'>[]): Promise<DocumentChunk[]>;
   
   // Goals (user-specific)
   getGoal(userId: string, id: number): Promise<Goal | undefined>;
   getGoals(userId: string): Promise<Goal[]>;
-  createGoal(userId: string, goal: any): Promise<Goal>;
-  updateGoal(userId: string, id: number, updates: Partial<Goal>): Promise<Goal | undefined>;
-  deleteGoal(userId: string, id: number): Promise<boolean>;
+  createGoal(userId: string, goal: any, audit?: AuditContext): Promise<Goal>;
+  updateGoal(userId: string, id: number, updates: Partial<Goal>, audit?: AuditContext): Promise<Goal | undefined>;
+  deleteGoal(userId: string, id: number, audit?: AuditContext): Promise<boolean>;
   
   // AI Insights (user-specific)
   getAiInsight(userId: string, id: number): Promise<AiInsight | undefined>;
@@ -76,31 +164,111 @@ export interface IStorage {
   // Tasks (user-specific)
   getTask(userId: string, id: number): Promise<Task | undefined>;
   getTasks(userId: string): Promise<Task[]>;
-  createTask(userId: string, task: any): Promise<Task>;
-  updateTask(userId: string, id: number, updates: Partial<Task>): Promise<Task | undefined>;
-  deleteTask(userId: string, id: number): Promise<boolean>;
+  createTask(userId: string, task: any, audit?: AuditContext): Promise<Task>;
+  updateTask(userId: string, id: number, updates: Partial<Task>, audit?: AuditContext): Promise<Task | undefined>;
+  deleteTask(userId: string, id: number, audit?: AuditContext): Promise<boolean>;
   
   // Calendar Events (user-specific)
   getCalendarEvent(userId: string, id: number): Promise<CalendarEvent | undefined>;
   getCalendarEvents(userId: string): Promise<CalendarEvent[]>;
-  createCalendarEvent(userId: string, event: InsertCalendarEvent): Promise<CalendarEvent>;
-  updateCalendarEvent(userId: string, id: number, updates: Partial<CalendarEvent>): Promise<CalendarEvent | undefined>;
-  deleteCalendarEvent(userId: string, id: number): Promise<boolean>;
+  createCalendarEvent(userId: string, event: InsertCalendarEvent, audit?: AuditContext): Promise<CalendarEvent>;
+  updateCalendarEvent(userId: string, id: number, updates: Partial<CalendarEvent>, audit?: AuditContext): Promise<CalendarEvent | undefined>;
+  deleteCalendarEvent(userId: string, id: number, audit?: AuditContext): Promise<boolean>;
   
   // Financial Records (user-specific)
   getFinancialRecord(userId: string, id: number): Promise<FinancialRecord | undefined>;
   getFinancialRecords(userId: string): Promise<FinancialRecord[]>;
-  createFinancialRecord(userId: string, record: InsertFinancialRecord): Promise<FinancialRecord>;
-  updateFinancialRecord(userId: string, id: number, updates: Partial<FinancialRecord>): Promise<FinancialRecord | undefined>;
-  deleteFinancialRecord(userId: string, id: number): Promise<boolean>;
+  getFinancialRecordsByDocument(userId: string, documentId: number): Promise<FinancialRecord[]>;
+  createFinancialRecord(userId: string, record: InsertFinancialRecord & FinancialRecordSource, audit?: AuditContext): Promise<FinancialRecord>;
+  createFinancialRecords(userId: string, records: InsertFinancialRecord[], audit?: AuditContext): Promise<FinancialRecord[]>;
+  updateFinancialRecord(userId: string, id: number, updates: Partial<FinancialRecord>, audit?: AuditContext): Promise<FinancialRecord | undefined>;
+  deleteFinancialRecord(userId: string, id: number, audit?: AuditContext): Promise<boolean>;
+  searchFinancialRecords(userId: string, filters: FinancialRecordFilters): Promise<FinancialRecord[]>;
+  getFinancialRecordTotals(userId: string, filters?: FinancialRecordFilters): Promise<FinancialTotal[]>;
+  getMonthlyFinancialTotals(userId: string, filters?: FinancialRecordFilters): Promise<MonthlyFinancialTotal[]>;
+
+  // Accounts (user-specific)
+  getAccount(userId: string, id: number): Promise<Account | undefined>;
+  getAccounts(userId: string): Promise<Account[]>;
+  createAccount(userId: string, account: InsertAccount): Promise<Account>;
+  updateAccount(userId: string, id: number, updates: Partial<Account>): Promise<Account | undefined>;
+  deleteAccount(userId: string, id: number): Promise<boolean>;
+  isAccountInUse(userId: string, id: number): Promise<boolean>;
+  getAccountRecords(userId: string, accountId: number): Promise<FinancialRecord[]>;
+  clearFinancialRecords(userId: string, accountId: number, recordIds: number[], audit?: AuditContext): Promise<FinancialRecord[]>;
+
+  // Financial Record Duplicates (user-specific)
+  getFinancialRecordDuplicate(userId: string, id: number): Promise<FinancialRecordDuplicate | undefined>;
+  getFinancialRecordDuplicates(userId: string, status?: string): Promise<FinancialRecordDuplicate[]>;
+  createFinancialRecordDuplicates(userId: string, duplicates: Omit<InsertFinancialRecordDuplicate, "userId">[]): Promise<FinancialRecordDuplicate[]>;
+  updateFinancialRecordDuplicate(userId: string, id: number, updates: Partial<FinancialRecordDuplicate>): Promise<FinancialRecordDuplicate | undefined>;
+
+  // Recurring Records (user-specific; getDueRecurringRecords and advanceRecurringRecord span all users for the scheduler)
+  getRecurringRecord(userId: string, id: number): Promise<RecurringRecord | undefined>;
+  getRecurringRecords(userId: string): Promise<RecurringRecord[]>;
+  createRecurringRecord(userId: string, record: InsertRecurringRecord & { nextRunAt: Date | null }): Promise<RecurringRecord>;
+  updateRecurringRecord(userId: string, id: number, updates: Partial<RecurringRecord>): Promise<RecurringRecord | undefined>;
+  deleteRecurringRecord(userId: string, id: number): Promise<boolean>;
+  getDueRecurringRecords(now: Date): Promise<RecurringRecord[]>;
+  advanceRecurringRecord(
+    template: RecurringRecord,
+    updates: Partial<RecurringRecord>,
+    record: (InsertFinancialRecord & FinancialRecordSource) | null,
+    audit?: AuditContext
+  ): Promise<{ template: RecurringRecord; record: FinancialRecord | null } | undefined>;
+
+  // Budgets and budget alerts (user-specific)
+  getBudget(userId: string, id: number): Promise<Budget | undefined>;
+  getBudgets(userId: string): Promise<Budget[]>;
+  createBudget(userId: string, budget: InsertBudget): Promise<Budget>;
+  updateBudget(userId: string, id: number, updates: Partial<Budget>): Promise<Budget | undefined>;
+  deleteBudget(userId: string, id: number): Promise<boolean>;
+  getBudgetAlerts(userId: string, filters?: { acknowledged?: boolean; limit?: number }): Promise<BudgetAlert[]>;
+  createBudgetAlert(userId: string, alert: Omit<InsertBudgetAlert, "userId">): Promise<BudgetAlert | undefined>;
+  acknowledgeBudgetAlert(userId: string, id: number): Promise<BudgetAlert | undefined>;
+
+  // Exchange Rates
+  getExchangeRates(userId: string): Promise<ExchangeRate[]>;
+  upsertExchangeRates(userId: string, rates: Array<InsertExchangeRate & { source: string }>): Promise<ExchangeRate[]>;
+  deleteExchangeRate(userId: string, id: number): Promise<boolean>;
+  recalculateBaseAmounts(userId: string): Promise<number>;
+  getUserIdsWithUnconvertedRecords(): Promise<string[]>;
+
+  // Tax categories and rates
+  getCategoryTaxLines(userId: string): Promise<CategoryTaxLine[]>;
+  setCategoryTaxLine(userId: string, mapping: UpdateCategoryTaxLine): Promise<CategoryTaxLine | undefined>;
+  getTaxRates(userId: string): Promise<TaxRate[]>;
+  createTaxRate(userId: string, rate: InsertTaxRate): Promise<TaxRate>;
+  deleteTaxRate(userId: string, id: number): Promise<boolean>;
+
+  // Pending Changes (user-specific)
+  getPendingChange(userId: string, id: number): Promise<PendingChange | undefined>;
+  getPendingChanges(userId: string, filters?: { status?: string; conversationId?: number }): Promise<PendingChange[]>;
+  createPendingChange(userId: string, change: Omit<InsertPendingChange, "userId">): Promise<PendingChange>;
+  updatePendingChange(userId: string, id: number, updates: Partial<PendingChange>): Promise<PendingChange | undefined>;
   
   // Business Context (user-specific)
   getBusinessContext(userId: string, id: number): Promise<BusinessContext | undefined>;
   getBusinessContexts(userId: string): Promise<BusinessContext[]>;
   getBusinessContextsBySection(userId: string, section: string): Promise<BusinessContext[]>;
-  createBusinessContext(userId: string, context: InsertBusinessContext): Promise<BusinessContext>;
-  updateBusinessContext(userId: string, id: number, updates: Partial<BusinessContext>): Promise<BusinessContext | undefined>;
-  deleteBusinessContext(userId: string, id: number): Promise<boolean>;
+  createBusinessContext(userId: string, context: InsertBusinessContext, audit?: AuditContext): Promise<BusinessContext>;
+  updateBusinessContext(userId: string, id: number, updates: Partial<BusinessContext>, audit?: AuditContext): Promise<BusinessContext | undefined>;
+  deleteBusinessContext(userId: string, id: number, audit?: AuditContext): Promise<boolean>;
+
+  // Audit Log (user-specific, append-only)
+  getAuditLogEntry(userId: string, id: number): Promise<AuditLogEntry | undefined>;
+  getAuditLog(userId: string, filters?: { entityType?: string; entityId?: number; limit?: number }): Promise<AuditLogEntry[]>;
+  restoreEntity(userId: string, entityType: AuditEntityType, snapshot: Record<string, any>, audit: AuditContext): Promise<Record<string, any>>;
+
+  // Jobs (user-specific reads; the worker methods below span all users)
+  getJob(userId: string, id: number): Promise<Job | undefined>;
+  getJobs(userId: string, filters?: { status?: string[]; type?: string; documentId?: number; limit?: number }): Promise<Job[]>;
+  createJob(userId: string, job: Omit<InsertJob, "userId">): Promise<Job>;
+  claimNextJob(): Promise<Job | undefined>;
+  updateJob(id: number, updates: Partial<Job>): Promise<Job | undefined>;
+  updateJobAttempt(job: Job, updates: Partial<Job>): Promise<Job | undefined>;
+  getStaleJobs(lockedBefore: Date): Promise<Job[]>;
+  deleteCompletedJobs(completedBefore: Date): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -114,6 +282,15 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users);
   }
 
+  async updateUserSettings(id: string, updates: Partial<Pick<User, "autoApplyActions" | "baseCurrency">>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     try {
       const [user] = await db
@@ -150,8 +327,36 @@ export class DatabaseStorage implements IStorage {
     return document;
   }
 
+  // Current versions only; superseded versions are reached through getDocumentVersions
   async getDocuments(userId: string): Promise<Document[]> {
-    return await db.select().from(documents).where(eq(documents.userId, userId));
+    return await db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.userId, userId), isNull(documents.supersededAt)));
+  }
+
+  // Every version in the document's chain, newest first
+  async getDocumentVersions(userId: string, documentId: number): Promise<Document[]> {
+    const document = await this.getDocument(userId, documentId);
+    if (!document) return [];
+
+    const versions = [document];
+    for (let older = document; older.previousVersionId; ) {
+      const previous = await this.getDocument(userId, older.previousVersionId);
+      if (!previous) break;
+      versions.push(previous);
+      older = previous;
+    }
+    for (let newer = document; ; ) {
+      const [next] = await db
+        .select()
+        .from(documents)
+        .where(and(eq(documents.userId, userId), eq(documents.previousVersionId, newer.id)));
+      if (!next) break;
+      versions.unshift(next);
+      newer = next;
+    }
+    return versions;
   }
 
   async createDocument(userId: string, insertDocument: InsertDocument): Promise<Document> {
@@ -178,6 +383,29 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  async getDocumentChunks(userId: string, documentId?: number): Promise<DocumentChunk[]> {
+    const conditions = [eq(documentChunks.userId, userId)];
+    if (documentId !== undefined) {
+      conditions.push(eq(documentChunks.documentId, documentId));
+    }
+    return await db
+      .select()
+      .from(documentChunks)
+      .where(and(...conditions))
+      .orderBy(documentChunks.documentId, documentChunks.chunkIndex);
+  }
+
+  async replaceDocumentChunks(userId: string, documentId: number, chunks: Omit<InsertDocumentChunk, 'userId' | 'documentId'>[]): Promise<DocumentChunk[]> {
+    await db
+      .delete(documentChunks)
+      .where(and(eq(documentChunks.userId, userId), eq(documentChunks.documentId, documentId)));
+    if (chunks.length === 0) return [];
+    return await db
+      .insert(documentChunks)
+      .values(chunks.map(chunk => ({ ...chunk, userId, documentId })))
+      .returning();
+  }
+
   // Goal operations
   async getGoal(userId: string, id: number): Promise<Goal | undefined> {
     const [goal] = await db
@@ -191,28 +419,40 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(goals).where(eq(goals.userId, userId));
   }
 
-  async createGoal(userId: string, insertGoal: any): Promise<Goal> {
+  async createGoal(userId: string, insertGoal: any, audit: AuditContext = USER_AUDIT): Promise<Goal> {
     const [goal] = await db
       .insert(goals)
       .values({ ...insertGoal, userId })
       .returning();
+    await this.recordAudit(userId, 'goal', goal.id, 'create', audit, null, goal);
     return goal;
   }
 
-  async updateGoal(userId: string, id: number, updates: Partial<Goal>): Promise<Goal | undefined> {
+  async updateGoal(userId: string, id: number, updates: Partial<Goal>, audit: AuditContext = USER_AUDIT): Promise<Goal | undefined> {
+    const before = await this.getGoal(userId, id);
+    if (!before) return undefined;
     const [goal] = await db
       .update(goals)
       .set(updates)
       .where(and(eq(goals.userId, userId), eq(goals.id, id)))
       .returning();
+    if (goal) {
+      await this.recordAudit(userId, 'goal', id, 'update', audit, before, goal);
+    }
     return goal;
   }
 
-  async deleteGoal(userId: string, id: number): Promise<boolean> {
+  async deleteGoal(userId: string, id: number, audit: AuditContext = USER_AUDIT): Promise<boolean> {
+    const before = await this.getGoal(userId, id);
+    if (!before) return false;
     const result = await db
       .delete(goals)
       .where(and(eq(goals.userId, userId), eq(goals.id, id)));
-    return (result.rowCount || 0) > 0;
+    const deleted = (result.rowCount || 0) > 0;
+    if (deleted) {
+      await this.recordAudit(userId, 'goal', id, 'delete', audit, before, null);
+    }
+    return deleted;
   }
 
   // AI Insight operations
@@ -224,8 +464,13 @@ export class DatabaseStorage implements IStorage {
     return insight;
   }
 
+  // Insights of superseded document versions are kept for the version history but left out here
   async getAiInsights(userId: string): Promise<AiInsight[]> {
-    return await db.select().from(aiInsights).where(eq(aiInsights.userId, userId));
+    return await db
+      .select(getTableColumns(aiInsights))
+      .from(aiInsights)
+      .leftJoin(documents, eq(aiInsights.documentId, documents.id))
+      .where(and(eq(aiInsights.userId, userId), isNull(documents.supersededAt)));
   }
 
   async getAiInsightsByDocument(userId: string, documentId: number): Promise<AiInsight[]> {
@@ -340,28 +585,40 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(tasks).where(eq(tasks.userId, userId));
   }
 
-  async createTask(userId: string, insertTask: any): Promise<Task> {
+  async createTask(userId: string, insertTask: any, audit: AuditContext = USER_AUDIT): Promise<Task> {
     const [task] = await db
       .insert(tasks)
       .values({ ...insertTask, userId })
       .returning();
+    await this.recordAudit(userId, 'task', task.id, 'create', audit, null, task);
     return task;
   }
 
-  async updateTask(userId: string, id: number, updates: Partial<Task>): Promise<Task | undefined> {
+  async updateTask(userId: string, id: number, updates: Partial<Task>, audit: AuditContext = USER_AUDIT): Promise<Task | undefined> {
+    const before = await this.getTask(userId, id);
+    if (!before) return undefined;
     const [task] = await db
       .update(tasks)
       .set(updates)
       .where(and(eq(tasks.userId, userId), eq(tasks.id, id)))
       .returning();
+    if (task) {
+      await this.recordAudit(userId, 'task', id, 'update', audit, before, task);
+    }
     return task;
   }
 
-  async deleteTask(userId: string, id: number): Promise<boolean> {
+  async deleteTask(userId: string, id: number, audit: AuditContext = USER_AUDIT): Promise<boolean> {
+    const before = await this.getTask(userId, id);
+    if (!before) return false;
     const result = await db
       .delete(tasks)
       .where(and(eq(tasks.userId, userId), eq(tasks.id, id)));
-    return (result.rowCount || 0) > 0;
+    const deleted = (result.rowCount || 0) > 0;
+    if (deleted) {
+      await this.recordAudit(userId, 'task', id, 'delete', audit, before, null);
+    }
+    return deleted;
   }
 
   // Calendar Event operations
@@ -377,28 +634,40 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(calendarEvents).where(eq(calendarEvents.userId, userId));
   }
 
-  async createCalendarEvent(userId: string, insertEvent: InsertCalendarEvent): Promise<CalendarEvent> {
+  async createCalendarEvent(userId: string, insertEvent: InsertCalendarEvent, audit: AuditContext = USER_AUDIT): Promise<CalendarEvent> {
     const [event] = await db
       .insert(calendarEvents)
       .values({ ...insertEvent, userId })
       .returning();
+    await this.recordAudit(userId, 'calendar_event', event.id, 'create', audit, null, event);
     return event;
   }
 
-  async updateCalendarEvent(userId: string, id: number, updates: Partial<CalendarEvent>): Promise<CalendarEvent | undefined> {
+  async updateCalendarEvent(userId: string, id: number, updates: Partial<CalendarEvent>, audit: AuditContext = USER_AUDIT): Promise<CalendarEvent | undefined> {
+    const before = await this.getCalendarEvent(userId, id);
+    if (!before) return undefined;
     const [event] = await db
       .update(calendarEvents)
       .set(updates)
       .where(and(eq(calendarEvents.userId, userId), eq(calendarEvents.id, id)))
       .returning();
+    if (event) {
+      await this.recordAudit(userId, 'calendar_event', id, 'update', audit, before, event);
+    }
     return event;
   }
 
-  async deleteCalendarEvent(userId: string, id: number): Promise<boolean> {
+  async deleteCalendarEvent(userId: string, id: number, audit: AuditContext = USER_AUDIT): Promise<boolean> {
+    const before = await this.getCalendarEvent(userId, id);
+    if (!before) return false;
     const result = await db
       .delete(calendarEvents)
       .where(and(eq(calendarEvents.userId, userId), eq(calendarEvents.id, id)));
-    return (result.rowCount || 0) > 0;
+    const deleted = (result.rowCount || 0) > 0;
+    if (deleted) {
+      await this.recordAudit(userId, 'calendar_event', id, 'delete', audit, before, null);
+    }
+    return deleted;
   }
 
   // Financial Record operations
@@ -410,38 +679,601 @@ export class DatabaseStorage implements IStorage {
     return record;
   }
 
+  // Confirmed records only; drafts extracted from documents stay out of lists, totals and goal progress
   async getFinancialRecords(userId: string): Promise<FinancialRecord[]> {
-    return await db.select().from(financialRecords).where(eq(financialRecords.userId, userId));
+    return await db
+      .select()
+      .from(financialRecords)
+      .where(and(eq(financialRecords.userId, userId), eq(financialRecords.status, 'confirmed')));
+  }
+
+  async getFinancialRecordsByDocument(userId: string, documentId: number): Promise<FinancialRecord[]> {
+    return await db
+      .select()
+      .from(financialRecords)
+      .where(and(eq(financialRecords.userId, userId), eq(financialRecords.documentId, documentId)))
+      .orderBy(financialRecords.id);
   }
 
-  async createFinancialRecord(userId: string, insertRecord: InsertFinancialRecord): Promise<FinancialRecord> {
+  async createFinancialRecord(userId: string, insertRecord: InsertFinancialRecord & FinancialRecordSource, audit: AuditContext = USER_AUDIT): Promise<FinancialRecord> {
+    const conversion = await this.getCurrencyConversion(userId);
     const [record] = await db
       .insert(financialRecords)
       .values({ 
         ...insertRecord, 
+        ...conversion.convert(insertRecord),
         userId,
         date: new Date(insertRecord.date)
       })
       .returning();
+    await this.recordAudit(userId, 'financial_record', record.id, 'create', audit, null, record);
     return record;
   }
 
-  async updateFinancialRecord(userId: string, id: number, updates: Partial<FinancialRecord>): Promise<FinancialRecord | undefined> {
+  async createFinancialRecords(userId: string, insertRecords: InsertFinancialRecord[], audit: AuditContext = USER_AUDIT): Promise<FinancialRecord[]> {
+    if (insertRecords.length === 0) return [];
+    const conversion = await this.getCurrencyConversion(userId);
+    const records = await db
+      .insert(financialRecords)
+      .values(insertRecords.map(record => ({
+        ...record,
+        ...conversion.convert(record),
+        userId,
+        date: new Date(record.date)
+      })))
+      .returning();
+    await db.insert(auditLog).values(records.map(record => ({
+      userId,
+      entityType: 'financial_record',
+      entityId: record.id,
+      action: 'create',
+      actor: audit.actor,
+      before: null,
+      after: record,
+    })));
+    return records;
+  }
+
+  async updateFinancialRecord(userId: string, id: number, updates: Partial<FinancialRecord>, audit: AuditContext = USER_AUDIT): Promise<FinancialRecord | undefined> {
+    const before = await this.getFinancialRecord(userId, id);
+    if (!before) return undefined;
+    if (updates.amount !== undefined || updates.currency !== undefined || updates.date !== undefined) {
+      const conversion = await this.getCurrencyConversion(userId);
+      updates = { ...updates, ...conversion.convert({ ...before, ...updates }) };
+    }
+    // Moving a record to another account undoes its reconciliation
+    if (updates.accountId !== undefined && updates.accountId !== before.accountId) {
+      updates = { ...updates, clearedAt: null };
+    }
+    if (updates.transferAccountId !== undefined && updates.transferAccountId !== before.transferAccountId) {
+      updates = { ...updates, transferClearedAt: null };
+    }
     const [record] = await db
       .update(financialRecords)
       .set(updates)
       .where(and(eq(financialRecords.userId, userId), eq(financialRecords.id, id)))
       .returning();
+    if (record) {
+      await this.recordAudit(userId, 'financial_record', id, 'update', audit, before, record);
+    }
     return record;
   }
 
-  async deleteFinancialRecord(userId: string, id: number): Promise<boolean> {
+  async deleteFinancialRecord(userId: string, id: number, audit: AuditContext = USER_AUDIT): Promise<boolean> {
+    const before = await this.getFinancialRecord(userId, id);
+    if (!before) return false;
     const result = await db
       .delete(financialRecords)
       .where(and(eq(financialRecords.userId, userId), eq(financialRecords.id, id)));
+    const deleted = (result.rowCount || 0) > 0;
+    if (deleted) {
+      await this.recordAudit(userId, 'financial_record', id, 'delete', audit, before, null);
+    }
+    return deleted;
+  }
+
+  async searchFinancialRecords(userId: string, filters: FinancialRecordFilters): Promise<FinancialRecord[]> {
+    return await db
+      .select()
+      .from(financialRecords)
+      .where(financialRecordConditions(userId, filters))
+      .orderBy(desc(financialRecords.date))
+      .limit(filters.limit ?? 50);
+  }
+
+  async getFinancialRecordTotals(userId: string, filters: FinancialRecordFilters = {}): Promise<FinancialTotal[]> {
+    return await db
+      .select({
+        type: financialRecords.type,
+        total: sql<number>`coalesce(sum(${financialRecords.baseAmount}), 0)::bigint`.mapWith(Number), // int4 overflows past ~21M in base currency
+        count: sql<number>`count(*)::int`,
+        unconverted: sql<number>`count(*) filter (where ${financialRecords.baseAmount} is null)::int`,
+        firstDate: sql<Date | null>`min(${financialRecords.date})`.mapWith(toDate),
+        lastDate: sql<Date | null>`max(${financialRecords.date})`.mapWith(toDate),
+      })
+      .from(financialRecords)
+      .where(financialRecordConditions(userId, filters))
+      .groupBy(financialRecords.type);
+  }
+
+  async getMonthlyFinancialTotals(userId: string, filters: FinancialRecordFilters = {}): Promise<MonthlyFinancialTotal[]> {
+    const month = sql<string>`to_char(date_trunc('month', ${financialRecords.date}), 'YYYY-MM')`;
+    return await db
+      .select({
+        month,
+        type: financialRecords.type,
+        total: sql<number>`coalesce(sum(${financialRecords.baseAmount}), 0)::bigint`.mapWith(Number),
+        count: sql<number>`count(*)::int`,
+      })
+      .from(financialRecords)
+      .where(financialRecordConditions(userId, filters))
+      .groupBy(month, financialRecords.type)
+      .orderBy(month);
+  }
+
+  // Account operations
+  async getAccount(userId: string, id: number): Promise<Account | undefined> {
+    const [account] = await db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.userId, userId), eq(accounts.id, id)));
+    return account;
+  }
+
+  async getAccounts(userId: string): Promise<Account[]> {
+    return await db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.userId, userId))
+      .orderBy(accounts.archived, accounts.name);
+  }
+
+  async createAccount(userId: string, account: InsertAccount): Promise<Account> {
+    const user = await this.getUser(userId);
+    const [created] = await db
+      .insert(accounts)
+      .values({
+        ...account,
+        currency: account.currency || user?.baseCurrency,
+        userId,
+        openingDate: new Date(account.openingDate),
+      })
+      .returning();
+    return created;
+  }
+
+  async updateAccount(userId: string, id: number, updates: Partial<Account>): Promise<Account | undefined> {
+    const [account] = await db
+      .update(accounts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(accounts.userId, userId), eq(accounts.id, id)))
+      .returning();
+    return account;
+  }
+
+  // Only accounts nothing refers to can be deleted; the others are archived instead
+  async deleteAccount(userId: string, id: number): Promise<boolean> {
+    const result = await db
+      .delete(accounts)
+      .where(and(eq(accounts.userId, userId), eq(accounts.id, id)));
     return (result.rowCount || 0) > 0;
   }
 
+  // Whether any record (drafts included) or recurring template refers to the account
+  async isAccountInUse(userId: string, id: number): Promise<boolean> {
+    const [record] = await db
+      .select({ id: financialRecords.id })
+      .from(financialRecords)
+      .where(and(
+        eq(financialRecords.userId, userId),
+        or(eq(financialRecords.accountId, id), eq(financialRecords.transferAccountId, id)),
+      ))
+      .limit(1);
+    if (record) return true;
+    const [template] = await db
+      .select({ id: recurringRecords.id })
+      .from(recurringRecords)
+      .where(and(eq(recurringRecords.userId, userId), eq(recurringRecords.accountId, id)))
+      .limit(1);
+    return !!template;
+  }
+
+  // Confirmed records moving money in or out of the account, transfers from either side included, oldest first
+  async getAccountRecords(userId: string, accountId: number): Promise<FinancialRecord[]> {
+    return await db
+      .select()
+      .from(financialRecords)
+      .where(and(
+        eq(financialRecords.userId, userId),
+        eq(financialRecords.status, 'confirmed'),
+        or(eq(financialRecords.accountId, accountId), eq(financialRecords.transferAccountId, accountId)),
+      ))
+      .orderBy(financialRecords.date, financialRecords.id);
+  }
+
+  // Marks records as cleared on the account's side; a transfer is cleared separately in each of its two accounts
+  async clearFinancialRecords(userId: string, accountId: number, recordIds: number[], audit: AuditContext = USER_AUDIT): Promise<FinancialRecord[]> {
+    const clearedAt = new Date();
+    const cleared: FinancialRecord[] = [];
+    for (const id of recordIds) {
+      const record = await this.getFinancialRecord(userId, id);
+      if (!record) continue;
+      const updates = record.accountId === accountId
+        ? { clearedAt }
+        : record.transferAccountId === accountId ? { transferClearedAt: clearedAt } : null;
+      if (!updates) continue;
+      const updated = await this.updateFinancialRecord(userId, id, updates, audit);
+      if (updated) cleared.push(updated);
+    }
+    return cleared;
+  }
+
+  // Financial Record Duplicate operations
+  async getFinancialRecordDuplicate(userId: string, id: number): Promise<FinancialRecordDuplicate | undefined> {
+    const [duplicate] = await db
+      .select()
+      .from(financialRecordDuplicates)
+      .where(and(eq(financialRecordDuplicates.userId, userId), eq(financialRecordDuplicates.id, id)));
+    return duplicate;
+  }
+
+  async getFinancialRecordDuplicates(userId: string, status?: string): Promise<FinancialRecordDuplicate[]> {
+    const conditions = [eq(financialRecordDuplicates.userId, userId)];
+    if (status) {
+      conditions.push(eq(financialRecordDuplicates.status, status));
+    }
+    return await db.select().from(financialRecordDuplicates).where(and(...conditions));
+  }
+
+  async createFinancialRecordDuplicates(userId: string, duplicates: Omit<InsertFinancialRecordDuplicate, "userId">[]): Promise<FinancialRecordDuplicate[]> {
+    if (duplicates.length === 0) return [];
+    return await db
+      .insert(financialRecordDuplicates)
+      .values(duplicates.map(duplicate => ({ ...duplicate, userId })))
+      .returning();
+  }
+
+  async updateFinancialRecordDuplicate(userId: string, id: number, updates: Partial<FinancialRecordDuplicate>): Promise<FinancialRecordDuplicate | undefined> {
+    const [duplicate] = await db
+      .update(financialRecordDuplicates)
+      .set(updates)
+      .where(and(eq(financialRecordDuplicates.userId, userId), eq(financialRecordDuplicates.id, id)))
+      .returning();
+    return duplicate;
+  }
+
+  // Recurring Record operations
+  async getRecurringRecord(userId: string, id: number): Promise<RecurringRecord | undefined> {
+    const [record] = await db
+      .select()
+      .from(recurringRecords)
+      .where(and(eq(recurringRecords.userId, userId), eq(recurringRecords.id, id)));
+    return record;
+  }
+
+  async getRecurringRecords(userId: string): Promise<RecurringRecord[]> {
+    return await db
+      .select()
+      .from(recurringRecords)
+      .where(eq(recurringRecords.userId, userId))
+      .orderBy(recurringRecords.id);
+  }
+
+  async createRecurringRecord(userId: string, record: InsertRecurringRecord & { nextRunAt: Date | null }): Promise<RecurringRecord> {
+    const user = await this.getUser(userId);
+    const [created] = await db
+      .insert(recurringRecords)
+      .values({
+        ...record,
+        currency: record.currency || user?.baseCurrency,
+        userId,
+        startDate: new Date(record.startDate),
+        endDate: record.endDate ? new Date(record.endDate) : null,
+      })
+      .returning();
+    return created;
+  }
+
+  async updateRecurringRecord(userId: string, id: number, updates: Partial<RecurringRecord>): Promise<RecurringRecord | undefined> {
+    const [record] = await db
+      .update(recurringRecords)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(recurringRecords.userId, userId), eq(recurringRecords.id, id)))
+      .returning();
+    return record;
+  }
+
+  // Records already generated from the template are kept and lose the link
+  async deleteRecurringRecord(userId: string, id: number): Promise<boolean> {
+    const result = await db
+      .delete(recurringRecords)
+      .where(and(eq(recurringRecords.userId, userId), eq(recurringRecords.id, id)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getDueRecurringRecords(now: Date): Promise<RecurringRecord[]> {
+    return await db
+      .select()
+      .from(recurringRecords)
+      .where(and(eq(recurringRecords.active, true), lte(recurringRecords.nextRunAt, now)))
+      .orderBy(recurringRecords.nextRunAt);
+  }
+
+  // Moves the schedule past an occurrence only if nobody else has, so each occurrence is recorded once
+  // even when several server processes run the scheduler. The occurrence's record, if any, is created in
+  // the same transaction, so a failure never leaves the schedule advanced without it.
+  async advanceRecurringRecord(
+    template: RecurringRecord,
+    updates: Partial<RecurringRecord>,
+    insertRecord: (InsertFinancialRecord & FinancialRecordSource) | null,
+    audit: AuditContext = USER_AUDIT
+  ): Promise<{ template: RecurringRecord; record: FinancialRecord | null } | undefined> {
+    const conversion = insertRecord ? await this.getCurrencyConversion(template.userId) : null;
+    return await db.transaction(async tx => {
+      const [advanced] = await tx
+        .update(recurringRecords)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(and(eq(recurringRecords.id, template.id), eq(recurringRecords.nextRunAt, template.nextRunAt!)))
+        .returning();
+      if (!advanced) return undefined;
+      if (!insertRecord || !conversion) return { template: advanced, record: null };
+
+      const [record] = await tx
+        .insert(financialRecords)
+        .values({
+          ...insertRecord,
+          ...conversion.convert(insertRecord),
+          userId: template.userId,
+          date: new Date(insertRecord.date)
+        })
+        .returning();
+      await tx.insert(auditLog).values({
+        userId: template.userId,
+        entityType: 'financial_record',
+        entityId: record.id,
+        action: 'create',
+        actor: audit.actor,
+        before: null,
+        after: record,
+      });
+      return { template: advanced, record };
+    });
+  }
+
+  // Budget operations
+  async getBudget(userId: string, id: number): Promise<Budget | undefined> {
+    const [budget] = await db
+      .select()
+      .from(budgets)
+      .where(and(eq(budgets.userId, userId), eq(budgets.id, id)));
+    return budget;
+  }
+
+  async getBudgets(userId: string): Promise<Budget[]> {
+    return await db
+      .select()
+      .from(budgets)
+      .where(eq(budgets.userId, userId))
+      .orderBy(budgets.category, budgets.period);
+  }
+
+  async createBudget(userId: string, budget: InsertBudget): Promise<Budget> {
+    const [created] = await db
+      .insert(budgets)
+      .values({ ...budget, userId })
+      .returning();
+    return created;
+  }
+
+  async updateBudget(userId: string, id: number, updates: Partial<Budget>): Promise<Budget | undefined> {
+    const [budget] = await db
+      .update(budgets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(budgets.userId, userId), eq(budgets.id, id)))
+      .returning();
+    return budget;
+  }
+
+  async deleteBudget(userId: string, id: number): Promise<boolean> {
+    const result = await db
+      .delete(budgets)
+      .where(and(eq(budgets.userId, userId), eq(budgets.id, id)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getBudgetAlerts(userId: string, filters: { acknowledged?: boolean; limit?: number } = {}): Promise<BudgetAlert[]> {
+    const conditions = [eq(budgetAlerts.userId, userId)];
+    if (filters.acknowledged !== undefined) {
+      conditions.push(filters.acknowledged ? isNotNull(budgetAlerts.acknowledgedAt) : isNull(budgetAlerts.acknowledgedAt));
+    }
+    return await db
+      .select()
+      .from(budgetAlerts)
+      .where(and(...conditions))
+      .orderBy(desc(budgetAlerts.createdAt), desc(budgetAlerts.id))
+      .limit(filters.limit ?? 50);
+  }
+
+  // Returns undefined when the alert already fired for this budget, period and threshold
+  async createBudgetAlert(userId: string, alert: Omit<InsertBudgetAlert, "userId">): Promise<BudgetAlert | undefined> {
+    const [created] = await db
+      .insert(budgetAlerts)
+      .values({ ...alert, userId })
+      .onConflictDoNothing()
+      .returning();
+    return created;
+  }
+
+  async acknowledgeBudgetAlert(userId: string, id: number): Promise<BudgetAlert | undefined> {
+    const [alert] = await db
+      .update(budgetAlerts)
+      .set({ acknowledgedAt: new Date() })
+      .where(and(eq(budgetAlerts.userId, userId), eq(budgetAlerts.id, id)))
+      .returning();
+    return alert;
+  }
+
+  // Exchange Rate operations
+  async getExchangeRates(userId: string): Promise<ExchangeRate[]> {
+    return await db
+      .select()
+      .from(exchangeRates)
+      .where(eq(exchangeRates.userId, userId))
+      .orderBy(desc(exchangeRates.date), exchangeRates.fromCurrency, exchangeRates.toCurrency);
+  }
+
+  // A rate for a pair and day that already exists is replaced
+  async upsertExchangeRates(userId: string, rates: Array<InsertExchangeRate & { source: string }>): Promise<ExchangeRate[]> {
+    // Postgres rejects an upsert that touches the same row twice, so the last rate per pair and day wins
+    const unique = new Map<string, InsertExchangeRate & { source: string }>();
+    for (const rate of rates) {
+      unique.set(`${rate.fromCurrency}:${rate.toCurrency}:${new Date(rate.date).toISOString()}`, rate);
+    }
+    if (unique.size === 0) return [];
+    return await db
+      .insert(exchangeRates)
+      .values(Array.from(unique.values()).map(rate => ({ ...rate, userId, date: new Date(rate.date) })))
+      .onConflictDoUpdate({
+        target: [exchangeRates.userId, exchangeRates.fromCurrency, exchangeRates.toCurrency, exchangeRates.date],
+        set: { rate: sql`excluded.rate`, source: sql`excluded.source` },
+      })
+      .returning();
+  }
+
+  async deleteExchangeRate(userId: string, id: number): Promise<boolean> {
+    const result = await db
+      .delete(exchangeRates)
+      .where(and(eq(exchangeRates.userId, userId), eq(exchangeRates.id, id)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Tax category and rate operations
+  async getCategoryTaxLines(userId: string): Promise<CategoryTaxLine[]> {
+    return await db.select().from(categoryTaxLines).where(eq(categoryTaxLines.userId, userId));
+  }
+
+  // A null tax line removes the user's mapping, so the category falls back to its default
+  async setCategoryTaxLine(userId: string, mapping: UpdateCategoryTaxLine): Promise<CategoryTaxLine | undefined> {
+    const matchesCategory = and(
+      eq(categoryTaxLines.userId, userId),
+      eq(categoryTaxLines.type, mapping.type),
+      ilike(categoryTaxLines.category, escapeLike(mapping.category)),
+    );
+    if (mapping.taxLine === null) {
+      await db.delete(categoryTaxLines).where(matchesCategory);
+      return undefined;
+    }
+    const [existing] = await db.select().from(categoryTaxLines).where(matchesCategory);
+    if (existing) {
+      const [updated] = await db
+        .update(categoryTaxLines)
+        .set({ taxLine: mapping.taxLine })
+        .where(eq(categoryTaxLines.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db
+      .insert(categoryTaxLines)
+      .values({ userId, type: mapping.type, category: mapping.category, taxLine: mapping.taxLine })
+      .returning();
+    return created;
+  }
+
+  async getTaxRates(userId: string): Promise<TaxRate[]> {
+    return await db
+      .select()
+      .from(taxRates)
+      .where(eq(taxRates.userId, userId))
+      .orderBy(taxRates.name, taxRates.threshold);
+  }
+
+  // A bracket with the same name and threshold is replaced
+  async createTaxRate(userId: string, rate: InsertTaxRate): Promise<TaxRate> {
+    const [saved] = await db
+      .insert(taxRates)
+      .values({ ...rate, userId })
+      .onConflictDoUpdate({
+        target: [taxRates.userId, taxRates.name, taxRates.threshold],
+        set: { rate: sql`excluded.rate` },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteTaxRate(userId: string, id: number): Promise<boolean> {
+    const result = await db
+      .delete(taxRates)
+      .where(and(eq(taxRates.userId, userId), eq(taxRates.id, id)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Re-converts every record (drafts included) after the base currency or the rates change; returns how many changed.
+  // baseAmount is derived, so these updates are not written to the audit log.
+  async recalculateBaseAmounts(userId: string): Promise<number> {
+    const conversion = await this.getCurrencyConversion(userId);
+    const records = await db.select().from(financialRecords).where(eq(financialRecords.userId, userId));
+    let changed = 0;
+    for (const record of records) {
+      const { baseAmount } = conversion.convert(record);
+      if (baseAmount === record.baseAmount) continue;
+      await db
+        .update(financialRecords)
+        .set({ baseAmount })
+        .where(eq(financialRecords.id, record.id));
+      changed++;
+    }
+    return changed;
+  }
+
+  async getUserIdsWithUnconvertedRecords(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ userId: financialRecords.userId })
+      .from(financialRecords)
+      .where(isNull(financialRecords.baseAmount));
+    return rows.map(row => row.userId);
+  }
+
+  // Pending Change operations
+  async getPendingChange(userId: string, id: number): Promise<PendingChange | undefined> {
+    const [change] = await db
+      .select()
+      .from(pendingChanges)
+      .where(and(eq(pendingChanges.userId, userId), eq(pendingChanges.id, id)));
+    return change;
+  }
+
+  async getPendingChanges(userId: string, filters: { status?: string; conversationId?: number } = {}): Promise<PendingChange[]> {
+    const conditions = [eq(pendingChanges.userId, userId)];
+    if (filters.status) {
+      conditions.push(eq(pendingChanges.status, filters.status));
+    }
+    if (filters.conversationId !== undefined) {
+      conditions.push(eq(pendingChanges.conversationId, filters.conversationId));
+    }
+    return await db
+      .select()
+      .from(pendingChanges)
+      .where(and(...conditions))
+      .orderBy(desc(pendingChanges.createdAt));
+  }
+
+  async createPendingChange(userId: string, change: Omit<InsertPendingChange, "userId">): Promise<PendingChange> {
+    const [created] = await db
+      .insert(pendingChanges)
+      .values({ ...change, userId })
+      .returning();
+    return created;
+  }
+
+  async updatePendingChange(userId: string, id: number, updates: Partial<PendingChange>): Promise<PendingChange | undefined> {
+    const [change] = await db
+      .update(pendingChanges)
+      .set(updates)
+      .where(and(eq(pendingChanges.userId, userId), eq(pendingChanges.id, id)))
+      .returning();
+    return change;
+  }
+
   // Business Context operations
   async getBusinessContext(userId: string, id: number): Promise<BusinessContext | undefined> {
     const [context] = await db
@@ -462,29 +1294,252 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(businessContext.userId, userId), eq(businessContext.section, section)));
   }
 
-  async createBusinessContext(userId: string, insertContext: InsertBusinessContext): Promise<BusinessContext> {
+  async createBusinessContext(userId: string, insertContext: InsertBusinessContext, audit: AuditContext = USER_AUDIT): Promise<BusinessContext> {
     const [context] = await db
       .insert(businessContext)
       .values({ ...insertContext, userId })
       .returning();
+    await this.recordAudit(userId, 'business_context', context.id, 'create', audit, null, context);
     return context;
   }
 
-  async updateBusinessContext(userId: string, id: number, updates: Partial<BusinessContext>): Promise<BusinessContext | undefined> {
+  async updateBusinessContext(userId: string, id: number, updates: Partial<BusinessContext>, audit: AuditContext = USER_AUDIT): Promise<BusinessContext | undefined> {
+    const before = await this.getBusinessContext(userId, id);
+    if (!before) return undefined;
     const [context] = await db
       .update(businessContext)
       .set(updates)
       .where(and(eq(businessContext.userId, userId), eq(businessContext.id, id)))
       .returning();
+    if (context) {
+      await this.recordAudit(userId, 'business_context', id, 'update', audit, before, context);
+    }
     return context;
   }
 
-  async deleteBusinessContext(userId: string, id: number): Promise<boolean> {
+  async deleteBusinessContext(userId: string, id: number, audit: AuditContext = USER_AUDIT): Promise<boolean> {
+    const before = await this.getBusinessContext(userId, id);
+    if (!before) return false;
     const result = await db
       .delete(businessContext)
       .where(and(eq(businessContext.userId, userId), eq(businessContext.id, id)));
-    return (result.rowCount || 0) > 0;
+    const deleted = (result.rowCount || 0) > 0;
+    if (deleted) {
+      await this.recordAudit(userId, 'business_context', id, 'delete', audit, before, null);
+    }
+    return deleted;
   }
+
+  // Audit Log operations
+  async getAuditLogEntry(userId: string, id: number): Promise<AuditLogEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(auditLog)
+      .where(and(eq(auditLog.userId, userId), eq(auditLog.id, id)));
+    return entry;
+  }
+
+  async getAuditLog(userId: string, filters: { entityType?: string; entityId?: number; limit?: number } = {}): Promise<AuditLogEntry[]> {
+    const conditions = [eq(auditLog.userId, userId)];
+    if (filters.entityType) {
+      conditions.push(eq(auditLog.entityType, filters.entityType));
+    }
+    if (filters.entityId !== undefined) {
+      conditions.push(eq(auditLog.entityId, filters.entityId));
+    }
+    return await db
+      .select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(filters.limit ?? 100);
+  }
+
+  // Job operations
+  async getJob(userId: string, id: number): Promise<Job | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.userId, userId), eq(jobs.id, id)));
+    return job;
+  }
+
+  async getJobs(userId: string, filters: { status?: string[]; type?: string; documentId?: number; limit?: number } = {}): Promise<Job[]> {
+    const conditions = [eq(jobs.userId, userId)];
+    if (filters.status && filters.status.length > 0) {
+      conditions.push(inArray(jobs.status, filters.status));
+    }
+    if (filters.type) {
+      conditions.push(eq(jobs.type, filters.type));
+    }
+    if (filters.documentId !== undefined) {
+      conditions.push(eq(jobs.documentId, filters.documentId));
+    }
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(...conditions))
+      .orderBy(desc(jobs.createdAt), desc(jobs.id))
+      .limit(filters.limit ?? 100);
+  }
+
+  async createJob(userId: string, job: Omit<InsertJob, "userId">): Promise<Job> {
+    const [created] = await db
+      .insert(jobs)
+      .values({ ...job, userId })
+      .returning();
+    return created;
+  }
+
+  // Marks the oldest due job as running; SKIP LOCKED lets several server processes share the queue
+  async claimNextJob(): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({ status: 'running', attempts: sql`${jobs.attempts} + 1`, lockedAt: new Date(), lockToken: randomUUID() })
+      .where(eq(jobs.id, sql`(
+        select ${jobs.id} from ${jobs}
+        where ${jobs.status} = 'queued' and ${jobs.runAt} <= now()
+        order by ${jobs.runAt}, ${jobs.id}
+        limit 1
+        for update skip locked
+      )`))
+      .returning();
+    return job;
+  }
+
+  async updateJob(id: number, updates: Partial<Job>): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set(updates)
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  // Only applies while the attempt that claimed the job still holds it; undefined once the job was
+  // re-queued as stale (and possibly claimed again) or finished. Jobs claimed before lock tokens have none.
+  async updateJobAttempt(job: Job, updates: Partial<Job>): Promise<Job | undefined> {
+    const [updated] = await db
+      .update(jobs)
+      .set(updates)
+      .where(and(
+        eq(jobs.id, job.id),
+        eq(jobs.status, 'running'),
+        job.lockToken ? eq(jobs.lockToken, job.lockToken) : isNull(jobs.lockToken),
+      ))
+      .returning();
+    return updated;
+  }
+
+  // Running jobs that stopped reporting, e.g. because the server restarted mid-attempt
+  async getStaleJobs(lockedBefore: Date): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.status, 'running'), lt(jobs.lockedAt, lockedBefore)));
+  }
+
+  async deleteCompletedJobs(completedBefore: Date): Promise<number> {
+    const deleted = await db
+      .delete(jobs)
+      .where(and(eq(jobs.status, 'completed'), lt(jobs.completedAt, completedBefore)))
+      .returning({ id: jobs.id });
+    return deleted.length;
+  }
+
+  // Re-inserts a deleted row under its original id
+  async restoreEntity(userId: string, entityType: AuditEntityType, snapshot: Record<string, any>, audit: AuditContext): Promise<Record<string, any>> {
+    // The tables differ in shape, so the row is typed loosely here
+    const table = auditedTables[entityType] as typeof goals;
+    const [restored] = await db
+      .insert(table)
+      .values({ ...snapshot, userId } as any)
+      .returning();
+    await this.recordAudit(userId, entityType, restored.id, 'create', audit, null, restored);
+    return restored;
+  }
+
+  // The user's base currency, rates and accounts, for filling in a record's currency and base amount.
+  // A record without a currency takes its account's, or else the base currency.
+  private async getCurrencyConversion(userId: string) {
+    const [user, rates, userAccounts] = await Promise.all([
+      this.getUser(userId),
+      this.getExchangeRates(userId),
+      this.getAccounts(userId),
+    ]);
+    const baseCurrency = user?.baseCurrency || 'USD';
+    return {
+      baseCurrency,
+      convert: (record: { amount: number; currency?: string | null; date: Date | string; accountId?: number | null }) => {
+        const accountCurrency = userAccounts.find(account => account.id === record.accountId)?.currency;
+        const currency = record.currency || accountCurrency || baseCurrency;
+        return { currency, baseAmount: convertAmount(record.amount, currency, baseCurrency, record.date, rates) };
+      },
+    };
+  }
+
+  private async recordAudit(
+    userId: string,
+    entityType: AuditEntityType,
+    entityId: number,
+    action: 'create' | 'update' | 'delete',
+    audit: AuditContext,
+    before: Record<string, any> | null,
+    after: Record<string, any> | null
+  ): Promise<void> {
+    // Updates that leave the row as it was (apart from timestamps) are not history
+    if (action === 'update' && before && after && !hasChanges(before, after)) return;
+
+    await db.insert(auditLog).values({
+      userId,
+      entityType,
+      entityId,
+      action,
+      actor: audit.actor,
+      before,
+      after,
+      revertOfId: audit.revertOfId ?? null,
+    });
+  }
+}
+
+function financialRecordConditions(userId: string, filters: FinancialRecordFilters): SQL | undefined {
+  const conditions: Array<SQL | undefined> = [eq(financialRecords.userId, userId), eq(financialRecords.status, 'confirmed')];
+  if (filters.startDate) {
+    conditions.push(gte(financialRecords.date, filters.startDate));
+  }
+  if (filters.endDate) {
+    conditions.push(lt(financialRecords.date, filters.endDate));
+  }
+  if (filters.type) {
+    conditions.push(eq(financialRecords.type, filters.type));
+  }
+  if (filters.category) {
+    conditions.push(ilike(financialRecords.category, escapeLike(filters.category)));
+  }
+  if (filters.query) {
+    const pattern = `%${escapeLike(filters.query)}%`;
+    conditions.push(or(ilike(financialRecords.description, pattern), ilike(financialRecords.category, pattern)));
+  }
+  if (filters.excludeRecurring) {
+    conditions.push(isNull(financialRecords.recurringRecordId));
+  }
+  return and(...conditions);
+}
+
+// ILIKE treats % and _ as wildcards
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+function toDate(value: unknown): Date | null {
+  return value ? new Date(value as string) : null;
+}
+
+function hasChanges(before: Record<string, any>, after: Record<string, any>): boolean {
+  return Object.keys(after).some(field =>
+    field !== 'updatedAt' && JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
@@ -39,5 +39,85 @@ export const FINANCIAL_TYPES = [
   { value: "other", label: "Other" }
 ] as const;
 
+// Transfers move money between two of the user's accounts and count as neither revenue nor expense
+export const TRANSFER_TYPE = { value: "transfer", label: "Transfer", category: "Transfer" } as const;
+
+export const ACCOUNT_TYPES = [
+  { value: "bank", label: "Bank account" },
+  { value: "card", label: "Card" },
+  { value: "cash", label: "Cash" }
+] as const;
+
 export type FinancialType = typeof FINANCIAL_TYPES[number]["value"];
-export type FinancialCategory = typeof FINANCIAL_CATEGORIES[FinancialType][number];
\ No newline at end of file
+export type FinancialCategory = typeof FINANCIAL_CATEGORIES[FinancialType][number];
+
+// Tax lines that revenue and expense categories map to, after US Schedule C. `share` is the percent of the amount
+// that is taxable (income) or deductible (expenses); null lines are not on the schedule.
+export const TAX_LINES = [
+  { value: "gross_receipts", type: "revenue", label: "Gross receipts or sales", line: "1", share: 100 },
+  { value: "other_income", type: "revenue", label: "Other income", line: "6", share: 100 },
+  { value: "non_taxable_income", type: "revenue", label: "Non-taxable income", line: null, share: 0 },
+  { value: "advertising", type: "expense", label: "Advertising", line: "8", share: 100 },
+  { value: "car_truck", type: "expense", label: "Car and truck expenses", line: "9", share: 100 },
+  { value: "commissions_fees", type: "expense", label: "Commissions and fees", line: "10", share: 100 },
+  { value: "contract_labor", type: "expense", label: "Contract labor", line: "11", share: 100 },
+  { value: "depreciation", type: "expense", label: "Depreciation and section 179", line: "13", share: 100 },
+  { value: "insurance", type: "expense", label: "Insurance (other than health)", line: "15", share: 100 },
+  { value: "interest", type: "expense", label: "Interest", line: "16b", share: 100 },
+  { value: "legal_professional", type: "expense", label: "Legal and professional services", line: "17", share: 100 },
+  { value: "office", type: "expense", label: "Office expense", line: "18", share: 100 },
+  { value: "rent_equipment", type: "expense", label: "Rent or lease: vehicles, machinery, equipment", line: "20a", share: 100 },
+  { value: "rent_property", type: "expense", label: "Rent or lease: other business property", line: "20b", share: 100 },
+  { value: "repairs", type: "expense", label: "Repairs and maintenance", line: "21", share: 100 },
+  { value: "supplies", type: "expense", label: "Supplies", line: "22", share: 100 },
+  { value: "taxes_licenses", type: "expense", label: "Taxes and licenses", line: "23", share: 100 },
+  { value: "travel", type: "expense", label: "Travel", line: "24a", share: 100 },
+  { value: "meals", type: "expense", label: "Deductible meals", line: "24b", share: 50 },
+  { value: "utilities", type: "expense", label: "Utilities", line: "25", share: 100 },
+  { value: "wages", type: "expense", label: "Wages", line: "26", share: 100 },
+  { value: "other_expenses", type: "expense", label: "Other expenses", line: "27a", share: 100 },
+  { value: "non_deductible", type: "expense", label: "Non-deductible", line: null, share: 0 },
+] as const;
+
+export type TaxLine = typeof TAX_LINES[number]["value"];
+
+// Tax lines for the built-in categories until the user maps them differently; custom categories start unmapped
+export const DEFAULT_CATEGORY_TAX_LINES: Record<"revenue" | "expense", Record<string, TaxLine>> = {
+  revenue: {
+    Sales: "gross_receipts",
+    Services: "gross_receipts",
+    Consulting: "gross_receipts",
+    Subscriptions: "gross_receipts",
+    Licensing: "gross_receipts",
+    Interest: "other_income",
+    Dividends: "other_income",
+    Other: "other_income",
+  },
+  expense: {
+    Marketing: "advertising",
+    Operations: "other_expenses",
+    Salaries: "wages",
+    Rent: "rent_property",
+    Utilities: "utilities",
+    Software: "office",
+    Travel: "travel",
+    Equipment: "depreciation",
+    Legal: "legal_professional",
+    Insurance: "insurance",
+    Other: "other_expenses",
+  },
+};
+
+// AI actions that can be proposed from chat or the correlation engine
+export const AI_ACTION_TYPES = [
+  { value: "create_task", label: "Create tasks", status: "Creating task" },
+  { value: "update_task_status", label: "Update task status", status: "Updating task" },
+  { value: "create_goal", label: "Create goals", status: "Creating goal" },
+  { value: "update_goal_progress", label: "Update goal progress", status: "Updating goal" },
+  { value: "create_calendar_event", label: "Create calendar events", status: "Creating calendar event" },
+  { value: "update_calendar_event", label: "Update calendar events", status: "Updating calendar event" },
+  { value: "create_financial_record", label: "Create financial records", status: "Creating financial record" },
+  { value: "update_financial_record", label: "Update financial records", status: "Updating financial record" }
+] as const;
+
+export type AIActionType = typeof AI_ACTION_TYPES[number]["value"];
@@ -0,0 +1,102 @@
+// Currency codes and exchange-rate lookup shared by the server (base-currency totals) and the client (formatting).
+// Amounts are always integer minor units (cents); a rate says how many units of `toCurrency` one unit of
+// `fromCurrency` buys on `date`.
+
+export const CURRENCIES = [
+  { code: "USD", label: "US Dollar" },
+  { code: "EUR", label: "Euro" },
+  { code: "GBP", label: "British Pound" },
+  { code: "CAD", label: "Canadian Dollar" },
+  { code: "AUD", label: "Australian Dollar" },
+  { code: "NZD", label: "New Zealand Dollar" },
+  { code: "CHF", label: "Swiss Franc" },
+  { code: "SEK", label: "Swedish Krona" },
+  { code: "NOK", label: "Norwegian Krone" },
+  { code: "DKK", label: "Danish Krone" },
+  { code: "PLN", label: "Polish Zloty" },
+  { code: "JPY", label: "Japanese Yen" },
+  { code: "CNY", label: "Chinese Yuan" },
+  { code: "INR", label: "Indian Rupee" },
+  { code: "SGD", label: "Singapore Dollar" },
+  { code: "HKD", label: "Hong Kong Dollar" },
+  { code: "MXN", label: "Mexican Peso" },
+  { code: "BRL", label: "Brazilian Real" },
+  { code: "ZAR", label: "South African Rand" },
+] as const;
+
+export const DEFAULT_CURRENCY = "USD";
+
+export interface ExchangeRateQuote {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: Date | string;
+}
+
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY, options: { wholeUnits?: boolean } = {}): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency || DEFAULT_CURRENCY,
+    ...(options.wholeUnits ? { maximumFractionDigits: 0, minimumFractionDigits: 0 } : {}),
+  }).format(amount / 100);
+}
+
+// Rate from one currency to another on a date, or null when no loaded rate connects them. Uses the latest
+// quote on or before the date (falling back to the earliest later one), inverting quotes entered the other
+// way round, and crossing through a third currency when there is no direct pair.
+export function findExchangeRate(rates: ExchangeRateQuote[], from: string, to: string, date: Date | string): number | null {
+  if (from === to) return 1;
+  const time = new Date(date).getTime();
+
+  const direct = findPairRate(rates, from, to, time);
+  if (direct !== null) return direct;
+
+  const intermediates = new Set<string>();
+  for (const quote of rates) {
+    if (quote.fromCurrency === from) intermediates.add(quote.toCurrency);
+    if (quote.toCurrency === from) intermediates.add(quote.fromCurrency);
+  }
+  for (const via of Array.from(intermediates).sort()) {
+    if (via === to) continue;
+    const first = findPairRate(rates, from, via, time);
+    const second = first !== null ? findPairRate(rates, via, to, time) : null;
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+}
+
+// Converts an amount in cents, or returns null when there is no rate for it
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  date: Date | string,
+  rates: ExchangeRateQuote[],
+): number | null {
+  const rate = findExchangeRate(rates, from, to, date);
+  return rate === null ? null : Math.round(amount * rate);
+}
+
+function findPairRate(rates: ExchangeRateQuote[], from: string, to: string, time: number): number | null {
+  let before: { time: number; rate: number } | null = null;
+  let after: { time: number; rate: number } | null = null;
+
+  for (const quote of rates) {
+    let rate: number;
+    if (quote.fromCurrency === from && quote.toCurrency === to) {
+      rate = quote.rate;
+    } else if (quote.fromCurrency === to && quote.toCurrency === from) {
+      rate = 1 / quote.rate;
+    } else {
+      continue;
+    }
+    const quoteTime = new Date(quote.date).getTime();
+    if (quoteTime <= time) {
+      if (!before || quoteTime > before.time) before = { time: quoteTime, rate };
+    } else if (!after || quoteTime < after.time) {
+      after = { time: quoteTime, rate };
+    }
+  }
+
+  return (before || after)?.rate ?? null;
+}
@@ -0,0 +1,80 @@
+// Measurement windows for financial goals. Record and goal dates are stored as UTC midnight,
+// so window boundaries are computed in UTC as well.
+
+export const GOAL_PERIODS = [
+  { value: "none", label: "Fixed dates" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+  { value: "yearly", label: "Yearly" }
+] as const;
+
+export type GoalPeriod = typeof GOAL_PERIODS[number]["value"];
+
+export interface GoalWindow {
+  start: Date | null; // inclusive, null = no lower bound
+  end: Date | null; // exclusive, null = no upper bound
+  label: string;
+}
+
+interface GoalWindowSource {
+  startDate?: Date | string | null;
+  targetDate?: Date | string | null;
+  period?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recurring goals measure the calendar period containing `now`; fixed goals run from startDate through targetDate
+export function getGoalWindow(goal: GoalWindowSource, now: Date = new Date()): GoalWindow {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  switch (goal.period) {
+    case "monthly": {
+      const start = new Date(Date.UTC(year, month, 1));
+      const end = new Date(Date.UTC(year, month + 1, 1));
+      return { start, end, label: start.toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" }) };
+    }
+    case "quarterly": {
+      const quarter = Math.floor(month / 3);
+      const start = new Date(Date.UTC(year, quarter * 3, 1));
+      const end = new Date(Date.UTC(year, quarter * 3 + 3, 1));
+      return { start, end, label: `Q${quarter + 1} ${year}` };
+    }
+    case "yearly": {
+      const start = new Date(Date.UTC(year, 0, 1));
+      const end = new Date(Date.UTC(year + 1, 0, 1));
+      return { start, end, label: `${year}` };
+    }
+  }
+
+  const start = goal.startDate ? startOfUTCDay(new Date(goal.startDate)) : null;
+  // targetDate is the last day that counts, so the window ends at the start of the following day
+  const end = goal.targetDate ? new Date(startOfUTCDay(new Date(goal.targetDate)).getTime() + DAY_MS) : null;
+
+  let label = "All time";
+  if (start && end) {
+    label = `${formatWindowDate(start)} – ${formatWindowDate(new Date(end.getTime() - DAY_MS))}`;
+  } else if (start) {
+    label = `Since ${formatWindowDate(start)}`;
+  } else if (end) {
+    label = `Until ${formatWindowDate(new Date(end.getTime() - DAY_MS))}`;
+  }
+
+  return { start, end, label };
+}
+
+export function isInGoalWindow(date: Date | string, window: GoalWindow): boolean {
+  const time = new Date(date).getTime();
+  if (window.start && time < window.start.getTime()) return false;
+  if (window.end && time >= window.end.getTime()) return false;
+  return true;
+}
+
+function startOfUTCDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function formatWindowDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
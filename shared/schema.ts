@@ -1,6 +1,7 @@
-import { pgTable, text, varchar, serial, integer, boolean, timestamp, json, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, boolean, timestamp, doublePrecision, json, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { AI_ACTION_TYPES, TAX_LINES, type AIActionType, type TaxLine } from "./constants";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -22,6 +23,8 @@ export const users = pgTable("users", {
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
   tabOrder: json("tab_order").$type<string[]>().default([]), // Custom tab ordering per user
+  autoApplyActions: json("auto_apply_actions").$type<string[]>().default([]), // AI action types applied without approval
+  baseCurrency: varchar("base_currency", { length: 3 }).notNull().default("USD"), // totals, budgets and goal targets are in this currency
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -33,14 +36,39 @@ export const documents = pgTable("documents", {
   originalName: text("original_name").notNull(),
   mimeType: text("mime_type").notNull(),
   size: integer("size").notNull(),
+  storageKey: text("storage_key"), // original file in file storage; null for uploads from before originals were kept
   content: text("content"),
   summary: text("summary"),
   insights: json("insights").$type<string[]>().default([]),
-  status: text("status").notNull().default("pending"), // pending, processing, completed, error
+  tables: json("tables").$type<DocumentTable[]>(), // set for spreadsheet uploads
+  pages: json("pages").$type<DocumentPage[]>(), // how each PDF page or image was read
+  extraction: json("extraction").$type<FinancialDocumentExtraction>(), // set for receipts, invoices and bills
+  status: text("status").notNull().default("pending"), // pending, processing, completed, warning (processed, but the text may be unreliable), error
+  warning: text("warning"),
+  previousVersionId: integer("previous_version_id").references((): AnyPgColumn => documents.id, { onDelete: "set null" }),
+  version: integer("version").notNull().default(1),
+  supersededAt: timestamp("superseded_at"), // set once a newer version is uploaded; superseded versions are hidden from lists and search
+  insightsDiff: json("insights_diff").$type<InsightsDiff>(), // insights compared with the previous version
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
   processedAt: timestamp("processed_at"),
 });
 
+// Passages of a document's extracted text, indexed for search; embedding is null when no embedding model is configured
+export const documentChunks = pgTable(
+  "document_chunks",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+    chunkIndex: integer("chunk_index").notNull(), // 0-based position in the document; cited as passage chunkIndex + 1
+    content: text("content").notNull(),
+    embedding: json("embedding").$type<number[] | null>(),
+    embeddingModel: text("embedding_model"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_document_chunks_user").on(table.userId, table.documentId)],
+);
+
 export const goals = pgTable("goals", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
@@ -48,8 +76,11 @@ export const goals = pgTable("goals", {
   description: text("description"),
   type: text("type").notNull(), // revenue, expense, other
   category: text("category").notNull(),
+  financialCategories: json("financial_categories").$type<string[]>().default([]), // financial record categories counted toward progress; empty = all
   targetAmount: integer("target_amount"), // target amount in cents for revenue/expense goals
+  startDate: timestamp("start_date"), // start of the measurement window for fixed-date goals
   targetDate: timestamp("target_date"),
+  period: text("period").notNull().default("none"), // none, monthly, quarterly, yearly
   progress: integer("progress").notNull().default(0), // 0-100
   status: text("status").notNull().default("active"), // active, completed, paused
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -110,18 +141,216 @@ export const calendarEvents = pgTable("calendar_events", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Templates for rent, salaries, subscriptions...; server/services/recurringRecords.ts turns due occurrences into financial records
+export const recurringRecords = pgTable(
+  "recurring_records",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    type: text("type").notNull(), // revenue, expense, other
+    category: text("category").notNull(),
+    amount: integer("amount").notNull(), // in cents
+    currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+    accountId: integer("account_id").references(() => accounts.id), // account the generated records belong to
+    description: text("description"),
+    rule: json("rule").$type<RecurrenceRule>().notNull(),
+    startDate: timestamp("start_date").notNull(), // first possible occurrence
+    endDate: timestamp("end_date"), // last possible occurrence; null = open-ended
+    exceptions: json("exceptions").$type<Record<string, RecurringOccurrenceException>>().notNull().default({}), // keyed by occurrence date (yyyy-mm-dd)
+    nextRunAt: timestamp("next_run_at"), // next occurrence not yet recorded; null once the schedule has ended
+    lastOccurrenceAt: timestamp("last_occurrence_at"), // most recent occurrence turned into a record (or skipped)
+    active: boolean("active").notNull().default(true), // paused templates record nothing
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_recurring_records_next_run_at").on(table.active, table.nextRunAt)],
+);
+
+// Bank accounts, cards and cash the money moves through; balances are derived from the opening balance and the records
+export const accounts = pgTable("accounts", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // bank, card, cash
+  currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+  openingBalance: integer("opening_balance").notNull().default(0), // in cents of `currency` at the start of openingDate; negative for a card balance owed
+  openingDate: timestamp("opening_date").notNull(), // records dated earlier are already in the opening balance
+  archived: boolean("archived").notNull().default(false), // hidden when picking an account for new records
+  reconciledAt: timestamp("reconciled_at"), // statement date of the last finished reconciliation
+  reconciledBalance: integer("reconciled_balance"), // statement balance that reconciliation matched, in cents
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const financialRecords = pgTable("financial_records", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
-  type: text("type").notNull(), // revenue, expense, other
+  type: text("type").notNull(), // revenue, expense, other, transfer (between two of the user's accounts; neither revenue nor expense)
   category: text("category").notNull(),
-  amount: integer("amount").notNull(), // in cents
+  amount: integer("amount").notNull(), // in cents of `currency`
+  currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+  baseAmount: integer("base_amount"), // amount in cents of the user's base currency; null while no exchange rate covers it
+  taxAmount: integer("tax_amount").notNull().default(0), // sales tax or VAT included in amount, in cents of `currency`
   description: text("description"),
   date: timestamp("date").notNull(),
+  documentId: integer("document_id").references(() => documents.id, { onDelete: "set null" }), // receipt or invoice the record was extracted from
+  status: text("status").notNull().default("confirmed"), // draft (extracted, awaiting confirmation; excluded from totals), confirmed
+  recurringRecordId: integer("recurring_record_id").references(() => recurringRecords.id, { onDelete: "set null" }), // template the record was generated from
+  accountId: integer("account_id").references(() => accounts.id), // where the money came in or went out; the sending account of a transfer
+  transferAccountId: integer("transfer_account_id").references(() => accounts.id), // transfers only: the receiving account
+  clearedAt: timestamp("cleared_at"), // set when reconciled against a statement of accountId
+  transferClearedAt: timestamp("transfer_cleared_at"), // set when reconciled against a statement of transferAccountId
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Exchange rates entered manually or imported from a file; records are converted with the latest rate on or before their date
+export const exchangeRates = pgTable(
+  "exchange_rates",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    fromCurrency: varchar("from_currency", { length: 3 }).notNull(),
+    toCurrency: varchar("to_currency", { length: 3 }).notNull(),
+    rate: doublePrecision("rate").notNull(), // units of toCurrency per one unit of fromCurrency
+    date: timestamp("date").notNull(), // day the rate applies from
+    source: text("source").notNull().default("manual"), // manual, import
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("IDX_exchange_rates_pair_date").on(table.userId, table.fromCurrency, table.toCurrency, table.date)],
+);
+
+// Tax line a revenue or expense category is reported on; categories without a row use DEFAULT_CATEGORY_TAX_LINES
+export const categoryTaxLines = pgTable(
+  "category_tax_lines",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    type: text("type").notNull(), // revenue, expense
+    category: text("category").notNull(), // matched case-insensitively like budget categories
+    taxLine: text("tax_line").notNull(), // a TAX_LINES value of the same type
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("IDX_category_tax_lines_category").on(table.userId, table.type, table.category)],
+);
+
+// Income tax rate table for quarterly estimates; rows sharing a name are the brackets of one progressive tax
+export const taxRates = pgTable(
+  "tax_rates",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    name: text("name").notNull(), // e.g. "Federal income tax"
+    threshold: integer("threshold").notNull().default(0), // annual taxable profit in cents the rate applies above
+    rate: doublePrecision("rate").notNull(), // percent
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("IDX_tax_rates_name_threshold").on(table.userId, table.name, table.threshold)],
+);
+
+// Suspected duplicate pairs awaiting review; rows go away with either record
+export const financialRecordDuplicates = pgTable("financial_record_duplicates", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  recordId: integer("record_id").notNull().references(() => financialRecords.id, { onDelete: "cascade" }), // the newer record
+  duplicateOfId: integer("duplicate_of_id").notNull().references(() => financialRecords.id, { onDelete: "cascade" }),
+  score: integer("score").notNull(), // 0-100 match confidence
+  reasons: json("reasons").$type<string[]>().default([]),
+  status: text("status").notNull().default("pending"), // pending, dismissed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// Spending limits per expense category and period; server/services/budgetTracker.ts compares them with actual spend
+export const budgets = pgTable("budgets", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  category: text("category").notNull(), // expense category, matched case-insensitively like goal categories
+  period: text("period").notNull().default("monthly"), // monthly, quarterly
+  amount: integer("amount").notNull(), // in cents per period
+  alertThresholds: json("alert_thresholds").$type<number[]>().notNull().default([80, 100]), // percentages of the amount that raise an alert
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One row per threshold a budget passed in a period, so each alert fires once
+export const budgetAlerts = pgTable(
+  "budget_alerts",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    budgetId: integer("budget_id").notNull().references(() => budgets.id, { onDelete: "cascade" }),
+    periodStart: timestamp("period_start").notNull(),
+    threshold: integer("threshold").notNull(), // percentage that was passed
+    spent: integer("spent").notNull(), // in cents when the alert fired
+    budgetAmount: integer("budget_amount").notNull(), // in cents when the alert fired
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    acknowledgedAt: timestamp("acknowledged_at"),
+  },
+  (table) => [uniqueIndex("IDX_budget_alerts_period_threshold").on(table.budgetId, table.periodStart, table.threshold)],
+);
+
+// AI-proposed creates and updates awaiting approval; auto-applied actions are kept here as history too
+export const pendingChanges = pgTable("pending_changes", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  source: text("source").notNull(), // chat, correlation
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+  actionType: text("action_type").notNull(), // create_task, update_goal_progress, ...
+  entityType: text("entity_type").notNull(), // task, goal, calendar_event, financial_record
+  entityId: integer("entity_id"), // target of an update, or the created entity once applied
+  parameters: json("parameters").$type<Record<string, any>>().notNull(),
+  diff: json("diff").$type<PendingChangeDiff[]>().default([]),
+  summary: text("summary").notNull(),
+  reasoning: text("reasoning"),
+  status: text("status").notNull().default("pending"), // pending, applied, rejected, failed
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// Append-only history of changes to user data; before/after hold full row snapshots
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    entityType: text("entity_type").notNull(), // goal, task, calendar_event, financial_record, business_context
+    entityId: integer("entity_id").notNull(),
+    action: text("action").notNull(), // create, update, delete
+    actor: text("actor").notNull(), // user, chat, correlation, system
+    before: json("before").$type<Record<string, any> | null>(),
+    after: json("after").$type<Record<string, any> | null>(),
+    revertOfId: integer("revert_of_id"), // audit entry this change undid
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_audit_log_entity").on(table.userId, table.entityType, table.entityId)],
+);
+
+// Durable background work; the worker in server/services/jobQueue.ts claims due jobs and retries failures with backoff
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    type: text("type").notNull(), // process_document, correlate_financial_records
+    documentId: integer("document_id").references(() => documents.id, { onDelete: "cascade" }),
+    payload: json("payload").$type<Record<string, any>>().notNull().default({}),
+    status: text("status").notNull().default("queued"), // queued, running, completed, dead (gave up after maxAttempts)
+    progress: integer("progress").notNull().default(0), // 0-100
+    step: text("step"), // e.g. "Summarizing", shown while running
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(5),
+    runAt: timestamp("run_at").defaultNow().notNull(), // not claimed before this; pushed back after each failure
+    lockedAt: timestamp("locked_at"), // last sign of life from the running attempt
+    lockToken: varchar("lock_token"), // identifies the running attempt; its writes are ignored once it loses the job
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [index("IDX_jobs_status_run_at").on(table.status, table.runAt)],
+);
+
 export const businessContext = pgTable("business_context", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
@@ -141,6 +370,11 @@ export const insertDocumentSchema = createInsertSchema(documents).omit({
   uploadedAt: true,
   processedAt: true,
   insights: true,
+  tables: true,
+  pages: true,
+  extraction: true,
+  supersededAt: true,
+  insightsDiff: true,
 });
 
 export const insertGoalSchema = createInsertSchema(goals).omit({
@@ -149,9 +383,12 @@ export const insertGoalSchema = createInsertSchema(goals).omit({
   createdAt: true,
   updatedAt: true,
 }).extend({
+  startDate: z.union([z.string(), z.null()]).optional(),
   targetDate: z.union([z.string(), z.null()]).optional(),
+  period: z.enum(["none", "monthly", "quarterly", "yearly"]).default("none"),
   type: z.enum(["revenue", "expense", "other"]),
   category: z.string().min(1, "Category is required"),
+  financialCategories: z.array(z.string().min(1)).default([]),
 });
 
 export const insertAiInsightSchema = createInsertSchema(aiInsights).omit({
@@ -164,6 +401,7 @@ export const upsertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
   updatedAt: true,
   tabOrder: true,
+  autoApplyActions: true,
 });
 
 export const loginSchema = z.object({
@@ -209,12 +447,151 @@ export const insertCalendarEventSchema = z.object({
   completed: z.boolean().default(false),
 });
 
+export const currencyCodeSchema = z.string()
+  .regex(/^[A-Za-z]{3}$/, "Currency must be a three-letter ISO code")
+  .transform((code) => code.toUpperCase());
+
 export const insertFinancialRecordSchema = z.object({
-  type: z.enum(["revenue", "expense", "other"]),
+  type: z.enum(["revenue", "expense", "other", "transfer"]),
   category: z.string().min(1, "Category is required"),
   amount: z.number().min(0.01, "Amount must be greater than 0"),
+  currency: currencyCodeSchema.optional(), // defaults to the account's currency, then the user's base currency
+  taxAmount: z.number().int().min(0, "Tax amount cannot be negative").optional(), // in cents, included in amount
+  accountId: z.number().int().nullable().optional(),
+  transferAccountId: z.number().int().nullable().optional(), // required for transfers, which need both accounts
+  description: z.string().optional(),
+  date: z.string().min(1, "Date is required"),
+});
+
+// Optional corrections applied when a draft record extracted from a document is confirmed
+export const confirmFinancialRecordSchema = insertFinancialRecordSchema.partial();
+
+export const recurrenceRuleSchema = z.object({
+  freq: z.enum(["daily", "weekly", "monthly", "yearly"]),
+  interval: z.number().int().min(1).max(366).default(1),
+  byWeekday: z.array(z.number().int().min(0).max(6)).optional(), // weekly only; 0 = Sunday
+  byMonthDay: z.number().int().min(-1).max(31).refine(day => day !== 0, "Day of month cannot be 0").optional(), // monthly only; -1 = last day
+});
+
+export const insertRecurringRecordSchema = z.object({
+  type: z.enum(["revenue", "expense", "other"]),
+  category: z.string().min(1, "Category is required"),
+  amount: z.number().int().min(1, "Amount must be greater than 0"),
+  currency: currencyCodeSchema.optional(), // defaults to the user's base currency
+  accountId: z.number().int().nullable().optional(),
+  description: z.string().optional(),
+  rule: recurrenceRuleSchema,
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().nullable().optional(),
+});
+
+export const updateRecurringRecordSchema = insertRecurringRecordSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+// Skips one upcoming occurrence, or changes what gets recorded for it
+export const recurringOccurrenceExceptionSchema = z.object({
+  skip: z.boolean().optional(),
+  amount: z.number().int().min(1).optional(),
+  category: z.string().min(1).optional(),
+  description: z.string().optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be yyyy-mm-dd").optional(), // records the occurrence on another day
+});
+
+export const insertBudgetSchema = z.object({
+  category: z.string().min(1, "Category is required"),
+  period: z.enum(["monthly", "quarterly"]).default("monthly"),
+  amount: z.number().int().min(1, "Amount must be greater than 0"),
+  alertThresholds: z.array(z.number().int().min(1).max(500)).max(5).default([80, 100]),
+});
+
+export const updateBudgetSchema = insertBudgetSchema.partial();
+
+export const statementColumnMappingSchema = z.object({
+  date: z.string().min(1, "Date column is required"),
+  amount: z.string().optional(), // single signed amount column
+  debit: z.string().optional(), // alternatively, separate money-out / money-in columns
+  credit: z.string().optional(),
+  type: z.string().optional(),
+  category: z.string().optional(),
   description: z.string().optional(),
+  defaultType: z.enum(["auto", "revenue", "expense", "other"]).default("auto"), // auto = positive is revenue, negative is expense
+  defaultCategory: z.string().default("Other"),
+  dateFormat: z.enum(["auto", "YMD", "MDY", "DMY"]).default("auto"),
+}).refine((mapping) => mapping.amount || mapping.debit || mapping.credit, {
+  message: "Map an amount column or debit/credit columns",
+  path: ["amount"],
+});
+
+export const financialRecordImportSchema = z.object({
+  rows: z.array(insertFinancialRecordSchema).min(1, "At least one row is required"),
+});
+
+export const updateAutoApplyActionsSchema = z.object({
+  autoApplyActions: z.array(z.enum(AI_ACTION_TYPES.map(action => action.value) as [AIActionType, ...AIActionType[]])),
+});
+
+export const updateBaseCurrencySchema = z.object({
+  baseCurrency: currencyCodeSchema,
+});
+
+export const insertAccountSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  type: z.enum(["bank", "card", "cash"]),
+  currency: currencyCodeSchema.optional(), // defaults to the user's base currency
+  openingBalance: z.number().int().default(0),
+  openingDate: z.string().min(1, "Opening date is required"),
+});
+
+export const updateAccountSchema = insertAccountSchema.partial().extend({
+  archived: z.boolean().optional(),
+});
+
+// Marks the ticked records as cleared once they add up to the statement balance
+export const reconcileAccountSchema = z.object({
+  statementDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Statement date must be yyyy-mm-dd"),
+  statementBalance: z.number().int(), // in cents of the account's currency
+  recordIds: z.array(z.number().int()).default([]),
+});
+
+// Query for /api/reports/*; `periods` calendar months or quarters up to and including the one containing `end`
+export const reportQuerySchema = z.object({
+  period: z.enum(["month", "quarter"]).default("month"),
+  periods: z.coerce.number().int().min(1).max(36).optional(), // defaults to 12 months or 4 quarters
+  end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End must be yyyy-mm-dd").optional(), // defaults to today
+  format: z.enum(["json", "csv", "pdf"]).default("json"),
+});
+
+export const insertExchangeRateSchema = z.object({
+  fromCurrency: currencyCodeSchema,
+  toCurrency: currencyCodeSchema,
+  rate: z.number().positive("Rate must be greater than 0"),
   date: z.string().min(1, "Date is required"),
+}).refine((rate) => rate.fromCurrency !== rate.toCurrency, {
+  message: "Choose two different currencies",
+  path: ["toCurrency"],
+});
+
+const taxLineSchema = z.enum(TAX_LINES.map(line => line.value) as [TaxLine, ...TaxLine[]]);
+
+// A null tax line puts the category back on its default
+export const updateCategoryTaxLineSchema = z.object({
+  type: z.enum(["revenue", "expense"]),
+  category: z.string().trim().min(1, "Category is required"),
+  taxLine: taxLineSchema.nullable(),
+}).refine((mapping) => mapping.taxLine === null || TAX_LINES.some(line => line.value === mapping.taxLine && line.type === mapping.type), {
+  message: "Choose a tax line for the category's type",
+  path: ["taxLine"],
+});
+
+export const insertTaxRateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  threshold: z.number().int().min(0, "Threshold cannot be negative").default(0), // in cents of annual taxable profit
+  rate: z.number().min(0, "Rate cannot be negative").max(100, "Rate cannot be over 100%"),
+});
+
+export const mergeFinancialRecordDuplicateSchema = z.object({
+  keep: z.enum(["original", "duplicate"]).default("original"),
 });
 
 export const insertBusinessContextSchema = createInsertSchema(businessContext).omit({
@@ -246,5 +623,272 @@ export type InsertCalendarEvent = z.infer<typeof insertCalendarEventSchema>;
 export type CalendarEvent = typeof calendarEvents.$inferSelect;
 export type InsertFinancialRecord = z.infer<typeof insertFinancialRecordSchema>;
 export type FinancialRecord = typeof financialRecords.$inferSelect;
+export type FinancialRecordStatus = 'draft' | 'confirmed';
+export type RecurringRecord = typeof recurringRecords.$inferSelect;
+export type InsertRecurringRecord = z.infer<typeof insertRecurringRecordSchema>;
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+export type RecurringOccurrenceException = z.infer<typeof recurringOccurrenceExceptionSchema>;
+export type UpcomingRecurringOccurrence = {
+  recurringRecordId: number;
+  occurrenceDate: string; // yyyy-mm-dd; identifies the occurrence when skipping or editing it
+  date: string; // yyyy-mm-dd the record will carry, which an edit may have moved
+  type: string;
+  category: string;
+  amount: number; // in cents of `currency`
+  currency: string;
+  description: string | null;
+  skipped: boolean;
+  edited: boolean;
+};
+export type Account = typeof accounts.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type AccountSummary = Account & {
+  balance: number; // opening balance plus every record since the opening date, in cents of the account's currency
+  clearedBalance: number; // opening balance plus cleared records only
+  recordCount: number;
+  unclearedCount: number;
+  unconverted: number; // records in another currency left out because no exchange rate covers them
+};
+// One line of an account's register, oldest first
+export type AccountRegisterEntry = {
+  record: FinancialRecord;
+  amount: number | null; // signed change to the account in cents of its currency; null while no exchange rate covers it
+  balance: number; // running balance after this record
+  cleared: boolean;
+};
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type CategoryTaxLine = typeof categoryTaxLines.$inferSelect;
+export type UpdateCategoryTaxLine = z.infer<typeof updateCategoryTaxLineSchema>;
+export type TaxCategory = {
+  type: 'revenue' | 'expense';
+  category: string;
+  count: number; // confirmed records in the category
+  taxLine: TaxLine | null; // null = unmapped: income is taxed as gross receipts, expenses are not deducted
+  defaultTaxLine: TaxLine | null;
+};
+export type TaxRate = typeof taxRates.$inferSelect;
+export type InsertTaxRate = z.infer<typeof insertTaxRateSchema>;
+export type Budget = typeof budgets.$inferSelect;
+export type InsertBudget = z.infer<typeof insertBudgetSchema>;
+export type BudgetAlert = typeof budgetAlerts.$inferSelect;
+export type InsertBudgetAlert = typeof budgetAlerts.$inferInsert;
+export type BudgetStatus = Budget & {
+  periodStart: string; // ISO date, inclusive
+  periodEnd: string; // ISO date, exclusive
+  periodLabel: string; // e.g. "October 2026", "Q4 2026"
+  spent: number; // confirmed expenses in the category this period, in cents
+  variance: number; // amount - spent; negative when over budget
+  percentUsed: number;
+  status: 'under' | 'warning' | 'over'; // warning once the lowest alert threshold is passed
+};
+export type ForecastBand = {
+  expected: number; // in cents
+  low: number; // lower bound of the confidence band
+  high: number; // upper bound of the confidence band
+};
+export type CashFlowForecastMonth = {
+  month: string; // yyyy-mm
+  revenue: ForecastBand;
+  expenses: ForecastBand;
+  net: ForecastBand; // revenue - expenses
+  cumulativeNet: ForecastBand; // running net from the start of the forecast
+  scheduledRevenue: number; // recurring revenue included in the month, in cents
+  scheduledExpenses: number; // recurring expenses included in the month, in cents
+};
+export type CashFlowForecastGoal = {
+  goalId: number;
+  title: string;
+  type: string; // revenue, expense
+  targetAmount: number; // in cents
+  projected: number; // actual so far plus the expected amount for the rest of the window, in cents
+  windowLabel: string;
+  onTrack: boolean; // revenue goals reach the target; expense goals stay under it
+  partial: boolean; // the goal window runs past the forecast horizon
+};
+export type CashFlowForecast = {
+  months: number; // horizon, including the current month
+  currency: string; // base currency every amount is in
+  confidence: number; // coverage of the bands, e.g. 0.8
+  historyMonths: number; // complete months the model was fitted on
+  trend: boolean;
+  seasonality: boolean;
+  history: Array<{ month: string; revenue: number; expenses: number; net: number }>;
+  forecast: CashFlowForecastMonth[];
+  totals: { revenue: ForecastBand; expenses: ForecastBand; net: ForecastBand };
+  goals: CashFlowForecastGoal[];
+};
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+export type ReportColumn = {
+  key: string; // yyyy-mm or yyyy-Qn
+  label: string; // e.g. "Oct 2026", "Q4 2026", or the as-of date on a balance sheet
+  start: string; // yyyy-mm-dd, inclusive
+  end: string; // yyyy-mm-dd, exclusive; the last column stops after the report's end date
+};
+// Change from the previous column, or from the period before the report for the first one
+export type ReportChange = {
+  amount: number; // in cents
+  percent: number | null; // null when the previous amount was 0
+};
+export type ReportLine = {
+  label: string;
+  amounts: number[]; // one per column, in cents of the base currency
+  total: number | null; // sum over the columns; null on a balance sheet, where columns are points in time
+  changes: ReportChange[]; // one per column
+};
+export type ReportSection = {
+  title: string;
+  lines: ReportLine[];
+  total: ReportLine;
+  increaseIsGood: boolean; // false for expenses and liabilities
+};
+export type FinancialReport = {
+  kind: 'profit-and-loss' | 'cash-flow' | 'balance-sheet' | 'tax-estimate';
+  title: string;
+  period: 'month' | 'quarter';
+  currency: string; // base currency every amount is in
+  columns: ReportColumn[]; // oldest first
+  sections: ReportSection[];
+  result: ReportLine; // net income, net change in cash, net worth or estimated tax due
+  unconverted: number; // records or accounts left out because no exchange rate covers them
+  generatedAt: string; // ISO timestamp
+};
+// A figure a metric is computed from, e.g. "Sep 2026 revenue"
+export type MetricInput = {
+  label: string;
+  value: number;
+  unit: 'money' | 'count'; // money in cents of the base currency
+};
+export type FinancialMetric = {
+  key: string; // stable id the AI commentary cites, e.g. "revenue_mom"
+  label: string;
+  value: number | null; // null when it can't be computed, with the reason in `note`
+  unit: 'percent' | 'money' | 'months';
+  formula: string;
+  inputs: MetricInput[];
+  note: string | null;
+};
+export type CategoryAverage = {
+  key: string; // e.g. "average:expense:Rent"
+  type: 'revenue' | 'expense';
+  category: string;
+  count: number;
+  total: number; // in cents of the base currency
+  average: number; // total / count, in cents
+};
+export type FinancialMetrics = {
+  currency: string; // base currency every amount is in
+  month: string; // yyyy-mm of the last complete month, which month-over-month and year-over-year figures compare
+  metrics: FinancialMetric[];
+  categoryAverages: CategoryAverage[]; // over the trailing twelve complete months, largest total first
+  unconverted: number; // records left out because no exchange rate covers them
+  generatedAt: string; // ISO timestamp
+};
+// One statement of the AI commentary and the metric keys it relies on
+export type FinancialCommentary = {
+  text: string;
+  citations: string[];
+};
+export type FinancialAnalysis = {
+  metrics: FinancialMetrics;
+  commentary: FinancialCommentary[];
+  commentaryError: string | null; // set when the commentary could not be generated; the metrics still stand
+};
+export type FinancialRecordDuplicate = typeof financialRecordDuplicates.$inferSelect;
+export type InsertFinancialRecordDuplicate = typeof financialRecordDuplicates.$inferInsert;
+export type StatementColumnMapping = z.infer<typeof statementColumnMappingSchema>;
+export type ImportPreviewRow = {
+  rowNumber: number;
+  type: "revenue" | "expense" | "other";
+  category: string;
+  amount: number; // in cents, always positive
+  date: string | null; // ISO date (yyyy-mm-dd)
+  description: string;
+  errors: string[];
+};
+export type PendingChange = typeof pendingChanges.$inferSelect;
+export type InsertPendingChange = typeof pendingChanges.$inferInsert;
+export type PendingChangeDiff = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+// Progress of a single chat tool call, streamed to the client while the reply is generated
+export type ChatToolEvent = {
+  actionType: string; // AI action type or read-only query tool name
+  label: string; // e.g. "Updating goal", "Searching financial records"
+  status: 'running' | 'completed' | 'applied' | 'proposed' | 'failed' | 'skipped';
+  summary: string;
+  error?: string;
+};
+// A table found in an uploaded spreadsheet; a sheet can hold several tables separated by blank rows
+export type DocumentTable = {
+  sheet: string;
+  title: string | null; // text rows above the header, e.g. "Profit & Loss, FY2024"
+  columns: string[];
+  rows: string[][]; // cell text as displayed, dates as yyyy-mm-dd; may be truncated
+  rowCount: number; // data rows in the source table
+  financial: boolean; // has date and amount columns that can be imported as financial records
+};
+export type DocumentPage = {
+  page: number; // 1-based
+  method: 'text' | 'ocr';
+  confidence: number | null; // OCR confidence 0-100; null for embedded text
+  characters: number;
+};
+// Structured fields pulled from a receipt, invoice or bill; amounts in cents
+export type FinancialDocumentExtraction = {
+  documentType: 'receipt' | 'invoice' | 'bill';
+  direction: 'expense' | 'revenue'; // revenue for invoices the business issued
+  vendor: string | null; // the other party: seller, supplier or customer
+  documentNumber: string | null;
+  date: string | null; // yyyy-mm-dd
+  currency: string | null;
+  category: string;
+  lineItems: { description: string; quantity: number | null; amount: number }[];
+  subtotal: number | null;
+  tax: number | null;
+  total: number;
+};
+export type InsightSnapshot = {
+  type: string; // opportunity, warning, suggestion
+  title: string;
+  content: string;
+};
+// How a new document version's insights compare with the previous version's
+export type InsightsDiff = {
+  previousDocumentId: number;
+  previousVersion: number;
+  added: InsightSnapshot[];
+  resolved: InsightSnapshot[]; // raised by the previous version, no longer present
+  changed: { before: InsightSnapshot; after: InsightSnapshot; change: string }[];
+  unchanged: InsightSnapshot[];
+};
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+export type InsertDocumentChunk = typeof documentChunks.$inferInsert;
+// A passage returned by document search; method is "hybrid" when embeddings contributed to the ranking
+export type DocumentSearchResult = {
+  documentId: number;
+  filename: string;
+  passage: number; // 1-based
+  content: string;
+  score: number;
+};
+export type DocumentSearchResponse = {
+  method: 'lexical' | 'hybrid';
+  results: DocumentSearchResult[];
+};
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+export type JobType = 'process_document' | 'correlate_financial_records';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead';
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLog.$inferInsert;
+export type AuditEntityType = 'goal' | 'task' | 'calendar_event' | 'financial_record' | 'business_context';
+export type AuditActor = 'user' | 'chat' | 'correlation' | 'system';
+export type AuditContext = {
+  actor: AuditActor;
+  revertOfId?: number;
+};
 export type InsertBusinessContext = z.infer<typeof insertBusinessContextSchema>;
 export type BusinessContext = typeof businessContext.$inferSelect;